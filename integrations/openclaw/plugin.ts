@@ -16,11 +16,13 @@ import { ClasperClient } from './src/clasperClient.js';
 import { createGovernedDispatch } from './src/governedDispatch.js';
 import { inferIntent, mapToolContext } from './src/intentInference.js';
 import { waitForApproval } from './src/approval.js';
+import { buildApprovalPreview } from './src/approvalPreview.js';
 import { normalizeToolName } from './src/toolNames.js';
 import { reportBlocked, reportExecuted } from './src/telemetry.js';
 import {
   buildRequestFingerprint,
   clearReusableExecutionId,
+  extractSessionId,
   getReusableExecutionId,
   setReusableExecutionId,
   type InFlightExecution,
@@ -397,7 +399,9 @@ export async function register(api: OpenClawPluginApi): Promise<void> {
           tool_group: toolGroup,
           intent: finalIntent,
           intent_source: finalIntentSource,
+          session_id: extractSessionId(context),
           context: toolContext,
+          preview: await buildApprovalPreview(toolName, params),
         });
 
         const effect = decision.decision ?? (decision.allowed ? 'allow' : 'deny');
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { waitForApproval } from './approval.js';
+import { ClasperClient } from './clasperClient.js';
+
+const mockFetch = vi.fn();
+const log = vi.fn();
+
+function status(effect: 'allow' | 'deny' | 'pending') {
+  return { execution_id: 'exec-1', effect, decision_id: 'dec-1', approval_type: 'local' };
+}
+
+function eventStream(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function decisionEvent(effect: 'allow' | 'deny' | 'pending'): string {
+  return `event: decision\ndata: ${JSON.stringify(status(effect))}\n\n`;
+}
+
+function client(): ClasperClient {
+  const c = new ClasperClient({
+    baseUrl: 'http://clasper.test',
+    adapterId: 'openclaw-local',
+    tenantId: 'local',
+    workspaceId: 'local',
+    log,
+    maxRetries: 0,
+  });
+  c.setToken('adapter-token');
+  return c;
+}
+
+const options = { log, decisionId: 'dec-1', timeoutMs: 5_000, pollIntervalMs: 1 };
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  log.mockReset();
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openclaw approval wait', () => {
+  it('resumes as soon as the decision stream reports the resolution', async () => {
+    mockFetch.mockResolvedValueOnce(
+      eventStream(['event: connected\ndata: {}\n\n', decisionEvent('pending'), ': heartbeat\n\n', decisionEvent('allow')])
+    );
+
+    await expect(waitForApproval(client(), 'exec-1', options)).resolves.toBeUndefined();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://clasper.test/api/execution/exec-1/events');
+    expect(init.headers).toMatchObject({ 'X-Adapter-Token': 'adapter-token', Accept: 'text/event-stream' });
+
+    mockFetch.mockResolvedValueOnce(eventStream([decisionEvent('pending'), decisionEvent('deny')]));
+    await expect(waitForApproval(client(), 'exec-1', options)).rejects.toThrow('Approval denied');
+  });
+
+  it('fails closed when the stream drops before the decision is resolved', async () => {
+    mockFetch.mockResolvedValueOnce(eventStream([decisionEvent('pending')]));
+
+    await expect(waitForApproval(client(), 'exec-1', options)).rejects.toThrow('Fail-closed');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to polling when the stream is unavailable', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+      .mockResolvedValueOnce(Response.json(status('pending')))
+      .mockResolvedValueOnce(Response.json(status('allow')));
+
+    await expect(waitForApproval(client(), 'exec-1', options)).resolves.toBeUndefined();
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://clasper.test/api/execution/exec-1/events',
+      'http://clasper.test/api/execution/exec-1',
+      'http://clasper.test/api/execution/exec-1',
+    ]);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('falling back to polling'));
+  });
+});
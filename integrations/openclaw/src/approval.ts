@@ -1,13 +1,16 @@
 /**
- * Approval polling — wait for a pending decision to be resolved.
+ * Approval wait — block until a pending decision is resolved.
  *
- * Polls GET /api/execution/:id every interval until:
+ * Listens on GET /api/execution/:id/events (pushed as soon as the decision is
+ * resolved) and falls back to polling GET /api/execution/:id every interval
+ * when the stream is unavailable, until:
  *  - Approved → returns (execution proceeds)
- *  - Denied → throws (execution blocked)
- *  - Timeout → throws (fail-closed)
+ *  - Denied or expired → throws (execution blocked)
+ *  - Timeout or stream dropped → throws (fail-closed)
  */
 
-import type { ClasperClient } from './clasperClient.js';
+import { DecisionStreamUnavailableError, type ClasperClient } from './clasperClient.js';
+import type { DecisionStatusResponse } from './types.js';
 import type { LogFn } from './types.js';
 
 // ---------------------------------------------------------------------------
@@ -17,7 +20,7 @@ import type { LogFn } from './types.js';
 export interface ApprovalOptions {
   /** Approval timeout in ms (default: 5 minutes). */
   timeoutMs?: number;
-  /** Polling interval in ms (default: 2000). */
+  /** Polling interval in ms when the decision stream is unavailable (default: 2000). */
   pollIntervalMs?: number;
   /** Logger. */
   log: LogFn;
@@ -30,8 +33,10 @@ export interface ApprovalOptions {
 const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_POLL_INTERVAL_MS = 2000;
 
+const REMINDER_INTERVAL_MS = 10_000;
+
 // ---------------------------------------------------------------------------
-// Poll loop
+// Wait
 // ---------------------------------------------------------------------------
 
 /**
@@ -42,6 +47,63 @@ export async function waitForApproval(
   client: ClasperClient,
   executionId: string,
   options: ApprovalOptions
+): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const log = options.log;
+  const decisionId = options.decisionId ?? 'unknown';
+  const approvalsUrl = options.approvalsUrl;
+  const hint = approvalsUrl
+    ? ` Approve or deny at ${approvalsUrl}`
+    : ' Approve or deny in Clasper Ops Console (Approvals tab)';
+  const deadline = Date.now() + timeoutMs;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const reminder = setInterval(() => {
+    const remainingSec = Math.round((deadline - Date.now()) / 1000);
+    log(`[clasper] Still awaiting approval (decision_id=${decisionId}, remaining=${remainingSec}s).${hint}`);
+  }, REMINDER_INTERVAL_MS);
+
+  let status: DecisionStatusResponse;
+  try {
+    status = await client.waitForDecisionStatus(executionId, controller.signal);
+  } catch (err) {
+    if (err instanceof DecisionStreamUnavailableError) {
+      log(`${err.message} — falling back to polling (decision_id=${decisionId})`);
+      clearInterval(reminder);
+      clearTimeout(timer);
+      return pollForApproval(client, executionId, { ...options, timeoutMs: Math.max(0, deadline - Date.now()) });
+    }
+    if (controller.signal.aborted) {
+      throw new Error(
+        `[clasper] Approval still pending after ${Math.round(timeoutMs / 1000)}s ` +
+        `(decision_id=${decisionId}).${hint} Then retry the action.`
+      );
+    }
+    log(
+      `[clasper] Approval wait failed (decision_id=${decisionId}): ` +
+      `${err instanceof Error ? err.message : String(err)}`
+    );
+    throw err;
+  } finally {
+    clearInterval(reminder);
+    clearTimeout(timer);
+  }
+
+  if (status.effect === 'deny') {
+    throw new Error(
+      `[clasper] Approval denied for decision_id=${decisionId}. Execution blocked.`
+    );
+  }
+}
+
+/**
+ * Poll until a pending decision is resolved (Core without the decision stream).
+ */
+async function pollForApproval(
+  client: ClasperClient,
+  executionId: string,
+  options: ApprovalOptions
 ): Promise<void> {
   const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   const pollMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
@@ -0,0 +1,481 @@
+/**
+ * Approval previews.
+ *
+ * Structured view of what a tool call would do, sent with the decision request
+ * so approvers judge the change instead of a raw argument blob:
+ *   - write / edit: unified diff against the current file on disk
+ *   - apply_patch: the patch split per file
+ *   - exec: the parsed command line with dangerous options flagged
+ *   - web_fetch / http_request: the resolved method and URL
+ *
+ * Previews are best effort: any failure yields no preview, never a blocked call.
+ * Core redacts stored previews, so secrets in file contents are masked there.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { ApprovalPreview, CommandFlag, FileDiffPreview } from './types.js';
+
+/** Cap on diff text per preview; Core clips anything larger too. */
+const MAX_DIFF_CHARS = 64 * 1024;
+/** Files larger than this are not read for a diff. */
+const MAX_FILE_BYTES = 1024 * 1024;
+/** Above this many LCS cells the changed region is shown as a full replace. */
+const MAX_LCS_CELLS = 4_000_000;
+const MAX_BODY_CHARS = 4 * 1024;
+const DIFF_CONTEXT_LINES = 3;
+
+// ---------------------------------------------------------------------------
+// Unified diff
+// ---------------------------------------------------------------------------
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Trim the common prefix and suffix; only the changed middle needs an LCS.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle: DiffOp[] = [];
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    for (const line of midA) middle.push({ type: '-', line });
+    for (const line of midB) middle.push({ type: '+', line });
+  } else {
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        middle.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (j >= midB.length || (i < midA.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        middle.push({ type: '-', line: midA[i++] });
+      } else {
+        middle.push({ type: '+', line: midB[j++] });
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, start).map((line): DiffOp => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(endA).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+/**
+ * Unified diff hunks (`@@ -a,b +c,d @@` plus lines) between two texts.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string
+): { diff: string; additions: number; deletions: number } {
+  let oldNo = 1;
+  let newNo = 1;
+  const ops = diffLines(splitLines(oldText), splitLines(newText)).map((op) => {
+    const numbered = { ...op, oldNo, newNo };
+    if (op.type !== '+') oldNo++;
+    if (op.type !== '-') newNo++;
+    return numbered;
+  });
+
+  const out: string[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+    // Extend the hunk over changes separated by at most 2 * context unchanged lines.
+    let lastChange = i;
+    let j = i;
+    while (j < ops.length) {
+      if (ops[j].type !== ' ') {
+        lastChange = j++;
+        continue;
+      }
+      let k = j;
+      while (k < ops.length && ops[k].type === ' ') k++;
+      if (k >= ops.length || k - j > 2 * DIFF_CONTEXT_LINES) break;
+      j = k;
+    }
+    const hunk = ops.slice(Math.max(0, i - DIFF_CONTEXT_LINES), Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1));
+    const oldLen = hunk.filter((op) => op.type !== '+').length;
+    const newLen = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = oldLen ? hunk.find((op) => op.type !== '+')!.oldNo : hunk[0].oldNo - 1;
+    const newStart = newLen ? hunk.find((op) => op.type !== '-')!.newNo : hunk[0].newNo - 1;
+    out.push(`@@ -${oldStart},${oldLen} +${newStart},${newLen} @@`, ...hunk.map((op) => `${op.type}${op.line}`));
+    i = lastChange + DIFF_CONTEXT_LINES + 1;
+  }
+
+  return {
+    diff: out.join('\n'),
+    additions: ops.filter((op) => op.type === '+').length,
+    deletions: ops.filter((op) => op.type === '-').length,
+  };
+}
+
+/** Clip file diffs to MAX_DIFF_CHARS in total, at line boundaries. */
+function clipDiffs(files: FileDiffPreview[]): { files: FileDiffPreview[]; truncated: boolean } {
+  let budget = MAX_DIFF_CHARS;
+  let truncated = false;
+  const clipped = files.map((file) => {
+    if (file.diff.length <= budget) {
+      budget -= file.diff.length;
+      return file;
+    }
+    truncated = true;
+    const cut = file.diff.lastIndexOf('\n', budget);
+    const diff = cut > 0 ? file.diff.slice(0, cut) : '';
+    budget = 0;
+    return { ...file, diff };
+  });
+  return { files: clipped, truncated };
+}
+
+// ---------------------------------------------------------------------------
+// File previews
+// ---------------------------------------------------------------------------
+
+function stringArg(args: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = args[key];
+    if (typeof value === 'string') return value;
+  }
+  return undefined;
+}
+
+/** Current file contents; '' when it does not exist, null when too large or binary. */
+async function readCurrent(filePath: string): Promise<string | null> {
+  try {
+    if ((await stat(filePath)).size > MAX_FILE_BYTES) return null;
+    const content = await readFile(filePath, 'utf8');
+    return content.includes('\u0000') ? null : content;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return '';
+    throw err;
+  }
+}
+
+async function fileChangePreview(
+  name: string,
+  args: Record<string, unknown>,
+  cwd: string
+): Promise<ApprovalPreview | undefined> {
+  const target = stringArg(args, 'path', 'file_path', 'filePath', 'file');
+  if (!target) return undefined;
+  const resolved = path.resolve(cwd, target);
+  const current = await readCurrent(resolved);
+  if (current === null) {
+    return {
+      kind: 'diff',
+      files: [{ path: resolved, status: 'modified', diff: '', additions: 0, deletions: 0 }],
+      truncated: true,
+    };
+  }
+
+  let next: string;
+  if (name === 'write') {
+    next = stringArg(args, 'content', 'contents', 'text') ?? '';
+  } else {
+    const oldText = stringArg(args, 'oldText', 'old_string', 'old_text') ?? '';
+    const newText = stringArg(args, 'newText', 'new_string', 'new_text') ?? '';
+    if (oldText && current.includes(oldText)) {
+      next = args.replace_all === true ? current.split(oldText).join(newText) : current.replace(oldText, () => newText);
+    } else {
+      // The edit will not apply cleanly; show the requested replacement on its own.
+      const { diff, additions, deletions } = unifiedDiff(oldText, newText);
+      return clipPreview([{ path: resolved, status: 'modified', diff, additions, deletions }]);
+    }
+  }
+
+  const { diff, additions, deletions } = unifiedDiff(current, next);
+  const existed = current !== '' || name !== 'write';
+  return clipPreview([{ path: resolved, status: existed ? 'modified' : 'added', diff, additions, deletions }]);
+}
+
+function clipPreview(files: FileDiffPreview[]): ApprovalPreview {
+  const { files: clipped, truncated } = clipDiffs(files);
+  return { kind: 'diff', files: clipped, truncated };
+}
+
+/**
+ * Split a patch into per-file sections. Understands the apply_patch envelope
+ * (`*** Update File: path`) and git/unified diffs (`--- a/path` / `+++ b/path`).
+ */
+export function splitPatch(patch: string, cwd: string): FileDiffPreview[] {
+  const files: FileDiffPreview[] = [];
+  let current: FileDiffPreview | null = null;
+  let body: string[] = [];
+  const flush = () => {
+    if (current) files.push({ ...current, diff: body.join('\n') });
+    current = null;
+    body = [];
+  };
+  const open = (filePath: string, status: FileDiffPreview['status']) => {
+    flush();
+    current = { path: path.resolve(cwd, filePath), status, diff: '', additions: 0, deletions: 0 };
+  };
+  const stripPrefix = (p: string) => p.trim().replace(/^[ab]\//, '');
+
+  const lines = patch.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const envelope = line.match(/^\*\*\* (Add|Update|Delete) File: (.+)$/);
+    if (envelope) {
+      open(envelope[2].trim(), envelope[1] === 'Add' ? 'added' : envelope[1] === 'Delete' ? 'deleted' : 'modified');
+      continue;
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const from = line.slice(4).split('\t')[0];
+      const to = lines[i + 1].slice(4).split('\t')[0];
+      const added = from.trim() === '/dev/null';
+      const deleted = to.trim() === '/dev/null';
+      open(stripPrefix(deleted ? from : to), added ? 'added' : deleted ? 'deleted' : 'modified');
+      i++;
+      continue;
+    }
+    if (!current || line.startsWith('*** ') || line.startsWith('diff --git ') || line.startsWith('index ')) continue;
+    const entry = current as FileDiffPreview;
+    if (line.startsWith('+')) entry.additions++;
+    else if (line.startsWith('-')) entry.deletions++;
+    body.push(line);
+  }
+  flush();
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Command previews
+// ---------------------------------------------------------------------------
+
+const OPERATORS = ['&&', '||', '|', ';', '&'];
+
+/**
+ * Tokenize a shell command line into segments joined by `|`, `&&`, `||`, `;`
+ * or `&`. Handles single and double quotes and backslash escapes; does not
+ * expand variables or substitutions.
+ */
+export function parseCommandLine(command: string): { argv: string[]; operator?: string }[] {
+  const segments: { argv: string[]; operator?: string }[] = [{ argv: [] }];
+  let token = '';
+  let inToken = false;
+  let quote: "'" | '"' | null = null;
+  const pushToken = () => {
+    if (inToken) segments[segments.length - 1].argv.push(token);
+    token = '';
+    inToken = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === '\\' && quote === '"' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) token += command[++i];
+      else token += ch;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      inToken = true;
+      continue;
+    }
+    if (ch === '\\' && i + 1 < command.length) {
+      token += command[++i];
+      inToken = true;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      pushToken();
+      continue;
+    }
+    const operator = OPERATORS.find((op) => command.startsWith(op, i));
+    if (operator && !(operator === '&' && (command[i - 1] === '>' || command[i + 1] === '>'))) {
+      pushToken();
+      segments.push({ argv: [], operator });
+      i += operator.length - 1;
+      continue;
+    }
+    token += ch;
+    inToken = true;
+  }
+  pushToken();
+  return segments.filter((segment) => segment.argv.length > 0);
+}
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'python', 'python3', 'node', 'perl', 'ruby']);
+
+function hasShortFlag(argv: string[], letter: string): boolean {
+  return argv.some((arg) => /^-[A-Za-z]+$/.test(arg) && arg.includes(letter));
+}
+
+/**
+ * Flag options and constructs an approver should look at twice.
+ */
+export function flagDangerousCommand(segments: { argv: string[]; operator?: string }[]): CommandFlag[] {
+  const flags: CommandFlag[] = [];
+  const flag = (token: string, reason: string, severity: CommandFlag['severity'] = 'danger') =>
+    flags.push({ token, reason, severity });
+
+  segments.forEach((segment, index) => {
+    let argv = segment.argv;
+    // Strip env assignments (FOO=bar cmd)
+    while (argv.length > 1 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[0])) argv = argv.slice(1);
+    if (argv[0] === 'sudo' || argv[0] === 'doas') {
+      flag(argv[0], 'runs with elevated privileges');
+      argv = argv.slice(1);
+      while (argv.length > 1 && argv[0].startsWith('-')) argv = argv.slice(1);
+    }
+    const cmd = path.basename(argv[0] ?? '');
+    const args = argv.slice(1);
+
+    if (cmd === 'rm') {
+      const recursive = hasShortFlag(args, 'r') || hasShortFlag(args, 'R') || args.includes('--recursive');
+      const force = hasShortFlag(args, 'f') || args.includes('--force');
+      if (recursive && force) flag(args.find((a) => /^-[A-Za-z]*[rR]/.test(a)) ?? '--recursive', 'recursive forced delete');
+      else if (recursive) flag('-r', 'recursive delete', 'warn');
+      if (args.includes('--no-preserve-root')) flag('--no-preserve-root', 'allows deleting /');
+      for (const target of args.filter((a) => ['/', '/*', '~', '~/', '*', '.', '..'].includes(a))) {
+        flag(target, 'deletes a root, home or whole-directory target');
+      }
+    }
+    if (cmd === 'git') {
+      const sub = args.find((a) => !a.startsWith('-'));
+      if (sub === 'push') {
+        const forced = args.find((a) => a === '--force' || a === '-f' || a.startsWith('+'));
+        if (forced) flag(forced, 'force-push rewrites remote history');
+        const lease = args.find((a) => a.startsWith('--force-with-lease'));
+        if (lease) flag(lease, 'force-push rewrites remote history', 'warn');
+      }
+      if (sub === 'reset' && args.includes('--hard')) flag('--hard', 'discards local changes', 'warn');
+      if (sub === 'clean' && hasShortFlag(args, 'f')) flag('-f', 'deletes untracked files', 'warn');
+      if (args.includes('--no-verify')) flag('--no-verify', 'skips git hooks', 'warn');
+    }
+    if ((cmd === 'chmod' || cmd === 'chown') && (hasShortFlag(args, 'R') || args.includes('--recursive'))) {
+      flag('-R', `recursive ${cmd}`, 'warn');
+    }
+    if (cmd === 'chmod') {
+      const mode = args.find((a) => /^0?777$/.test(a) || /^[oa]\+[rwx]*w/.test(a));
+      if (mode) flag(mode, 'makes files world-writable', 'warn');
+    }
+    if (cmd === 'dd') {
+      const output = args.find((a) => a.startsWith('of='));
+      if (output) flag(output, 'raw write to a file or device');
+    }
+    if (cmd.startsWith('mkfs')) flag(cmd, 'formats a filesystem');
+    if ((cmd === 'curl' || cmd === 'wget') && args.some((a) => a === '-k' || a === '--insecure' || a === '--no-check-certificate')) {
+      flag(args.find((a) => a === '-k' || a === '--insecure' || a === '--no-check-certificate')!, 'disables TLS verification', 'warn');
+    }
+    if (cmd === 'docker' && args.includes('--privileged')) flag('--privileged', 'privileged container');
+    if (cmd === 'kubectl' && args[0] === 'delete') {
+      if (args.includes('--all') || args.includes('-A') || args.includes('--all-namespaces')) {
+        flag('--all', 'deletes every matching resource');
+      } else {
+        flag('delete', 'deletes cluster resources', 'warn');
+      }
+    }
+    if (cmd === 'eval') flag('eval', 'evaluates a constructed command', 'warn');
+
+    // curl … | sh
+    const previous = segments[index - 1];
+    if (segment.operator === '|' && SHELLS.has(cmd) && previous) {
+      const source = path.basename(previous.argv.find((a) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(a) && a !== 'sudo') ?? '');
+      if (source === 'curl' || source === 'wget') flag('|', `pipes a download into ${cmd}`);
+    }
+  });
+
+  return flags;
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the approval preview for a (normalized) tool call, if the tool has one.
+ */
+export async function buildApprovalPreview(
+  toolName: string,
+  args: Record<string, unknown>,
+  options: { cwd?: string } = {}
+): Promise<ApprovalPreview | undefined> {
+  const name = toolName.toLowerCase();
+  const workdir = stringArg(args, 'cwd', 'workdir');
+  const cwd = path.resolve(options.cwd ?? process.cwd(), workdir ?? '.');
+
+  try {
+    if (name === 'write' || name === 'edit') {
+      return await fileChangePreview(name, args, cwd);
+    }
+
+    if (name === 'apply_patch') {
+      const patch = stringArg(args, 'input', 'patch', 'diff');
+      if (!patch) return undefined;
+      return clipPreview(splitPatch(patch, cwd));
+    }
+
+    if (name === 'exec') {
+      const command = stringArg(args, 'command', 'cmd');
+      if (!command) return undefined;
+      const segments = parseCommandLine(command);
+      return {
+        kind: 'command',
+        command,
+        cwd: workdir ? cwd : undefined,
+        segments,
+        flags: flagDangerousCommand(segments),
+      };
+    }
+
+    if (name === 'web_fetch' || name === 'fetch') {
+      const rawUrl = stringArg(args, 'url');
+      if (!rawUrl) return undefined;
+      let url = rawUrl;
+      let host: string | undefined;
+      try {
+        const parsed = new URL(rawUrl);
+        url = parsed.toString();
+        host = parsed.host;
+      } catch {
+        // Not a valid URL; show it as given
+      }
+      const body = args.body ?? args.data;
+      const bodyText = body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body);
+      return {
+        kind: 'http',
+        method: (stringArg(args, 'method') ?? 'GET').toUpperCase(),
+        url,
+        host,
+        body: bodyText?.slice(0, MAX_BODY_CHARS),
+      };
+    }
+  } catch {
+    // Best effort: an unreadable file or odd arguments just means no preview
+  }
+  return undefined;
+}
@@ -35,6 +35,17 @@ export interface ClasperClientOptions {
   maxRetries?: number;
 }
 
+/**
+ * The execution decision stream could not be opened (e.g. an older Core without
+ * it). Callers fall back to polling getDecisionStatus.
+ */
+export class DecisionStreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecisionStreamUnavailableError';
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Client
 // ---------------------------------------------------------------------------
@@ -152,6 +163,60 @@ export class ClasperClient {
     return (await res.json()) as DecisionStatusResponse;
   }
 
+  /**
+   * Wait on the execution's decision stream until the decision leaves `pending`.
+   * Throws DecisionStreamUnavailableError when the stream can't be opened, and
+   * fails closed (throws) when it drops before the decision is resolved.
+   * Aborting `signal` rejects with the abort reason.
+   */
+  async waitForDecisionStatus(executionId: string, signal: AbortSignal): Promise<DecisionStatusResponse> {
+    const url = `${this.baseUrl}/api/execution/${encodeURIComponent(executionId)}/events`;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: 'GET',
+        headers: { ...this.headers(true), Accept: 'text/event-stream' },
+        signal,
+      });
+    } catch (err) {
+      if (signal.aborted) throw err;
+      throw new DecisionStreamUnavailableError(
+        `[clasper] Decision stream unavailable: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    if (!res.ok || !res.body || !(res.headers.get('content-type') ?? '').includes('text/event-stream')) {
+      await res.body?.cancel().catch(() => {});
+      throw new DecisionStreamUnavailableError(`[clasper] Decision stream unavailable (${res.status})`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary: RegExpExecArray | null;
+        while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+          const block = buffer.slice(0, boundary.index);
+          buffer = buffer.slice(boundary.index + boundary[0].length);
+          const status = parseDecisionEvent(block);
+          if (status && status.effect !== 'pending') return status;
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) throw err;
+      throw new Error(
+        `[clasper] Decision stream failed: ${err instanceof Error ? err.message : String(err)}. ` +
+        `Fail-closed: execution blocked.`
+      );
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+    throw new Error('[clasper] Decision stream closed before the decision was resolved. Fail-closed: execution blocked.');
+  }
+
   // -----------------------------------------------------------------------
   // Telemetry ingestion
   // -----------------------------------------------------------------------
@@ -278,6 +343,18 @@ export class ClasperClient {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Parse one server-sent event block; null unless it is a `decision` event. */
+function parseDecisionEvent(block: string): DecisionStatusResponse | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (event !== 'decision' || data.length === 0) return null;
+  return JSON.parse(data.join('\n')) as DecisionStatusResponse;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -46,7 +46,11 @@ function normalizeCommandClass(params: Record<string, unknown>): string {
   return token || "unknown";
 }
 
-export function extractSessionKey(context: Record<string, unknown>): string {
+/**
+ * Session identifier sent to Core as `session_id` (scopes "for this session"
+ * approval grants); undefined when the context carries none.
+ */
+export function extractSessionId(context: Record<string, unknown>): string | undefined {
   // IMPORTANT: do not use per-call IDs (e.g. traceId) here; that breaks
   // same-request reuse across retries inside one user session.
   const candidates = [
@@ -60,7 +64,11 @@ export function extractSessionKey(context: Record<string, unknown>): string {
       return candidate.trim();
     }
   }
-  return "unknown-session";
+  return undefined;
+}
+
+export function extractSessionKey(context: Record<string, unknown>): string {
+  return extractSessionId(context) ?? "unknown-session";
 }
 
 export function buildRequestFingerprint(options: {
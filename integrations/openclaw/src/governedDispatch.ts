@@ -24,10 +24,12 @@ import { inferIntent } from './intentInference.js';
 import { mapToolContext } from './intentInference.js';
 import { reportBlocked, reportExecuted } from './telemetry.js';
 import { waitForApproval } from './approval.js';
+import { buildApprovalPreview } from './approvalPreview.js';
 import { normalizeToolName } from './toolNames.js';
 import {
   buildRequestFingerprint,
   clearReusableExecutionId,
+  extractSessionId,
   getReusableExecutionId,
   setReusableExecutionId,
   type InFlightExecution,
@@ -110,7 +112,9 @@ export function createGovernedDispatch(
         skill: context.skill,
         intent: inferIntent(normalizedTool, args),
         intent_source: 'heuristic',
+        session_id: extractSessionId(context as Record<string, unknown>),
         context: toolContext,
+        preview: await buildApprovalPreview(normalizedTool.name, args),
         templateVars: {
           'workspace.root':
             (typeof args.cwd === 'string' && args.cwd.trim().length > 0 ? args.cwd : process.cwd()) ||
@@ -90,6 +90,8 @@ export interface ExecutionRequest {
   intent?: string;
   intent_source?: string;
   estimated_cost?: number;
+  /** Agent session (scopes "for this session" approval grants in Core). */
+  session_id?: string;
   context?: {
     external_network?: boolean;
     writes_files?: boolean;
@@ -111,6 +113,8 @@ export interface ExecutionRequest {
     url?: string;
     query?: string;
   };
+  /** What the call would do, shown to approvers (diff, parsed command, HTTP request). */
+  preview?: ApprovalPreview;
   templateVars?: Record<string, string>;
   provenance?: {
     source?: 'marketplace' | 'internal' | 'git' | 'unknown';
@@ -119,6 +123,34 @@ export interface ExecutionRequest {
   };
 }
 
+export interface FileDiffPreview {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  /** Unified diff (without the ---/+++ header). */
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface CommandFlag {
+  /** The argv token (or operator) that was flagged. */
+  token: string;
+  reason: string;
+  severity: 'warn' | 'danger';
+}
+
+export type ApprovalPreview =
+  | { kind: 'diff'; files: FileDiffPreview[]; truncated: boolean }
+  | {
+      kind: 'command';
+      command: string;
+      cwd?: string;
+      /** Pipeline / list segments; `operator` joins a segment to the previous one. */
+      segments: { argv: string[]; operator?: string }[];
+      flags: CommandFlag[];
+    }
+  | { kind: 'http'; method: string; url: string; host?: string; body?: string };
+
 export type DecisionEffect = 'allow' | 'deny' | 'require_approval' | 'pending';
 
 export interface ExecutionDecision {
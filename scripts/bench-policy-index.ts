@@ -0,0 +1,92 @@
+/**
+ * Benchmark policy evaluation against a large policy set.
+ *
+ * Usage:
+ *   npm run bench:policy-index
+ *   npx tsx scripts/bench-policy-index.ts --policies 10000 --runs 1000
+ *
+ * Seeds an in-memory database with tool-scoped policies (plus one generic
+ * policy in fifty) and reports p50/p99 evaluation latency once the policy
+ * index is warm. The suite's p99 check only runs with BENCH=1
+ * (`npm run test:bench`), since timings depend on the machine.
+ */
+
+import { config } from "../src/lib/core/config.js";
+import { getDatabase, initDatabase } from "../src/lib/core/db.js";
+import { evaluatePolicies } from "../src/lib/policy/policyEngine.js";
+import { invalidatePolicyIndex } from "../src/lib/policy/policyIndex.js";
+
+process.env.CLASPER_DB_PATH = ":memory:";
+config.policyOperatorsEnabled = true;
+
+function numberArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index >= 0 ? Number(process.argv[index + 1]) : fallback;
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+const policyCount = numberArg("policies", 5000);
+const runs = numberArg("runs", 500);
+const tenantId = "bench";
+const toolCount = 1000;
+
+function seed(): void {
+  const db = getDatabase();
+  const insert = db.prepare(
+    `INSERT INTO policies (tenant_id, policy_id, precedence, enabled, policy_json, created_at, updated_at)
+     VALUES (?, ?, ?, 1, ?, ?, ?)`
+  );
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (let i = 0; i < policyCount; i += 1) {
+      const body =
+        i % 50 === 0
+          ? {
+              policy_id: `generic-${i}`,
+              subject: { type: "tool" },
+              conditions: { "context.exec.argv0": { in: [`bin-${i}`] } },
+              effect: { decision: "deny" },
+            }
+          : {
+              policy_id: `tool-${i}`,
+              subject: { type: "tool", name: `tool-${i % toolCount}` },
+              conditions: { "context.exec.argv0": { prefix: `cmd-${i}` } },
+              effect: { decision: i % 3 === 0 ? "require_approval" : "deny" },
+            };
+      const record = { ...body, scope: { tenant_id: tenantId }, enabled: true, precedence: i % 7 };
+      insert.run(tenantId, body.policy_id, record.precedence, JSON.stringify(record), now, now);
+    }
+  })();
+  invalidatePolicyIndex(tenantId);
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+initDatabase();
+seed();
+
+// The first evaluation compiles the index and hashes the bundle; measure steady state.
+const warmStarted = performance.now();
+evaluatePolicies({ tenant_id: tenantId, workspace_id: "local", tool: "tool-0" });
+const warmMs = performance.now() - warmStarted;
+
+const samples: number[] = [];
+for (let i = 0; i < runs; i += 1) {
+  const started = performance.now();
+  evaluatePolicies({
+    tenant_id: tenantId,
+    workspace_id: "local",
+    tool: `tool-${(i * 37) % toolCount}`,
+    context: { exec: { argv0: `cmd-${i}` } },
+  });
+  samples.push(performance.now() - started);
+}
+samples.sort((a, b) => a - b);
+
+console.log(`policy index benchmark (${policyCount} policies, ${runs} evaluations)`);
+console.log(`  first evaluation: ${warmMs.toFixed(2)}ms`);
+console.log(`  p50: ${percentile(samples, 0.5).toFixed(2)}ms`);
+console.log(`  p99: ${percentile(samples, 0.99).toFixed(2)}ms`);
+console.log(`  max: ${samples[samples.length - 1].toFixed(2)}ms`);
@@ -13,6 +13,14 @@ import { createRequire } from "node:module";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { runSetupWizard, type SetupProfile } from "./cli/setup-wizard.js";
+import { formatPolicyFileIssue, loadPolicyFiles } from "./lib/policy/policyFiles.js";
+import {
+  verifyAuditChainEntries,
+  type AuditChainCursor,
+  type AuditChainEntry,
+  type AuditChainFailure,
+  type AuditChainVerification,
+} from "./lib/governance/auditChain.js";
 
 // Enforce TLS 1.3 minimum before any network operations
 const require = createRequire(import.meta.url);
@@ -149,6 +157,72 @@ function formatDecisionResult(raw: string | undefined): string {
   return value;
 }
 
+type PolicyChange = { path: string; kind: "added" | "removed" | "changed"; before?: unknown; after?: unknown };
+
+type PolicyPlanItem = { action: "create" | "update" | "delete"; policy_id: string; source_path: string | null; changes: PolicyChange[] };
+
+type PolicyPlan = {
+  creates: PolicyPlanItem[];
+  updates: PolicyPlanItem[];
+  deletes: PolicyPlanItem[];
+  unchanged: string[];
+};
+
+function formatPolicyChange(change: PolicyChange): string {
+  if (change.kind === "added") return colorize(`+ ${change.path}: ${JSON.stringify(change.after)}`, "green");
+  if (change.kind === "removed") return colorize(`- ${change.path}: ${JSON.stringify(change.before)}`, "red");
+  return colorize(`~ ${change.path}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`, "yellow");
+}
+
+function printPolicyPlan(plan: PolicyPlan): void {
+  for (const item of plan.creates) {
+    console.log(colorize(`+ create ${item.policy_id}`, "green") + colorize(`  (${item.source_path})`, "dim"));
+  }
+  for (const item of plan.updates) {
+    console.log(colorize(`~ update ${item.policy_id}`, "yellow") + colorize(`  (${item.source_path})`, "dim"));
+    for (const change of item.changes) console.log(`    ${formatPolicyChange(change)}`);
+  }
+  for (const item of plan.deletes) {
+    console.log(colorize(`- delete ${item.policy_id}`, "red") + colorize(`  (was ${item.source_path ?? "—"})`, "dim"));
+  }
+  console.log(
+    `Plan: ${plan.creates.length} to create, ${plan.updates.length} to update, ${plan.deletes.length} to delete (${plan.unchanged.length} unchanged).`
+  );
+}
+
+type PolicyLintFinding = {
+  rule: string;
+  severity: "error" | "warning" | "info";
+  policy_id: string;
+  related_policy_id?: string;
+  path?: string;
+  source_path?: string;
+  message: string;
+};
+
+type PolicyLintReport = {
+  tenant_id: string;
+  policy_count: number;
+  findings: PolicyLintFinding[];
+  summary: Record<PolicyLintFinding["severity"], number>;
+};
+
+function printPolicyLintReport(report: PolicyLintReport): void {
+  const colors = { error: "red", warning: "yellow", info: "cyan" } as const;
+  for (const finding of report.findings) {
+    const where = [finding.source_path, finding.path].filter(Boolean).join(" ");
+    console.log(
+      `${colorize(finding.severity.padEnd(7), colors[finding.severity])} ${finding.policy_id}  ${colorize(finding.rule, "dim")}` +
+        (where ? colorize(`  (${where})`, "dim") : "")
+    );
+    console.log(`    ${finding.message}`);
+  }
+  console.log(
+    `Linted ${report.policy_count} polic${report.policy_count === 1 ? "y" : "ies"}: ` +
+      `${report.summary.error} error(s), ${report.summary.warning} warning(s), ${report.summary.info} info.`
+  );
+}
+
 const program = new Command();
 
 program.name("clasper-core").description("Clasper Core daemon utilities").version("0.1.0");
@@ -241,15 +315,97 @@ program
   });
 
 program
-  .command("policy <action> [pack]")
-  .description("Policy utilities (install starter packs)")
+  .command("policy <action> [target]")
+  .description("Policy utilities (install starter packs; plan/apply/lint policy files)")
   .option("--out <dir>", "Output base directory for installed packs", "policies")
-  .action((action, pack, opts: { out?: string }) => {
+  .option("--base-url <url>", "Ops API base URL (plan, apply, lint)", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Ops API key (X-Ops-Api-Key)")
+  .option("--tenant-id <id>", "Tenant ID (plan, apply, lint)")
+  .option("--json", "Print lint findings as JSON")
+  .action(async (action, target, opts: { out?: string; baseUrl?: string; opsApiKey?: string; tenantId?: string; json?: boolean }) => {
+    if (action === "lint") {
+      // Without a path, lint the policies stored in Core; with one, lint the files as they would be applied.
+      const baseUrl = opts.baseUrl || "http://localhost:8081";
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+      let res: Response;
+      if (target) {
+        const loaded = loadPolicyFiles(target);
+        if (loaded.issues.length > 0) {
+          console.error(`Policy files are invalid (${target}):`);
+          for (const issue of loaded.issues) console.error(`  ${formatPolicyFileIssue(issue)}`);
+          process.exit(1);
+        }
+        res = await fetch(`${baseUrl}/ops/api/policies/lint`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ tenant_id: opts.tenantId, policies: loaded.policies }),
+        });
+      } else {
+        const params = new URLSearchParams();
+        if (opts.tenantId) params.set("tenant_id", opts.tenantId);
+        const query = params.toString();
+        res = await fetch(`${baseUrl}/ops/api/policies/lint${query ? `?${query}` : ""}`, { headers });
+      }
+      if (!res.ok) {
+        console.error(`Policy lint failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      const { report } = (await res.json()) as { report: PolicyLintReport };
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printPolicyLintReport(report);
+      }
+      if (report.summary.error > 0) process.exit(1);
+      return;
+    }
+    if (action === "plan" || action === "apply") {
+      const policyPath = target || process.env.CLASPER_POLICY_PATH || "./config/policies.yaml";
+      const loaded = loadPolicyFiles(policyPath);
+      if (loaded.issues.length > 0) {
+        console.error(`Policy files are invalid (${policyPath}):`);
+        for (const issue of loaded.issues) console.error(`  ${formatPolicyFileIssue(issue)}`);
+        process.exit(1);
+      }
+      const baseUrl = opts.baseUrl || "http://localhost:8081";
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+      const payload = JSON.stringify({ tenant_id: opts.tenantId, policies: loaded.policies });
+
+      const planRes = await fetch(`${baseUrl}/ops/api/policies/plan`, { method: "POST", headers, body: payload });
+      if (!planRes.ok) {
+        console.error(`Policy plan failed: ${planRes.status} ${await planRes.text()}`);
+        process.exit(1);
+      }
+      const { plan } = (await planRes.json()) as { plan: PolicyPlan };
+      console.log(colorize(`${loaded.files.length} file(s), ${loaded.policies.length} polic${loaded.policies.length === 1 ? "y" : "ies"} from ${policyPath}`, "cyan"));
+      printPolicyPlan(plan);
+      if (action === "plan") return;
+
+      if (plan.creates.length + plan.updates.length + plan.deletes.length === 0) {
+        console.log("Nothing to apply.");
+        return;
+      }
+      const applyRes = await fetch(`${baseUrl}/ops/api/policies/apply`, { method: "POST", headers, body: payload });
+      if (!applyRes.ok) {
+        console.error(`Policy apply failed: ${applyRes.status} ${await applyRes.text()}`);
+        process.exit(1);
+      }
+      const applied = (await applyRes.json()) as { plan: PolicyPlan };
+      console.log(
+        colorize(
+          `Applied: ${applied.plan.creates.length} created, ${applied.plan.updates.length} updated, ${applied.plan.deletes.length} deleted.`,
+          "green"
+        )
+      );
+      return;
+    }
     if (action !== "install") {
-      console.error(`Unknown policy action: ${action}. Use "install".`);
+      console.error(`Unknown policy action: ${action}. Use "install", "plan", "apply" or "lint".`);
       process.exit(1);
     }
-    const packName = pack || "safe-defaults";
+    const packName = target || "safe-defaults";
     const baseOut = opts.out || "policies";
     const targetDir = join(process.cwd(), baseOut, packName);
     try {
@@ -455,8 +611,8 @@ program
 
 program
   .command("decisions")
-  .description("Decision inspection (latest, tail, show)")
-  .argument("[action]", "latest | tail | show", "latest")
+  .description("Decision inspection (latest, tail, show) and approval links (resolve)")
+  .argument("[action]", "latest | tail | show | resolve", "latest")
   .argument("[id]", "Decision ID (for show)")
   .option("--base-url <url>", "Core API base URL", "http://localhost:8081")
   .option("--ops-api-key <key>", "Ops API key (used to mint adapter probe token)")
@@ -466,9 +622,45 @@ program
   .option("--since <value>", "Filter since duration/ISO (e.g. 10m, 1h, 2026-03-12T18:00:00Z)")
   .option("--limit <n>", "Result limit", "20")
   .option("--interval-ms <n>", "Tail poll interval in ms", "2000")
+  .option("--token <token>", "Approval link or its token (for resolve)")
+  .option("--reason <text>", "Deny reason (for resolve with a deny link)")
   .action(async (action, id, opts) => {
     try {
       const baseUrl = opts.baseUrl || "http://localhost:8081";
+
+      if (action === "resolve") {
+        // Approval links authenticate on their own; no adapter token needed.
+        if (!opts.token) {
+          console.error("Approval token required. Usage: clasper-core decisions resolve --token <link|token> [--reason <text>]");
+          process.exit(1);
+        }
+        const actionToken = String(opts.token).split("?")[0].split("/").pop() || "";
+        const res = await fetch(`${baseUrl}/api/approval-actions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token: actionToken, reason: opts.reason }),
+        });
+        if (!res.ok) {
+          const text = await res.text();
+          console.error(`Resolve failed: ${res.status} ${text}`);
+          process.exit(1);
+        }
+        const data = (await res.json()) as {
+          decision_id?: string;
+          status?: string;
+          action?: string;
+          approver_id?: string;
+          approval_progress?: { approvals?: number; quorum?: number };
+        };
+        console.log(`Decision ID: ${data.decision_id || "—"}`);
+        console.log(`Vote: ${data.action || "—"} by ${data.approver_id || "—"}`);
+        console.log(`Governance Status: ${String(data.status || "—").toUpperCase()}`);
+        if (data.status === "pending" && data.approval_progress) {
+          console.log(`Approvals: ${data.approval_progress.approvals ?? 0}/${data.approval_progress.quorum ?? 1}`);
+        }
+        return;
+      }
+
       const token = await resolveAdapterToken(baseUrl, opts.opsApiKey, opts.adapterToken);
       const headers: Record<string, string> = {
         "Content-Type": "application/json",
@@ -567,7 +759,12 @@ program
           process.exit(1);
         }
         const detail = (await decisionRes.json()) as { decision?: { decision_id?: string; decision?: string; policy?: string | null; status?: string; timestamp?: string; trace_id?: string | null } };
-        const explain = (await explainRes.json()) as { reason?: string; tool?: string | null; input_summary?: Record<string, unknown> };
+        const explain = (await explainRes.json()) as {
+          reason?: string;
+          tool?: string | null;
+          input_summary?: Record<string, unknown>;
+          condition_details?: Array<{ field?: string; operator?: string; result?: boolean }>;
+        };
         const d = detail.decision || {};
         console.log(`Decision ID: ${d.decision_id || id}`);
         console.log(`Time: ${d.timestamp || "—"}`);
@@ -580,14 +777,22 @@ program
         if (explain.input_summary && Object.keys(explain.input_summary).length > 0) {
           console.log(`Input summary: ${JSON.stringify(explain.input_summary)}`);
         }
+        if (explain.condition_details && explain.condition_details.length > 0) {
+          console.log("Conditions:");
+          for (const cond of explain.condition_details) {
+            const mark = cond.result ? colorize("✓", "green") : colorize("✗", "red");
+            console.log(`  ${mark} ${cond.field || "—"} (${cond.operator || "—"})`);
+          }
+        }
         return;
       }
 
-      console.error(`Unknown action: ${action}. Use latest, tail, or show.`);
+      console.error(`Unknown action: ${action}. Use latest, tail, show, or resolve.`);
       console.error("Examples:");
       console.error("  clasper-core decisions latest --ops-api-key <key>");
       console.error("  clasper-core decisions latest --tool http.request --decision deny --since 1h --ops-api-key <key>");
       console.error("  clasper-core decisions show <decision_id> --ops-api-key <key>");
+      console.error("  clasper-core decisions resolve --token <approval_link>");
       process.exit(1);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -599,18 +804,107 @@ program
 program
   .command("policies")
   .description("Policy inspection utilities")
-  .argument("[action]", "list", "list")
+  .argument("[action]", "list | history | diff | rollback", "list")
+  .argument("[policyId]", "Policy ID (history, diff, rollback)")
   .option("--base-url <url>", "Core API base URL", "http://localhost:8081")
-  .option("--ops-api-key <key>", "Ops API key (used to mint adapter probe token)")
+  .option("--ops-api-key <key>", "Ops API key (used to mint adapter probe token; X-Ops-Api-Key for history/diff/rollback)")
   .option("--adapter-token <token>", "Adapter token for adapter-facing APIs")
+  .option("--tenant-id <id>", "Tenant ID (history, diff, rollback)")
+  .option("--from <revision>", "Diff base revision")
+  .option("--to <revision>", "Diff target revision (default: latest)")
+  .option("--revision <n>", "Revision to restore (rollback)")
+  .option("--reason <text>", "Reason recorded on the rollback revision")
   .option("--limit <n>", "Result limit", "50")
   .option("--offset <n>", "Result offset", "0")
-  .action(async (action, opts) => {
+  .action(async (action, policyId, opts) => {
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    if (action === "history" || action === "diff" || action === "rollback") {
+      if (!policyId) {
+        console.error(`Usage: clasper-core policies ${action} <policy_id> --ops-api-key <key>`);
+        process.exit(1);
+      }
+      const opsHeaders: Record<string, string> = { "Content-Type": "application/json" };
+      if (opts.opsApiKey) opsHeaders["X-Ops-Api-Key"] = opts.opsApiKey;
+      const policyPath = `${baseUrl}/ops/api/policies/${encodeURIComponent(policyId)}`;
+
+      if (action === "history") {
+        const params = new URLSearchParams();
+        params.set("limit", String(Math.max(1, Number(opts.limit || 50))));
+        params.set("offset", String(Math.max(0, Number(opts.offset || 0))));
+        if (opts.tenantId) params.set("tenant_id", opts.tenantId);
+        const res = await fetch(`${policyPath}/revisions?${params.toString()}`, { headers: opsHeaders });
+        if (!res.ok) {
+          console.error(`Policy history failed: ${res.status} ${await res.text()}`);
+          process.exit(1);
+        }
+        const data = (await res.json()) as {
+          revisions?: Array<{ revision: number; action: string; author?: string | null; reason?: string | null; created_at: string; bundle_hash: string }>;
+        };
+        console.log("REV   ACTION     CREATED                   AUTHOR            REASON");
+        for (const rev of data.revisions || []) {
+          const num = String(rev.revision).padEnd(5, " ");
+          const kind = truncate(rev.action, 10).padEnd(10, " ");
+          const created = truncate(rev.created_at, 24).padEnd(24, " ");
+          const author = truncate(rev.author || "—", 16).padEnd(16, " ");
+          console.log(`${num} ${kind} ${created}  ${author}  ${truncate(rev.reason || "", 40)}`);
+        }
+        return;
+      }
+
+      if (action === "diff") {
+        if (!opts.from) {
+          console.error("Usage: clasper-core policies diff <policy_id> --from <revision> [--to <revision>]");
+          process.exit(1);
+        }
+        const params = new URLSearchParams();
+        params.set("from", String(opts.from));
+        if (opts.to) params.set("to", String(opts.to));
+        if (opts.tenantId) params.set("tenant_id", opts.tenantId);
+        const res = await fetch(`${policyPath}/revisions/diff?${params.toString()}`, { headers: opsHeaders });
+        if (!res.ok) {
+          console.error(`Policy diff failed: ${res.status} ${await res.text()}`);
+          process.exit(1);
+        }
+        const data = (await res.json()) as {
+          from: { revision: number };
+          to: { revision: number };
+          changes: PolicyChange[];
+        };
+        console.log(colorize(`${policyId}: revision ${data.from.revision} → ${data.to.revision}`, "cyan"));
+        if (data.changes.length === 0) {
+          console.log(colorize("  (no changes)", "dim"));
+        }
+        for (const change of data.changes) {
+          console.log(formatPolicyChange(change));
+        }
+        return;
+      }
+
+      const revision = Number(opts.revision);
+      if (!Number.isInteger(revision) || revision < 1) {
+        console.error("Usage: clasper-core policies rollback <policy_id> --revision <n> [--reason <text>]");
+        process.exit(1);
+      }
+      const res = await fetch(`${policyPath}/rollback`, {
+        method: "POST",
+        headers: opsHeaders,
+        body: JSON.stringify({ revision, reason: opts.reason, tenant_id: opts.tenantId }),
+      });
+      if (!res.ok) {
+        console.error(`Policy rollback failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      const data = (await res.json()) as { revision?: { revision: number } | null };
+      console.log(
+        colorize(`Rolled back ${policyId} to revision ${revision}`, "green") +
+          (data.revision ? ` (new revision ${data.revision.revision})` : "")
+      );
+      return;
+    }
     if (action !== "list") {
-      console.error(`Unknown action: ${action}. Use list.`);
+      console.error(`Unknown action: ${action}. Use list, history, diff or rollback.`);
       process.exit(1);
     }
-    const baseUrl = opts.baseUrl || "http://localhost:8081";
     const token = await resolveAdapterToken(baseUrl, opts.opsApiKey, opts.adapterToken);
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -677,6 +971,375 @@ program
     console.log(`Export saved to ${opts.out}`);
   });
 
+program
+  .command("users")
+  .description("Ops user management: local users, roles and per-user API keys")
+  .argument("[action]", "list | create | update | rotate | revoke", "list")
+  .argument("[userId]", "User ID (create, update, rotate, revoke)")
+  .option("--base-url <url>", "Ops API base URL", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Admin Ops API key (X-Ops-Api-Key)")
+  .option("--role <roles>", "Comma-separated roles: viewer, operator, release_manager, admin (create, update)")
+  .option("--name <name>", "Display name (create)")
+  .option("--disable", "Disable the user and reject all of their keys (update)")
+  .option("--enable", "Re-enable a disabled user (update)")
+  .option("--key-id <id>", "Revoke only this key (revoke; default: all of the user's keys)")
+  .action(async (action, userId, opts) => {
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    // X-Ops-Roles lets the shared key create the first admin; the server ignores it once users exist.
+    const headers: Record<string, string> = { "Content-Type": "application/json", "X-Ops-Roles": "admin" };
+    if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+    const roles = opts.role
+      ? String(opts.role).split(",").map((role: string) => role.trim()).filter(Boolean)
+      : undefined;
+    const request = async (method: string, path: string, body?: unknown) => {
+      const res = await fetch(`${baseUrl}/ops/api/users${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!res.ok) {
+        console.error(`Users ${action} failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      return res.json();
+    };
+    const printIssuedKey = (data: { key?: { key_id?: string }; api_key?: string }) => {
+      console.log(`Key ID: ${data.key?.key_id || "—"}`);
+      console.log(`API key: ${data.api_key || "—"}`);
+      console.log(colorize("Store this key now; it is not shown again.", "yellow"));
+    };
+
+    if (action === "list") {
+      const data = (await request("GET", "")) as {
+        users?: Array<{ user_id: string; roles: string[]; disabled_at: string | null; keys: Array<{ revoked_at: string | null }> }>;
+      };
+      const users = data.users || [];
+      if (users.length === 0) {
+        console.log("No Ops users. Create one with: clasper-core users create <user_id> --role admin --ops-api-key <key>");
+        return;
+      }
+      console.log(colorize("USER                     ROLES                          KEYS  STATUS", "dim"));
+      for (const user of users) {
+        const activeKeys = user.keys.filter((key) => !key.revoked_at).length;
+        console.log(
+          `${truncate(user.user_id, 24).padEnd(24, " ")} ${truncate(user.roles.join(","), 30).padEnd(30, " ")} ` +
+            `${String(activeKeys).padEnd(5, " ")} ${user.disabled_at ? colorize("disabled", "red") : colorize("active", "green")}`
+        );
+      }
+      return;
+    }
+
+    if (!userId) {
+      console.error(`User ID required. Usage: clasper-core users ${action} <user_id> --ops-api-key <key>`);
+      process.exit(1);
+    }
+    const userPath = `/${encodeURIComponent(userId)}`;
+
+    if (action === "create") {
+      if (!roles) {
+        console.error("At least one role is required (--role viewer|operator|release_manager|admin).");
+        process.exit(1);
+      }
+      const data = await request("POST", "", { user_id: userId, roles, display_name: opts.name });
+      console.log(`Created ${userId} (${roles.join(", ")})`);
+      printIssuedKey(data);
+      return;
+    }
+
+    if (action === "update") {
+      if (opts.disable && opts.enable) {
+        console.error("Use either --disable or --enable.");
+        process.exit(1);
+      }
+      const disabled = opts.disable ? true : opts.enable ? false : undefined;
+      if (!roles && disabled === undefined) {
+        console.error("Nothing to update. Pass --role, --disable or --enable.");
+        process.exit(1);
+      }
+      const data = (await request("PATCH", userPath, { roles, disabled })) as {
+        user?: { roles?: string[]; disabled_at?: string | null };
+      };
+      console.log(
+        `Updated ${userId}: ${(data.user?.roles || []).join(", ")}${data.user?.disabled_at ? " (disabled)" : ""}`
+      );
+      return;
+    }
+
+    if (action === "rotate") {
+      const data = await request("POST", `${userPath}/keys/rotate`);
+      console.log(`Rotated API key for ${userId}; previous keys are revoked.`);
+      printIssuedKey(data);
+      return;
+    }
+
+    if (action === "revoke") {
+      const data = (await request("POST", `${userPath}/keys/revoke`, { key_id: opts.keyId })) as {
+        revoked_key_ids?: string[];
+      };
+      const revoked = data.revoked_key_ids || [];
+      console.log(revoked.length > 0 ? `Revoked ${revoked.length} key(s): ${revoked.join(", ")}` : "No active keys to revoke.");
+      return;
+    }
+
+    console.error(`Unknown action: ${action}. Use list, create, update, rotate, or revoke.`);
+    process.exit(1);
+  });
+
+program
+  .command("mode")
+  .description("Governance mode per tenant, workspace and environment (overrides CLASPER_MODE)")
+  .argument("[action]", "show | set | clear", "show")
+  .argument("[mode]", "permissive | guarded | strict (set)")
+  .option("--base-url <url>", "Ops API base URL", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Ops API key (X-Ops-Api-Key)")
+  .option("--tenant-id <id>", "Tenant ID (default: the key's tenant)")
+  .option("--workspace <id>", "Workspace ID (omit for every workspace)")
+  .option("--env <environment>", "Environment (omit for every environment)")
+  .action(async (action, mode, opts) => {
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+    const scope: Record<string, string> = {};
+    if (opts.tenantId) scope.tenant_id = opts.tenantId;
+    if (opts.workspace) scope.workspace_id = opts.workspace;
+    if (opts.env) scope.environment = opts.env;
+    const scopeLabel = `${opts.workspace ? `workspace ${opts.workspace}` : "all workspaces"}, ${opts.env ? `environment ${opts.env}` : "all environments"}`;
+    const request = async (method: string, body?: unknown) => {
+      const query = method === "GET" ? `?${new URLSearchParams(scope).toString()}` : "";
+      const res = await fetch(`${baseUrl}/ops/api/governance-modes${query}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!res.ok) {
+        console.error(`Mode ${action} failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      return res.json();
+    };
+
+    if (action === "show") {
+      const data = (await request("GET")) as {
+        global_mode: string;
+        modes: Array<{ workspace_id: string | null; environment: string | null; mode: string; updated_by: string | null }>;
+        effective: { mode: string; source: string };
+      };
+      console.log(`Global default (CLASPER_MODE): ${data.global_mode}`);
+      if (data.modes.length > 0) {
+        console.log(colorize("WORKSPACE                ENVIRONMENT      MODE        UPDATED BY", "dim"));
+        for (const setting of data.modes) {
+          console.log(
+            `${truncate(setting.workspace_id || "*", 24).padEnd(24, " ")} ${truncate(setting.environment || "*", 16).padEnd(16, " ")} ` +
+              `${setting.mode.padEnd(11, " ")} ${setting.updated_by || "—"}`
+          );
+        }
+      }
+      console.log(`Effective for ${scopeLabel}: ${colorize(data.effective.mode, "cyan")} (from ${data.effective.source})`);
+      return;
+    }
+
+    if (action === "set") {
+      if (!mode || !["permissive", "guarded", "strict"].includes(mode)) {
+        console.error("Mode required. Usage: clasper-core mode set <permissive|guarded|strict> [--workspace <id>] [--env <environment>]");
+        process.exit(1);
+      }
+      await request("PUT", { ...scope, mode });
+      console.log(`Governance mode for ${scopeLabel} set to ${mode}`);
+      return;
+    }
+
+    if (action === "clear") {
+      await request("DELETE", scope);
+      console.log(`Governance mode for ${scopeLabel} cleared; it is inherited again`);
+      return;
+    }
+
+    console.error(`Unknown action: ${action}. Use show, set, or clear.`);
+    process.exit(1);
+  });
+
+program
+  .command("freeze")
+  .description("Kill switch: deny every matching execution until unfrozen or expired")
+  .option("--base-url <url>", "Ops API base URL", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Ops API key (X-Ops-Api-Key)")
+  .option("--reason <text>", "Why execution is frozen (required to freeze)")
+  .option("--tenant-id <id>", "Tenant ID (default: the key's tenant)")
+  .option("--workspace <id>", "Freeze only this workspace")
+  .option("--adapter <id>", "Freeze only this adapter")
+  .option("--agent <id>", "Freeze only this agent")
+  .option("--minutes <n>", "Lift automatically after n minutes (default: until unfrozen)")
+  .option("--global", "Freeze every tenant (admin only)")
+  .option("--list", "List active freezes instead of creating one")
+  .option("--all", "With --list, include lifted and expired freezes")
+  .action(async (opts) => {
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+
+    if (opts.list) {
+      const params = new URLSearchParams({ status: opts.all ? "all" : "active" });
+      if (opts.tenantId) params.set("tenant_id", opts.tenantId);
+      const res = await fetch(`${baseUrl}/ops/api/freezes?${params.toString()}`, { headers });
+      if (!res.ok) {
+        console.error(`Freeze list failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      const data = (await res.json()) as {
+        freezes?: Array<{
+          freeze_id: string;
+          tenant_id: string | null;
+          workspace_id: string | null;
+          adapter_id: string | null;
+          agent_id: string | null;
+          reason: string;
+          expires_at: string | null;
+          active: boolean;
+        }>;
+      };
+      const freezes = data.freezes || [];
+      if (freezes.length === 0) {
+        console.log("No freezes.");
+        return;
+      }
+      console.log(colorize("FREEZE ID                              SCOPE                          EXPIRES                   REASON", "dim"));
+      for (const freeze of freezes) {
+        const scope = [
+          freeze.tenant_id ?? "all tenants",
+          freeze.workspace_id && `ws:${freeze.workspace_id}`,
+          freeze.adapter_id && `adapter:${freeze.adapter_id}`,
+          freeze.agent_id && `agent:${freeze.agent_id}`,
+        ]
+          .filter(Boolean)
+          .join(" ");
+        console.log(
+          `${freeze.freeze_id.padEnd(38, " ")} ${truncate(scope, 30).padEnd(30, " ")} ` +
+            `${(freeze.expires_at || "until lifted").padEnd(25, " ")} ` +
+            `${freeze.active ? colorize(truncate(freeze.reason, 40), "red") : colorize(truncate(freeze.reason, 40), "dim")}`
+        );
+      }
+      return;
+    }
+
+    if (!opts.reason) {
+      console.error('Reason required. Usage: clasper-core freeze --reason "<why>" [--workspace <id>] [--adapter <id>] [--agent <id>] [--minutes <n>]');
+      process.exit(1);
+    }
+    const minutes = opts.minutes !== undefined ? Number(opts.minutes) : undefined;
+    if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1)) {
+      console.error("--minutes must be a positive integer.");
+      process.exit(1);
+    }
+    const res = await fetch(`${baseUrl}/ops/api/freezes`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        tenant_id: opts.tenantId,
+        workspace_id: opts.workspace,
+        adapter_id: opts.adapter,
+        agent_id: opts.agent,
+        reason: opts.reason,
+        minutes,
+        global: Boolean(opts.global),
+      }),
+    });
+    if (!res.ok) {
+      console.error(`Freeze failed: ${res.status} ${await res.text()}`);
+      process.exit(1);
+    }
+    const data = (await res.json()) as { freeze: { freeze_id: string; expires_at: string | null } };
+    console.log(colorize(`Frozen: ${data.freeze.freeze_id}`, "red"));
+    console.log(`Until: ${data.freeze.expires_at || "lifted (clasper-core unfreeze <freeze_id>)"}`);
+  });
+
+program
+  .command("unfreeze <freezeId>")
+  .description("Lift a freeze (kill switch)")
+  .option("--base-url <url>", "Ops API base URL", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Ops API key (X-Ops-Api-Key)")
+  .action(async (freezeId, opts) => {
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    const headers: Record<string, string> = {};
+    if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+    const res = await fetch(`${baseUrl}/ops/api/freezes/${encodeURIComponent(freezeId)}/lift`, {
+      method: "POST",
+      headers,
+    });
+    if (!res.ok) {
+      console.error(`Unfreeze failed: ${res.status} ${await res.text()}`);
+      process.exit(1);
+    }
+    console.log(colorize(`Lifted freeze ${freezeId}`, "green"));
+  });
+
+program
+  .command("audit")
+  .description("Audit log utilities")
+  .argument("<action>", "verify")
+  .option("--base-url <url>", "Ops API base URL", "http://localhost:8081")
+  .option("--ops-api-key <key>", "Ops API key (X-Ops-Api-Key)")
+  .option("--tenant-id <id>", "Tenant ID (default: the key's tenant)")
+  .option("--json", "Print the verification result as JSON")
+  .action(async (action, opts) => {
+    if (action !== "verify") {
+      console.error(`Unknown action: ${action}. Use verify.`);
+      process.exit(1);
+    }
+    const baseUrl = opts.baseUrl || "http://localhost:8081";
+    const headers: Record<string, string> = {};
+    if (opts.opsApiKey) headers["X-Ops-Api-Key"] = opts.opsApiKey;
+
+    // Re-check every link and hash locally from the export, then add the server's
+    // cross-check of audit_log against the chain (deleted or edited log rows).
+    let cursor: AuditChainCursor = { seq: 0, hash: null };
+    const failures: AuditChainFailure[] = [];
+    let verification: AuditChainVerification | null = null;
+    let fromSeq: number | null = 1;
+    let length = 0;
+    while (fromSeq !== null) {
+      const params = new URLSearchParams({ from_seq: String(fromSeq), limit: "5000" });
+      if (opts.tenantId) params.set("tenant_id", opts.tenantId);
+      const res = await fetch(`${baseUrl}/ops/api/audit-chain/export?${params.toString()}`, { headers });
+      if (!res.ok) {
+        console.error(`Audit verify failed: ${res.status} ${await res.text()}`);
+        process.exit(1);
+      }
+      const page = (await res.json()) as {
+        entries: AuditChainEntry[];
+        next_seq: number | null;
+        verification: AuditChainVerification;
+      };
+      const checked = verifyAuditChainEntries(page.entries, cursor);
+      failures.push(...checked.failures);
+      cursor = checked.cursor;
+      length += page.entries.length;
+      verification ??= page.verification;
+      fromSeq = page.next_seq;
+    }
+    const server = verification!;
+    const crossCheck = server.failures.filter((failure) => failure.reason.startsWith("entry_"));
+    const all = [...failures, ...crossCheck];
+    const status = all.length > 0 || server.status === "broken" ? "broken" : server.status;
+
+    if (opts.json) {
+      console.log(JSON.stringify({ ...server, status, local_failures: failures }, null, 2));
+    } else {
+      const color = status === "verified" ? "green" : status === "broken" ? "red" : "yellow";
+      console.log(`Tenant: ${server.tenant_id}`);
+      console.log(`Status: ${colorize(status, color)}`);
+      console.log(`Entries: ${length}${server.unchained_entries > 0 ? ` (${server.unchained_entries} older entries predate the chain)` : ""}`);
+      console.log(`Head: ${cursor.hash || "—"}`);
+      for (const failure of all.slice(0, 50)) {
+        const where = [failure.seq !== undefined && `seq ${failure.seq}`, failure.audit_id !== undefined && `audit entry ${failure.audit_id}`]
+          .filter(Boolean)
+          .join(", ");
+        console.log(colorize(`  ${failure.reason}${where ? ` (${where})` : ""}`, "red"));
+      }
+      if (all.length > 50) console.log(colorize(`  … and ${all.length - 50} more`, "dim"));
+    }
+    if (status === "broken") process.exit(1);
+  });
+
 program
   .command("test [file]")
   .description("Run policy tests from a YAML file (requires server + Ops API key)")
@@ -23,6 +23,8 @@ export interface ExecutionRequest {
   agent_role?: string;
   /** Additional agent metadata for policy matching. */
   agent_metadata?: Record<string, unknown>;
+  /** Agent session the invocation belongs to (scopes "for this session" approval grants). */
+  session_id?: string;
   context?: ExecutionContext;
   templateVars?: Record<string, string>;
   provenance?: ExecutionProvenance;
@@ -51,6 +53,8 @@ export const ExecutionRequestSchema = z.object({
   agent_role: z.string().optional(),
   /** Additional agent metadata for policy matching. */
   agent_metadata: z.record(z.unknown()).optional(),
+  /** Agent session the invocation belongs to (scopes "for this session" approval grants). */
+  session_id: z.string().optional(),
   context: z
     .object({
       external_network: z.boolean().optional(),
@@ -163,6 +167,7 @@ export interface ExecutionDecision {
       actual: unknown;
       result: boolean;
     }[];
+    mode?: 'shadow';
   }[];
   explanation?: string;
   /**
@@ -174,8 +179,15 @@ export interface ExecutionDecision {
   /**
    * If approval was simulated, indicates where that auto-allow came from.
    * Intended for UI/audit guardrails so users don't mistake simulation for enforcement.
+   * `standing_grant`: allowed by an approver's standing grant on an earlier decision.
    */
-  approval_source?: 'config_override';
+  approval_source?: 'config_override' | 'standing_grant';
+  /** Approved decision whose standing grant allowed this execution. */
+  approval_grant_id?: string;
+  /** Break-glass session the execution was decided under (emergency override). */
+  break_glass_session_id?: string;
+  /** Freeze (kill switch) that denied the execution. */
+  freeze_id?: string;
   /** Set when Core (OSS) auto-allowed an execution that would otherwise require approval. */
   auto_allowed_in_core?: boolean;
   /** Risk score 0–100 from governance evaluation. */
@@ -184,6 +196,19 @@ export interface ExecutionDecision {
   risk_level?: 'low' | 'medium' | 'high' | 'critical';
   /** SHA-256 hash of the policy bundle at evaluation time (for deterministic replay). */
   policy_bundle_hash?: string;
+  /** Would-be decision of matched shadow-mode policies; never changes the outcome. */
+  shadow?: {
+    enforced_decision: 'allow' | 'deny' | 'require_approval';
+    decision: 'allow' | 'deny' | 'require_approval';
+    flipped: boolean;
+    policies: { policy_id: string; decision: 'allow' | 'deny' | 'require_approval'; flipped: boolean }[];
+  };
+  /** Approval requirements (quorum, roles, self-approval) when approval is required. */
+  approval?: {
+    quorum?: number;
+    roles?: string[];
+    allow_self_approval?: boolean;
+  };
 }
 
 export const ExecutionDecisionSchema = z.object({
@@ -216,14 +241,39 @@ export const ExecutionDecisionSchema = z.object({
             })
           )
           .optional(),
+        mode: z.enum(['shadow']).optional(),
       })
     )
     .optional(),
   explanation: z.string().optional(),
   approval_mode: z.enum(['simulate', 'enforce']).optional(),
-  approval_source: z.enum(['config_override']).optional(),
+  approval_source: z.enum(['config_override', 'standing_grant']).optional(),
+  approval_grant_id: z.string().optional(),
+  break_glass_session_id: z.string().optional(),
+  freeze_id: z.string().optional(),
   auto_allowed_in_core: z.boolean().optional(),
   risk_score: z.number().optional(),
   risk_level: z.enum(['low', 'medium', 'high', 'critical']).optional(),
   policy_bundle_hash: z.string().optional(),
+  shadow: z
+    .object({
+      enforced_decision: z.enum(['allow', 'deny', 'require_approval']),
+      decision: z.enum(['allow', 'deny', 'require_approval']),
+      flipped: z.boolean(),
+      policies: z.array(
+        z.object({
+          policy_id: z.string(),
+          decision: z.enum(['allow', 'deny', 'require_approval']),
+          flipped: z.boolean(),
+        })
+      ),
+    })
+    .optional(),
+  approval: z
+    .object({
+      quorum: z.number().int().optional(),
+      roles: z.array(z.string()).optional(),
+      allow_self_approval: z.boolean().optional(),
+    })
+    .optional(),
 });
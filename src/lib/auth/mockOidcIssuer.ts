@@ -0,0 +1,127 @@
+/**
+ * Mock OIDC issuer (tests only)
+ *
+ * A minimal identity provider on 127.0.0.1: discovery document, JWKS, an
+ * authorize endpoint that immediately redirects back with a code, and a token
+ * endpoint that checks the PKCE (S256) verifier. Tokens are RS256 JWTs signed
+ * with a key generated per instance.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { exportJWK, generateKeyPair, SignJWT, type JSONWebKeySet, type JWTPayload, type KeyLike } from "jose";
+
+const KEY_ID = "mock-key";
+
+export interface MockOidcIssuer {
+  issuer: string;
+  jwks: JSONWebKeySet;
+  /** Claims put into tokens issued by the token endpoint. */
+  claims: JWTPayload;
+  /** Sign a token with the issuer's key (defaults: iss, sub, 5 minute expiry). */
+  issue(claims?: JWTPayload, options?: { expiresIn?: string | number }): Promise<string>;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+function readBody(req: IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => (body += chunk.toString("utf8")));
+    req.on("end", () => resolve(new URLSearchParams(body)));
+    req.on("error", reject);
+  });
+}
+
+export async function startMockOidcIssuer(options: { audience?: string } = {}): Promise<MockOidcIssuer> {
+  const { privateKey, publicKey } = await generateKeyPair("RS256");
+  const jwks: JSONWebKeySet = { keys: [{ ...(await exportJWK(publicKey)), kid: KEY_ID, alg: "RS256", use: "sig" }] };
+  const codes = new Map<string, PendingCode>();
+  let issuer = "";
+
+  const sign = (key: KeyLike, claims: JWTPayload, expiresIn: string | number = "5m") =>
+    new SignJWT({ sub: "mock-user", ...claims })
+      .setProtectedHeader({ alg: "RS256", kid: KEY_ID })
+      .setIssuer(issuer)
+      .setIssuedAt()
+      .setExpirationTime(expiresIn)
+      .sign(key);
+
+  const mock: MockOidcIssuer = {
+    issuer: "",
+    jwks,
+    claims: {},
+    issue: (claims = {}, issueOptions = {}) => sign(privateKey, claims, issueOptions.expiresIn),
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        code_challenge_methods_supported: ["S256"],
+      });
+    }
+    if (req.method === "GET" && url.pathname === "/jwks") {
+      return json(200, jwks);
+    }
+    if (req.method === "GET" && url.pathname === "/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri");
+      const codeChallenge = url.searchParams.get("code_challenge");
+      if (!redirectUri || !codeChallenge || url.searchParams.get("code_challenge_method") !== "S256") {
+        return json(400, { error: "invalid_request" });
+      }
+      const code = randomBytes(16).toString("hex");
+      codes.set(code, { clientId: url.searchParams.get("client_id") ?? "", redirectUri, codeChallenge });
+      const location = new URL(redirectUri);
+      location.searchParams.set("code", code);
+      location.searchParams.set("state", url.searchParams.get("state") ?? "");
+      res.writeHead(302, { Location: location.toString() });
+      return res.end();
+    }
+    if (req.method === "POST" && url.pathname === "/token") {
+      const form = await readBody(req);
+      const pending = codes.get(form.get("code") ?? "");
+      codes.delete(form.get("code") ?? "");
+      const challenge = createHash("sha256")
+        .update(form.get("code_verifier") ?? "")
+        .digest("base64url");
+      if (
+        !pending ||
+        pending.redirectUri !== form.get("redirect_uri") ||
+        pending.clientId !== form.get("client_id") ||
+        pending.codeChallenge !== challenge
+      ) {
+        return json(400, { error: "invalid_grant" });
+      }
+      const aud = options.audience ?? pending.clientId;
+      return json(200, {
+        token_type: "Bearer",
+        expires_in: 300,
+        access_token: await sign(privateKey, { aud, ...mock.claims }),
+        id_token: await sign(privateKey, { aud: pending.clientId, ...mock.claims }),
+      });
+    }
+    json(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  mock.issuer = issuer;
+  return mock;
+}
@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../core/config.js";
+import { initDatabase, resetDatabase } from "../core/db.js";
+import { startMockOidcIssuer, type MockOidcIssuer } from "./mockOidcIssuer.js";
+import { getOidcSettings, parseOidcRoleMap, resetOidcCache, verifyOidcToken } from "./oidc.js";
+import { getApprovalTrustLevel, requireOpsContextFromHeaders } from "./opsAuth.js";
+
+const originalConfig = { ...config };
+let issuer: MockOidcIssuer;
+
+beforeAll(async () => {
+  issuer = await startMockOidcIssuer();
+});
+
+afterAll(async () => {
+  await issuer.close();
+});
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ":memory:";
+  resetDatabase();
+  initDatabase();
+  resetOidcCache();
+  Object.assign(config, {
+    opsLocalApiKey: "",
+    oidcIssuer: issuer.issuer,
+    oidcJwks: "",
+    oidcClientId: "clasper-ops",
+    oidcAudience: "",
+    oidcRolesClaim: "roles",
+    oidcRoleMap: "",
+    oidcDefaultRoles: "",
+  });
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  Object.assign(config, originalConfig);
+  resetOidcCache();
+});
+
+describe("oidc", () => {
+  it("verifies tokens against the discovered JWKS and maps roles", async () => {
+    const token = await issuer.issue({ aud: "clasper-ops", email: "dana@example.com", roles: ["operator"] });
+    await expect(verifyOidcToken(token, getOidcSettings()!)).resolves.toMatchObject({
+      userId: "dana@example.com",
+      roles: ["operator"],
+    });
+
+    config.oidcRolesClaim = "realm_access.roles";
+    config.oidcRoleMap = "ops-admins:admin,ops-team:operator|release_manager";
+    const mapped = await issuer.issue({ aud: "clasper-ops", realm_access: { roles: ["ops-team", "other"] } });
+    await expect(verifyOidcToken(mapped, getOidcSettings()!)).resolves.toMatchObject({
+      userId: "mock-user",
+      roles: ["release_manager", "operator"],
+    });
+    expect(() => parseOidcRoleMap("ops-team")).toThrow(/Invalid OIDC role mapping/);
+  });
+
+  it("reads the key set from a JWKS file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "clasper-oidc-"));
+    try {
+      config.oidcJwks = join(dir, "jwks.json");
+      writeFileSync(config.oidcJwks, JSON.stringify(issuer.jwks));
+      const token = await issuer.issue({ aud: "clasper-ops", roles: "viewer" });
+      await expect(verifyOidcToken(token, getOidcSettings()!)).resolves.toMatchObject({ roles: ["viewer"] });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects tokens for another audience or issuer, expired tokens and unmapped users", async () => {
+    const settings = getOidcSettings()!;
+    const wrongAudience = await issuer.issue({ aud: "someone-else", roles: ["admin"] });
+    await expect(verifyOidcToken(wrongAudience, settings)).rejects.toMatchObject({ code: "invalid_token" });
+
+    const wrongIssuer = await issuer.issue({ aud: "clasper-ops", roles: ["admin"] });
+    await expect(
+      verifyOidcToken(wrongIssuer, { ...settings, issuer: "https://idp.example.com", jwks: `${issuer.issuer}/jwks` })
+    ).rejects.toMatchObject({ code: "invalid_token" });
+
+    const expired = await issuer.issue(
+      { aud: "clasper-ops", roles: ["admin"] },
+      { expiresIn: Math.floor(Date.now() / 1000) - 60 }
+    );
+    await expect(verifyOidcToken(expired, settings)).rejects.toThrow("OIDC token expired");
+
+    const noRole = await issuer.issue({ aud: "clasper-ops", roles: ["guest"] });
+    await expect(verifyOidcToken(noRole, settings)).rejects.toMatchObject({ code: "no_role" });
+    config.oidcDefaultRoles = "viewer";
+    await expect(verifyOidcToken(noRole, getOidcSettings()!)).resolves.toMatchObject({ roles: ["viewer"] });
+  });
+
+  it("authenticates Ops API requests with a bearer token", async () => {
+    await expect(requireOpsContextFromHeaders({})).rejects.toMatchObject({ code: "missing_token" });
+
+    const token = await issuer.issue({ aud: "clasper-ops", email: "erin@example.com", roles: ["viewer"] });
+    const context = await requireOpsContextFromHeaders({
+      authorization: `Bearer ${token}`,
+      "x-ops-roles": "admin",
+    });
+    expect(context).toMatchObject({ userId: "erin@example.com", roles: ["viewer"], authMethod: "oidc" });
+    expect(getApprovalTrustLevel(context)).toBe("authenticated");
+
+    await expect(requireOpsContextFromHeaders({ authorization: `Bearer ${token}x` })).rejects.toMatchObject({
+      code: "invalid_token",
+    });
+  });
+});
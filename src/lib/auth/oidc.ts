@@ -0,0 +1,310 @@
+/**
+ * OIDC Sign-in
+ *
+ * The Ops API accepts `Authorization: Bearer <jwt>` from a configured identity
+ * provider. Tokens are verified with `jose` against the issuer's JWKS: the
+ * CLASPER_OIDC_JWKS URL or file when set, otherwise the `jwks_uri` of the
+ * issuer's discovery document. The user id and Ops roles come from configurable
+ * claims. The Ops Console signs in with the authorization code flow and PKCE;
+ * the code is exchanged here so a client secret (if any) stays server-side.
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeJwt,
+  errors as joseErrors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from "jose";
+import { config } from "../core/config.js";
+import { OPS_ROLES, type OpsRole } from "./opsAuth.js";
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+export interface OidcSettings {
+  issuer: string;
+  jwks: string;
+  clientId: string;
+  clientSecret: string;
+  audience: string;
+  scopes: string;
+  userClaim: string;
+  rolesClaim: string;
+  roleMap: Record<string, OpsRole[]>;
+  defaultRoles: OpsRole[];
+}
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcIdentity {
+  userId: string;
+  roles: OpsRole[];
+  claims: JWTPayload;
+}
+
+/**
+ * What the Ops Console needs to start a sign-in (no secrets).
+ */
+export interface OidcClientConfig {
+  issuer: string;
+  authorization_endpoint: string;
+  end_session_endpoint: string | null;
+  client_id: string;
+  scopes: string;
+}
+
+export class OidcError extends Error {
+  code: "not_configured" | "discovery_failed" | "invalid_token" | "no_role" | "exchange_failed";
+
+  constructor(message: string, code: OidcError["code"]) {
+    super(message);
+    this.name = "OidcError";
+    this.code = code;
+  }
+}
+
+function parseRoles(value: string): OpsRole[] {
+  return value
+    .split(/[|,]/)
+    .map((role) => role.trim())
+    .filter((role): role is OpsRole => OPS_ROLES.includes(role as OpsRole));
+}
+
+/**
+ * Parse "<claim value>:<role>[|<role>]" entries (comma separated).
+ */
+export function parseOidcRoleMap(spec: string): Record<string, OpsRole[]> {
+  const map: Record<string, OpsRole[]> = {};
+  for (const entry of spec.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const split = entry.lastIndexOf(":");
+    const value = split > 0 ? entry.slice(0, split).trim() : "";
+    const roles = split > 0 ? parseRoles(entry.slice(split + 1)) : [];
+    if (!value || roles.length === 0) {
+      throw new OidcError(`Invalid OIDC role mapping "${entry}" (expected <claim value>:<role>[|<role>])`, "not_configured");
+    }
+    map[value] = [...new Set([...(map[value] ?? []), ...roles])];
+  }
+  return map;
+}
+
+/**
+ * OIDC settings from config, or null when sign-in is not configured.
+ */
+export function getOidcSettings(): OidcSettings | null {
+  if (!config.oidcIssuer) return null;
+  return {
+    issuer: config.oidcIssuer.replace(/\/+$/, ""),
+    jwks: config.oidcJwks,
+    clientId: config.oidcClientId,
+    clientSecret: config.oidcClientSecret,
+    audience: config.oidcAudience || config.oidcClientId,
+    scopes: config.oidcScopes,
+    userClaim: config.oidcUserClaim,
+    rolesClaim: config.oidcRolesClaim,
+    roleMap: parseOidcRoleMap(config.oidcRoleMap),
+    defaultRoles: parseRoles(config.oidcDefaultRoles),
+  };
+}
+
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>();
+const keySetCache = new Map<string, JWTVerifyGetKey>();
+
+/**
+ * Forget cached discovery documents and key sets (tests, config reloads).
+ */
+export function resetOidcCache(): void {
+  discoveryCache.clear();
+  keySetCache.clear();
+}
+
+async function fetchDiscovery(issuer: string): Promise<OidcDiscovery> {
+  let document: Partial<OidcDiscovery>;
+  try {
+    const res = await fetch(`${issuer}/.well-known/openid-configuration`, {
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`status ${res.status}`);
+    document = (await res.json()) as Partial<OidcDiscovery>;
+  } catch (error) {
+    throw new OidcError(
+      `OIDC discovery failed for ${issuer}: ${error instanceof Error ? error.message : String(error)}`,
+      "discovery_failed"
+    );
+  }
+  if (
+    document.issuer?.replace(/\/+$/, "") !== issuer ||
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.jwks_uri
+  ) {
+    throw new OidcError(`OIDC discovery document for ${issuer} is incomplete or names another issuer`, "discovery_failed");
+  }
+  return document as OidcDiscovery;
+}
+
+/**
+ * The issuer's discovery document (cached; a failed lookup is retried next time).
+ */
+export function getOidcDiscovery(settings: OidcSettings): Promise<OidcDiscovery> {
+  let cached = discoveryCache.get(settings.issuer);
+  if (!cached) {
+    cached = fetchDiscovery(settings.issuer);
+    cached.catch(() => discoveryCache.delete(settings.issuer));
+    discoveryCache.set(settings.issuer, cached);
+  }
+  return cached;
+}
+
+async function getKeySet(settings: OidcSettings): Promise<JWTVerifyGetKey> {
+  const source = settings.jwks || (await getOidcDiscovery(settings)).jwks_uri;
+  let keySet = keySetCache.get(source);
+  if (!keySet) {
+    if (/^https?:\/\//.test(source)) {
+      keySet = createRemoteJWKSet(new URL(source));
+    } else {
+      try {
+        keySet = createLocalJWKSet(JSON.parse(readFileSync(source, "utf8")) as JSONWebKeySet);
+      } catch (error) {
+        throw new OidcError(
+          `Cannot read OIDC JWKS file ${source}: ${error instanceof Error ? error.message : String(error)}`,
+          "not_configured"
+        );
+      }
+    }
+    keySetCache.set(source, keySet);
+  }
+  return keySet;
+}
+
+function readClaim(claims: JWTPayload, path: string): unknown {
+  let value: unknown = claims;
+  for (const part of path.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Ops roles for a token's claims: mapped claim values, or the values that are
+ * role names when no mapping is configured, else the default roles.
+ */
+export function mapOidcRoles(claims: JWTPayload, settings: OidcSettings): OpsRole[] {
+  const raw = readClaim(claims, settings.rolesClaim);
+  const values = Array.isArray(raw)
+    ? raw.filter((value): value is string => typeof value === "string")
+    : typeof raw === "string"
+      ? raw.split(/\s+/).filter(Boolean)
+      : [];
+  const mapped =
+    Object.keys(settings.roleMap).length > 0
+      ? values.flatMap((value) => settings.roleMap[value] ?? [])
+      : values.filter((value): value is OpsRole => OPS_ROLES.includes(value as OpsRole));
+  const roles = mapped.length > 0 ? mapped : settings.defaultRoles;
+  return OPS_ROLES.filter((role) => roles.includes(role)).reverse();
+}
+
+/**
+ * Verify a bearer token (signature, issuer, audience, expiry) and resolve the
+ * Ops identity. Throws OidcError.
+ */
+export async function verifyOidcToken(token: string, settings: OidcSettings): Promise<OidcIdentity> {
+  if (!settings.audience) {
+    throw new OidcError("CLASPER_OIDC_CLIENT_ID or CLASPER_OIDC_AUDIENCE is required for OIDC sign-in", "not_configured");
+  }
+  let claims: JWTPayload;
+  try {
+    ({ payload: claims } = await jwtVerify(token, await getKeySet(settings), {
+      issuer: settings.issuer,
+      audience: settings.audience,
+    }));
+  } catch (error) {
+    if (error instanceof OidcError) throw error;
+    if (error instanceof joseErrors.JWTExpired) throw new OidcError("OIDC token expired", "invalid_token");
+    throw new OidcError("Invalid OIDC token", "invalid_token");
+  }
+
+  const named = readClaim(claims, settings.userClaim);
+  const userId = typeof named === "string" && named ? named : claims.sub;
+  if (!userId) throw new OidcError("OIDC token has no subject", "invalid_token");
+  const roles = mapOidcRoles(claims, settings);
+  if (roles.length === 0) throw new OidcError(`No Ops role is mapped for ${userId}`, "no_role");
+  return { userId: userId.slice(0, 256), roles, claims };
+}
+
+export async function getOidcClientConfig(settings: OidcSettings): Promise<OidcClientConfig> {
+  if (!settings.clientId) {
+    throw new OidcError("CLASPER_OIDC_CLIENT_ID is required for Ops Console sign-in", "not_configured");
+  }
+  const discovery = await getOidcDiscovery(settings);
+  return {
+    issuer: settings.issuer,
+    authorization_endpoint: discovery.authorization_endpoint,
+    end_session_endpoint: discovery.end_session_endpoint ?? null,
+    client_id: settings.clientId,
+    scopes: settings.scopes,
+  };
+}
+
+/**
+ * Exchange an authorization code (with its PKCE verifier) at the token
+ * endpoint. Returns the first of access_token / id_token that verifies as an
+ * Ops bearer token, with its identity and expiry.
+ */
+export async function exchangeOidcCode(
+  params: { code: string; codeVerifier: string; redirectUri: string },
+  settings: OidcSettings
+): Promise<{ token: string; expires_at: string | null; identity: OidcIdentity }> {
+  const discovery = await getOidcDiscovery(settings);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    code_verifier: params.codeVerifier,
+    redirect_uri: params.redirectUri,
+    client_id: settings.clientId,
+  });
+  if (settings.clientSecret) body.set("client_secret", settings.clientSecret);
+
+  let tokens: { access_token?: unknown; id_token?: unknown };
+  try {
+    const res = await fetch(discovery.token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body,
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+    tokens = (await res.json()) as typeof tokens;
+    if (!res.ok) {
+      const detail = (tokens as { error?: unknown }).error;
+      throw new Error(typeof detail === "string" ? detail : `status ${res.status}`);
+    }
+  } catch (error) {
+    throw new OidcError(
+      `Token exchange failed: ${error instanceof Error ? error.message : String(error)}`,
+      "exchange_failed"
+    );
+  }
+
+  let lastError: unknown = new OidcError("Token response has no JWT", "exchange_failed");
+  for (const candidate of [tokens.access_token, tokens.id_token]) {
+    if (typeof candidate !== "string" || candidate.split(".").length !== 3) continue;
+    try {
+      const identity = await verifyOidcToken(candidate, settings);
+      const exp = decodeJwt(candidate).exp;
+      return { token: candidate, expires_at: exp ? new Date(exp * 1000).toISOString() : null, identity };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
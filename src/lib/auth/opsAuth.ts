@@ -1,7 +1,17 @@
 import { config } from "../core/config.js";
+import { OidcError, getOidcSettings, verifyOidcToken } from "./oidc.js";
+import { authenticateOpsApiKey, hasActiveOpsUsers, type OpsUser } from "./opsUsers.js";
 
 export type OpsRole = "viewer" | "operator" | "release_manager" | "admin";
 
+export const OPS_ROLES: OpsRole[] = ["viewer", "operator", "release_manager", "admin"];
+
+/**
+ * How the caller authenticated: a per-user key from the user store, an OIDC
+ * bearer token, the shared OPS_LOCAL_API_KEY, or nothing (auth disabled).
+ */
+export type OpsAuthMethod = "user_key" | "oidc" | "shared_key" | "none";
+
 export interface OpsContext {
   userId: string;
   tenantId: string;
@@ -9,33 +19,47 @@ export interface OpsContext {
   roles: OpsRole[];
   role: OpsRole;
   allowedTenants: string[];
+  authMethod: OpsAuthMethod;
   raw: Record<string, unknown>;
 }
 
 export type Permission = string;
 
-const LOCAL_ROLE_PERMISSIONS: Record<OpsRole, Permission[]> = {
+export const LOCAL_ROLE_PERMISSIONS: Record<OpsRole, Permission[]> = {
   viewer: [
     "audit:view",
     "policy:view",
+    "adapter:view",
   ],
   operator: [
     "audit:view",
     "policy:view",
+    "adapter:view",
     "policy:manage",
     "decision:resolve",
+    "break_glass:manage",
+    "freeze:manage",
   ],
   release_manager: [
     "audit:view",
     "policy:view",
+    "adapter:view",
     "policy:manage",
     "decision:resolve",
+    "break_glass:manage",
+    "freeze:manage",
+    "skill:promote",
   ],
   admin: [
     "audit:view",
     "policy:view",
+    "adapter:view",
     "policy:manage",
     "decision:resolve",
+    "break_glass:manage",
+    "freeze:manage",
+    "skill:promote",
+    "user:manage",
   ],
 };
 
@@ -53,39 +77,120 @@ export class PermissionError extends Error {
   permission: Permission;
   requiredRoles: OpsRole[];
 
-  constructor(permission: Permission, _role: OpsRole) {
+  constructor(permission: Permission, requiredRoles: OpsRole[]) {
     super(`Permission denied: ${permission}`);
     this.name = "PermissionError";
     this.permission = permission;
-    this.requiredRoles = ["operator"];
+    this.requiredRoles = requiredRoles;
   }
 }
 
-export async function requireOpsContextFromHeaders(
-  headers: Record<string, unknown>
-): Promise<OpsContext> {
-  const requiredKey = config.opsLocalApiKey;
-  if (requiredKey) {
-    const provided = headers["x-ops-api-key"];
-    if (!provided || typeof provided !== "string") {
-      throw new OpsAuthError("Missing ops API key", "missing_token");
-    }
-    if (provided !== requiredKey) {
-      throw new OpsAuthError("Invalid ops API key", "invalid_token");
-    }
-  }
+function contextForUser(user: OpsUser): OpsContext {
+  const roles = user.roles.length > 0 ? user.roles : (["viewer"] as OpsRole[]);
+  return {
+    userId: user.user_id,
+    tenantId: user.tenant_id,
+    workspaceId: user.workspace_id,
+    roles,
+    role: roles[0],
+    allowedTenants: [],
+    authMethod: "user_key",
+    raw: { display_name: user.display_name }
+  };
+}
+
+/**
+ * Context for the shared key (or disabled auth), acting as operator. Until
+ * per-user keys or OIDC are configured, callers may self-attest an identity
+ * (X-Ops-User / X-Ops-Roles) so several operators sharing the key can be told
+ * apart and the first admin user can be created. Afterwards the headers are
+ * ignored, so the shared key cannot claim another user or a higher role.
+ */
+function sharedContext(headers: Record<string, unknown>, authMethod: OpsAuthMethod): OpsContext {
+  const selfAttested = !config.oidcIssuer && !hasActiveOpsUsers();
+  const userHeader = selfAttested ? headers["x-ops-user"] : undefined;
+  const userId = typeof userHeader === "string" && userHeader.trim() ? userHeader.trim().slice(0, 128) : "local-operator";
+  const rolesHeader = selfAttested ? headers["x-ops-roles"] : undefined;
+  const roles =
+    typeof rolesHeader === "string"
+      ? rolesHeader
+          .split(",")
+          .map((role) => role.trim())
+          .filter((role): role is OpsRole => OPS_ROLES.includes(role as OpsRole))
+      : [];
+  if (roles.length === 0) roles.push("operator");
 
   return {
-    userId: "local-operator",
+    userId,
     tenantId: config.localTenantId,
     workspaceId: config.localWorkspaceId,
-    roles: ["operator"],
-    role: "operator",
+    roles,
+    role: roles[0],
     allowedTenants: [],
+    authMethod,
     raw: {}
   };
 }
 
+async function oidcContext(token: string): Promise<OpsContext> {
+  const settings = getOidcSettings();
+  if (!settings) throw new OpsAuthError("OIDC sign-in is not configured", "invalid_token");
+  try {
+    const identity = await verifyOidcToken(token, settings);
+    return {
+      userId: identity.userId,
+      tenantId: config.localTenantId,
+      workspaceId: config.localWorkspaceId,
+      roles: identity.roles,
+      role: identity.roles[0],
+      allowedTenants: [],
+      authMethod: "oidc",
+      raw: identity.claims
+    };
+  } catch (error) {
+    if (error instanceof OidcError) {
+      const code = error.code === "invalid_token" || error.code === "no_role" ? "invalid_token" : "config_error";
+      throw new OpsAuthError(error.message, code);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Authenticate an Ops API request. A per-user key (X-Ops-Api-Key) resolves to
+ * that user and their stored roles, and an OIDC bearer token (Authorization) to
+ * its subject and mapped roles (only when OIDC is configured; otherwise the
+ * Authorization header is ignored); identity headers are ignored for both. The
+ * shared OPS_LOCAL_API_KEY keeps working as the bootstrap key. With none of
+ * them configured (no shared key, no OIDC, no enabled users) auth is disabled.
+ */
+export async function requireOpsContextFromHeaders(
+  headers: Record<string, unknown>
+): Promise<OpsContext> {
+  const provided = headers["x-ops-api-key"];
+  const apiKey = typeof provided === "string" && provided ? provided : undefined;
+  const sharedKey = config.opsLocalApiKey;
+
+  const authorization = headers["authorization"];
+  const bearer = typeof authorization === "string" ? /^Bearer\s+(\S+)$/i.exec(authorization)?.[1] : undefined;
+  if (bearer && !apiKey && config.oidcIssuer) {
+    return oidcContext(bearer);
+  }
+
+  if (sharedKey && apiKey === sharedKey) {
+    return sharedContext(headers, "shared_key");
+  }
+  if (apiKey) {
+    const user = authenticateOpsApiKey(apiKey);
+    if (!user) throw new OpsAuthError("Invalid ops API key", "invalid_token");
+    return contextForUser(user);
+  }
+  if (sharedKey || config.oidcIssuer || hasActiveOpsUsers()) {
+    throw new OpsAuthError("Missing ops API key", "missing_token");
+  }
+  return sharedContext(headers, "none");
+}
+
 export function canAccessTenant(context: OpsContext, tenantId: string): boolean {
   return context.tenantId === tenantId;
 }
@@ -95,14 +200,33 @@ export function canAccessWorkspace(context: OpsContext, workspaceId?: string): b
   return context.workspaceId === workspaceId;
 }
 
-export function requireRole(_context: OpsContext, _minimumRole: OpsRole): void {
-  // Single-tenant local ops: no role gating.
+/**
+ * Require a role at or above `minimumRole` (viewer < operator < release_manager < admin).
+ */
+export function requireRole(context: OpsContext, minimumRole: OpsRole): void {
+  const minimum = OPS_ROLES.indexOf(minimumRole);
+  if (!context.roles.some((role) => OPS_ROLES.indexOf(role) >= minimum)) {
+    throw new PermissionError(`role:${minimumRole}`, OPS_ROLES.slice(minimum));
+  }
 }
 
-export function requirePermission(_context: OpsContext, _permission: Permission): void {
-  // Single-tenant local ops: permission checks are currently non-blocking.
+export function requirePermission(context: OpsContext, permission: Permission): void {
+  if (!getContextPermissions(context).includes(permission)) {
+    throw new PermissionError(
+      permission,
+      OPS_ROLES.filter((role) => LOCAL_ROLE_PERMISSIONS[role].includes(permission))
+    );
+  }
 }
 
 export function getContextPermissions(context: OpsContext): Permission[] {
-  return [...new Set(LOCAL_ROLE_PERMISSIONS[context.role] || [])];
+  return [...new Set(context.roles.flatMap((role) => LOCAL_ROLE_PERMISSIONS[role] || []))];
+}
+
+/**
+ * Trust level recorded on approvals: votes cast with a per-user key or an OIDC
+ * token are authenticated, the shared key's identity headers are self-attested.
+ */
+export function getApprovalTrustLevel(context: OpsContext): "authenticated" | "self_attested" {
+  return context.authMethod === "user_key" || context.authMethod === "oidc" ? "authenticated" : "self_attested";
 }
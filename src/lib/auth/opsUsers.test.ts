@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../core/config.js";
+import { initDatabase, resetDatabase } from "../core/db.js";
+import { getAuditLog } from "../governance/auditLog.js";
+import { PermissionError, requireOpsContextFromHeaders, requirePermission } from "./opsAuth.js";
+import {
+  OpsUserError,
+  authenticateOpsApiKey,
+  createOpsUser,
+  listOpsUsers,
+  revokeOpsApiKeys,
+  rotateOpsApiKey,
+  updateOpsUser,
+} from "./opsUsers.js";
+
+const originalSharedKey = config.opsLocalApiKey;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ":memory:";
+  resetDatabase();
+  initDatabase();
+  config.opsLocalApiKey = "";
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  config.opsLocalApiKey = originalSharedKey;
+});
+
+function createUser(userId: string, roles: Parameters<typeof createOpsUser>[0]["roles"]) {
+  return createOpsUser({ userId, tenantId: "t1", workspaceId: "w1", roles, createdBy: "admin" });
+}
+
+describe("ops users", () => {
+  it("stores only a hash of the key and authenticates with it", () => {
+    const { user, api_key, key } = createUser("alice", ["operator"]);
+    expect(user).toMatchObject({ user_id: "alice", roles: ["operator"], disabled_at: null });
+    expect(api_key.startsWith(`${key.key_prefix}_`)).toBe(true);
+    expect(JSON.stringify(listOpsUsers("t1"))).not.toContain(api_key);
+
+    expect(authenticateOpsApiKey(api_key)?.user_id).toBe("alice");
+    expect(authenticateOpsApiKey(`${api_key}x`)).toBeNull();
+    expect(() => createUser("alice", ["viewer"])).toThrow(OpsUserError);
+  });
+
+  it("rotates, revokes and disables", () => {
+    const first = createUser("bob", ["viewer"]);
+    const second = rotateOpsApiKey({ userId: "bob", rotatedBy: "admin" });
+    expect(authenticateOpsApiKey(first.api_key)).toBeNull();
+    expect(authenticateOpsApiKey(second.api_key)?.user_id).toBe("bob");
+
+    updateOpsUser({ userId: "bob", disabled: true, updatedBy: "admin" });
+    expect(authenticateOpsApiKey(second.api_key)).toBeNull();
+    updateOpsUser({ userId: "bob", disabled: false, updatedBy: "admin" });
+    expect(authenticateOpsApiKey(second.api_key)?.user_id).toBe("bob");
+
+    expect(revokeOpsApiKeys({ userId: "bob", revokedBy: "admin" })).toEqual([second.key.key_id]);
+    expect(authenticateOpsApiKey(second.api_key)).toBeNull();
+
+    const events = getAuditLog()
+      .query({ tenantId: "t1" })
+      .entries.map((entry) => entry.eventType);
+    expect(events).toEqual(
+      expect.arrayContaining(["ops_user_created", "ops_api_key_issued", "ops_user_updated", "ops_api_key_revoked"])
+    );
+  });
+
+  it("builds the ops context from the key's user and enforces role permissions", async () => {
+    const { api_key } = createUser("vic", ["viewer"]);
+    const context = await requireOpsContextFromHeaders({
+      "x-ops-api-key": api_key,
+      "x-ops-user": "someone-else",
+      "x-ops-roles": "admin",
+    });
+    expect(context).toMatchObject({ userId: "vic", roles: ["viewer"], tenantId: "t1", authMethod: "user_key" });
+
+    expect(() => requirePermission(context, "audit:view")).not.toThrow();
+    expect(() => requirePermission(context, "policy:manage")).toThrow(PermissionError);
+    expect(() => requirePermission(context, "user:manage")).toThrow(
+      expect.objectContaining({ requiredRoles: ["admin"] })
+    );
+  });
+
+  it("requires a key once an enabled user exists", async () => {
+    await expect(requireOpsContextFromHeaders({})).resolves.toMatchObject({ authMethod: "none", roles: ["operator"] });
+    await expect(
+      requireOpsContextFromHeaders({ "x-ops-user": "root", "x-ops-roles": "admin" })
+    ).resolves.toMatchObject({ userId: "root", roles: ["admin"] });
+    createUser("carol", ["admin"]);
+    await expect(requireOpsContextFromHeaders({})).rejects.toMatchObject({ code: "missing_token" });
+    await expect(requireOpsContextFromHeaders({ "x-ops-api-key": "nope" })).rejects.toMatchObject({
+      code: "invalid_token",
+    });
+
+    // Identity headers no longer count once per-user keys exist: the shared key stays an operator.
+    config.opsLocalApiKey = "shared-secret";
+    await expect(
+      requireOpsContextFromHeaders({ "x-ops-api-key": "shared-secret", "x-ops-user": "carol", "x-ops-roles": "admin" })
+    ).resolves.toMatchObject({
+      userId: "local-operator",
+      roles: ["operator"],
+      authMethod: "shared_key",
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Ops Users
+ *
+ * Local user store for the Ops API. Each user holds one or more roles
+ * (viewer, operator, release_manager, admin) and per-user API keys. Only the
+ * sha256 of a key is stored, so a key is shown once, when it is issued; keys
+ * look like `cops_<key id>_<secret>`. Rotating a user's key revokes the keys
+ * they held before. Disabled users cannot authenticate with any key.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { getDatabase } from "../core/db.js";
+import {
+  logOpsApiKeyIssued,
+  logOpsApiKeyRevoked,
+  logOpsUserCreated,
+  logOpsUserUpdated,
+} from "../governance/auditLog.js";
+import type { OpsRole } from "./opsAuth.js";
+
+const API_KEY_PREFIX = "cops_";
+
+/**
+ * How often last_used_at is refreshed for a key in use (ms)
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface OpsUser {
+  user_id: string;
+  tenant_id: string;
+  workspace_id: string;
+  display_name: string | null;
+  roles: OpsRole[];
+  disabled_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OpsApiKey {
+  key_id: string;
+  user_id: string;
+  /** Displayable start of the key (`cops_<key id>`). */
+  key_prefix: string;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export interface OpsUserWithKeys extends OpsUser {
+  keys: OpsApiKey[];
+}
+
+/**
+ * A newly issued key: the plaintext `api_key` is only available here.
+ */
+export interface IssuedOpsApiKey {
+  key: OpsApiKey;
+  api_key: string;
+}
+
+export class OpsUserError extends Error {
+  code: "not_found" | "already_exists";
+
+  constructor(message: string, code: OpsUserError["code"]) {
+    super(message);
+    this.name = "OpsUserError";
+    this.code = code;
+  }
+}
+
+interface OpsUserRow extends Omit<OpsUser, "roles"> {
+  roles: string;
+}
+
+function toUser(row: OpsUserRow): OpsUser {
+  return { ...row, roles: JSON.parse(row.roles) as OpsRole[] };
+}
+
+function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+function insertApiKey(userId: string, createdBy: string, now: string): IssuedOpsApiKey {
+  const keyId = randomBytes(6).toString("hex");
+  const apiKey = `${API_KEY_PREFIX}${keyId}_${randomBytes(24).toString("base64url")}`;
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO ops_api_keys (key_id, user_id, key_hash, key_prefix, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+    )
+    .run(keyId, userId, hashApiKey(apiKey), `${API_KEY_PREFIX}${keyId}`, createdBy, now);
+  return { key: getApiKey(keyId)!, api_key: apiKey };
+}
+
+function getApiKey(keyId: string): OpsApiKey | null {
+  const row = getDatabase()
+    .prepare(
+      `
+      SELECT key_id, user_id, key_prefix, created_by, created_at, last_used_at, revoked_at, revoked_by
+      FROM ops_api_keys WHERE key_id = ?
+    `
+    )
+    .get(keyId) as OpsApiKey | undefined;
+  return row ?? null;
+}
+
+function listApiKeys(userId: string): OpsApiKey[] {
+  return getDatabase()
+    .prepare(
+      `
+      SELECT key_id, user_id, key_prefix, created_by, created_at, last_used_at, revoked_at, revoked_by
+      FROM ops_api_keys WHERE user_id = ?
+      ORDER BY created_at DESC, key_id
+    `
+    )
+    .all(userId) as OpsApiKey[];
+}
+
+function revokeKeys(userId: string, revokedBy: string, now: string, keyId?: string): string[] {
+  const db = getDatabase();
+  const ids = (
+    db
+      .prepare(
+        `SELECT key_id FROM ops_api_keys WHERE user_id = ? AND revoked_at IS NULL${keyId ? " AND key_id = ?" : ""}`
+      )
+      .all(...(keyId ? [userId, keyId] : [userId])) as Array<{ key_id: string }>
+  ).map((row) => row.key_id);
+  const revoke = db.prepare("UPDATE ops_api_keys SET revoked_at = ?, revoked_by = ? WHERE key_id = ?");
+  for (const id of ids) revoke.run(now, revokedBy, id);
+  return ids;
+}
+
+export function getOpsUser(userId: string): OpsUser | null {
+  const row = getDatabase().prepare("SELECT * FROM ops_users WHERE user_id = ?").get(userId) as
+    | OpsUserRow
+    | undefined;
+  return row ? toUser(row) : null;
+}
+
+function requireUser(userId: string): OpsUser {
+  const user = getOpsUser(userId);
+  if (!user) throw new OpsUserError(`Ops user not found: ${userId}`, "not_found");
+  return user;
+}
+
+export function listOpsUsers(tenantId: string): OpsUserWithKeys[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM ops_users WHERE tenant_id = ? ORDER BY user_id")
+    .all(tenantId) as OpsUserRow[];
+  return rows.map((row) => ({ ...toUser(row), keys: listApiKeys(row.user_id) }));
+}
+
+/**
+ * Whether any enabled user exists. Once one does, the Ops API requires a key
+ * even when OPS_LOCAL_API_KEY is unset.
+ */
+export function hasActiveOpsUsers(): boolean {
+  return Boolean(getDatabase().prepare("SELECT 1 FROM ops_users WHERE disabled_at IS NULL LIMIT 1").get());
+}
+
+/**
+ * Create a user and issue their first API key.
+ */
+export function createOpsUser(params: {
+  userId: string;
+  tenantId: string;
+  workspaceId: string;
+  roles: OpsRole[];
+  displayName?: string;
+  createdBy: string;
+  now?: Date;
+}): { user: OpsUser } & IssuedOpsApiKey {
+  if (getOpsUser(params.userId)) {
+    throw new OpsUserError(`Ops user already exists: ${params.userId}`, "already_exists");
+  }
+  const now = (params.now ?? new Date()).toISOString();
+  const roles = [...new Set(params.roles)];
+  const db = getDatabase();
+  const issued = db.transaction(() => {
+    db.prepare(
+      `
+      INSERT INTO ops_users (
+        user_id, tenant_id, workspace_id, display_name, roles, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      params.userId,
+      params.tenantId,
+      params.workspaceId,
+      params.displayName ?? null,
+      JSON.stringify(roles),
+      params.createdBy,
+      now,
+      now
+    );
+    return insertApiKey(params.userId, params.createdBy, now);
+  })();
+
+  logOpsUserCreated({ tenantId: params.tenantId, userId: params.createdBy, subjectUserId: params.userId, roles });
+  logOpsApiKeyIssued({
+    tenantId: params.tenantId,
+    userId: params.createdBy,
+    subjectUserId: params.userId,
+    keyId: issued.key.key_id,
+    rotatedKeyIds: [],
+  });
+  return { user: requireUser(params.userId), ...issued };
+}
+
+/**
+ * Change a user's roles and/or disable (or re-enable) them.
+ */
+export function updateOpsUser(params: {
+  userId: string;
+  roles?: OpsRole[];
+  disabled?: boolean;
+  updatedBy: string;
+  now?: Date;
+}): OpsUser {
+  const user = requireUser(params.userId);
+  const now = (params.now ?? new Date()).toISOString();
+  const roles = params.roles ? [...new Set(params.roles)] : user.roles;
+  const disabledAt =
+    params.disabled === undefined ? user.disabled_at : params.disabled ? user.disabled_at ?? now : null;
+  getDatabase()
+    .prepare("UPDATE ops_users SET roles = ?, disabled_at = ?, updated_at = ? WHERE user_id = ?")
+    .run(JSON.stringify(roles), disabledAt, now, params.userId);
+
+  logOpsUserUpdated({
+    tenantId: user.tenant_id,
+    userId: params.updatedBy,
+    subjectUserId: params.userId,
+    previousRoles: user.roles,
+    roles,
+    disabled: disabledAt !== null,
+  });
+  return requireUser(params.userId);
+}
+
+/**
+ * Issue a new key for a user and revoke the keys they held before.
+ */
+export function rotateOpsApiKey(params: { userId: string; rotatedBy: string; now?: Date }): IssuedOpsApiKey {
+  const user = requireUser(params.userId);
+  const now = (params.now ?? new Date()).toISOString();
+  const db = getDatabase();
+  const { issued, rotated } = db.transaction(() => {
+    const rotated = revokeKeys(params.userId, params.rotatedBy, now);
+    return { issued: insertApiKey(params.userId, params.rotatedBy, now), rotated };
+  })();
+
+  logOpsApiKeyIssued({
+    tenantId: user.tenant_id,
+    userId: params.rotatedBy,
+    subjectUserId: params.userId,
+    keyId: issued.key.key_id,
+    rotatedKeyIds: rotated,
+  });
+  return issued;
+}
+
+/**
+ * Revoke one key of a user, or all of their keys when keyId is omitted.
+ * Returns the ids of the keys revoked.
+ */
+export function revokeOpsApiKeys(params: { userId: string; keyId?: string; revokedBy: string; now?: Date }): string[] {
+  const user = requireUser(params.userId);
+  if (params.keyId && getApiKey(params.keyId)?.user_id !== params.userId) {
+    throw new OpsUserError(`API key not found: ${params.keyId}`, "not_found");
+  }
+  const revoked = revokeKeys(params.userId, params.revokedBy, (params.now ?? new Date()).toISOString(), params.keyId);
+  if (revoked.length > 0) {
+    logOpsApiKeyRevoked({
+      tenantId: user.tenant_id,
+      userId: params.revokedBy,
+      subjectUserId: params.userId,
+      keyIds: revoked,
+    });
+  }
+  return revoked;
+}
+
+/**
+ * Resolve an API key to its enabled user, or null when the key is unknown,
+ * revoked or belongs to a disabled user.
+ */
+export function authenticateOpsApiKey(apiKey: string, now: Date = new Date()): OpsUser | null {
+  if (!apiKey.startsWith(API_KEY_PREFIX)) return null;
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+      SELECT u.*, k.key_id AS matched_key_id
+      FROM ops_api_keys k JOIN ops_users u ON u.user_id = k.user_id
+      WHERE k.key_hash = ? AND k.revoked_at IS NULL AND u.disabled_at IS NULL
+    `
+    )
+    .get(hashApiKey(apiKey)) as (OpsUserRow & { matched_key_id: string }) | undefined;
+  if (!row) return null;
+
+  db.prepare(
+    "UPDATE ops_api_keys SET last_used_at = ? WHERE key_id = ? AND (last_used_at IS NULL OR last_used_at < ?)"
+  ).run(now.toISOString(), row.matched_key_id, new Date(now.getTime() - LAST_USED_RESOLUTION_MS).toISOString());
+
+  const { matched_key_id: _keyId, ...user } = row;
+  return toUser(user);
+}
@@ -24,12 +24,36 @@ export const config = {
   agentJwtAlgorithm: process.env.AGENT_JWT_ALGORITHM || "HS256",
   adapterJwtSecret: process.env.ADAPTER_JWT_SECRET || "",
   adapterJwtAlgorithm: process.env.ADAPTER_JWT_ALGORITHM || "HS256",
+  // Policy files (GitOps): a YAML file or directory loaded at startup and reconciled
+  // into the store. Ignored when the path does not exist.
   policyPath: process.env.CLASPER_POLICY_PATH || "./config/policies.yaml",
+  // Re-apply policy files when they change (true by default)
+  policyWatchEnabled: process.env.CLASPER_POLICY_WATCH !== "false",
   // Local single-tenant scope
   localTenantId: process.env.CLASPER_LOCAL_TENANT_ID || "local",
   localWorkspaceId: process.env.CLASPER_LOCAL_WORKSPACE_ID || "local",
   // Local Ops auth (single-tenant)
   opsLocalApiKey: process.env.OPS_LOCAL_API_KEY || "",
+  // Ops OIDC sign-in (enabled when the issuer is set): bearer JWTs verified against
+  // the issuer's JWKS. CLASPER_OIDC_JWKS overrides discovery with a JWKS URL or file.
+  oidcIssuer: process.env.CLASPER_OIDC_ISSUER || "",
+  oidcJwks: process.env.CLASPER_OIDC_JWKS || "",
+  // Console client (authorization code + PKCE); the secret is only for confidential clients
+  oidcClientId: process.env.CLASPER_OIDC_CLIENT_ID || "",
+  oidcClientSecret: process.env.CLASPER_OIDC_CLIENT_SECRET || "",
+  // Expected "aud" of bearer tokens (empty = the client id)
+  oidcAudience: process.env.CLASPER_OIDC_AUDIENCE || "",
+  oidcScopes: process.env.CLASPER_OIDC_SCOPES || "openid profile email",
+  // Claim naming the Ops user (falls back to "sub")
+  oidcUserClaim: process.env.CLASPER_OIDC_USER_CLAIM || "email",
+  // Claim holding groups/roles; dotted paths reach nested claims (e.g. "realm_access.roles")
+  oidcRolesClaim: process.env.CLASPER_OIDC_ROLES_CLAIM || "roles",
+  // Claim value to Ops role mapping as "<value>:<role>[|<role>]" entries, comma separated
+  // (e.g. "platform-admins:admin,sre:operator|release_manager"). Empty = claim values
+  // that are Ops role names are used as is.
+  oidcRoleMap: process.env.CLASPER_OIDC_ROLE_MAP || "",
+  // Roles for signed-in users no mapping applies to (empty = such users are rejected)
+  oidcDefaultRoles: process.env.CLASPER_OIDC_DEFAULT_ROLES || "",
 
   // ===== Multi-Provider LLM Configuration =====
   // Default LLM provider (openai, anthropic, google, xai, groq, mistral, openrouter)
@@ -85,7 +109,7 @@ export const config = {
   embeddingModel: process.env.CLASPER_EMBEDDING_MODEL || "Xenova/all-MiniLM-L6-v2",
 
   // Time context (OpenClaw-inspired)
-  // Default timezone for time context injection (empty = use system timezone)
+  // Default timezone for time context injection and policy schedules (empty = use system timezone)
   defaultTimezone: process.env.CLASPER_DEFAULT_TIMEZONE || "",
   // Include time context in system prompt (true by default)
   includeTimeContext: process.env.CLASPER_INCLUDE_TIME_CONTEXT !== "false",
@@ -132,6 +156,23 @@ export const config = {
         : process.env.CLASPER_REQUIRE_APPROVAL_IN_CORE === "block"
           ? "block"
           : "allow",
+
+  // Pending decision sweeper: expires overdue approvals and applies escalation tiers.
+  // Interval in milliseconds; 0 disables the sweeper.
+  decisionSweepIntervalMs: parseInt(process.env.CLASPER_DECISION_SWEEP_INTERVAL_MS || "30000", 10),
+  // Escalation tiers as "<minutes>:<role>[|<role>]" entries, comma separated
+  // (e.g. "15:team_lead,45:admin"). Each tier re-notifies callback_url and widens
+  // the roles allowed to approve once a decision has been pending that long.
+  decisionEscalation: process.env.CLASPER_DECISION_ESCALATION || "",
+
+  // Approval routing: YAML file with approver groups (members, roles, notification
+  // channel) and rules routing pending decisions to a group. Missing file = no routing.
+  approvalRoutingPath: process.env.CLASPER_APPROVAL_ROUTING_PATH || "./config/approval-routing.yaml",
+  // Ops Console base URL used for links in approval notifications (empty = no link).
+  opsConsoleUrl: process.env.CLASPER_OPS_CONSOLE_URL || "",
+  // Server-only HS256 secret for signed approve/deny links (empty = no links).
+  // Must differ from ADAPTER_JWT_SECRET, which adapters hold.
+  approvalLinkSecret: process.env.CLASPER_APPROVAL_LINK_SECRET || "",
 };
 
 export type ApprovalMode = "simulate" | "enforce";
@@ -6,6 +6,8 @@
  * - Audit log (immutable event log)
  * - Skill registry (versioned skills)
  * - Tenant budgets (cost controls)
+ * - Policy rate-limit counters (sliding windows)
+ * - Policy revisions and bundle snapshots
  */
 
 import Database from 'better-sqlite3';
@@ -259,6 +261,49 @@ export function initDatabase(): void {
       ON policies(tenant_id, workspace_id, environment, enabled, precedence);
   `);
 
+  // Migration: track where a policy is managed (ops console vs policy files)
+  try {
+    db.exec(`ALTER TABLE policies ADD COLUMN source TEXT DEFAULT 'ops'`);
+  } catch {
+    // Column already exists — ignore
+  }
+  try {
+    db.exec(`ALTER TABLE policies ADD COLUMN source_path TEXT`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Policy revisions - immutable history of every policy change
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS policy_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tenant_id TEXT NOT NULL,
+      policy_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      author TEXT,
+      reason TEXT,
+      policy_json JSON,
+      bundle_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE(tenant_id, policy_id, revision)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_policy_revisions_tenant
+      ON policy_revisions(tenant_id, created_at DESC);
+  `);
+
+  // Policy bundle snapshots - resolve a policy_bundle_hash to its contents
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS policy_bundles (
+      tenant_id TEXT NOT NULL,
+      bundle_hash TEXT NOT NULL,
+      policies_json JSON NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (tenant_id, bundle_hash)
+    );
+  `);
+
   // Decisions table - async approvals
   db.exec(`
     CREATE TABLE IF NOT EXISTS decisions (
@@ -282,6 +327,180 @@ export function initDatabase(): void {
       ON decisions(tenant_id, status, updated_at DESC);
   `);
 
+  // Migration: would-be outcome of shadow-mode policies per decision
+  try {
+    db.exec(`ALTER TABLE decisions ADD COLUMN shadow JSON`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: approval requirements (quorum, roles, self-approval) per decision
+  try {
+    db.exec(`ALTER TABLE decisions ADD COLUMN approval JSON`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: escalation tiers already applied to a pending decision
+  try {
+    db.exec(`ALTER TABLE decisions ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Migration: single-use approval token (jti, expiry, consumption) per approved decision
+  for (const column of ['decision_token_jti TEXT', 'decision_token_expires_at TEXT', 'decision_token_used_at TEXT']) {
+    try {
+      db.exec(`ALTER TABLE decisions ADD COLUMN ${column}`);
+    } catch {
+      // Column already exists — ignore
+    }
+  }
+
+  // Migration: approver group a pending decision was routed to
+  try {
+    db.exec(`ALTER TABLE decisions ADD COLUMN assigned_group TEXT`);
+  } catch {
+    // Column already exists — ignore
+  }
+
+  // Decision votes - one approve/deny vote per approver and decision
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS decision_votes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      decision_id TEXT NOT NULL,
+      tenant_id TEXT NOT NULL,
+      approver_id TEXT NOT NULL,
+      approver_roles JSON,
+      vote TEXT NOT NULL,
+      note TEXT,
+      justification TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE(decision_id, approver_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_decision_votes_decision
+      ON decision_votes(decision_id, created_at);
+  `);
+
+  // Approval notifications - delivery log (with retries) of routed pending decisions
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS approval_notifications (
+      notification_id TEXT PRIMARY KEY,
+      decision_id TEXT NOT NULL,
+      tenant_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      group_id TEXT NOT NULL,
+      rule_id TEXT,
+      recipient_id TEXT,
+      channel_type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      delivered_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_approval_notifications_due
+      ON approval_notifications(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_approval_notifications_decision
+      ON approval_notifications(decision_id, created_at);
+  `);
+
+  // Break-glass sessions - time-boxed emergency overrides with post-incident review
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS break_glass_sessions (
+      session_id TEXT PRIMARY KEY,
+      tenant_id TEXT NOT NULL,
+      workspace_id TEXT,
+      agent_id TEXT,
+      reason_code TEXT NOT NULL,
+      justification TEXT NOT NULL,
+      activated_by TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      ended_at TEXT,
+      ended_by TEXT,
+      action_count INTEGER NOT NULL DEFAULT 0,
+      review_status TEXT,
+      reviewed_by TEXT,
+      reviewed_at TEXT,
+      review_notes TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_tenant
+      ON break_glass_sessions(tenant_id, ended_at, review_status);
+  `);
+
+  // Freezes - kill switch: matching execution requests are denied until lifted or expired
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS freezes (
+      freeze_id TEXT PRIMARY KEY,
+      tenant_id TEXT,
+      workspace_id TEXT,
+      adapter_id TEXT,
+      agent_id TEXT,
+      reason TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT,
+      lifted_at TEXT,
+      lifted_by TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_freezes_active
+      ON freezes(lifted_at, tenant_id);
+  `);
+
+  // Ops users - local user store with roles and hashed per-user API keys
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ops_users (
+      user_id TEXT PRIMARY KEY,
+      tenant_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      display_name TEXT,
+      roles JSON NOT NULL,
+      disabled_at TEXT,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS ops_api_keys (
+      key_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      key_prefix TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_used_at TEXT,
+      revoked_at TEXT,
+      revoked_by TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_ops_api_keys_user
+      ON ops_api_keys(user_id, revoked_at);
+  `);
+
+  // Policy rate-limit counters - sliding-window event log per policy key
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS policy_rate_counters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tenant_id TEXT NOT NULL,
+      policy_id TEXT NOT NULL,
+      counter_key TEXT NOT NULL,
+      dimensions JSON NOT NULL,
+      event_kind TEXT NOT NULL,
+      execution_id TEXT,
+      occurred_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_policy_rate_counters_key
+      ON policy_rate_counters(tenant_id, counter_key, event_kind, occurred_at);
+  `);
+
   // Workspace versions table - for workspace versioning
   db.exec(`
     CREATE TABLE IF NOT EXISTS workspace_versions (
@@ -383,6 +602,20 @@ export function initDatabase(): void {
       ON workspace_environments(workspace_id);
   `);
 
+  // Governance modes table - per tenant/workspace/environment overrides of CLASPER_MODE
+  // ('' in workspace_id / environment means "any")
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS governance_modes (
+      tenant_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL DEFAULT '',
+      environment TEXT NOT NULL DEFAULT '',
+      mode TEXT NOT NULL,
+      updated_by TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (tenant_id, workspace_id, environment)
+    );
+  `);
+
   // Run migrations for existing databases
   runLabelsColumnMigration();
   runSkillStateColumnMigration();
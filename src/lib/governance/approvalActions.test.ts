@@ -0,0 +1,140 @@
+import { SignJWT } from 'jose';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import {
+  ApprovalActionError,
+  buildApprovalActionLinks,
+  renderApprovalActionPage,
+  resolveApprovalActionApprover,
+  signApprovalAction,
+  verifyApprovalAction,
+} from './approvalActions.js';
+import { createDecision } from './decisions.js';
+
+const originalAdapterSecret = config.adapterJwtSecret;
+const originalLinkSecret = config.approvalLinkSecret;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.adapterJwtSecret = 'adapter-secret';
+  config.approvalLinkSecret = 'approval-actions-secret';
+});
+
+afterEach(() => {
+  config.adapterJwtSecret = originalAdapterSecret;
+  config.approvalLinkSecret = originalLinkSecret;
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function pending(expiresAt?: string) {
+  return createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    requestSnapshot: { request: { tool: 'exec' } },
+    expiresAt,
+  });
+}
+
+describe('approval actions', () => {
+  it('signs tokens that carry the approver and expire with the decision', async () => {
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+    const decision = pending(expiresAt.toISOString());
+    const token = await signApprovalAction({ decision, action: 'deny', approverId: 'alice', groupId: 'security' });
+
+    expect(await verifyApprovalAction(token)).toMatchObject({
+      decision_id: decision.decision_id,
+      tenant_id: 't1',
+      action: 'deny',
+      approver_id: 'alice',
+      group_id: 'security',
+      expires_at: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000).toISOString(),
+    });
+    await expect(verifyApprovalAction(token, new Date(expiresAt.getTime() + 1000))).rejects.toMatchObject({
+      code: 'expired',
+    });
+    await expect(verifyApprovalAction(`${token}x`)).rejects.toBeInstanceOf(ApprovalActionError);
+
+    config.approvalLinkSecret = 'another-secret';
+    await expect(verifyApprovalAction(token)).rejects.toMatchObject({ code: 'invalid_token' });
+  });
+
+  it('rejects tokens signed with the adapter secret and refuses to sign with it', async () => {
+    const decision = pending();
+    const forged = await new SignJWT({
+      type: 'approval_action',
+      decision_id: decision.decision_id,
+      tenant_id: 't1',
+      workspace_id: 'w1',
+      action: 'approve',
+      group_id: 'security',
+      roles: ['admin'],
+      sub: 'agent',
+    })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setJti('forged')
+      .setExpirationTime('10m')
+      .sign(new TextEncoder().encode(config.adapterJwtSecret));
+    await expect(verifyApprovalAction(forged)).rejects.toMatchObject({ code: 'invalid_token' });
+
+    config.approvalLinkSecret = config.adapterJwtSecret;
+    await expect(verifyApprovalAction(forged)).rejects.toMatchObject({ code: 'config_error' });
+    await expect(
+      signApprovalAction({ decision, action: 'approve', approverId: 'alice', groupId: 'security' })
+    ).rejects.toMatchObject({ code: 'config_error' });
+  });
+
+  it('resolves approver roles from the routing config and the Ops user, not the token', async () => {
+    const decision = pending();
+    const claims = await verifyApprovalAction(
+      await signApprovalAction({ decision, action: 'approve', approverId: 'alice', groupId: 'security' })
+    );
+    const routing = { groups: [{ id: 'security', members: ['alice'], roles: ['operator'], member_channels: {} }], rules: [] };
+    const user = { tenant_id: 't1', roles: ['admin'], disabled_at: null };
+
+    expect(resolveApprovalActionApprover(claims, routing, null)).toEqual({ roles: ['operator'] });
+    expect(resolveApprovalActionApprover(claims, routing, user)).toEqual({ roles: ['admin'] });
+
+    const notApprover = expect.objectContaining({ code: 'not_approver' });
+    expect(() => resolveApprovalActionApprover(claims, { groups: [{ ...routing.groups[0], members: ['bob'] }], rules: [] }, null))
+      .toThrow(notApprover);
+    expect(() => resolveApprovalActionApprover(claims, { groups: [], rules: [] }, null)).toThrow(notApprover);
+    expect(() => resolveApprovalActionApprover(claims, routing, { ...user, disabled_at: new Date().toISOString() }))
+      .toThrow(notApprover);
+    expect(() => resolveApprovalActionApprover(claims, routing, { ...user, tenant_id: 't2' })).toThrow(notApprover);
+  });
+
+  it('builds links for one group member only when the console URL and secret are set', async () => {
+    const decision = pending();
+    const group = { id: 'security', members: ['alice', 'bob'], roles: ['admin'], member_channels: {} };
+    const opsConsoleUrl = 'https://ops.example.com/';
+
+    const links = await buildApprovalActionLinks({ decision, group, approverId: 'bob', opsConsoleUrl });
+    expect(links?.approver_id).toBe('bob');
+    expect(links?.approve_url).toMatch(/^https:\/\/ops\.example\.com\/ops\/actions\/[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(links?.deny_with_reason_url).toBe(`${links?.deny_url}?reason=1`);
+    const approve = await verifyApprovalAction(links!.approve_url.split('/').pop()!);
+    expect(approve).toMatchObject({ action: 'approve', approver_id: 'bob', group_id: 'security' });
+
+    expect(await buildApprovalActionLinks({ decision, group, approverId: 'mallory', opsConsoleUrl })).toBeNull();
+    expect(await buildApprovalActionLinks({ decision, group, approverId: 'bob' })).toBeNull();
+    config.approvalLinkSecret = '';
+    expect(await buildApprovalActionLinks({ decision, group, approverId: 'bob', opsConsoleUrl })).toBeNull();
+  });
+
+  it('renders an escaped confirmation page', () => {
+    const html = renderApprovalActionPage({
+      title: 'Deny this request?',
+      details: [['Intent', '<script>alert(1)</script>'], ['Agent', null]],
+      form: { action: 'deny', reasonRequired: true },
+    });
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<th>Agent</th>');
+    expect(html).toContain('<textarea id="reason" name="reason" rows="3" maxlength="2000" required>');
+  });
+});
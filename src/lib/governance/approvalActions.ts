@@ -0,0 +1,264 @@
+/**
+ * Signed approval action links
+ *
+ * Routed approval notifications to a member's personal channel carry that
+ * member's approve and deny links, so they can vote without the Ops Console or
+ * an API key. Each link holds a JWS naming the decision, the action, the approver
+ * and the group it was sent to; it expires with the decision. Links are signed
+ * with CLASPER_APPROVAL_LINK_SECRET, which only the server holds (never the
+ * adapter secret, which agents' plugins also know). Roles are not carried in
+ * the token: on redemption the approver must still be in the group, and votes
+ * with their Ops user roles (or the group's roles). Link votes count as
+ * authenticated, so they satisfy quorum and role requirements. Opening a link shows a
+ * confirmation page (`GET /ops/actions/:token`, no side effects); the vote is
+ * cast on submit, or with `clasper decisions resolve --token`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import { config } from '../core/config.js';
+import { getApproverGroup, type ApprovalRouting, type ApproverGroup } from './approvalRouting.js';
+import type { DecisionRecord } from './decisions.js';
+
+export type ApprovalAction = 'approve' | 'deny';
+
+/** Lifetime of links for decisions without an expiry. */
+const DEFAULT_ACTION_TTL_MS = 60 * 60 * 1000;
+
+const ACTION_ALGORITHM = 'HS256';
+
+export interface ApprovalActionClaims {
+  decision_id: string;
+  tenant_id: string;
+  workspace_id: string;
+  action: ApprovalAction;
+  approver_id: string;
+  /** The approver group the link was sent to. */
+  group_id: string;
+  jti: string;
+  expires_at: string;
+}
+
+export interface ApprovalActionLinks {
+  approver_id: string;
+  approve_url: string;
+  deny_url: string;
+  /** The deny link with a reason prompt on the confirmation page. */
+  deny_with_reason_url: string;
+}
+
+export class ApprovalActionError extends Error {
+  code: 'config_error' | 'invalid_token' | 'expired' | 'not_approver';
+
+  constructor(message: string, code: ApprovalActionError['code']) {
+    super(message);
+    this.name = 'ApprovalActionError';
+    this.code = code;
+  }
+}
+
+function signingSecret(): Uint8Array {
+  if (!config.approvalLinkSecret) {
+    throw new ApprovalActionError('CLASPER_APPROVAL_LINK_SECRET is required for approval links.', 'config_error');
+  }
+  if (config.approvalLinkSecret === config.adapterJwtSecret) {
+    throw new ApprovalActionError('CLASPER_APPROVAL_LINK_SECRET must differ from ADAPTER_JWT_SECRET.', 'config_error');
+  }
+  return new TextEncoder().encode(config.approvalLinkSecret);
+}
+
+/**
+ * Sign an action token for one approver. It expires with the decision (or after
+ * an hour when the decision has no expiry).
+ */
+export async function signApprovalAction(params: {
+  decision: DecisionRecord;
+  action: ApprovalAction;
+  approverId: string;
+  groupId: string;
+  now?: Date;
+}): Promise<string> {
+  const now = params.now ?? new Date();
+  const expiresAt = params.decision.expires_at
+    ? Date.parse(params.decision.expires_at)
+    : now.getTime() + DEFAULT_ACTION_TTL_MS;
+
+  return await new SignJWT({
+    type: 'approval_action',
+    decision_id: params.decision.decision_id,
+    tenant_id: params.decision.tenant_id,
+    workspace_id: params.decision.workspace_id,
+    action: params.action,
+    group_id: params.groupId,
+    sub: params.approverId,
+  })
+    .setProtectedHeader({ alg: ACTION_ALGORITHM })
+    .setJti(randomUUID())
+    .setIssuedAt(Math.floor(now.getTime() / 1000))
+    .setExpirationTime(Math.floor(expiresAt / 1000))
+    .sign(signingSecret());
+}
+
+/**
+ * Verify an action token. Throws ApprovalActionError when it is malformed, signed
+ * with another key or expired.
+ */
+export async function verifyApprovalAction(token: string, now: Date = new Date()): Promise<ApprovalActionClaims> {
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(token, signingSecret(), {
+      algorithms: [ACTION_ALGORITHM],
+      currentDate: now,
+    }));
+  } catch (error) {
+    if (error instanceof ApprovalActionError) throw error;
+    if ((error as { code?: string }).code === 'ERR_JWT_EXPIRED') {
+      throw new ApprovalActionError('Approval link expired', 'expired');
+    }
+    throw new ApprovalActionError('Invalid approval link', 'invalid_token');
+  }
+
+  if (
+    payload.type !== 'approval_action' ||
+    (payload.action !== 'approve' && payload.action !== 'deny') ||
+    typeof payload.decision_id !== 'string' ||
+    typeof payload.tenant_id !== 'string' ||
+    typeof payload.workspace_id !== 'string' ||
+    typeof payload.group_id !== 'string' ||
+    typeof payload.sub !== 'string' ||
+    typeof payload.jti !== 'string' ||
+    typeof payload.exp !== 'number'
+  ) {
+    throw new ApprovalActionError('Invalid approval link', 'invalid_token');
+  }
+
+  return {
+    decision_id: payload.decision_id,
+    tenant_id: payload.tenant_id,
+    workspace_id: payload.workspace_id,
+    action: payload.action,
+    approver_id: payload.sub,
+    group_id: payload.group_id,
+    jti: payload.jti,
+    expires_at: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * The roles a link's approver votes with, looked up at redemption. The approver
+ * must still be a listed member of the link's group; an Ops user (`user`, looked
+ * up by the caller) votes with their own roles and must be enabled and in the
+ * decision's tenant, anyone else with the group's roles.
+ */
+export function resolveApprovalActionApprover(
+  claims: ApprovalActionClaims,
+  routing: ApprovalRouting,
+  user: { tenant_id: string; roles: string[]; disabled_at: string | null } | null
+): { roles: string[] } {
+  const group = getApproverGroup(routing, claims.group_id);
+  if (!group || !group.members.includes(claims.approver_id)) {
+    throw new ApprovalActionError(`${claims.approver_id} is no longer an approver for this request`, 'not_approver');
+  }
+  if (!user) return { roles: group.roles };
+  if (user.disabled_at || user.tenant_id !== claims.tenant_id) {
+    throw new ApprovalActionError(`${claims.approver_id} is no longer an approver for this request`, 'not_approver');
+  }
+  return { roles: user.roles };
+}
+
+/**
+ * Approve and deny links for one listed member of the group, to be sent to that
+ * member only. Null when the approver is not a member or links cannot be built
+ * (no Ops Console URL or link secret).
+ */
+export async function buildApprovalActionLinks(params: {
+  decision: DecisionRecord;
+  group: ApproverGroup;
+  approverId: string;
+  opsConsoleUrl?: string;
+  now?: Date;
+}): Promise<ApprovalActionLinks | null> {
+  if (!params.opsConsoleUrl || !config.approvalLinkSecret) return null;
+  if (!params.group.members.includes(params.approverId)) return null;
+  const base = `${params.opsConsoleUrl.replace(/\/+$/, '')}/ops/actions`;
+
+  const sign = (action: ApprovalAction) =>
+    signApprovalAction({
+      decision: params.decision,
+      action,
+      approverId: params.approverId,
+      groupId: params.group.id,
+      now: params.now,
+    });
+  const [approve, deny] = await Promise.all([sign('approve'), sign('deny')]);
+  return {
+    approver_id: params.approverId,
+    approve_url: `${base}/${approve}`,
+    deny_url: `${base}/${deny}`,
+    deny_with_reason_url: `${base}/${deny}?reason=1`,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Minimal standalone HTML page for approval links: the confirmation form
+ * (when `form` is set) or the outcome of the action.
+ */
+export function renderApprovalActionPage(params: {
+  title: string;
+  message?: string;
+  details?: Array<[label: string, value: string | null | undefined]>;
+  form?: { action: ApprovalAction; reasonRequired: boolean };
+}): string {
+  const rows = (params.details ?? [])
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`)
+    .join('');
+  const form = params.form
+    ? `<form method="post">
+  ${
+    params.form.action === 'deny'
+      ? `<label for="reason">Reason${params.form.reasonRequired ? '' : ' (optional)'}</label>
+  <textarea id="reason" name="reason" rows="3" maxlength="2000"${params.form.reasonRequired ? ' required' : ''}></textarea>`
+      : ''
+  }
+  <button type="submit" class="${params.form.action}">${params.form.action === 'approve' ? 'Approve' : 'Deny'}</button>
+</form>`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(params.title)} · Clasper</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 520px; margin: 48px auto; padding: 0 16px; color: #1f2328; }
+  table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d0d7de; font-size: 14px; vertical-align: top; }
+  th { width: 110px; color: #57606a; font-weight: 500; }
+  label { display: block; margin: 12px 0 4px; font-size: 14px; }
+  textarea { width: 100%; box-sizing: border-box; font: inherit; }
+  button { margin-top: 16px; padding: 8px 20px; border: 0; border-radius: 6px; color: #fff; font-size: 15px; cursor: pointer; }
+  button.approve { background: #1a7f37; }
+  button.deny { background: #cf222e; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(params.title)}</h2>
+${params.message ? `<p>${escapeHtml(params.message)}</p>` : ''}
+${rows ? `<table>${rows}</table>` : ''}
+${form}
+</body>
+</html>
+`;
+}
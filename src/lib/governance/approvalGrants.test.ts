@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import {
+  ApprovalGrantError,
+  ApprovalGrantOptionsSchema,
+  attachApprovalGrant,
+  buildApprovalGrant,
+  consumeApprovalGrant,
+  listApprovalGrants,
+  revokeApprovalGrant,
+} from './approvalGrants.js';
+import { castDecisionVote } from './approvals.js';
+import { getAuditLog } from './auditLog.js';
+import { createDecision, getDecision } from './decisions.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+const npmTest = { exec: { argv0: 'npm', argv: ['npm', 'test'], cwd: '/repo' } };
+const heldBy = { matched_policies: ['approve-exec'], approval: { quorum: 1, roles: ['operator'] } };
+
+function approved(request: Record<string, unknown> = {}, evaluated: Record<string, unknown> = heldBy) {
+  const decision = createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    requestSnapshot: {
+      request: { tool: 'exec', session_id: 'session-1', context: npmTest, ...request },
+      decision: evaluated,
+    },
+  });
+  castDecisionVote({
+    decisionId: decision.decision_id,
+    approverId: 'alice',
+    approverRoles: ['operator'],
+    trustLevel: 'authenticated',
+    vote: 'approve',
+  });
+  return getDecision(decision.decision_id)!;
+}
+
+function consume(overrides: Partial<Parameters<typeof consumeApprovalGrant>[0]> = {}) {
+  return consumeApprovalGrant({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    adapterId: 'adapter-1',
+    executionId: `exec-${Math.random()}`,
+    tool: 'exec',
+    sessionId: 'session-1',
+    context: npmTest,
+    policyId: heldBy.matched_policies[0],
+    approval: heldBy.approval,
+    ...overrides,
+  });
+}
+
+describe('standing approval grants', () => {
+  it('covers similar requests until max_uses is reached and audits each reuse', () => {
+    const decision = approved({ tool: 'write', context: undefined });
+    attachApprovalGrant(decision, buildApprovalGrant(decision, { session: true, max_uses: 2 }, 'alice'));
+    const write = (overrides: Parameters<typeof consume>[0] = {}) =>
+      consume({ tool: 'write', context: undefined, ...overrides });
+
+    expect(write({ sessionId: 'session-2' })).toBeNull();
+    expect(consume()).toBeNull();
+    expect(write({ adapterId: 'adapter-2' })).toBeNull();
+    // An exec request is never covered by a grant without a fingerprint.
+    expect(write({ context: { exec: { argv: ['rm', '-rf', '/'] } } })).toBeNull();
+
+    expect(write()).toMatchObject({ decision_id: decision.decision_id, uses: 1, active: true });
+    expect(write()).toMatchObject({ uses: 2, active: false });
+    expect(write()).toBeNull();
+
+    const audit = getAuditLog().query({ tenantId: 't1', eventType: 'approval_grant_consumed' });
+    expect(audit.entries).toHaveLength(2);
+    expect(audit.entries[0].eventData).toMatchObject({
+      context_snapshot: { grant_decision_id: decision.decision_id, tool: 'write', session_id: 'session-1' },
+    });
+    expect(listApprovalGrants({ tenantId: 't1' })).toEqual([]);
+    expect(listApprovalGrants({ tenantId: 't1', includeInactive: true })).toHaveLength(1);
+  });
+
+  it('matches the exact argv/cwd fingerprint and expires after the granted minutes', () => {
+    const decision = approved();
+    const now = new Date();
+    attachApprovalGrant(decision, buildApprovalGrant(decision, { fingerprint: true, minutes: 10 }, 'alice', now));
+
+    expect(consume({ context: { exec: { argv: ['npm', 'test'], cwd: '/other' } } })).toBeNull();
+    expect(consume({ sessionId: undefined })).toMatchObject({ uses: 1, max_uses: null });
+    expect(consume({ now: new Date(now.getTime() + 11 * 60 * 1000) })).toBeNull();
+  });
+
+  it('only covers requests held by the same policy with the same approval requirements', () => {
+    const decision = approved();
+    const grant = buildApprovalGrant(decision, { fingerprint: true }, 'alice');
+    expect(grant).toMatchObject({ policy_id: 'approve-exec', approval: { quorum: 1, roles: ['operator'] } });
+    attachApprovalGrant(decision, grant);
+
+    expect(consume({ policyId: 'approve-prod-exec' })).toBeNull();
+    expect(consume({ approval: { quorum: 2, roles: ['operator'] } })).toBeNull();
+    expect(consume({ approval: { roles: ['admin'] } })).toBeNull();
+    expect(consume({ approval: undefined })).toBeNull();
+    expect(consume({ approval: { quorum: 1, roles: ['operator'], allow_self_approval: true } })).toMatchObject({
+      decision_id: decision.decision_id,
+    });
+  });
+
+  it('stops matching once revoked', () => {
+    const decision = approved();
+    attachApprovalGrant(decision, buildApprovalGrant(decision, { fingerprint: true, minutes: 60 }, 'alice'));
+    expect(listApprovalGrants({ tenantId: 't1', workspaceId: 'w1' })).toEqual([
+      expect.objectContaining({ decision_id: decision.decision_id, tool: 'exec', active: true }),
+    ]);
+
+    expect(revokeApprovalGrant({ decisionId: decision.decision_id, revokedBy: 'bob' })).toMatchObject({
+      revoked_by: 'bob',
+      active: false,
+    });
+    expect(consume()).toBeNull();
+    expect(getAuditLog().query({ tenantId: 't1', eventType: 'approval_grant_revoked' }).entries).toHaveLength(1);
+    expect(revokeApprovalGrant({ decisionId: approved().decision_id, revokedBy: 'bob' })).toBeNull();
+  });
+
+  it('lists active grants even when more recent inactive grants exceed the limit', () => {
+    const active = approved();
+    attachApprovalGrant(active, buildApprovalGrant(active, { fingerprint: true, minutes: 60 }, 'alice'));
+    const revoked = approved();
+    attachApprovalGrant(revoked, buildApprovalGrant(revoked, { fingerprint: true }, 'alice'));
+    revokeApprovalGrant({ decisionId: revoked.decision_id, revokedBy: 'bob' });
+    const expired = approved();
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    attachApprovalGrant(expired, buildApprovalGrant(expired, { fingerprint: true, minutes: 10 }, 'alice', hourAgo));
+
+    expect(listApprovalGrants({ tenantId: 't1', limit: 1 })).toEqual([
+      expect.objectContaining({ decision_id: active.decision_id, active: true }),
+    ]);
+    expect(listApprovalGrants({ tenantId: 't1', includeInactive: true, limit: 1 })).toEqual([
+      expect.objectContaining({ decision_id: expired.decision_id, active: false }),
+    ]);
+  });
+
+  it('rejects scopes the original request cannot support', () => {
+    expect(ApprovalGrantOptionsSchema.safeParse({}).success).toBe(false);
+    const noSession = approved({ session_id: undefined, context: {} });
+    expect(() => buildApprovalGrant(noSession, { session: true }, 'alice')).toThrow(ApprovalGrantError);
+    expect(() => buildApprovalGrant(noSession, { fingerprint: true }, 'alice')).toThrow(
+      expect.objectContaining({ code: 'no_fingerprint' })
+    );
+    expect(() => buildApprovalGrant(approved(), { session: true, minutes: 30 }, 'alice')).toThrow(
+      expect.objectContaining({ code: 'fingerprint_required' })
+    );
+  });
+});
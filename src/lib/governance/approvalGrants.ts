@@ -0,0 +1,343 @@
+/**
+ * Standing approval grants
+ *
+ * An approver can turn an approval into a grant that also covers similar
+ * requests: from the same session, for the next N minutes, for up to K uses,
+ * and/or for the exact exec argv/cwd fingerprint. The grant lives in the
+ * approved decision's `granted_scope.approval_grant`. Requests that would
+ * otherwise wait for approval are matched against active grants before a
+ * pending decision is created; each reuse is audited as `approval_grant_consumed`.
+ *
+ * A grant only covers requests held by the same policy with the same quorum and
+ * roles, and grants for exec requests must pin the fingerprint, so approving one
+ * command never approves another.
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { ExecutionDecision } from '../adapters/executionContract.js';
+import { getDatabase } from '../core/db.js';
+import { logApprovalGrantConsumed, logApprovalGrantRevoked } from './auditLog.js';
+import {
+  getDecision,
+  listGrantedDecisions,
+  updateDecisionGrantedScope,
+  type DecisionRecord,
+} from './decisions.js';
+
+/** Grants without an explicit duration still lapse after this long. */
+const DEFAULT_GRANT_MINUTES = 8 * 60;
+const MAX_GRANT_MINUTES = 24 * 60;
+
+export const ApprovalGrantOptionsSchema = z
+  .object({
+    /** Only requests from the same agent session. */
+    session: z.boolean().optional(),
+    /** Grant lifetime in minutes (default 8 hours). */
+    minutes: z.number().int().min(1).max(MAX_GRANT_MINUTES).optional(),
+    /** Number of reuses before the grant is used up. */
+    max_uses: z.number().int().min(1).max(1000).optional(),
+    /** Only requests with the exact same exec argv and cwd. */
+    fingerprint: z.boolean().optional(),
+  })
+  .refine((options) => options.session || options.minutes || options.max_uses || options.fingerprint, {
+    message: 'Choose at least one of session, minutes, max_uses or fingerprint',
+  });
+
+export type ApprovalGrantOptions = z.infer<typeof ApprovalGrantOptionsSchema>;
+
+/** Approval requirements of the request a grant was issued on. */
+export interface ApprovalGrantRequirements {
+  quorum: number;
+  roles: string[] | null;
+}
+
+export interface ApprovalGrant {
+  tool: string;
+  /** Policy that required the approval (null for risk-based approvals). */
+  policy_id: string | null;
+  approval: ApprovalGrantRequirements;
+  session_id: string | null;
+  fingerprint: string | null;
+  max_uses: number | null;
+  uses: number;
+  expires_at: string;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export interface ApprovalGrantRecord extends ApprovalGrant {
+  /** The approved decision the grant was issued on. */
+  decision_id: string;
+  tenant_id: string;
+  workspace_id: string;
+  adapter_id: string;
+  execution_id: string;
+  active: boolean;
+}
+
+export class ApprovalGrantError extends Error {
+  code: 'no_tool' | 'no_session' | 'no_fingerprint' | 'fingerprint_required';
+
+  constructor(message: string, code: ApprovalGrantError['code']) {
+    super(message);
+    this.name = 'ApprovalGrantError';
+    this.code = code;
+  }
+}
+
+type ExecContext = { exec?: { argv0?: string; argv?: string[]; cwd?: string } } | undefined;
+
+/**
+ * Stable hash of an exec request's argv and cwd; null for requests without exec context.
+ */
+export function execFingerprint(context: ExecContext): string | null {
+  const exec = context?.exec;
+  const argv = exec?.argv?.length ? exec.argv : exec?.argv0 ? [exec.argv0] : null;
+  if (!argv) return null;
+  return createHash('sha256')
+    .update(JSON.stringify({ argv, cwd: exec?.cwd ?? null }))
+    .digest('hex');
+}
+
+function snapshotRequest(decision: DecisionRecord): Record<string, unknown> {
+  const request = (decision.request_snapshot as Record<string, unknown> | null)?.request;
+  return request && typeof request === 'object' ? (request as Record<string, unknown>) : {};
+}
+
+function snapshotDecision(decision: DecisionRecord): Partial<ExecutionDecision> {
+  const evaluated = (decision.request_snapshot as Record<string, unknown> | null)?.decision;
+  return evaluated && typeof evaluated === 'object' ? (evaluated as Partial<ExecutionDecision>) : {};
+}
+
+function grantRequirements(approval: ExecutionDecision['approval']): ApprovalGrantRequirements {
+  return {
+    quorum: approval?.quorum ?? 1,
+    roles: approval?.roles?.length ? [...approval.roles].sort() : null,
+  };
+}
+
+function sameRequirements(a: ApprovalGrantRequirements, b: ApprovalGrantRequirements): boolean {
+  return a.quorum === b.quorum && JSON.stringify(a.roles) === JSON.stringify(b.roles);
+}
+
+function requestTool(request: Record<string, unknown>): string | null {
+  if (typeof request.tool === 'string' && request.tool) return request.tool;
+  const capabilities = request.requested_capabilities;
+  return Array.isArray(capabilities) && typeof capabilities[0] === 'string' ? capabilities[0] : null;
+}
+
+/**
+ * Build a grant for an approved decision. Throws ApprovalGrantError when the
+ * requested scope can't be derived from the original request.
+ */
+export function buildApprovalGrant(
+  decision: DecisionRecord,
+  options: ApprovalGrantOptions,
+  createdBy: string,
+  now: Date = new Date()
+): ApprovalGrant {
+  const request = snapshotRequest(decision);
+  const tool = requestTool(request);
+  if (!tool) {
+    throw new ApprovalGrantError('The request has no tool to scope a grant to', 'no_tool');
+  }
+  const sessionId = typeof request.session_id === 'string' && request.session_id ? request.session_id : null;
+  if (options.session && !sessionId) {
+    throw new ApprovalGrantError('The request carries no session_id', 'no_session');
+  }
+  const requestFingerprint = execFingerprint(request.context as ExecContext);
+  if (options.fingerprint && !requestFingerprint) {
+    throw new ApprovalGrantError('The request has no exec argv/cwd to fingerprint', 'no_fingerprint');
+  }
+  if (requestFingerprint && !options.fingerprint) {
+    throw new ApprovalGrantError(
+      'Grants for exec requests must be limited to the same fingerprint',
+      'fingerprint_required'
+    );
+  }
+  const evaluated = snapshotDecision(decision);
+  const minutes = options.minutes ?? DEFAULT_GRANT_MINUTES;
+  return {
+    tool,
+    policy_id: evaluated.matched_policies?.[0] ?? null,
+    approval: grantRequirements(evaluated.approval),
+    session_id: options.session ? sessionId : null,
+    fingerprint: options.fingerprint ? requestFingerprint : null,
+    max_uses: options.max_uses ?? null,
+    uses: 0,
+    expires_at: new Date(now.getTime() + minutes * 60 * 1000).toISOString(),
+    created_by: createdBy,
+    created_at: now.toISOString(),
+    last_used_at: null,
+    revoked_at: null,
+    revoked_by: null,
+  };
+}
+
+function grantOf(decision: DecisionRecord): ApprovalGrant | null {
+  const grant = decision.granted_scope?.approval_grant;
+  return grant && typeof grant === 'object' ? (grant as ApprovalGrant) : null;
+}
+
+function isActive(grant: ApprovalGrant, now: Date): boolean {
+  return (
+    !grant.revoked_at &&
+    Date.parse(grant.expires_at) > now.getTime() &&
+    (grant.max_uses === null || grant.uses < grant.max_uses)
+  );
+}
+
+function toRecord(decision: DecisionRecord, grant: ApprovalGrant, now: Date): ApprovalGrantRecord {
+  return {
+    ...grant,
+    decision_id: decision.decision_id,
+    tenant_id: decision.tenant_id,
+    workspace_id: decision.workspace_id,
+    adapter_id: decision.adapter_id,
+    execution_id: decision.execution_id,
+    active: isActive(grant, now),
+  };
+}
+
+function storeGrant(decision: DecisionRecord, grant: ApprovalGrant): DecisionRecord | null {
+  return updateDecisionGrantedScope({
+    decisionId: decision.decision_id,
+    grantedScope: { ...(decision.granted_scope ?? {}), approval_grant: grant },
+  });
+}
+
+/**
+ * Store a grant on an approved decision.
+ */
+export function attachApprovalGrant(decision: DecisionRecord, grant: ApprovalGrant): ApprovalGrantRecord {
+  const updated = storeGrant(decision, grant) ?? decision;
+  return toRecord(updated, grant, new Date());
+}
+
+/**
+ * Grants for a tenant (optionally one workspace), active ones only unless includeInactive.
+ */
+export function listApprovalGrants(params: {
+  tenantId: string;
+  workspaceId?: string;
+  includeInactive?: boolean;
+  limit?: number;
+}): ApprovalGrantRecord[] {
+  const now = new Date();
+  const records: ApprovalGrantRecord[] = [];
+  for (const decision of listGrantedDecisions({
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    activeAt: params.includeInactive ? undefined : now,
+    limit: params.limit,
+  })) {
+    const grant = grantOf(decision);
+    if (!grant) continue;
+    const record = toRecord(decision, grant, now);
+    if (record.active || params.includeInactive) records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Find an active grant covering the request and count one use against it.
+ * `policyId` and `approval` are the policy holding the request and its approval
+ * requirements. Returns null when no grant matches.
+ */
+export function consumeApprovalGrant(params: {
+  tenantId: string;
+  workspaceId: string;
+  adapterId: string;
+  executionId: string;
+  tool?: string;
+  requestedCapabilities?: string[];
+  sessionId?: string;
+  context?: ExecContext;
+  policyId?: string;
+  approval?: ExecutionDecision['approval'];
+  now?: Date;
+}): ApprovalGrantRecord | null {
+  const tool = requestTool({ tool: params.tool, requested_capabilities: params.requestedCapabilities });
+  if (!tool) return null;
+  const now = params.now ?? new Date();
+  const fingerprint = execFingerprint(params.context);
+  const policyId = params.policyId ?? null;
+  const requirements = grantRequirements(params.approval);
+
+  const consume = getDatabase().transaction((): ApprovalGrantRecord | null => {
+    for (const decision of listGrantedDecisions({
+      tenantId: params.tenantId,
+      workspaceId: params.workspaceId,
+      adapterId: params.adapterId,
+      activeAt: now,
+    })) {
+      const grant = grantOf(decision);
+      if (!grant || !isActive(grant, now) || grant.tool !== tool) continue;
+      if ((grant.policy_id ?? null) !== policyId) continue;
+      if (!sameRequirements(grant.approval ?? grantRequirements(undefined), requirements)) continue;
+      if (grant.session_id && grant.session_id !== params.sessionId) continue;
+      if ((grant.fingerprint || fingerprint) && grant.fingerprint !== fingerprint) continue;
+
+      const used: ApprovalGrant = { ...grant, uses: grant.uses + 1, last_used_at: now.toISOString() };
+      const updated = storeGrant(decision, used) ?? decision;
+      logApprovalGrantConsumed({
+        tenantId: params.tenantId,
+        workspaceId: params.workspaceId,
+        executionId: params.executionId,
+        policyId: params.policyId,
+        contextSnapshot: {
+          grant_decision_id: decision.decision_id,
+          tool,
+          session_id: params.sessionId ?? null,
+          fingerprint,
+          uses: used.uses,
+          max_uses: used.max_uses,
+        },
+      });
+      return toRecord(updated, used, now);
+    }
+    return null;
+  });
+  return consume();
+}
+
+/**
+ * Revoke the grant on a decision. Returns null when the decision has no grant.
+ */
+export function revokeApprovalGrant(params: { decisionId: string; revokedBy: string }): ApprovalGrantRecord | null {
+  const decision = getDecision(params.decisionId);
+  const grant = decision ? grantOf(decision) : null;
+  if (!decision || !grant) return null;
+  if (grant.revoked_at) return toRecord(decision, grant, new Date());
+  const revoked: ApprovalGrant = { ...grant, revoked_at: new Date().toISOString(), revoked_by: params.revokedBy };
+  const updated = storeGrant(decision, revoked) ?? decision;
+  logApprovalGrantRevoked({
+    tenantId: decision.tenant_id,
+    workspaceId: decision.workspace_id,
+    userId: params.revokedBy,
+    decisionId: decision.decision_id,
+    tool: grant.tool,
+    uses: grant.uses,
+  });
+  return toRecord(updated, revoked, new Date());
+}
+
+/**
+ * Turn a require_approval decision into an allow covered by `grant`.
+ */
+export function allowByStandingGrant(decision: ExecutionDecision, grant: ApprovalGrantRecord): ExecutionDecision {
+  return {
+    ...decision,
+    allowed: true,
+    requires_approval: false,
+    blocked_reason: undefined,
+    decision: 'allow',
+    explanation: `${decision.explanation || 'Policy requires approval.'} Allowed by standing grant on decision ${grant.decision_id}.`,
+    approval_source: 'standing_grant',
+    approval_grant_id: grant.decision_id,
+  };
+}
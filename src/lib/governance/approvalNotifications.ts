@@ -0,0 +1,395 @@
+/**
+ * Approval notifications
+ *
+ * Delivery log for routed pending decisions. Routing (approvalRouting.ts) queues
+ * a notification on the approver group's channel and one per member with a
+ * personal channel: a signed webhook, an SMTP email or a local command (the
+ * payload JSON on stdin). Each
+ * delivery attempt claims the row and schedules the next retry up front, so a
+ * crash mid-send is retried too; after MAX_NOTIFICATION_ATTEMPTS the
+ * notification is marked failed. Notifications for decisions resolved before
+ * delivery are cancelled. A member's notification carries signed approve/deny
+ * links for that member only (approvalActions.ts); the group channel, which
+ * every member can read, never does.
+ */
+
+import { execFile } from 'node:child_process';
+import { v7 as uuidv7 } from 'uuid';
+import { getDatabase } from '../core/db.js';
+import { sendMail } from '../integrations/smtp.js';
+import { sendWebhook, type WebhookPayload } from '../integrations/webhooks.js';
+import { buildApprovalActionLinks, type ApprovalActionLinks } from './approvalActions.js';
+import type { ApprovalRouting, ApproverGroup, NotificationChannel } from './approvalRouting.js';
+import { getDecision, type DecisionRecord } from './decisions.js';
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+export type ApprovalNotificationStatus = 'pending' | 'delivered' | 'failed' | 'cancelled';
+
+export interface ApprovalNotification {
+  notification_id: string;
+  decision_id: string;
+  tenant_id: string;
+  workspace_id: string;
+  group_id: string;
+  rule_id: string | null;
+  /** Member the notification is addressed to (null: the group channel). */
+  recipient_id: string | null;
+  channel_type: NotificationChannel['type'];
+  status: ApprovalNotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  /** When the next attempt is due (null once delivered, failed or cancelled). */
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationDeliveryResult {
+  delivered: string[];
+  retrying: string[];
+  failed: string[];
+  cancelled: string[];
+}
+
+/** Delay before attempt `attempt + 1`: 30s, 1m, 2m, 4m. */
+function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+export function createApprovalNotification(params: {
+  decision: DecisionRecord;
+  groupId: string;
+  ruleId: string | null;
+  recipientId?: string | null;
+  channelType: NotificationChannel['type'];
+  now?: Date;
+}): ApprovalNotification {
+  const now = (params.now ?? new Date()).toISOString();
+  const notificationId = uuidv7();
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO approval_notifications (
+        notification_id, decision_id, tenant_id, workspace_id, group_id, rule_id, recipient_id,
+        channel_type, status, attempts, next_attempt_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)
+    `
+    )
+    .run(
+      notificationId,
+      params.decision.decision_id,
+      params.decision.tenant_id,
+      params.decision.workspace_id,
+      params.groupId,
+      params.ruleId,
+      params.recipientId ?? null,
+      params.channelType,
+      now,
+      now,
+      now
+    );
+  return getApprovalNotification(notificationId)!;
+}
+
+/**
+ * Queue a decision's notifications for a group: one on the group channel and
+ * one per member channel.
+ */
+export function queueApprovalNotifications(params: {
+  decision: DecisionRecord;
+  group: ApproverGroup;
+  ruleId: string | null;
+  now?: Date;
+}): ApprovalNotification[] {
+  const { decision, group, ruleId, now } = params;
+  const notifications: ApprovalNotification[] = [];
+  if (group.channel) {
+    notifications.push(createApprovalNotification({ decision, groupId: group.id, ruleId, channelType: group.channel.type, now }));
+  }
+  for (const [recipientId, channel] of Object.entries(group.member_channels)) {
+    notifications.push(
+      createApprovalNotification({ decision, groupId: group.id, ruleId, recipientId, channelType: channel.type, now })
+    );
+  }
+  return notifications;
+}
+
+export function getApprovalNotification(notificationId: string): ApprovalNotification | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM approval_notifications WHERE notification_id = ?')
+    .get(notificationId) as ApprovalNotification | undefined;
+  return row ?? null;
+}
+
+export function listApprovalNotifications(params: {
+  tenantId: string;
+  workspaceId?: string;
+  decisionId?: string;
+  status?: ApprovalNotificationStatus;
+  limit?: number;
+}): ApprovalNotification[] {
+  const conditions = ['tenant_id = ?'];
+  const values: unknown[] = [params.tenantId];
+  if (params.workspaceId) {
+    conditions.push('workspace_id = ?');
+    values.push(params.workspaceId);
+  }
+  if (params.decisionId) {
+    conditions.push('decision_id = ?');
+    values.push(params.decisionId);
+  }
+  if (params.status) {
+    conditions.push('status = ?');
+    values.push(params.status);
+  }
+
+  return getDatabase()
+    .prepare(
+      `
+      SELECT * FROM approval_notifications
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, notification_id DESC
+      LIMIT ?
+    `
+    )
+    .all(...values, params.limit ?? 100) as ApprovalNotification[];
+}
+
+/**
+ * Payload sent on every channel (webhook body, command stdin, email summary).
+ * `recipientId` addresses it to one member and adds that member's action links.
+ */
+export async function buildApprovalNotificationPayload(
+  decision: DecisionRecord,
+  group: ApproverGroup,
+  opsConsoleUrl?: string,
+  recipientId?: string | null
+): Promise<WebhookPayload> {
+  const snapshot = (decision.request_snapshot ?? {}) as Record<string, unknown>;
+  const request = (snapshot.request ?? {}) as Record<string, unknown>;
+  const evaluated = (snapshot.decision ?? {}) as Record<string, unknown>;
+  return {
+    event: 'approval.requested',
+    timestamp: new Date().toISOString(),
+    decision: {
+      decision_id: decision.decision_id,
+      tenant_id: decision.tenant_id,
+      workspace_id: decision.workspace_id,
+      execution_id: decision.execution_id,
+      adapter_id: decision.adapter_id,
+      agent_id: request.agent_id ?? null,
+      tool: request.tool ?? null,
+      tool_group: request.tool_group ?? null,
+      intent: request.intent ?? null,
+      risk_level: evaluated.risk_level ?? null,
+      expires_at: decision.expires_at ?? null,
+      group_id: group.id,
+      group_name: group.name ?? group.id,
+      recipient_id: recipientId ?? null,
+      approvals_url: opsConsoleUrl ? `${opsConsoleUrl.replace(/\/+$/, '')}/ops#approvals` : null,
+      actions: recipientId
+        ? await buildApprovalActionLinks({ decision, group, approverId: recipientId, opsConsoleUrl })
+        : null,
+    },
+  };
+}
+
+function secretFromEnv(name: string | undefined, what: string): string | undefined {
+  if (!name) return undefined;
+  const value = process.env[name];
+  if (!value) throw new Error(`${what} env var ${name} is not set`);
+  return value;
+}
+
+function formatEmailText(payload: WebhookPayload): string {
+  const decision = payload.decision ?? {};
+  const lines = [
+    `A governed action is waiting for approval by ${decision.group_name}.`,
+    '',
+    `Tool:       ${decision.tool ?? '-'}${decision.tool_group ? ` (${decision.tool_group})` : ''}`,
+    `Risk:       ${decision.risk_level ?? '-'}`,
+    `Agent:      ${decision.agent_id ?? '-'}`,
+    `Workspace:  ${decision.workspace_id}`,
+    `Decision:   ${decision.decision_id}`,
+    `Expires at: ${decision.expires_at ?? '-'}`,
+  ];
+  if (decision.intent) lines.push(`Intent:     ${decision.intent}`);
+  const links = decision.actions as ApprovalActionLinks | null | undefined;
+  if (links) {
+    lines.push(
+      '',
+      `Your links (for ${links.approver_id} only, do not forward):`,
+      `  Approve:            ${links.approve_url}`,
+      `  Deny:               ${links.deny_url}`,
+      `  Deny with a reason: ${links.deny_with_reason_url}`
+    );
+  }
+  if (decision.approvals_url) lines.push('', `Review it in the Ops Console: ${decision.approvals_url}`);
+  return lines.join('\n');
+}
+
+function runCommand(channel: Extract<NotificationChannel, { type: 'command' }>, input: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(channel.command, channel.args, { timeout: channel.timeout_ms }, (error, _stdout, stderr) => {
+      if (error) {
+        const detail = String(stderr).trim();
+        reject(new Error(detail ? `${error.message}: ${detail}` : error.message));
+        return;
+      }
+      resolve();
+    });
+    // A command that exits without reading stdin must not fail the delivery
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(input);
+  });
+}
+
+/**
+ * Send a payload on a channel. Throws when the channel rejects it.
+ */
+export async function sendNotification(channel: NotificationChannel, payload: WebhookPayload): Promise<void> {
+  switch (channel.type) {
+    case 'webhook': {
+      const result = await sendWebhook(
+        { url: channel.url, secret: secretFromEnv(channel.secret_env, 'Webhook secret'), headers: channel.headers },
+        payload
+      );
+      if (!result.success) {
+        throw new Error(result.error || `Webhook returned status ${result.statusCode}`);
+      }
+      return;
+    }
+    case 'email': {
+      const decision = payload.decision ?? {};
+      await sendMail(
+        {
+          host: channel.host,
+          port: channel.port,
+          tls: channel.tls,
+          username: channel.username,
+          password: secretFromEnv(channel.password_env, 'SMTP password'),
+        },
+        {
+          from: channel.from,
+          to: channel.to,
+          subject: `[Clasper] Approval requested: ${decision.tool ?? 'execution'} (${decision.risk_level ?? 'unscored'})`,
+          text: formatEmailText(payload),
+        }
+      );
+      return;
+    }
+    case 'command':
+      await runCommand(channel, JSON.stringify(payload));
+      return;
+  }
+}
+
+/**
+ * Claim a due notification for one attempt: count it and push next_attempt_at
+ * to the retry time. Returns false when another pass claimed it first.
+ */
+function claimNotification(notification: ApprovalNotification, now: Date): boolean {
+  const attempts = notification.attempts + 1;
+  const result = getDatabase()
+    .prepare(
+      `
+      UPDATE approval_notifications
+      SET attempts = ?, next_attempt_at = ?, updated_at = ?
+      WHERE notification_id = ? AND status = 'pending' AND attempts = ?
+    `
+    )
+    .run(
+      attempts,
+      new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+      now.toISOString(),
+      notification.notification_id,
+      notification.attempts
+    );
+  return result.changes > 0;
+}
+
+function finishNotification(
+  notificationId: string,
+  status: ApprovalNotificationStatus,
+  error: string | null,
+  now: Date
+): void {
+  const at = now.toISOString();
+  getDatabase()
+    .prepare(
+      `
+      UPDATE approval_notifications
+      SET status = ?, last_error = ?, updated_at = ?,
+          next_attempt_at = CASE WHEN ? = 'pending' THEN next_attempt_at ELSE NULL END,
+          delivered_at = CASE WHEN ? = 'delivered' THEN ? ELSE delivered_at END
+      WHERE notification_id = ?
+    `
+    )
+    .run(status, error, at, status, status, at, notificationId);
+}
+
+/**
+ * Attempt every notification whose next attempt is due.
+ */
+export async function deliverDueNotifications(params: {
+  routing: ApprovalRouting;
+  now?: Date;
+  opsConsoleUrl?: string;
+  limit?: number;
+}): Promise<NotificationDeliveryResult> {
+  const now = params.now ?? new Date();
+  const result: NotificationDeliveryResult = { delivered: [], retrying: [], failed: [], cancelled: [] };
+  const due = getDatabase()
+    .prepare(
+      `
+      SELECT * FROM approval_notifications
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `
+    )
+    .all(now.toISOString(), params.limit ?? 50) as ApprovalNotification[];
+
+  for (const notification of due) {
+    const id = notification.notification_id;
+    const decision = getDecision(notification.decision_id);
+    if (!decision || decision.status !== 'pending') {
+      finishNotification(id, 'cancelled', 'Decision no longer pending', now);
+      result.cancelled.push(id);
+      continue;
+    }
+    if (!claimNotification(notification, now)) continue;
+
+    const group = params.routing.groups.find((candidate) => candidate.id === notification.group_id);
+    const channel = notification.recipient_id ? group?.member_channels[notification.recipient_id] : group?.channel;
+    if (!group || !channel) {
+      const target = notification.recipient_id ? `Member "${notification.recipient_id}" of group` : 'Group';
+      finishNotification(id, 'failed', `${target} "${notification.group_id}" has no notification channel`, now);
+      result.failed.push(id);
+      continue;
+    }
+
+    try {
+      await sendNotification(
+        channel,
+        await buildApprovalNotificationPayload(decision, group, params.opsConsoleUrl, notification.recipient_id)
+      );
+      finishNotification(id, 'delivered', null, now);
+      result.delivered.push(id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (notification.attempts + 1 >= MAX_NOTIFICATION_ATTEMPTS) {
+        finishNotification(id, 'failed', message, now);
+        result.failed.push(id);
+      } else {
+        finishNotification(id, 'pending', message, now);
+        result.retrying.push(id);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MAX_PREVIEW_DIFF_CHARS, previewForStorage } from './approvalPreview.js';
+import { resetRedactor } from './redaction.js';
+
+describe('approval previews', () => {
+  beforeEach(() => {
+    resetRedactor();
+  });
+
+  it('redacts secrets in diffs and commands', () => {
+    const diff = previewForStorage({
+      kind: 'diff',
+      files: [{ path: 'config.ts', status: 'modified', diff: '@@ -1 +1 @@\n-a\n+contact ops@example.com\n', additions: 1, deletions: 1 }],
+    });
+    expect(diff?.kind).toBe('diff');
+    expect(JSON.stringify(diff)).not.toContain('ops@example.com');
+    expect(JSON.stringify(diff)).toContain('[EMAIL]');
+
+    const command = previewForStorage({
+      kind: 'command',
+      command: 'curl -H "Authorization: sk-abcdefghijklmnopqrstuvwxyz" https://api.example.com',
+      segments: [{ argv: ['curl', '-H', 'Authorization: sk-abcdefghijklmnopqrstuvwxyz', 'https://api.example.com'] }],
+    });
+    expect(JSON.stringify(command)).not.toContain('sk-abcdefghijklmnopqrstuvwxyz');
+  });
+
+  it('clips diffs to the shared budget at line boundaries', () => {
+    const line = '+' + 'x'.repeat(99) + '\n';
+    const big = line.repeat(Math.ceil(MAX_PREVIEW_DIFF_CHARS / line.length) + 10);
+    const preview = previewForStorage({
+      kind: 'diff',
+      files: [
+        { path: 'a.txt', diff: big },
+        { path: 'b.txt', diff: '+later\n' },
+      ],
+    });
+    if (preview?.kind !== 'diff') throw new Error('expected a diff preview');
+    expect(preview.truncated).toBe(true);
+    expect(preview.files[0].diff.length).toBeLessThanOrEqual(MAX_PREVIEW_DIFF_CHARS);
+    expect(preview.files[0].diff.endsWith('x')).toBe(true);
+    expect(preview.files[1].diff).toBe('');
+  });
+
+  it('drops malformed previews', () => {
+    expect(previewForStorage(undefined)).toBeUndefined();
+    expect(previewForStorage({ kind: 'screenshot', url: 'x' })).toBeUndefined();
+    expect(previewForStorage({ kind: 'http', method: 'GET' })).toBeUndefined();
+    expect(previewForStorage('diff')).toBeUndefined();
+  });
+});
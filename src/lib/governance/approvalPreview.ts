@@ -0,0 +1,106 @@
+/**
+ * Approval previews
+ *
+ * Adapters may send a structured preview with an execution request: unified
+ * diffs for file writes, the parsed command line (with flagged options) for
+ * exec, or the method and URL for HTTP fetches. Previews are display-only;
+ * policy never reads them. Before a preview is stored in the decision's
+ * request snapshot it passes through the Redactor and its text is clipped.
+ */
+
+import { z } from 'zod';
+import { getRedactor } from './redaction.js';
+
+/** Cap on diff text stored per preview (all files together). */
+export const MAX_PREVIEW_DIFF_CHARS = 64 * 1024;
+const MAX_PREVIEW_TEXT_CHARS = 4 * 1024;
+
+const FileDiffPreviewSchema = z.object({
+  path: z.string(),
+  status: z.enum(['added', 'modified', 'deleted']).default('modified'),
+  diff: z.string(),
+  additions: z.number().int().nonnegative().default(0),
+  deletions: z.number().int().nonnegative().default(0),
+});
+
+export const ApprovalPreviewSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('diff'),
+    files: z.array(FileDiffPreviewSchema).max(100),
+    truncated: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal('command'),
+    command: z.string(),
+    cwd: z.string().optional(),
+    segments: z.array(z.object({ argv: z.array(z.string()), operator: z.string().optional() })).max(100),
+    flags: z
+      .array(z.object({ token: z.string(), reason: z.string(), severity: z.enum(['warn', 'danger']) }))
+      .max(100)
+      .default([]),
+  }),
+  z.object({
+    kind: z.literal('http'),
+    method: z.string(),
+    url: z.string(),
+    host: z.string().optional(),
+    body: z.string().optional(),
+  }),
+]);
+
+export type ApprovalPreview = z.infer<typeof ApprovalPreviewSchema>;
+
+function clip(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) : text;
+}
+
+/**
+ * Redact and clip a preview for storage. Diffs share one budget and are cut at
+ * line boundaries; `truncated` is set when anything was dropped.
+ */
+export function redactApprovalPreview(preview: ApprovalPreview): ApprovalPreview {
+  const redacted = getRedactor().redactObject(preview) as ApprovalPreview;
+
+  switch (redacted.kind) {
+    case 'diff': {
+      let budget = MAX_PREVIEW_DIFF_CHARS;
+      let truncated = redacted.truncated;
+      const files = redacted.files.map((file) => {
+        if (file.diff.length <= budget) {
+          budget -= file.diff.length;
+          return file;
+        }
+        truncated = true;
+        const cut = file.diff.lastIndexOf('\n', budget);
+        budget = 0;
+        return { ...file, diff: cut > 0 ? file.diff.slice(0, cut) : '' };
+      });
+      return { ...redacted, files, truncated };
+    }
+    case 'command':
+      return {
+        ...redacted,
+        command: clip(redacted.command, MAX_PREVIEW_TEXT_CHARS),
+        segments: redacted.segments.map((segment) => ({
+          ...segment,
+          argv: segment.argv.map((arg) => clip(arg, MAX_PREVIEW_TEXT_CHARS)),
+        })),
+      };
+    case 'http':
+      return {
+        ...redacted,
+        url: clip(redacted.url, MAX_PREVIEW_TEXT_CHARS),
+        body: redacted.body === undefined ? undefined : clip(redacted.body, MAX_PREVIEW_TEXT_CHARS),
+      };
+  }
+}
+
+/**
+ * The stored form of an adapter-supplied preview, or undefined when it is
+ * missing or malformed. A bad preview never fails the execution request.
+ */
+export function previewForStorage(input: unknown): ApprovalPreview | undefined {
+  if (input === undefined || input === null) return undefined;
+  const parsed = ApprovalPreviewSchema.safeParse(input);
+  return parsed.success ? redactApprovalPreview(parsed.data) : undefined;
+}
@@ -0,0 +1,196 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config as appConfig } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { MAX_NOTIFICATION_ATTEMPTS, deliverDueNotifications, listApprovalNotifications } from './approvalNotifications.js';
+import {
+  ApprovalRoutingError,
+  groupsForUser,
+  matchRoutingRule,
+  parseApprovalRouting,
+  routeDecision,
+  type ApprovalRouting,
+} from './approvalRouting.js';
+import { getAuditLog } from './auditLog.js';
+import { createDecision, getDecision, listDecisions, resolveDecision } from './decisions.js';
+
+let dir: string;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  dir = mkdtempSync(join(tmpdir(), 'clasper-routing-'));
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** Routing whose `security` group runs a node script that appends stdin to a file (or fails). */
+function routing(script: string): ApprovalRouting {
+  return parseApprovalRouting(`
+groups:
+  - id: security
+    members: [alice]
+    roles: [admin]
+    channel:
+      type: command
+      command: ${JSON.stringify(process.execPath)}
+      args: ["-e", ${JSON.stringify(script)}]
+  - id: platform
+    roles: [release_manager]
+rules:
+  - id: critical-exec
+    match: { tool: exec, risk_level: [high, critical] }
+    group: security
+  - match: { workspace_id: w1, agent_id: deploy-bot }
+    group: platform
+`);
+}
+
+function pending(request: Record<string, unknown>, riskLevel?: string) {
+  return createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    requestSnapshot: { request: { tool: 'exec', ...request }, decision: { risk_level: riskLevel } },
+  });
+}
+
+describe('approval routing', () => {
+  it('matches rules in order and resolves group membership by member or role', () => {
+    const config = routing('');
+    const facts = { tool: 'exec', tool_group: null, workspace_id: 'w1', agent_id: 'deploy-bot', risk_level: 'critical' };
+    expect(matchRoutingRule(config, facts)?.id).toBe('critical-exec');
+    expect(matchRoutingRule(config, { ...facts, risk_level: 'low' })?.group).toBe('platform');
+    expect(matchRoutingRule(config, { ...facts, risk_level: null, agent_id: null })).toBeNull();
+
+    expect(groupsForUser(config, { userId: 'alice', roles: ['viewer'] })).toEqual(['security']);
+    expect(groupsForUser(config, { userId: 'bob', roles: ['admin', 'release_manager'] })).toEqual(['security', 'platform']);
+    expect(groupsForUser(config, { userId: 'carol', roles: ['operator'] })).toEqual([]);
+
+    expect(() => parseApprovalRouting('rules:\n  - group: missing\n')).toThrow(ApprovalRoutingError);
+    expect(() => parseApprovalRouting('groups:\n  - id: g\n    channel: { type: pager }\n')).toThrow(ApprovalRoutingError);
+  });
+
+  it('assigns the group, audits the route and delivers on the group channel', async () => {
+    const out = join(dir, 'notifications.jsonl');
+    const config = routing(
+      `let s='';process.stdin.on('data',d=>s+=d).on('end',()=>require('fs').appendFileSync(${JSON.stringify(out)},s+'\\n'))`
+    );
+    const decision = pending({ agent_id: 'agent-1', intent: 'wipe cache' }, 'critical');
+
+    const routed = routeDecision({ decisionId: decision.decision_id, routing: config });
+    expect(routed).toMatchObject({ rule_id: 'critical-exec', decision: { assigned_group: 'security' } });
+    expect(routeDecision({ decisionId: decision.decision_id, routing: config })).toBeNull();
+    expect(listDecisions({ tenantId: 't1', status: 'pending', assignedGroups: ['security'] })).toHaveLength(1);
+    expect(listDecisions({ tenantId: 't1', status: 'pending', assignedGroups: [] })).toEqual([]);
+    expect(getAuditLog().query({ tenantId: 't1', eventType: 'policy_decision_routed' }).entries[0].eventData).toMatchObject({
+      group_id: 'security',
+      rule_id: 'critical-exec',
+      channel_type: 'command',
+    });
+
+    const result = await deliverDueNotifications({ routing: config, opsConsoleUrl: 'https://ops.example.com/' });
+    expect(result.delivered).toEqual(routed!.notifications.map((n) => n.notification_id));
+    const sent = JSON.parse(readFileSync(out, 'utf8').trim());
+    expect(sent).toMatchObject({
+      event: 'approval.requested',
+      decision: {
+        decision_id: decision.decision_id,
+        tool: 'exec',
+        risk_level: 'critical',
+        agent_id: 'agent-1',
+        group_id: 'security',
+        approvals_url: 'https://ops.example.com/ops#approvals',
+        recipient_id: null,
+        actions: null,
+      },
+    });
+    expect(listApprovalNotifications({ tenantId: 't1', decisionId: decision.decision_id })).toEqual([
+      expect.objectContaining({ status: 'delivered', attempts: 1, next_attempt_at: null }),
+    ]);
+
+    // Groups without a channel are assigned but not notified
+    const platform = routeDecision({ decisionId: pending({ agent_id: 'deploy-bot' }).decision_id, routing: config });
+    expect(platform).toMatchObject({ group: { id: 'platform' }, notifications: [] });
+  });
+
+  it('sends signed action links only to each member on their own channel', async () => {
+    const appendTo = (file: string) =>
+      `let s='';process.stdin.on('data',d=>s+=d).on('end',()=>require('fs').appendFileSync(${JSON.stringify(join(dir, file))},s+'\\n'))`;
+    const command = (file: string) => ({ type: 'command' as const, command: process.execPath, args: ['-e', appendTo(file)] });
+    const config = parseApprovalRouting(
+      JSON.stringify({
+        groups: [
+          {
+            id: 'security',
+            members: ['alice', 'bob'],
+            channel: command('group.jsonl'),
+            member_channels: { alice: command('alice.jsonl') },
+          },
+        ],
+        rules: [{ match: { tool: 'exec' }, group: 'security' }],
+      })
+    );
+    expect(() =>
+      parseApprovalRouting(JSON.stringify({ groups: [{ id: 'g', member_channels: { mallory: command('x.jsonl') } }] }))
+    ).toThrow(/not a member/);
+
+    const originalSecret = appConfig.approvalLinkSecret;
+    appConfig.approvalLinkSecret = 'routing-links-secret';
+    try {
+      const decision = pending({});
+      const routed = routeDecision({ decisionId: decision.decision_id, routing: config })!;
+      expect(routed.notifications.map((n) => n.recipient_id)).toEqual([null, 'alice']);
+
+      const result = await deliverDueNotifications({ routing: config, opsConsoleUrl: 'https://ops.example.com' });
+      expect(result.delivered).toHaveLength(2);
+      const group = JSON.parse(readFileSync(join(dir, 'group.jsonl'), 'utf8').trim());
+      expect(group.decision).toMatchObject({ recipient_id: null, actions: null });
+      const alice = JSON.parse(readFileSync(join(dir, 'alice.jsonl'), 'utf8').trim());
+      expect(alice.decision).toMatchObject({ recipient_id: 'alice', actions: { approver_id: 'alice' } });
+      expect(JSON.stringify(alice)).not.toContain('bob');
+    } finally {
+      appConfig.approvalLinkSecret = originalSecret;
+    }
+  });
+
+  it('retries failed deliveries with backoff and gives up after the last attempt', async () => {
+    const config = routing("process.stderr.write('pager down');process.exit(3)");
+    const decision = pending({}, 'high');
+    const [notification] = routeDecision({ decisionId: decision.decision_id, routing: config })!.notifications;
+    const id = notification.notification_id;
+
+    let now = new Date();
+    for (let attempt = 1; attempt < MAX_NOTIFICATION_ATTEMPTS; attempt++) {
+      expect((await deliverDueNotifications({ routing: config, now })).retrying).toEqual([id]);
+      expect((await deliverDueNotifications({ routing: config, now })).retrying).toEqual([]);
+      now = new Date(now.getTime() + 30 * 60 * 1000);
+    }
+    expect((await deliverDueNotifications({ routing: config, now })).failed).toEqual([id]);
+    expect(listApprovalNotifications({ tenantId: 't1' })[0]).toMatchObject({
+      status: 'failed',
+      attempts: MAX_NOTIFICATION_ATTEMPTS,
+      last_error: expect.stringContaining('pager down'),
+    });
+  });
+
+  it('cancels notifications for decisions resolved before delivery', async () => {
+    const config = routing('');
+    const decision = pending({}, 'critical');
+    routeDecision({ decisionId: decision.decision_id, routing: config });
+    resolveDecision({ decisionId: decision.decision_id, status: 'approved', resolution: {} });
+
+    const result = await deliverDueNotifications({ routing: config });
+    expect(result.cancelled).toHaveLength(1);
+    expect(getDecision(decision.decision_id)?.assigned_group).toBe('security');
+    expect(routeDecision({ decisionId: decision.decision_id, routing: config })).toBeNull();
+  });
+});
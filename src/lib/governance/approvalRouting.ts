@@ -0,0 +1,359 @@
+/**
+ * Approval routing
+ *
+ * Routes each new pending decision to an approver group. The routing file
+ * (config.approvalRoutingPath, YAML) declares the groups (members, roles and a
+ * notification channel) and an ordered list of rules matching on tool,
+ * tool_group, workspace_id, agent_id and risk_level; the first matching rule
+ * wins. Routing records the group on the decision, audits
+ * `policy_decision_routed` and queues notifications in the delivery log
+ * (approvalNotifications.ts): one on the group's channel and one per member
+ * with a personal channel. Decisions no rule matches stay unassigned.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { getEventBus } from '../core/eventBus.js';
+import {
+  deliverDueNotifications,
+  queueApprovalNotifications,
+  type ApprovalNotification,
+} from './approvalNotifications.js';
+import { logDecisionRouted } from './auditLog.js';
+import { assignDecisionGroup, getDecision, type DecisionRecord } from './decisions.js';
+
+const MatchValueSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+const RiskLevelSchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const WebhookChannelSchema = z
+  .object({
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    /** Env var holding the HMAC secret for X-Clasper-Signature. */
+    secret_env: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional(),
+  })
+  .strict();
+
+const EmailChannelSchema = z
+  .object({
+    type: z.literal('email'),
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535).default(587),
+    tls: z.enum(['implicit', 'starttls', 'none']).default('starttls'),
+    username: z.string().min(1).optional(),
+    /** Env var holding the SMTP password. */
+    password_env: z.string().min(1).optional(),
+    from: z.string().min(3),
+    to: z.array(z.string().min(3)).min(1),
+  })
+  .strict();
+
+const CommandChannelSchema = z
+  .object({
+    type: z.literal('command'),
+    /** Executable run without a shell; the notification JSON is written to stdin. */
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    timeout_ms: z.number().int().min(100).max(120000).default(10000),
+  })
+  .strict();
+
+export const NotificationChannelSchema = z.discriminatedUnion('type', [
+  WebhookChannelSchema,
+  EmailChannelSchema,
+  CommandChannelSchema,
+]);
+
+export const ApproverGroupSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().optional(),
+    /** Ops user ids in the group. */
+    members: z.array(z.string().min(1)).default([]),
+    /** Ops users holding any of these roles are in the group too. */
+    roles: z.array(z.string().min(1)).default([]),
+    channel: NotificationChannelSchema.optional(),
+    /**
+     * Personal channels of listed members, by member id. Signed approve/deny
+     * links are only sent here, each member getting their own.
+     */
+    member_channels: z.record(z.string().min(1), NotificationChannelSchema).default({}),
+  })
+  .strict();
+
+export const RoutingRuleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    match: z
+      .object({
+        tool: MatchValueSchema.optional(),
+        tool_group: MatchValueSchema.optional(),
+        workspace_id: MatchValueSchema.optional(),
+        agent_id: MatchValueSchema.optional(),
+        risk_level: z.union([RiskLevelSchema, z.array(RiskLevelSchema).min(1)]).optional(),
+      })
+      .strict()
+      .default({}),
+    group: z.string().min(1),
+  })
+  .strict();
+
+export const ApprovalRoutingSchema = z
+  .object({
+    groups: z.array(ApproverGroupSchema).default([]),
+    rules: z.array(RoutingRuleSchema).default([]),
+  })
+  .strict()
+  .superRefine((routing, ctx) => {
+    const ids = new Set<string>();
+    routing.groups.forEach((group, index) => {
+      if (ids.has(group.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups', index, 'id'], message: `Duplicate group "${group.id}"` });
+      }
+      ids.add(group.id);
+      for (const memberId of Object.keys(group.member_channels)) {
+        if (!group.members.includes(memberId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['groups', index, 'member_channels', memberId],
+            message: `"${memberId}" is not a member of group "${group.id}"`,
+          });
+        }
+      }
+    });
+    routing.rules.forEach((rule, index) => {
+      if (!ids.has(rule.group)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'group'], message: `Unknown group "${rule.group}"` });
+      }
+    });
+  });
+
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+export type ApproverGroup = z.infer<typeof ApproverGroupSchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+export type ApprovalRouting = z.infer<typeof ApprovalRoutingSchema>;
+
+export interface RoutingFacts {
+  tool: string | null;
+  tool_group: string | null;
+  workspace_id: string;
+  agent_id: string | null;
+  risk_level: string | null;
+}
+
+export interface DecisionRouteResult {
+  decision: DecisionRecord;
+  group: ApproverGroup;
+  rule_id: string;
+  notifications: ApprovalNotification[];
+}
+
+export class ApprovalRoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalRoutingError';
+  }
+}
+
+export const EMPTY_APPROVAL_ROUTING: ApprovalRouting = { groups: [], rules: [] };
+
+/**
+ * Parse and validate routing YAML. Throws ApprovalRoutingError on invalid input.
+ */
+export function parseApprovalRouting(source: string): ApprovalRouting {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source) ?? {};
+  } catch (error) {
+    throw new ApprovalRoutingError(`Invalid approval routing YAML: ${(error as Error).message}`);
+  }
+  const parsed = ApprovalRoutingSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ApprovalRoutingError(`Invalid approval routing: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+const routingCache = new Map<string, { mtimeMs: number; routing: ApprovalRouting }>();
+
+/**
+ * Load the routing file, re-reading it when it changes. A missing file means no
+ * groups and no rules.
+ */
+export function loadApprovalRouting(path: string): ApprovalRouting {
+  if (!existsSync(path)) return EMPTY_APPROVAL_ROUTING;
+  const { mtimeMs } = statSync(path);
+  const cached = routingCache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.routing;
+
+  const routing = parseApprovalRouting(readFileSync(path, 'utf8'));
+  routingCache.set(path, { mtimeMs, routing });
+  return routing;
+}
+
+/** Routing facts of a pending decision, read from its request snapshot. */
+export function decisionRoutingFacts(decision: DecisionRecord): RoutingFacts {
+  const snapshot = (decision.request_snapshot ?? {}) as Record<string, unknown>;
+  const request = (snapshot.request ?? {}) as Record<string, unknown>;
+  const evaluated = (snapshot.decision ?? {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : null);
+  return {
+    tool: text(request.tool),
+    tool_group: text(request.tool_group),
+    workspace_id: decision.workspace_id,
+    agent_id: text(request.agent_id),
+    risk_level: text(evaluated.risk_level),
+  };
+}
+
+function matchesValue(expected: string | string[] | undefined, actual: string | null): boolean {
+  if (expected === undefined) return true;
+  if (actual === null) return false;
+  return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+}
+
+/** First rule matching the facts (rules are evaluated in file order). */
+export function matchRoutingRule(routing: ApprovalRouting, facts: RoutingFacts): RoutingRule | null {
+  return (
+    routing.rules.find(
+      (rule) =>
+        matchesValue(rule.match.tool, facts.tool) &&
+        matchesValue(rule.match.tool_group, facts.tool_group) &&
+        matchesValue(rule.match.workspace_id, facts.workspace_id) &&
+        matchesValue(rule.match.agent_id, facts.agent_id) &&
+        matchesValue(rule.match.risk_level, facts.risk_level)
+    ) ?? null
+  );
+}
+
+export function ruleId(routing: ApprovalRouting, rule: RoutingRule): string {
+  return rule.id ?? `rule-${routing.rules.indexOf(rule) + 1}`;
+}
+
+export function getApproverGroup(routing: ApprovalRouting, groupId: string): ApproverGroup | null {
+  return routing.groups.find((group) => group.id === groupId) ?? null;
+}
+
+/** Ids of the groups an Ops user belongs to (as a member or through a role). */
+export function groupsForUser(routing: ApprovalRouting, user: { userId: string; roles: string[] }): string[] {
+  return routing.groups
+    .filter((group) => group.members.includes(user.userId) || group.roles.some((role) => user.roles.includes(role)))
+    .map((group) => group.id);
+}
+
+/**
+ * Whether a group can satisfy a decision's role requirement: it grants one of
+ * the eligible roles (any group can when the decision is unrestricted). Only
+ * the group's roles count, since explicit members' roles are not known here.
+ */
+export function groupSatisfiesRoles(group: ApproverGroup, roles: string[] | null): boolean {
+  return !roles || group.roles.some((role) => roles.includes(role));
+}
+
+/**
+ * Group an escalated decision is handed to: the first group granting a role
+ * the escalation added (latest tier first) that also satisfies the decision's
+ * eligible roles; failing that, when the current group cannot satisfy them, the
+ * first group that can. Null keeps the current assignment.
+ */
+export function selectEscalationGroup(
+  routing: ApprovalRouting,
+  params: { eligibleRoles: string[] | null; escalationRoles: string[]; currentGroupId: string | null }
+): ApproverGroup | null {
+  const eligible = routing.groups.filter((group) => groupSatisfiesRoles(group, params.eligibleRoles));
+  for (const role of [...params.escalationRoles].reverse()) {
+    const group = eligible.find((candidate) => candidate.roles.includes(role));
+    if (group) return group.id === params.currentGroupId ? null : group;
+  }
+  const current = params.currentGroupId ? getApproverGroup(routing, params.currentGroupId) : null;
+  if (current && groupSatisfiesRoles(current, params.eligibleRoles)) return null;
+  return eligible.find((group) => group.id !== params.currentGroupId) ?? null;
+}
+
+/**
+ * Route a pending decision: assign the matching rule's group and queue its
+ * notifications. Returns null when no rule matches or the decision is no longer
+ * pending.
+ */
+export function routeDecision(params: { decisionId: string; routing: ApprovalRouting; now?: Date }): DecisionRouteResult | null {
+  const pending = getDecision(params.decisionId);
+  if (!pending || pending.status !== 'pending' || pending.assigned_group) return null;
+
+  const rule = matchRoutingRule(params.routing, decisionRoutingFacts(pending));
+  if (!rule) return null;
+  const group = getApproverGroup(params.routing, rule.group)!;
+  const decision = assignDecisionGroup({ decisionId: pending.decision_id, groupId: group.id });
+  if (!decision) return null;
+
+  const id = ruleId(params.routing, rule);
+  logDecisionRouted({
+    tenantId: decision.tenant_id,
+    workspaceId: decision.workspace_id,
+    decisionId: decision.decision_id,
+    executionId: decision.execution_id,
+    groupId: group.id,
+    ruleId: id,
+    channelType: group.channel?.type ?? null,
+  });
+
+  const notifications = queueApprovalNotifications({ decision, group, ruleId: id, now: params.now });
+  return { decision, group, rule_id: id, notifications };
+}
+
+/**
+ * Route decisions as they are created (EventBus `decision.created`) and deliver
+ * their notifications; every `intervalMs`, retry deliveries that are due. Returns
+ * a stop function. Errors are reported through onError.
+ */
+export function startApprovalRouter(params: {
+  routingPath: string;
+  intervalMs: number;
+  opsConsoleUrl?: string;
+  onError?: (error: unknown) => void;
+}): () => void {
+  let delivering = false;
+  let again = false;
+  const deliver = () => {
+    if (delivering) {
+      again = true;
+      return;
+    }
+    delivering = true;
+    Promise.resolve()
+      .then(() =>
+        deliverDueNotifications({ routing: loadApprovalRouting(params.routingPath), opsConsoleUrl: params.opsConsoleUrl })
+      )
+      .catch((error) => params.onError?.(error))
+      .finally(() => {
+        delivering = false;
+        if (again) {
+          again = false;
+          deliver();
+        }
+      });
+  };
+
+  const unsubscribe = getEventBus().subscribe((event) => {
+    if (event.type !== 'decision.created' || event.payload.status !== 'pending') return;
+    try {
+      const routed = routeDecision({
+        decisionId: String(event.payload.decision_id),
+        routing: loadApprovalRouting(params.routingPath),
+      });
+      if (routed?.notifications.length) deliver();
+    } catch (error) {
+      params.onError?.(error);
+    }
+  });
+
+  const timer = params.intervalMs > 0 ? setInterval(deliver, params.intervalMs) : null;
+  timer?.unref();
+
+  return () => {
+    unsubscribe();
+    if (timer) clearInterval(timer);
+  };
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { getAuditLog } from './auditLog.js';
+import {
+  ApprovalVoteError,
+  type ApprovalTrustLevel,
+  buildApprovalRequirements,
+  castDecisionVote,
+  getApprovalProgress,
+  listDecisionVotes,
+} from './approvals.js';
+import { createDecision, getDecision } from './decisions.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function pending(approval?: Parameters<typeof buildApprovalRequirements>[0], owner?: string) {
+  return createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    approval: buildApprovalRequirements(approval, owner ? { owner } : undefined),
+  });
+}
+
+function vote(
+  decisionId: string,
+  approverId: string,
+  value: 'approve' | 'deny',
+  roles: string[] = ['operator'],
+  trustLevel: ApprovalTrustLevel = 'authenticated'
+) {
+  return castDecisionVote({ decisionId, approverId, approverRoles: roles, trustLevel, vote: value });
+}
+
+function voteError(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ApprovalVoteError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('multi-approver decisions', () => {
+  it('approves once quorum distinct approvers have voted', () => {
+    const decision = pending({ quorum: 2 });
+    expect(decision.approval).toEqual({ quorum: 2, roles: null, allow_self_approval: false, owner: null });
+
+    const first = vote(decision.decision_id, 'alice', 'approve');
+    expect(first).toMatchObject({ resolved: false, progress: { quorum: 2, approvals: 1, remaining: 1 } });
+    expect(getDecision(decision.decision_id)?.status).toBe('pending');
+    expect(voteError(() => vote(decision.decision_id, 'alice', 'approve'))).toBe('duplicate_vote');
+
+    const second = vote(decision.decision_id, 'bob', 'approve');
+    expect(second?.resolved).toBe(true);
+    expect(second?.decision).toMatchObject({ status: 'approved', resolution: { quorum: 2, approvers: ['alice', 'bob'] } });
+    expect(voteError(() => vote(decision.decision_id, 'carol', 'deny'))).toBe('not_pending');
+
+    expect(listDecisionVotes(decision.decision_id).map((v) => [v.approver_id, v.vote])).toEqual([
+      ['alice', 'approve'],
+      ['bob', 'approve'],
+    ]);
+    const audit = getAuditLog().query({ tenantId: 't1', eventType: 'policy_decision_vote' });
+    expect(audit.entries.map((entry) => entry.eventData.outcome).sort()).toEqual(['approved', 'pending']);
+  });
+
+  it('denies on a single deny vote', () => {
+    const decision = pending({ quorum: 3 });
+    vote(decision.decision_id, 'alice', 'approve');
+    const denied = vote(decision.decision_id, 'bob', 'deny');
+    expect(denied?.decision).toMatchObject({ status: 'denied', resolution: { denied_by: 'bob', approvers: ['alice'] } });
+  });
+
+  it('only takes authenticated votes when a quorum or roles are required', () => {
+    const quorum = pending({ quorum: 2 });
+    expect(voteError(() => vote(quorum.decision_id, 'alice', 'approve', ['operator'], 'self_attested'))).toBe(
+      'unauthenticated'
+    );
+    const restricted = pending({ roles: ['release_manager'] });
+    expect(voteError(() => vote(restricted.decision_id, 'alice', 'deny', ['release_manager'], 'self_attested'))).toBe(
+      'unauthenticated'
+    );
+    expect(listDecisionVotes(quorum.decision_id)).toEqual([]);
+
+    const single = pending(undefined, 'owner');
+    expect(vote(single.decision_id, 'alice', 'approve', ['operator'], 'self_attested')?.decision.status).toBe('approved');
+  });
+
+  it('gates votes by role and forbids self-approval by the agent owner', () => {
+    const decision = pending({ quorum: 1, roles: ['release_manager', 'admin'] }, 'alice');
+    expect(voteError(() => vote(decision.decision_id, 'bob', 'approve', ['operator']))).toBe('role_not_allowed');
+    expect(voteError(() => vote(decision.decision_id, 'alice', 'approve', ['admin']))).toBe('self_approval');
+    expect(listDecisionVotes(decision.decision_id)).toEqual([]);
+
+    expect(vote(decision.decision_id, 'bob', 'approve', ['release_manager'])?.decision.status).toBe('approved');
+
+    const selfApprovable = pending({ allow_self_approval: true }, 'alice');
+    expect(vote(selfApprovable.decision_id, 'alice', 'approve')?.decision.status).toBe('approved');
+    const ownerDenies = pending(undefined, 'alice');
+    expect(vote(ownerDenies.decision_id, 'alice', 'deny')?.decision.status).toBe('denied');
+  });
+
+  it('rejects votes once expires_at has passed, before the sweeper expires the decision', () => {
+    const overdue = createDecision({
+      tenantId: 't1',
+      workspaceId: 'w1',
+      executionId: `exec-${Math.random()}`,
+      adapterId: 'adapter-1',
+      expiresAt: new Date(Date.now() + 60 * 1000).toISOString(),
+    });
+    const lateVote = () =>
+      castDecisionVote({
+        decisionId: overdue.decision_id,
+        approverId: 'alice',
+        approverRoles: ['operator'],
+        trustLevel: 'authenticated',
+        vote: 'approve',
+        now: new Date(Date.now() + 2 * 60 * 1000),
+      });
+    expect(voteError(lateVote)).toBe('expired');
+    expect(getDecision(overdue.decision_id)?.status).toBe('pending');
+    expect(listDecisionVotes(overdue.decision_id)).toEqual([]);
+    expect(vote(overdue.decision_id, 'alice', 'approve')?.decision.status).toBe('approved');
+  });
+
+  it('keeps single-approver behavior for decisions without requirements', () => {
+    const decision = pending();
+    expect(decision.approval).toBeNull();
+    expect(getApprovalProgress(decision, [])).toMatchObject({ quorum: 1, remaining: 1 });
+    expect(vote(decision.decision_id, 'local-operator', 'approve')?.decision.status).toBe('approved');
+    expect(
+      castDecisionVote({ decisionId: 'missing', approverId: 'a', approverRoles: [], trustLevel: 'self_attested', vote: 'approve' })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Multi-approver decisions
+ *
+ * Pending decisions collect one vote per approver. A decision is approved once
+ * `quorum` distinct approvers (holding one of the required roles, when set) have
+ * approved it; a single deny vote denies it. The agent's owner may not vote on
+ * their own request unless the policy allows self-approval. Decisions with a
+ * quorum above one or required roles only take authenticated votes, since a
+ * self-attested approver can claim any identity and role.
+ */
+
+import { getDatabase } from '../core/db.js';
+import { freezeExplanation, getDecisionFreeze } from '../ops/freezes.js';
+import type { PolicyApproval } from '../policy/policySchema.js';
+import { logDecisionVote } from './auditLog.js';
+import { getDecision, resolveDecision, type DecisionApprovalRequirements, type DecisionRecord } from './decisions.js';
+
+export type DecisionVoteValue = 'approve' | 'deny';
+
+/**
+ * How the approver was identified: `authenticated` for a per-user key or OIDC,
+ * `self_attested` for the shared key and its identity headers.
+ */
+export type ApprovalTrustLevel = 'authenticated' | 'self_attested';
+
+export interface DecisionVote {
+  decision_id: string;
+  approver_id: string;
+  approver_roles: string[];
+  vote: DecisionVoteValue;
+  note: string | null;
+  justification: string | null;
+  created_at: string;
+}
+
+export interface ApprovalProgress {
+  quorum: number;
+  approvals: number;
+  remaining: number;
+  roles: string[] | null;
+  allow_self_approval: boolean;
+  owner: string | null;
+}
+
+export interface DecisionVoteResult {
+  decision: DecisionRecord;
+  vote: DecisionVote;
+  votes: DecisionVote[];
+  progress: ApprovalProgress;
+  /** True when this vote moved the decision out of `pending`. */
+  resolved: boolean;
+}
+
+export class ApprovalVoteError extends Error {
+  code:
+    | 'not_pending'
+    | 'expired'
+    | 'frozen'
+    | 'unauthenticated'
+    | 'self_approval'
+    | 'role_not_allowed'
+    | 'duplicate_vote';
+
+  constructor(message: string, code: ApprovalVoteError['code']) {
+    super(message);
+    this.name = 'ApprovalVoteError';
+    this.code = code;
+  }
+}
+
+const DEFAULT_REQUIREMENTS: DecisionApprovalRequirements = {
+  quorum: 1,
+  roles: null,
+  allow_self_approval: false,
+  owner: null,
+};
+
+/**
+ * Approval requirements to store on a pending decision: the winning policy's
+ * `effect.approval` plus the agent's owner (`agent_metadata.owner`). Undefined
+ * when neither is set (one approver, any role).
+ */
+export function buildApprovalRequirements(
+  approval: PolicyApproval | undefined,
+  agentMetadata?: Record<string, unknown>
+): DecisionApprovalRequirements | undefined {
+  const owner = typeof agentMetadata?.owner === 'string' && agentMetadata.owner ? agentMetadata.owner : null;
+  if (!approval && !owner) return undefined;
+  return {
+    quorum: approval?.quorum ?? 1,
+    roles: approval?.roles ?? null,
+    allow_self_approval: approval?.allow_self_approval ?? false,
+    owner,
+  };
+}
+
+interface DecisionVoteRow {
+  decision_id: string;
+  approver_id: string;
+  approver_roles: string | null;
+  vote: DecisionVoteValue;
+  note: string | null;
+  justification: string | null;
+  created_at: string;
+}
+
+function rowToVote(row: DecisionVoteRow): DecisionVote {
+  return {
+    decision_id: row.decision_id,
+    approver_id: row.approver_id,
+    approver_roles: row.approver_roles ? JSON.parse(row.approver_roles) : [],
+    vote: row.vote,
+    note: row.note,
+    justification: row.justification,
+    created_at: row.created_at,
+  };
+}
+
+export function listDecisionVotes(decisionId: string): DecisionVote[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM decision_votes WHERE decision_id = ? ORDER BY created_at ASC, id ASC')
+    .all(decisionId) as DecisionVoteRow[];
+  return rows.map(rowToVote);
+}
+
+export function getApprovalProgress(decision: DecisionRecord, votes: DecisionVote[]): ApprovalProgress {
+  const requirements = decision.approval ?? DEFAULT_REQUIREMENTS;
+  const approvals = new Set(votes.filter((v) => v.vote === 'approve').map((v) => v.approver_id)).size;
+  return {
+    quorum: requirements.quorum,
+    approvals,
+    remaining: Math.max(0, requirements.quorum - approvals),
+    roles: requirements.roles,
+    allow_self_approval: requirements.allow_self_approval,
+    owner: requirements.owner,
+  };
+}
+
+/**
+ * Record one approver's vote on a pending decision and resolve it when quorum
+ * is reached (approved) or on the first deny vote (denied). `resolution` is
+ * merged into the stored resolution together with the approvers. Votes are
+ * rejected once `expires_at` has passed, even before the sweeper expires it.
+ */
+export function castDecisionVote(params: {
+  decisionId: string;
+  approverId: string;
+  approverRoles: string[];
+  trustLevel: ApprovalTrustLevel;
+  vote: DecisionVoteValue;
+  note?: string | null;
+  justification?: string | null;
+  resolution?: Record<string, unknown>;
+  now?: Date;
+}): DecisionVoteResult | null {
+  const db = getDatabase();
+  const now = params.now ?? new Date();
+  const cast = db.transaction((): DecisionVoteResult | null => {
+    const decision = getDecision(params.decisionId);
+    if (!decision) return null;
+    if (decision.status !== 'pending') {
+      throw new ApprovalVoteError('Decision already resolved', 'not_pending');
+    }
+    if (decision.expires_at && Date.parse(decision.expires_at) <= now.getTime()) {
+      throw new ApprovalVoteError(`Decision expired at ${decision.expires_at}`, 'expired');
+    }
+    const freeze = params.vote === 'approve' ? getDecisionFreeze(decision, now) : null;
+    if (freeze) {
+      throw new ApprovalVoteError(freezeExplanation(freeze), 'frozen');
+    }
+
+    const requirements = decision.approval ?? DEFAULT_REQUIREMENTS;
+    if (params.trustLevel !== 'authenticated' && (requirements.quorum > 1 || requirements.roles)) {
+      throw new ApprovalVoteError(
+        'This decision requires a quorum or specific roles; vote with a per-user Ops API key or OIDC sign-in',
+        'unauthenticated'
+      );
+    }
+    if (
+      params.vote === 'approve' &&
+      requirements.owner &&
+      requirements.owner === params.approverId &&
+      !requirements.allow_self_approval
+    ) {
+      throw new ApprovalVoteError('The agent owner cannot approve their own request', 'self_approval');
+    }
+    if (requirements.roles && !params.approverRoles.some((role) => requirements.roles!.includes(role))) {
+      throw new ApprovalVoteError(
+        `Approver requires one of the roles: ${requirements.roles.join(', ')}`,
+        'role_not_allowed'
+      );
+    }
+    const existing = db
+      .prepare('SELECT 1 FROM decision_votes WHERE decision_id = ? AND approver_id = ?')
+      .get(params.decisionId, params.approverId);
+    if (existing) {
+      throw new ApprovalVoteError('Approver has already voted on this decision', 'duplicate_vote');
+    }
+
+    db.prepare(
+      `
+      INSERT INTO decision_votes (
+        decision_id, tenant_id, approver_id, approver_roles, vote, note, justification, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      params.decisionId,
+      decision.tenant_id,
+      params.approverId,
+      JSON.stringify(params.approverRoles),
+      params.vote,
+      params.note || null,
+      params.justification || null,
+      now.toISOString()
+    );
+
+    const votes = listDecisionVotes(params.decisionId);
+    const vote = votes[votes.length - 1];
+    const progress = getApprovalProgress(decision, votes);
+    const status = params.vote === 'deny' ? 'denied' : progress.remaining === 0 ? 'approved' : null;
+
+    logDecisionVote({
+      tenantId: decision.tenant_id,
+      workspaceId: decision.workspace_id,
+      userId: params.approverId,
+      decisionId: decision.decision_id,
+      executionId: decision.execution_id,
+      vote: params.vote,
+      approverRoles: params.approverRoles,
+      approvals: progress.approvals,
+      quorum: progress.quorum,
+      outcome: status ?? 'pending',
+    });
+
+    if (!status) {
+      return { decision, vote, votes, progress, resolved: false };
+    }
+    const resolved = resolveDecision({
+      decisionId: decision.decision_id,
+      status,
+      resolution: {
+        ...params.resolution,
+        quorum: progress.quorum,
+        approvers: votes.filter((v) => v.vote === 'approve').map((v) => v.approver_id),
+        denied_by: status === 'denied' ? params.approverId : null,
+      },
+    });
+    return { decision: resolved ?? decision, vote, votes, progress, resolved: true };
+  });
+  return cast();
+}
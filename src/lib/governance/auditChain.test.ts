@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getDatabase, initDatabase, resetDatabase } from '../core/db.js';
+import {
+  getAuditChainStatus,
+  listAuditChainEntries,
+  verifyAuditChain,
+  verifyAuditChainEntries,
+} from './auditChain.js';
+import { auditLog } from './auditLog.js';
+import { computePosture } from './governancePosture.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function logEntries(tenantId: string, count: number): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    auditLog('config_change', {
+      tenantId,
+      workspaceId: 'ws',
+      userId: 'ops',
+      eventData: { setting: 'governance_mode', value: `mode-${i}`, nested: { b: 1, a: [i] } },
+    })
+  );
+}
+
+function reasons(tenantId: string): string[] {
+  return verifyAuditChain(tenantId).failures.map((failure) => failure.reason);
+}
+
+describe('auditChain', () => {
+  it('links every audit entry into a per-tenant chain', () => {
+    logEntries('t1', 3);
+    logEntries('t2', 2);
+
+    const entries = listAuditChainEntries({ tenantId: 't1' });
+    expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3]);
+    expect(entries[0]?.prev_event_hash).toBeNull();
+    expect(entries[1]?.prev_event_hash).toBe(entries[0]?.event_hash);
+    expect(entries[2]?.event_data).toMatchObject({ workspace_id: 'ws', user_id: 'ops', data: { value: 'mode-2' } });
+
+    expect(verifyAuditChain('t1')).toMatchObject({
+      status: 'verified',
+      length: 3,
+      head_seq: 3,
+      head_hash: entries[2]?.event_hash,
+      failure_count: 0,
+    });
+    expect(verifyAuditChain('t2')).toMatchObject({ status: 'verified', length: 2 });
+    expect(verifyAuditChain('t3').status).toBe('empty');
+
+    // Pages verify independently when each continues from the previous cursor.
+    const first = verifyAuditChainEntries(listAuditChainEntries({ tenantId: 't1', limit: 2 }));
+    const second = verifyAuditChainEntries(listAuditChainEntries({ tenantId: 't1', fromSeq: 3 }), first.cursor);
+    expect([...first.failures, ...second.failures]).toEqual([]);
+    expect(verifyAuditChainEntries(listAuditChainEntries({ tenantId: 't1', fromSeq: 3 })).failures.length).toBeGreaterThan(0);
+  });
+
+  it('detects modified, deleted and unchained audit_log rows', () => {
+    const [, second, third] = logEntries('t1', 4);
+    const db = getDatabase();
+
+    db.prepare(`UPDATE audit_log SET event_data = json_set(event_data, '$.value', 'strict') WHERE id = ?`).run(second);
+    expect(verifyAuditChain('t1').failures).toEqual([{ reason: 'entry_modified', seq: 2, audit_id: second }]);
+
+    db.prepare('DELETE FROM audit_log WHERE id = ?').run(third);
+    expect(reasons('t1')).toEqual(['entry_modified', 'entry_missing']);
+
+    const sneaked = db
+      .prepare(`INSERT INTO audit_log (tenant_id, event_type, event_data, created_at) VALUES ('t1', 'config_change', '{}', ?)`)
+      .run(new Date().toISOString()).lastInsertRowid;
+    expect(verifyAuditChain('t1')).toMatchObject({ status: 'broken', failure_count: 3 });
+    expect(verifyAuditChain('t1').failures[2]).toEqual({ reason: 'entry_unchained', audit_id: Number(sneaked) });
+  });
+
+  it('detects deleted, reordered and modified chain rows', () => {
+    logEntries('t1', 4);
+    const db = getDatabase();
+
+    db.prepare(`UPDATE audit_chain SET event_data = json_set(event_data, '$.user_id', 'mallory') WHERE tenant_id = 't1' AND seq = 4`).run();
+    expect(reasons('t1')).toEqual(['hash_mismatch', 'entry_modified']);
+
+    db.prepare(`UPDATE audit_chain SET seq = -seq WHERE tenant_id = 't1' AND seq IN (1, 2)`).run();
+    db.prepare(`UPDATE audit_chain SET seq = 3 + seq WHERE tenant_id = 't1' AND seq IN (-2, -1)`).run();
+    expect(reasons('t1')).toEqual(expect.arrayContaining(['prev_hash_mismatch', 'hash_mismatch']));
+
+    resetDatabase();
+    initDatabase();
+    logEntries('t1', 3);
+    getDatabase().prepare(`DELETE FROM audit_chain WHERE tenant_id = 't1' AND seq = 2`).run();
+    expect(reasons('t1')).toEqual(['seq_gap', 'prev_hash_mismatch', 'entry_unchained']);
+  });
+
+  it('counts rows that predate the chain and reports the status in posture', () => {
+    const db = getDatabase();
+    db.prepare(`INSERT INTO audit_log (tenant_id, event_type, event_data) VALUES ('t1', 'config_change', '{}')`).run();
+    expect(verifyAuditChain('t1')).toMatchObject({ status: 'unchained', unchained_entries: 1 });
+
+    logEntries('t1', 2);
+    expect(verifyAuditChain('t1')).toMatchObject({ status: 'verified', length: 2, unchained_entries: 1 });
+
+    expect(computePosture({ tenant_id: 't1', adapter_id: 'openclaw-local' }).audit_chain).toMatchObject({
+      status: 'verified',
+      length: 2,
+      failure_count: 0,
+    });
+    // Posture reuses the last verification for a minute.
+    db.prepare(`DELETE FROM audit_chain WHERE tenant_id = 't1' AND seq = 1`).run();
+    expect(getAuditChainStatus('t1').status).toBe('verified');
+    expect(getAuditChainStatus('t1', new Date(Date.now() + 61 * 1000)).status).toBe('broken');
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Audit hash chain
+ *
+ * Every audit_log entry is also appended to a per-tenant chain in
+ * `audit_chain`. Entry n stores the hash of entry n-1 and a SHA-256 over its
+ * own tenant, seq, previous hash, event type, entry data and timestamp, so
+ * deleting, reordering or editing a row (in audit_chain or audit_log) breaks
+ * the chain from that row on.
+ *
+ * The chain is self-attested: anyone who can write the database can rebuild
+ * it. It detects tampering after the fact but does not prevent it, and it
+ * cannot tell that the newest entries were cut off unless `head_hash` was
+ * recorded somewhere else.
+ */
+
+import { getDatabase } from '../core/db.js';
+import { formatSha256, sha256Json } from '../security/sha256.js';
+import { stableStringify, type JsonValue } from '../security/stableJson.js';
+
+/**
+ * The audit_log row an entry covers (stored as `event_data`).
+ */
+export interface AuditChainEntryData {
+  audit_id: number;
+  workspace_id: string | null;
+  trace_id: string | null;
+  user_id: string | null;
+  data: JsonValue;
+}
+
+export interface AuditChainEntry {
+  tenant_id: string;
+  seq: number;
+  prev_event_hash: string | null;
+  event_hash: string;
+  event_type: string;
+  event_data: AuditChainEntryData;
+  created_at: string;
+}
+
+export type AuditChainFailureReason =
+  /** A seq is missing: entries were deleted. */
+  | 'seq_gap'
+  /** The entry does not link to its predecessor: deleted or reordered entries. */
+  | 'prev_hash_mismatch'
+  /** The entry's content no longer matches its hash: the chain row was modified. */
+  | 'hash_mismatch'
+  /** The audit_log row the entry covers was deleted. */
+  | 'entry_missing'
+  /** The audit_log row differs from what was chained. */
+  | 'entry_modified'
+  /** An audit_log row written after the chain started has no chain entry. */
+  | 'entry_unchained';
+
+export interface AuditChainFailure {
+  reason: AuditChainFailureReason;
+  seq?: number;
+  audit_id?: number;
+}
+
+/**
+ * - verified: the chain is intact and covers every audit_log row since it started
+ * - broken: at least one failure
+ * - unchained: the tenant has audit_log rows but no chain yet
+ * - empty: nothing has been logged for the tenant
+ */
+export type AuditChainStatus = 'verified' | 'broken' | 'unchained' | 'empty';
+
+export interface AuditChainVerification {
+  tenant_id: string;
+  status: AuditChainStatus;
+  length: number;
+  head_seq: number | null;
+  head_hash: string | null;
+  /** audit_log rows written before the chain started (not covered). */
+  unchained_entries: number;
+  failure_count: number;
+  /** The first MAX_REPORTED_FAILURES failures. */
+  failures: AuditChainFailure[];
+  verified_at: string;
+}
+
+/**
+ * Position a chain continues from: the last verified entry (seq 0 and a null
+ * hash before the first entry).
+ */
+export interface AuditChainCursor {
+  seq: number;
+  hash: string | null;
+}
+
+export const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * How long posture reuses a verification before re-running it.
+ */
+export const AUDIT_CHAIN_STATUS_MAX_AGE_MS = 60 * 1000;
+
+interface AuditChainRow {
+  tenant_id: string;
+  seq: number;
+  prev_event_hash: string | null;
+  event_hash: string;
+  event_type: string;
+  event_data: string;
+  created_at: string;
+}
+
+function rowToEntry(row: AuditChainRow): AuditChainEntry {
+  return { ...row, event_data: JSON.parse(row.event_data) as AuditChainEntryData };
+}
+
+export function computeAuditEventHash(entry: Omit<AuditChainEntry, 'event_hash'>): string {
+  return formatSha256(
+    sha256Json({
+      tenant_id: entry.tenant_id,
+      seq: entry.seq,
+      prev_event_hash: entry.prev_event_hash,
+      event_type: entry.event_type,
+      event_data: entry.event_data as unknown as JsonValue,
+      created_at: entry.created_at,
+    })
+  );
+}
+
+/**
+ * Append the chain entry for an audit_log row. Runs inside the caller's
+ * transaction so the row and its entry are written together.
+ */
+export function appendAuditChainEntry(params: {
+  tenantId: string;
+  auditId: number;
+  eventType: string;
+  workspaceId: string | null;
+  traceId: string | null;
+  userId: string | null;
+  /** The JSON stored in audit_log.event_data. */
+  eventDataJson: string;
+  createdAt: string;
+}): AuditChainEntry {
+  const db = getDatabase();
+  const head = db
+    .prepare('SELECT seq, event_hash FROM audit_chain WHERE tenant_id = ? ORDER BY seq DESC LIMIT 1')
+    .get(params.tenantId) as { seq: number; event_hash: string } | undefined;
+
+  const unsigned: Omit<AuditChainEntry, 'event_hash'> = {
+    tenant_id: params.tenantId,
+    seq: (head?.seq ?? 0) + 1,
+    prev_event_hash: head?.event_hash ?? null,
+    event_type: params.eventType,
+    event_data: {
+      audit_id: params.auditId,
+      workspace_id: params.workspaceId,
+      trace_id: params.traceId,
+      user_id: params.userId,
+      data: JSON.parse(params.eventDataJson) as JsonValue,
+    },
+    created_at: params.createdAt,
+  };
+  const entry: AuditChainEntry = { ...unsigned, event_hash: computeAuditEventHash(unsigned) };
+
+  db.prepare(
+    `
+    INSERT INTO audit_chain (tenant_id, seq, prev_event_hash, event_hash, event_type, event_data, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    entry.tenant_id,
+    entry.seq,
+    entry.prev_event_hash,
+    entry.event_hash,
+    entry.event_type,
+    JSON.stringify(entry.event_data),
+    entry.created_at
+  );
+  return entry;
+}
+
+/**
+ * Check one entry against the cursor it should continue from.
+ */
+function linkFailures(entry: AuditChainEntry, cursor: AuditChainCursor): AuditChainFailure[] {
+  const failures: AuditChainFailure[] = [];
+  if (entry.seq !== cursor.seq + 1) {
+    failures.push({ reason: 'seq_gap', seq: entry.seq });
+  }
+  if (entry.prev_event_hash !== cursor.hash) {
+    failures.push({ reason: 'prev_hash_mismatch', seq: entry.seq });
+  }
+  if (computeAuditEventHash(entry) !== entry.event_hash) {
+    failures.push({ reason: 'hash_mismatch', seq: entry.seq });
+  }
+  return failures;
+}
+
+/**
+ * Verify the links and hashes of consecutive chain entries (ordered by seq),
+ * e.g. one page of an export. Pass the cursor returned for the previous page
+ * to continue across pages.
+ */
+export function verifyAuditChainEntries(
+  entries: AuditChainEntry[],
+  from: AuditChainCursor = { seq: 0, hash: null }
+): { failures: AuditChainFailure[]; cursor: AuditChainCursor } {
+  const failures: AuditChainFailure[] = [];
+  let cursor = from;
+  for (const entry of entries) {
+    failures.push(...linkFailures(entry, cursor));
+    cursor = { seq: entry.seq, hash: entry.event_hash };
+  }
+  return { failures, cursor };
+}
+
+interface ChainedAuditRow extends AuditChainRow {
+  a_id: number | null;
+  a_workspace_id: string | null;
+  a_trace_id: string | null;
+  a_user_id: string | null;
+  a_event_type: string | null;
+  a_event_data: string | null;
+  a_created_at: string | null;
+}
+
+function matchesAuditRow(entry: AuditChainEntry, row: ChainedAuditRow): boolean {
+  const chained = entry.event_data;
+  let data: string;
+  try {
+    data = stableStringify(JSON.parse(row.a_event_data ?? 'null') as JsonValue);
+  } catch {
+    return false;
+  }
+  return (
+    row.a_event_type === entry.event_type &&
+    row.a_created_at === entry.created_at &&
+    row.a_workspace_id === chained.workspace_id &&
+    row.a_trace_id === chained.trace_id &&
+    row.a_user_id === chained.user_id &&
+    data === stableStringify(chained.data)
+  );
+}
+
+/**
+ * Verify a tenant's whole chain and cross-check it against audit_log.
+ */
+export function verifyAuditChain(tenantId: string, now: Date = new Date()): AuditChainVerification {
+  const db = getDatabase();
+  const failures: AuditChainFailure[] = [];
+  let failureCount = 0;
+  const report = (found: AuditChainFailure[]) => {
+    failureCount += found.length;
+    for (const failure of found) {
+      if (failures.length < MAX_REPORTED_FAILURES) failures.push(failure);
+    }
+  };
+
+  const rows = db
+    .prepare(
+      `
+      SELECT c.*,
+        a.id AS a_id, a.workspace_id AS a_workspace_id, a.trace_id AS a_trace_id, a.user_id AS a_user_id,
+        a.event_type AS a_event_type, a.event_data AS a_event_data, a.created_at AS a_created_at
+      FROM audit_chain c
+      LEFT JOIN audit_log a ON a.id = json_extract(c.event_data, '$.audit_id') AND a.tenant_id = c.tenant_id
+      WHERE c.tenant_id = ?
+      ORDER BY c.seq
+    `
+    )
+    .iterate(tenantId) as IterableIterator<ChainedAuditRow>;
+
+  let cursor: AuditChainCursor = { seq: 0, hash: null };
+  let length = 0;
+  let firstAuditId: number | null = null;
+  for (const row of rows) {
+    length += 1;
+    let entry: AuditChainEntry;
+    try {
+      entry = rowToEntry(row);
+    } catch {
+      report([{ reason: 'hash_mismatch', seq: row.seq }]);
+      cursor = { seq: row.seq, hash: row.event_hash };
+      continue;
+    }
+    const auditId = entry.event_data.audit_id;
+    if (firstAuditId === null || auditId < firstAuditId) firstAuditId = auditId;
+
+    report(linkFailures(entry, cursor));
+    if (row.a_id === null) report([{ reason: 'entry_missing', seq: entry.seq, audit_id: auditId }]);
+    else if (!matchesAuditRow(entry, row)) report([{ reason: 'entry_modified', seq: entry.seq, audit_id: auditId }]);
+    cursor = { seq: entry.seq, hash: entry.event_hash };
+  }
+
+  let unchainedEntries: number;
+  if (firstAuditId === null) {
+    unchainedEntries = (
+      db.prepare('SELECT COUNT(*) AS count FROM audit_log WHERE tenant_id = ?').get(tenantId) as { count: number }
+    ).count;
+  } else {
+    unchainedEntries = (
+      db.prepare('SELECT COUNT(*) AS count FROM audit_log WHERE tenant_id = ? AND id < ?').get(tenantId, firstAuditId) as {
+        count: number;
+      }
+    ).count;
+    const unchained = db
+      .prepare(
+        `
+        SELECT id FROM audit_log
+        WHERE tenant_id = ? AND id > ?
+          AND id NOT IN (SELECT json_extract(event_data, '$.audit_id') FROM audit_chain WHERE tenant_id = ?)
+        ORDER BY id
+      `
+      )
+      .all(tenantId, firstAuditId, tenantId) as { id: number }[];
+    report(unchained.map((row) => ({ reason: 'entry_unchained' as const, audit_id: row.id })));
+  }
+
+  let status: AuditChainStatus;
+  if (failureCount > 0) status = 'broken';
+  else if (length > 0) status = 'verified';
+  else status = unchainedEntries > 0 ? 'unchained' : 'empty';
+
+  return {
+    tenant_id: tenantId,
+    status,
+    length,
+    head_seq: length > 0 ? cursor.seq : null,
+    head_hash: cursor.hash,
+    unchained_entries: unchainedEntries,
+    failure_count: failureCount,
+    failures,
+    verified_at: now.toISOString(),
+  };
+}
+
+const statusCache = new Map<string, AuditChainVerification>();
+
+/**
+ * Chain verification for posture, re-run at most every
+ * AUDIT_CHAIN_STATUS_MAX_AGE_MS per tenant.
+ */
+export function getAuditChainStatus(tenantId: string, now: Date = new Date()): AuditChainVerification {
+  const cached = statusCache.get(tenantId);
+  if (cached && now.getTime() - Date.parse(cached.verified_at) < AUDIT_CHAIN_STATUS_MAX_AGE_MS) {
+    return cached;
+  }
+  const verification = verifyAuditChain(tenantId, now);
+  statusCache.set(tenantId, verification);
+  return verification;
+}
+
+/**
+ * One page of a tenant's chain, ordered by seq.
+ */
+export function listAuditChainEntries(params: { tenantId: string; fromSeq?: number; limit?: number }): AuditChainEntry[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM audit_chain WHERE tenant_id = ? AND seq >= ? ORDER BY seq LIMIT ?')
+    .all(params.tenantId, params.fromSeq ?? 1, params.limit ?? 1000) as AuditChainRow[];
+  return rows.map(rowToEntry);
+}
@@ -1,11 +1,13 @@
 /**
  * Audit Log (self-attested)
  *
- * Local, append-only audit entries stored in SQLite.
+ * Local, append-only audit entries stored in SQLite, each linked into a
+ * per-tenant hash chain (see auditChain.ts).
  * No external proof or signing is produced in OSS.
  */
 
 import { getDatabase } from '../core/db.js';
+import { appendAuditChainEntry } from './auditChain.js';
 
 export type AuditEventType =
   | 'agent_execution_started'
@@ -40,6 +42,12 @@ export type AuditEventType =
   | 'blocked_execution_trace_recorded'
   | 'policy_decision_pending'
   | 'policy_decision_resolved'
+  | 'policy_decision_vote'
+  | 'policy_decision_escalated'
+  | 'policy_decision_routed'
+  | 'approval_action_used'
+  | 'decision_token_consumed'
+  | 'decision_token_rejected'
   | 'policy_fallback_hit'
   | 'policy_created_from_trace'
   | 'policy_created_via_wizard'
@@ -48,7 +56,18 @@ export type AuditEventType =
   | 'policy_exception_miss'
   | 'approval_grant_created'
   | 'approval_grant_consumed'
-  | 'approval_auto_allowed_in_core';
+  | 'approval_grant_revoked'
+  | 'approval_auto_allowed_in_core'
+  | 'break_glass_activated'
+  | 'break_glass_action'
+  | 'break_glass_ended'
+  | 'break_glass_reviewed'
+  | 'ops_user_created'
+  | 'ops_user_updated'
+  | 'ops_api_key_issued'
+  | 'ops_api_key_revoked'
+  | 'freeze_created'
+  | 'freeze_lifted';
 
 export interface WizardAuditMeta {
   wizard_meta_version: number;
@@ -120,7 +139,7 @@ export class AuditLog {
   ): number {
     const db = getDatabase();
     const createdAt = new Date().toISOString();
-    const eventData = data.eventData || {};
+    const eventDataJson = JSON.stringify(data.eventData || {});
 
     const stmt = db.prepare(`
       INSERT INTO audit_log (
@@ -128,17 +147,33 @@ export class AuditLog {
       ) VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.run(
-      data.tenantId,
-      data.workspaceId || null,
-      data.traceId || null,
-      data.userId || null,
-      eventType,
-      JSON.stringify(eventData),
-      createdAt
-    );
-
-    return result.lastInsertRowid as number;
+    // The row and its hash-chain entry are written together (IMMEDIATE, so
+    // concurrent writers cannot take the same seq).
+    const write = db.transaction(() => {
+      const result = stmt.run(
+        data.tenantId,
+        data.workspaceId || null,
+        data.traceId || null,
+        data.userId || null,
+        eventType,
+        eventDataJson,
+        createdAt
+      );
+      const auditId = Number(result.lastInsertRowid);
+      appendAuditChainEntry({
+        tenantId: data.tenantId,
+        auditId,
+        eventType,
+        workspaceId: data.workspaceId || null,
+        traceId: data.traceId || null,
+        userId: data.userId || null,
+        eventDataJson,
+        createdAt,
+      });
+      return auditId;
+    });
+
+    return write.immediate();
   }
 
   query(options: AuditQueryOptions): AuditQueryResult {
@@ -351,6 +386,106 @@ export function logOverrideUsed(params: {
   });
 }
 
+/**
+ * Log the activation of a break-glass session.
+ */
+export function logBreakGlassActivated(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  sessionId: string;
+  agentId: string | null;
+  reasonCode: string;
+  justification: string;
+  expiresAt: string;
+}): number {
+  return auditLog('break_glass_activated', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      break_glass_session_id: params.sessionId,
+      agent_id: params.agentId,
+      reason_code: params.reasonCode,
+      justification: params.justification,
+      expires_at: params.expiresAt,
+    },
+  });
+}
+
+/**
+ * Log an execution decided under an active break-glass session.
+ */
+export function logBreakGlassAction(params: {
+  tenantId: string;
+  workspaceId?: string;
+  sessionId: string;
+  executionId: string;
+  adapterId: string;
+  agentId?: string | null;
+  tool?: string | null;
+  decision: string;
+}): number {
+  return auditLog('break_glass_action', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      break_glass_session_id: params.sessionId,
+      execution_id: params.executionId,
+      adapter_id: params.adapterId,
+      agent_id: params.agentId ?? null,
+      tool: params.tool ?? null,
+      decision: params.decision,
+    },
+  });
+}
+
+/**
+ * Log the end of a break-glass session (ended by an operator or expired).
+ */
+export function logBreakGlassEnded(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  sessionId: string;
+  reason: 'ended' | 'expired';
+  actionCount: number;
+}): number {
+  return auditLog('break_glass_ended', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      break_glass_session_id: params.sessionId,
+      reason: params.reason,
+      action_count: params.actionCount,
+    },
+  });
+}
+
+/**
+ * Log the post-incident review sign-off of a break-glass session.
+ */
+export function logBreakGlassReviewed(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  sessionId: string;
+  notes: string;
+  actionCount: number;
+}): number {
+  return auditLog('break_glass_reviewed', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      break_glass_session_id: params.sessionId,
+      notes: params.notes,
+      action_count: params.actionCount,
+    },
+  });
+}
+
 /**
  * Log when Core (OSS) auto-allows an execution that would otherwise require approval.
  * Used when CLASPER_REQUIRE_APPROVAL_IN_CORE=allow (default) so the agent is not stuck with no way to approve.
@@ -584,3 +719,377 @@ export function logApprovalGrantConsumed(params: {
     },
   });
 }
+
+export function logApprovalGrantRevoked(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  decisionId: string;
+  tool: string;
+  uses: number;
+}): number {
+  return auditLog('approval_grant_revoked', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      decision_id: params.decisionId,
+      tool: params.tool,
+      uses: params.uses,
+    },
+  });
+}
+
+/**
+ * Log one approver's vote on a pending decision (multi-approver quorum).
+ */
+export function logDecisionVote(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  decisionId: string;
+  executionId: string;
+  vote: 'approve' | 'deny';
+  approverRoles: string[];
+  approvals: number;
+  quorum: number;
+  outcome: 'pending' | 'approved' | 'denied';
+}): number {
+  return auditLog('policy_decision_vote', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      approver_id: params.userId,
+      approver_roles: params.approverRoles,
+      vote: params.vote,
+      approvals: params.approvals,
+      quorum: params.quorum,
+      outcome: params.outcome,
+    },
+  });
+}
+
+/**
+ * Log when a pending decision reaches an escalation tier (approvers re-notified, roles widened).
+ */
+export function logDecisionEscalated(params: {
+  tenantId: string;
+  workspaceId?: string;
+  decisionId: string;
+  executionId: string;
+  escalationLevel: number;
+  eligibleRoles: string[] | null;
+  pendingMinutes: number;
+  /** Approver group the decision was handed to, when the escalation re-routed it. */
+  assignedGroup?: string | null;
+}): number {
+  return auditLog('policy_decision_escalated', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      escalation_level: params.escalationLevel,
+      eligible_roles: params.eligibleRoles,
+      pending_minutes: params.pendingMinutes,
+      assigned_group: params.assignedGroup ?? null,
+    },
+  });
+}
+
+export function logDecisionRouted(params: {
+  tenantId: string;
+  workspaceId?: string;
+  decisionId: string;
+  executionId: string;
+  groupId: string;
+  ruleId: string;
+  channelType: string | null;
+}): number {
+  return auditLog('policy_decision_routed', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      group_id: params.groupId,
+      rule_id: params.ruleId,
+      channel_type: params.channelType,
+    },
+  });
+}
+
+/**
+ * Log a vote cast through a signed approval link (or the CLI); the approver is
+ * the one named in the link.
+ */
+export function logApprovalActionUsed(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  decisionId: string;
+  executionId: string;
+  action: 'approve' | 'deny';
+  jti: string;
+  via: 'link' | 'cli';
+  status: string;
+  reason: string | null;
+}): number {
+  return auditLog('approval_action_used', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      action: params.action,
+      approver_id: params.userId,
+      jti: params.jti,
+      via: params.via,
+      status: params.status,
+      reason: params.reason,
+    },
+  });
+}
+
+/**
+ * Log a single-use approval token being consumed by the adapter it was issued to.
+ */
+export function logDecisionTokenConsumed(params: {
+  tenantId: string;
+  workspaceId?: string;
+  decisionId: string;
+  executionId: string;
+  adapterId: string;
+  jti: string;
+  requestHash: string;
+}): number {
+  return auditLog('decision_token_consumed', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      adapter_id: params.adapterId,
+      jti: params.jti,
+      request_hash: params.requestHash,
+    },
+  });
+}
+
+/**
+ * Log a rejected approval token consumption (replay, expiry, bad signature or mismatch).
+ */
+export function logDecisionTokenRejected(params: {
+  tenantId: string;
+  workspaceId?: string;
+  decisionId: string;
+  executionId: string;
+  adapterId: string;
+  jti: string | null;
+  reason: string;
+}): number {
+  return auditLog('decision_token_rejected', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      decision_id: params.decisionId,
+      execution_id: params.executionId,
+      adapter_id: params.adapterId,
+      jti: params.jti,
+      reason: params.reason,
+    },
+  });
+}
+
+/**
+ * Log when a policy rate_limit condition trips (its sliding-window count is exhausted).
+ */
+export function logRateLimitExceeded(params: {
+  tenantId: string;
+  workspaceId?: string;
+  executionId: string;
+  policyId: string;
+  decision?: string;
+  observation: {
+    counter_key: string;
+    dimensions: Record<string, unknown>;
+    event_kind: string;
+    count: number;
+    max: number;
+    window_seconds: number;
+  };
+}): number {
+  return auditLog('rate_limit_exceeded', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    eventData: {
+      execution_id: params.executionId,
+      policy_id: params.policyId,
+      decision: params.decision ?? null,
+      counter_key: params.observation.counter_key,
+      dimensions: params.observation.dimensions,
+      event_kind: params.observation.event_kind,
+      count: params.observation.count,
+      max: params.observation.max,
+      window_seconds: params.observation.window_seconds,
+    },
+  });
+}
+
+/**
+ * Log the creation of a local Ops user.
+ */
+export function logOpsUserCreated(params: {
+  tenantId: string;
+  userId: string;
+  subjectUserId: string;
+  roles: string[];
+}): number {
+  return auditLog('ops_user_created', {
+    tenantId: params.tenantId,
+    userId: params.userId,
+    eventData: {
+      subject_user_id: params.subjectUserId,
+      roles: params.roles,
+    },
+  });
+}
+
+/**
+ * Log a role change or the disabling/re-enabling of a local Ops user.
+ */
+export function logOpsUserUpdated(params: {
+  tenantId: string;
+  userId: string;
+  subjectUserId: string;
+  previousRoles: string[];
+  roles: string[];
+  disabled: boolean;
+}): number {
+  return auditLog('ops_user_updated', {
+    tenantId: params.tenantId,
+    userId: params.userId,
+    eventData: {
+      subject_user_id: params.subjectUserId,
+      previous_roles: params.previousRoles,
+      roles: params.roles,
+      disabled: params.disabled,
+    },
+  });
+}
+
+/**
+ * Log a new API key for an Ops user (on creation or rotation).
+ */
+export function logOpsApiKeyIssued(params: {
+  tenantId: string;
+  userId: string;
+  subjectUserId: string;
+  keyId: string;
+  rotatedKeyIds: string[];
+}): number {
+  return auditLog('ops_api_key_issued', {
+    tenantId: params.tenantId,
+    userId: params.userId,
+    eventData: {
+      subject_user_id: params.subjectUserId,
+      key_id: params.keyId,
+      rotated_key_ids: params.rotatedKeyIds,
+    },
+  });
+}
+
+/**
+ * Log the revocation of Ops user API keys.
+ */
+export function logOpsApiKeyRevoked(params: {
+  tenantId: string;
+  userId: string;
+  subjectUserId: string;
+  keyIds: string[];
+}): number {
+  return auditLog('ops_api_key_revoked', {
+    tenantId: params.tenantId,
+    userId: params.userId,
+    eventData: {
+      subject_user_id: params.subjectUserId,
+      key_ids: params.keyIds,
+    },
+  });
+}
+
+/**
+ * Log a new freeze (kill switch). A null tenant in `scope` means every tenant.
+ */
+export function logFreezeCreated(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  freezeId: string;
+  scope: Record<string, string | null>;
+  reason: string;
+  expiresAt: string | null;
+}): number {
+  return auditLog('freeze_created', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      freeze_id: params.freezeId,
+      scope: params.scope,
+      reason: params.reason,
+      expires_at: params.expiresAt,
+    },
+  });
+}
+
+/**
+ * Log a freeze lifted by an operator.
+ */
+export function logFreezeLifted(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  freezeId: string;
+  scope: Record<string, string | null>;
+}): number {
+  return auditLog('freeze_lifted', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      freeze_id: params.freezeId,
+      scope: params.scope,
+    },
+  });
+}
+
+/**
+ * Log a change to a runtime setting (e.g. a scoped governance mode).
+ * `value` is null when a scoped setting is cleared.
+ */
+export function logConfigChange(params: {
+  tenantId: string;
+  workspaceId?: string;
+  userId: string;
+  setting: string;
+  scope: Record<string, unknown>;
+  previousValue: unknown;
+  value: unknown;
+}): number {
+  return auditLog('config_change', {
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    userId: params.userId,
+    eventData: {
+      setting: params.setting,
+      scope: params.scope,
+      previous_value: params.previousValue,
+      value: params.value,
+    },
+  });
+}
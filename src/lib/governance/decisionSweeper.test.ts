@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { listApprovalNotifications } from './approvalNotifications.js';
+import { parseApprovalRouting } from './approvalRouting.js';
+import { castDecisionVote } from './approvals.js';
+import { getAuditLog } from './auditLog.js';
+import {
+  CALLBACK_TIMEOUT_MS,
+  EscalationTierError,
+  parseEscalationTiers,
+  sweepPendingDecisions,
+} from './decisionSweeper.js';
+import { assignDecisionGroup, createDecision, getDecision, resolveDecision } from './decisions.js';
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  mockFetch.mockReset();
+  mockFetch.mockResolvedValue({ ok: true });
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+function pending(params: { expiresInMinutes: number; roles?: string[]; callbackUrl?: string }) {
+  return createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    expiresAt: minutesFromNow(params.expiresInMinutes).toISOString(),
+    requestSnapshot: { request: { tool: 'exec' } },
+    callbackUrl: params.callbackUrl,
+    approval: params.roles ? { quorum: 1, roles: params.roles, allow_self_approval: false, owner: null } : undefined,
+  });
+}
+
+function callbackBodies(): Record<string, unknown>[] {
+  return mockFetch.mock.calls.map(([, init]) => JSON.parse((init as { body: string }).body));
+}
+
+describe('pending decision sweeper', () => {
+  it('expires overdue decisions, audits them and notifies callback_url', async () => {
+    const overdue = pending({ expiresInMinutes: -1, callbackUrl: 'https://hooks.example.com/decisions' });
+    const current = pending({ expiresInMinutes: 60 });
+    const resolved = pending({ expiresInMinutes: -1 });
+    resolveDecision({ decisionId: resolved.decision_id, status: 'approved', resolution: {} });
+
+    const result = await sweepPendingDecisions();
+    expect(result).toEqual({ expired: [overdue.decision_id], escalated: [] });
+    expect(getDecision(overdue.decision_id)).toMatchObject({
+      status: 'expired',
+      resolution: { resolution_source: 'expiry_sweep', expires_at: overdue.expires_at },
+    });
+    expect(getDecision(current.decision_id)?.status).toBe('pending');
+    expect(getDecision(resolved.decision_id)?.status).toBe('approved');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://hooks.example.com/decisions');
+    expect(callbackBodies()).toEqual([
+      { decision_id: overdue.decision_id, status: 'expired', execution_id: overdue.execution_id },
+    ]);
+    const audit = getAuditLog().query({ tenantId: 't1', eventType: 'policy_decision_resolved' });
+    expect(audit.entries.map((entry) => entry.eventData)).toEqual([
+      expect.objectContaining({ decision_id: overdue.decision_id, status: 'expired', tool: 'exec' }),
+    ]);
+
+    expect(await sweepPendingDecisions()).toEqual({ expired: [], escalated: [] });
+  });
+
+  it('gives up on a callback_url that never answers and keeps sweeping', async () => {
+    // An already-timed-out signal stands in for CALLBACK_TIMEOUT_MS passing.
+    const timeout = vi.spyOn(AbortSignal, 'timeout').mockImplementation(() => AbortSignal.abort());
+    mockFetch.mockImplementation(
+      (_url: string, init: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          if (init.signal.aborted) reject(init.signal.reason);
+          init.signal.addEventListener('abort', () => reject(init.signal.reason));
+        })
+    );
+    const hanging = pending({ expiresInMinutes: -2, callbackUrl: 'https://hooks.example.com/hang' });
+    const next = pending({ expiresInMinutes: -1, callbackUrl: 'https://hooks.example.com/next' });
+    const onNotifyError = vi.fn();
+
+    const result = await sweepPendingDecisions({ onNotifyError });
+    expect(result.expired).toEqual(expect.arrayContaining([hanging.decision_id, next.decision_id]));
+    expect(timeout).toHaveBeenCalledWith(CALLBACK_TIMEOUT_MS);
+    expect(onNotifyError).toHaveBeenCalledTimes(2);
+    timeout.mockRestore();
+  });
+
+  it('re-notifies and widens approver roles at each escalation tier before expiry', async () => {
+    const tiers = parseEscalationTiers('45:admin, 15:team_lead|security');
+    expect(tiers).toEqual([
+      { after_minutes: 15, roles: ['team_lead', 'security'] },
+      { after_minutes: 45, roles: ['admin'] },
+    ]);
+    const restricted = pending({
+      expiresInMinutes: 60,
+      roles: ['release_manager'],
+      callbackUrl: 'https://hooks.example.com/decisions',
+    });
+    const open = pending({ expiresInMinutes: 60 });
+
+    expect(await sweepPendingDecisions({ tiers, now: minutesFromNow(5) })).toEqual({ expired: [], escalated: [] });
+
+    const first = await sweepPendingDecisions({ tiers, now: minutesFromNow(20) });
+    expect(first.escalated.sort()).toEqual([restricted.decision_id, open.decision_id].sort());
+    expect(getDecision(restricted.decision_id)).toMatchObject({
+      status: 'pending',
+      escalation_level: 1,
+      approval: { roles: ['release_manager', 'team_lead', 'security'] },
+    });
+    expect(getDecision(open.decision_id)).toMatchObject({ escalation_level: 1, approval: null });
+    expect(callbackBodies()).toEqual([
+      expect.objectContaining({
+        decision_id: restricted.decision_id,
+        status: 'pending',
+        escalation_level: 1,
+        eligible_roles: ['release_manager', 'team_lead', 'security'],
+      }),
+    ]);
+
+    expect((await sweepPendingDecisions({ tiers, now: minutesFromNow(30) })).escalated).toEqual([]);
+    castDecisionVote({
+      decisionId: open.decision_id,
+      approverId: 'alice',
+      approverRoles: ['operator'],
+      trustLevel: 'authenticated',
+      vote: 'approve',
+    });
+
+    expect((await sweepPendingDecisions({ tiers, now: minutesFromNow(50) })).escalated).toEqual([restricted.decision_id]);
+    expect(getDecision(restricted.decision_id)?.approval?.roles).toEqual(['release_manager', 'team_lead', 'security', 'admin']);
+    const escalations = getAuditLog().query({ tenantId: 't1', eventType: 'policy_decision_escalated' });
+    expect(escalations.entries).toHaveLength(3);
+
+    expect(await sweepPendingDecisions({ tiers, now: minutesFromNow(61) })).toEqual({
+      expired: [restricted.decision_id],
+      escalated: [],
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('hands escalated decisions to a routed group that can satisfy their roles', async () => {
+    const routing = parseApprovalRouting(`
+groups:
+  - id: on-call
+    roles: [operator]
+  - id: leads
+    roles: [team_lead]
+    channel: { type: webhook, url: "https://hooks.example.com/leads" }
+  - id: admins
+    roles: [admin]
+rules: []
+`);
+    const tiers = parseEscalationTiers('15:team_lead,45:security');
+    const restricted = pending({ expiresInMinutes: 120, roles: ['release_manager'] });
+    assignDecisionGroup({ decisionId: restricted.decision_id, groupId: 'on-call' });
+
+    await sweepPendingDecisions({ tiers, routing, now: minutesFromNow(20) });
+    expect(getDecision(restricted.decision_id)?.assigned_group).toBe('leads');
+    expect(
+      listApprovalNotifications({ tenantId: 't1', decisionId: restricted.decision_id }).map((n) => n.group_id)
+    ).toEqual(['leads']);
+
+    // No group grants security, and leads still satisfy the widened roles.
+    await sweepPendingDecisions({ tiers, routing, now: minutesFromNow(50) });
+    expect(getDecision(restricted.decision_id)?.assigned_group).toBe('leads');
+
+    // on-call cannot approve an admin-only decision, so it moves to a group that can.
+    const adminOnly = pending({ expiresInMinutes: 120, roles: ['admin'] });
+    assignDecisionGroup({ decisionId: adminOnly.decision_id, groupId: 'on-call' });
+    await sweepPendingDecisions({ tiers: parseEscalationTiers('15:security'), routing, now: minutesFromNow(20) });
+    expect(getDecision(adminOnly.decision_id)?.assigned_group).toBe('admins');
+
+    const escalations = getAuditLog().query({ tenantId: 't1', eventType: 'policy_decision_escalated' });
+    expect(escalations.entries.map((entry) => entry.eventData.assigned_group).sort()).toEqual(['admins', 'leads', null]);
+  });
+
+  it('rejects malformed escalation tiers', () => {
+    expect(parseEscalationTiers('')).toEqual([]);
+    expect(() => parseEscalationTiers('15')).toThrow(EscalationTierError);
+    expect(() => parseEscalationTiers('soon:admin')).toThrow(EscalationTierError);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Pending decision sweeper
+ *
+ * Pending approvals carry an `expires_at`, but nothing resolved them once it
+ * passed: adapters simply gave up waiting. The sweeper runs in the server and,
+ * on every pass, expires overdue decisions (audited as `policy_decision_resolved`
+ * with status `expired`) and applies escalation tiers to decisions that have been
+ * pending for a while: each tier re-notifies `callback_url` and widens the roles
+ * allowed to approve. With approval routing, an escalated decision is handed to
+ * an approver group that grants one of the eligible roles and notified there.
+ * Callback notifications are best-effort and time out after
+ * CALLBACK_TIMEOUT_MS, so an unresponsive `callback_url` cannot stall the sweep.
+ */
+
+import { queueApprovalNotifications } from './approvalNotifications.js';
+import { loadApprovalRouting, selectEscalationGroup, type ApprovalRouting } from './approvalRouting.js';
+import { auditLog, logDecisionEscalated } from './auditLog.js';
+import {
+  assignDecisionGroup,
+  escalateDecision,
+  expireDecision,
+  listSweepableDecisions,
+  type DecisionRecord,
+} from './decisions.js';
+
+export interface EscalationTier {
+  /** Minutes a decision has been pending before this tier applies. */
+  after_minutes: number;
+  /** Roles added to the decision's eligible approver roles. */
+  roles: string[];
+}
+
+export interface DecisionSweepResult {
+  expired: string[];
+  escalated: string[];
+}
+
+export class EscalationTierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationTierError';
+  }
+}
+
+/**
+ * Parse `CLASPER_DECISION_ESCALATION` ("15:team_lead,45:admin|security").
+ * Tiers are returned in ascending order of `after_minutes`.
+ */
+export function parseEscalationTiers(spec: string): EscalationTier[] {
+  const tiers: EscalationTier[] = [];
+  for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [minutesPart, rolesPart = ''] = entry.split(':', 2);
+    const minutes = Number(minutesPart);
+    const roles = rolesPart.split('|').map((role) => role.trim()).filter(Boolean);
+    if (!Number.isFinite(minutes) || minutes <= 0 || roles.length === 0) {
+      throw new EscalationTierError(`Invalid escalation tier "${entry}" (expected <minutes>:<role>[|<role>])`);
+    }
+    tiers.push({ after_minutes: minutes, roles });
+  }
+  return tiers.sort((a, b) => a.after_minutes - b.after_minutes);
+}
+
+/** How long a sweep waits for one `callback_url` to answer. */
+export const CALLBACK_TIMEOUT_MS = 5000;
+
+async function notifyCallback(
+  decision: DecisionRecord,
+  payload: Record<string, unknown>,
+  onError?: (error: unknown, decision: DecisionRecord) => void
+): Promise<void> {
+  if (!decision.callback_url) return;
+  try {
+    await fetch(decision.callback_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        decision_id: decision.decision_id,
+        status: decision.status,
+        execution_id: decision.execution_id,
+        ...payload,
+      }),
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    onError?.(error, decision);
+  }
+}
+
+function requestTool(decision: DecisionRecord): unknown {
+  const request = (decision.request_snapshot as Record<string, unknown> | null)?.request as
+    | Record<string, unknown>
+    | undefined;
+  return request?.tool || null;
+}
+
+/**
+ * Run one sweep: expire pending decisions past `expires_at`, then escalate the
+ * remaining ones that crossed a tier since the last pass.
+ */
+export async function sweepPendingDecisions(params: {
+  now?: Date;
+  tiers?: EscalationTier[];
+  /** Approver groups escalated decisions are re-routed to. */
+  routing?: ApprovalRouting;
+  limit?: number;
+  onNotifyError?: (error: unknown, decision: DecisionRecord) => void;
+} = {}): Promise<DecisionSweepResult> {
+  const now = params.now ?? new Date();
+  const nowIso = now.toISOString();
+  const tiers = params.tiers ?? [];
+  const result: DecisionSweepResult = { expired: [], escalated: [] };
+
+  for (const pending of listSweepableDecisions({ expiresBefore: nowIso, limit: params.limit })) {
+    const expired = expireDecision({
+      decisionId: pending.decision_id,
+      resolution: {
+        resolution_source: 'expiry_sweep',
+        expired_at: nowIso,
+        expires_at: pending.expires_at,
+      },
+    });
+    if (!expired) continue;
+    result.expired.push(expired.decision_id);
+
+    auditLog('policy_decision_resolved', {
+      tenantId: expired.tenant_id,
+      workspaceId: expired.workspace_id,
+      eventData: {
+        decision_id: expired.decision_id,
+        execution_id: expired.execution_id,
+        adapter_id: expired.adapter_id,
+        status: expired.status,
+        tool: requestTool(expired),
+        expires_at: expired.expires_at,
+        resolution_source: 'expiry_sweep',
+      },
+    });
+    await notifyCallback(expired, {}, params.onNotifyError);
+  }
+
+  if (tiers.length === 0) return result;
+
+  const createdBefore = new Date(now.getTime() - tiers[0].after_minutes * 60 * 1000).toISOString();
+  for (const pending of listSweepableDecisions({
+    createdBefore,
+    escalationBelow: tiers.length,
+    limit: params.limit,
+  })) {
+    const pendingMinutes = (now.getTime() - Date.parse(pending.created_at)) / 60000;
+    const level = tiers.filter((tier) => tier.after_minutes <= pendingMinutes).length;
+    const current = pending.escalation_level ?? 0;
+    if (level <= current) continue;
+
+    // Decisions without a role restriction already accept any approver; only
+    // restricted ones are widened.
+    const escalationRoles = tiers.slice(current, level).flatMap((tier) => tier.roles);
+    let approval = pending.approval ?? null;
+    if (approval?.roles) {
+      approval = { ...approval, roles: [...new Set([...approval.roles, ...escalationRoles])] };
+    }
+
+    let escalated = escalateDecision({ decisionId: pending.decision_id, escalationLevel: level, approval });
+    if (!escalated) continue;
+    result.escalated.push(escalated.decision_id);
+
+    const eligibleRoles = escalated.approval?.roles ?? null;
+    const group = params.routing
+      ? selectEscalationGroup(params.routing, {
+          eligibleRoles,
+          escalationRoles,
+          currentGroupId: escalated.assigned_group ?? null,
+        })
+      : null;
+    if (group) {
+      escalated = assignDecisionGroup({ decisionId: escalated.decision_id, groupId: group.id }) ?? escalated;
+      queueApprovalNotifications({ decision: escalated, group, ruleId: null, now });
+    }
+    logDecisionEscalated({
+      tenantId: escalated.tenant_id,
+      workspaceId: escalated.workspace_id,
+      decisionId: escalated.decision_id,
+      executionId: escalated.execution_id,
+      escalationLevel: level,
+      eligibleRoles,
+      pendingMinutes: Math.floor(pendingMinutes),
+      assignedGroup: group?.id,
+    });
+    await notifyCallback(
+      escalated,
+      {
+        escalation_level: level,
+        eligible_roles: eligibleRoles,
+        assigned_group: escalated.assigned_group ?? null,
+        expires_at: escalated.expires_at ?? null,
+      },
+      params.onNotifyError
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Sweep every `intervalMs` until the returned stop function is called. Passes
+ * never overlap; errors are reported through onError and the next pass runs as usual.
+ * `routingPath` is re-read on every pass.
+ */
+export function startDecisionSweeper(params: {
+  intervalMs: number;
+  tiers?: EscalationTier[];
+  routingPath?: string;
+  onSweep?: (result: DecisionSweepResult) => void;
+  onError?: (error: unknown) => void;
+  onNotifyError?: (error: unknown, decision: DecisionRecord) => void;
+}): () => void {
+  if (!(params.intervalMs > 0)) return () => {};
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    Promise.resolve()
+      .then(() =>
+        sweepPendingDecisions({
+          tiers: params.tiers,
+          routing: params.routingPath ? loadApprovalRouting(params.routingPath) : undefined,
+          onNotifyError: params.onNotifyError,
+        })
+      )
+      .then((result) => params.onSweep?.(result))
+      .catch((error) => params.onError?.(error))
+      .finally(() => {
+        running = false;
+      });
+  }, params.intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { getAuditLog } from './auditLog.js';
+import { consumeDecisionToken, hashRequestSnapshot, signDecisionToken } from './decisionTokens.js';
+import { createDecision, decisionTokenTtlSeconds, getDecision, resolveDecision } from './decisions.js';
+
+const originalSecret = config.adapterJwtSecret;
+const adapter = { adapterId: 'adapter-1', tenantId: 't1', workspaceId: 'w1' };
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.adapterJwtSecret = 'decision-token-secret';
+});
+
+afterEach(() => {
+  config.adapterJwtSecret = originalSecret;
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function approved() {
+  const decision = createDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId: `exec-${Math.random()}`,
+    adapterId: 'adapter-1',
+    requestSnapshot: { request: { tool: 'exec', context: { exec: { argv: ['npm', 'test'] } } } },
+  });
+  return resolveDecision({ decisionId: decision.decision_id, status: 'approved', resolution: {} })!;
+}
+
+function rejections(): unknown[] {
+  return getAuditLog()
+    .query({ tenantId: 't1', eventType: 'decision_token_rejected' })
+    .entries.map((entry) => entry.eventData.reason);
+}
+
+describe('single-use approval tokens', () => {
+  it('issues a token on approval that can be consumed exactly once', async () => {
+    const pending = createDecision({ tenantId: 't1', workspaceId: 'w1', executionId: 'exec-pending', adapterId: 'adapter-1' });
+    expect(await signDecisionToken(pending)).toBeNull();
+
+    const decision = approved();
+    expect(decision.decision_token_jti).toBeTruthy();
+    const token = await signDecisionToken(decision);
+    expect(token).toBeTruthy();
+    expect(await signDecisionToken(decision)).toBe(token);
+
+    const requestHash = hashRequestSnapshot(decision.request_snapshot);
+    const consumed = await consumeDecisionToken({ decisionId: decision.decision_id, token: token!, adapter, requestHash });
+    expect(consumed).toMatchObject({ jti: decision.decision_token_jti, request_hash: requestHash });
+    expect(getDecision(decision.decision_id)?.decision_token_used_at).toBe(consumed.consumed_at);
+    expect(await signDecisionToken(getDecision(decision.decision_id)!)).toBeNull();
+
+    await expect(consumeDecisionToken({ decisionId: decision.decision_id, token: token!, adapter })).rejects.toMatchObject({
+      code: 'already_consumed',
+    });
+    expect(getAuditLog().query({ tenantId: 't1', eventType: 'decision_token_consumed' }).entries).toHaveLength(1);
+    expect(rejections()).toEqual(['already_consumed']);
+  });
+
+  it('rejects tokens for another adapter, another request, or past their expiry', async () => {
+    const decision = approved();
+    const token = (await signDecisionToken(decision))!;
+    const consume = (overrides: Partial<Parameters<typeof consumeDecisionToken>[0]>) =>
+      consumeDecisionToken({ decisionId: decision.decision_id, token, adapter, ...overrides });
+
+    await expect(consume({ adapter: { ...adapter, adapterId: 'adapter-2' } })).rejects.toMatchObject({
+      code: 'scope_mismatch',
+    });
+    await expect(consume({ requestHash: hashRequestSnapshot({ request: { tool: 'exec' } }) })).rejects.toMatchObject({
+      code: 'hash_mismatch',
+    });
+    await expect(consume({ token: `${token}x` })).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(consume({ now: new Date(Date.now() + (decisionTokenTtlSeconds() + 60) * 1000) })).rejects.toMatchObject({
+      code: 'expired',
+    });
+    expect(rejections().sort()).toEqual(['expired', 'hash_mismatch', 'invalid_token', 'scope_mismatch']);
+
+    await expect(consume({})).resolves.toMatchObject({ jti: decision.decision_token_jti });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Single-use approval tokens
+ *
+ * Approving a decision issues a short-lived JWS (signed with the adapter secret)
+ * that binds the approval to the exact request it was given for: the token
+ * carries a hash of the decision's request_snapshot. The adapter fetches it from
+ * `GET /api/decisions/:decisionId` and redeems it once via
+ * `POST /api/decisions/:decisionId/consume`; the jti is recorded on the decision
+ * so a second attempt is rejected. Every consumption and rejection is audited.
+ */
+
+import { createHash } from 'node:crypto';
+import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import { config } from '../core/config.js';
+import { freezeExplanation, getDecisionFreeze } from '../ops/freezes.js';
+import { logDecisionTokenConsumed, logDecisionTokenRejected } from './auditLog.js';
+import { getDecision, markDecisionTokenUsed, type DecisionRecord } from './decisions.js';
+
+export class DecisionTokenError extends Error {
+  code:
+    | 'not_found'
+    | 'config_error'
+    | 'invalid_token'
+    | 'expired'
+    | 'scope_mismatch'
+    | 'hash_mismatch'
+    | 'not_approved'
+    | 'frozen'
+    | 'already_consumed';
+
+  constructor(message: string, code: DecisionTokenError['code']) {
+    super(message);
+    this.name = 'DecisionTokenError';
+    this.code = code;
+  }
+}
+
+export interface DecisionTokenConsumption {
+  decision: DecisionRecord;
+  jti: string;
+  request_hash: string;
+  consumed_at: string;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map((item) => canonicalize(item));
+  if (value && typeof value === 'object') {
+    const input = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(input).sort()) out[key] = canonicalize(input[key]);
+    return out;
+  }
+  return value;
+}
+
+/**
+ * sha256 of the canonical (key-sorted) JSON of a decision's request_snapshot.
+ */
+export function hashRequestSnapshot(snapshot: Record<string, unknown> | null | undefined): string {
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(snapshot ?? {})))
+    .digest('hex');
+}
+
+function signingSecret(): Uint8Array {
+  if (!config.adapterJwtSecret) {
+    throw new DecisionTokenError('ADAPTER_JWT_SECRET is required for approval tokens.', 'config_error');
+  }
+  return new TextEncoder().encode(config.adapterJwtSecret);
+}
+
+/**
+ * The approval token for an approved decision, or null when none is outstanding
+ * (not approved, or already consumed). Signing is deterministic, so repeated
+ * calls return the same token.
+ */
+export async function signDecisionToken(decision: DecisionRecord): Promise<string | null> {
+  if (
+    decision.status !== 'approved' ||
+    !decision.decision_token_jti ||
+    !decision.decision_token_expires_at ||
+    decision.decision_token_used_at
+  ) {
+    return null;
+  }
+
+  return await new SignJWT({
+    type: 'decision',
+    decision_id: decision.decision_id,
+    execution_id: decision.execution_id,
+    adapter_id: decision.adapter_id,
+    tenant_id: decision.tenant_id,
+    workspace_id: decision.workspace_id,
+    request_hash: hashRequestSnapshot(decision.request_snapshot),
+    sub: `decision:${decision.decision_id}`,
+  })
+    .setProtectedHeader({ alg: config.adapterJwtAlgorithm })
+    .setJti(decision.decision_token_jti)
+    .setExpirationTime(Math.floor(Date.parse(decision.decision_token_expires_at) / 1000))
+    .sign(signingSecret());
+}
+
+async function verifyDecisionToken(
+  token: string,
+  decision: DecisionRecord,
+  adapter: { adapterId: string; tenantId: string; workspaceId: string },
+  requestHash: string | undefined,
+  now: Date
+): Promise<{ jti: string; requestHash: string }> {
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(token, signingSecret(), {
+      algorithms: [config.adapterJwtAlgorithm],
+      currentDate: now,
+    }));
+  } catch (error) {
+    if (error instanceof DecisionTokenError) throw error;
+    if ((error as { code?: string }).code === 'ERR_JWT_EXPIRED') {
+      throw new DecisionTokenError('Approval token expired', 'expired');
+    }
+    throw new DecisionTokenError('Invalid approval token', 'invalid_token');
+  }
+
+  if (payload.type !== 'decision' || payload.decision_id !== decision.decision_id || typeof payload.jti !== 'string') {
+    throw new DecisionTokenError('Approval token was not issued for this decision', 'invalid_token');
+  }
+  if (
+    payload.adapter_id !== adapter.adapterId ||
+    payload.tenant_id !== adapter.tenantId ||
+    payload.workspace_id !== adapter.workspaceId
+  ) {
+    throw new DecisionTokenError('Approval token scope mismatch', 'scope_mismatch');
+  }
+  if (decision.status !== 'approved') {
+    throw new DecisionTokenError(`Decision is ${decision.status}`, 'not_approved');
+  }
+  if (payload.jti !== decision.decision_token_jti) {
+    throw new DecisionTokenError('Approval token is no longer current', 'invalid_token');
+  }
+  const approvedHash = hashRequestSnapshot(decision.request_snapshot);
+  if (payload.request_hash !== approvedHash || (requestHash !== undefined && requestHash !== approvedHash)) {
+    throw new DecisionTokenError('Request does not match the approved request', 'hash_mismatch');
+  }
+  return { jti: payload.jti, requestHash: approvedHash };
+}
+
+/**
+ * Verify and redeem an approval token. Throws DecisionTokenError (audited as
+ * `decision_token_rejected`) when the token is invalid, expired, out of scope,
+ * bound to a different request or already consumed, or while a freeze matches
+ * the decision (the token stays redeemable once the freeze ends).
+ */
+export async function consumeDecisionToken(params: {
+  decisionId: string;
+  token: string;
+  adapter: { adapterId: string; tenantId: string; workspaceId: string };
+  /** Hash of the request the adapter is about to run; must match the approved one. */
+  requestHash?: string;
+  now?: Date;
+}): Promise<DecisionTokenConsumption> {
+  const decision = getDecision(params.decisionId);
+  if (!decision) throw new DecisionTokenError('Decision not found', 'not_found');
+  const now = params.now ?? new Date();
+
+  let jti: string | null = null;
+  try {
+    const verified = await verifyDecisionToken(params.token, decision, params.adapter, params.requestHash, now);
+    jti = verified.jti;
+    const freeze = getDecisionFreeze(decision, now);
+    if (freeze) {
+      throw new DecisionTokenError(freezeExplanation(freeze), 'frozen');
+    }
+    const consumedAt = now.toISOString();
+    const marked =
+      !decision.decision_token_used_at &&
+      markDecisionTokenUsed({ decisionId: decision.decision_id, jti, usedAt: consumedAt });
+    if (!marked) {
+      throw new DecisionTokenError('Approval token already consumed', 'already_consumed');
+    }
+
+    logDecisionTokenConsumed({
+      tenantId: decision.tenant_id,
+      workspaceId: decision.workspace_id,
+      decisionId: decision.decision_id,
+      executionId: decision.execution_id,
+      adapterId: params.adapter.adapterId,
+      jti,
+      requestHash: verified.requestHash,
+    });
+    return {
+      decision: getDecision(decision.decision_id) ?? decision,
+      jti,
+      request_hash: verified.requestHash,
+      consumed_at: consumedAt,
+    };
+  } catch (error) {
+    if (error instanceof DecisionTokenError && error.code !== 'config_error') {
+      logDecisionTokenRejected({
+        tenantId: decision.tenant_id,
+        workspaceId: decision.workspace_id,
+        decisionId: decision.decision_id,
+        executionId: decision.execution_id,
+        adapterId: params.adapter.adapterId,
+        jti,
+        reason: error.code,
+      });
+    }
+    throw error;
+  }
+}
@@ -1,5 +1,7 @@
 import { v7 as uuidv7 } from 'uuid';
 import { getDatabase } from '../core/db.js';
+import { getEventBus, type ClasperEvent } from '../core/eventBus.js';
+import type { PolicyShadowResult } from '../policy/policyEngine.js';
 
 export type DecisionStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'allow' | 'deny';
 
@@ -16,10 +18,38 @@ export interface DecisionRecord {
   granted_scope?: Record<string, unknown> | null;
   resolution?: Record<string, unknown> | null;
   callback_url?: string | null;
+  /** Would-be outcome of matched shadow-mode policies (null when none matched). */
+  shadow?: PolicyShadowResult | null;
+  /** Approval requirements for pending decisions (null: one approver, any role). */
+  approval?: DecisionApprovalRequirements | null;
+  /** Escalation tiers applied while pending (0: not escalated). */
+  escalation_level?: number;
+  /** Single-use approval token issued on approval (null until approved). */
+  decision_token_jti?: string | null;
+  decision_token_expires_at?: string | null;
+  decision_token_used_at?: string | null;
+  /** Approver group the pending decision was routed to (null: unassigned). */
+  assigned_group?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface DecisionApprovalRequirements {
+  /** Distinct approve votes needed. */
+  quorum: number;
+  /** Only approvers holding one of these roles may vote (null: any role). */
+  roles: string[] | null;
+  allow_self_approval: boolean;
+  /** The agent's owner (agent_metadata.owner), who may not approve their own request. */
+  owner: string | null;
+}
+
+/** Lifetime of the single-use approval token issued on approval (CLASPER_DECISION_TOKEN_TTL_SECONDS). */
+export function decisionTokenTtlSeconds(): number {
+  const parsed = Number.parseInt(process.env.CLASPER_DECISION_TOKEN_TTL_SECONDS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 300;
+}
+
 function enforceDecisionRowCap(): void {
   const raw = process.env.CLASPER_DECISION_MAX_ROWS;
   const parsed = raw ? Number.parseInt(raw, 10) : 100000;
@@ -53,6 +83,8 @@ export function createDecision(params: {
   requestSnapshot?: Record<string, unknown>;
   grantedScope?: Record<string, unknown>;
   callbackUrl?: string;
+  shadow?: PolicyShadowResult;
+  approval?: DecisionApprovalRequirements;
 }): DecisionRecord {
   const db = getDatabase();
   const now = new Date().toISOString();
@@ -63,8 +95,8 @@ export function createDecision(params: {
     INSERT INTO decisions (
       decision_id, tenant_id, workspace_id, execution_id, adapter_id,
       status, required_role, expires_at, request_snapshot, granted_scope,
-      callback_url, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      callback_url, shadow, approval, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `
   ).run(
     decisionId,
@@ -78,13 +110,17 @@ export function createDecision(params: {
     JSON.stringify(params.requestSnapshot || {}),
     JSON.stringify(params.grantedScope || {}),
     params.callbackUrl || null,
+    params.shadow ? JSON.stringify(params.shadow) : null,
+    params.approval ? JSON.stringify(params.approval) : null,
     now,
     now
   );
 
   enforceDecisionRowCap();
 
-  return getDecision(decisionId)!;
+  const created = getDecision(decisionId)!;
+  emitDecisionEvent('decision.created', created);
+  return created;
 }
 
 /**
@@ -99,6 +135,7 @@ export function recordDecision(params: {
   status: 'allow' | 'deny';
   requestSnapshot: Record<string, unknown>;
   grantedScope?: Record<string, unknown>;
+  shadow?: PolicyShadowResult;
 }): DecisionRecord {
   const db = getDatabase();
   const now = new Date().toISOString();
@@ -109,8 +146,8 @@ export function recordDecision(params: {
     INSERT INTO decisions (
       decision_id, tenant_id, workspace_id, execution_id, adapter_id,
       status, required_role, expires_at, request_snapshot, granted_scope,
-      callback_url, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      callback_url, shadow, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `
   ).run(
     decisionId,
@@ -124,6 +161,7 @@ export function recordDecision(params: {
     JSON.stringify(params.requestSnapshot),
     JSON.stringify(params.grantedScope || {}),
     null,
+    params.shadow ? JSON.stringify(params.shadow) : null,
     now,
     now
   );
@@ -178,6 +216,8 @@ export function listDecisions(params: {
   tenantId: string;
   workspaceId?: string;
   status: DecisionStatus;
+  /** Only decisions routed to one of these approver groups. */
+  assignedGroups?: string[];
   limit?: number;
   offset?: number;
 }): DecisionRecord[] {
@@ -191,6 +231,11 @@ export function listDecisions(params: {
     conditions.push('workspace_id = ?');
     values.push(params.workspaceId);
   }
+  if (params.assignedGroups) {
+    if (params.assignedGroups.length === 0) return [];
+    conditions.push(`assigned_group IN (${params.assignedGroups.map(() => '?').join(', ')})`);
+    values.push(...params.assignedGroups);
+  }
 
   const whereClause = conditions.join(' AND ');
   const rows = db
@@ -210,7 +255,8 @@ export function listDecisions(params: {
 export function listAdapterDecisions(params: {
   tenantId: string;
   workspaceId: string;
-  adapterId: string;
+  /** Omit to list decisions from every adapter in the workspace. */
+  adapterId?: string;
   status?: DecisionStatus;
   tool?: string;
   decision?: 'allow' | 'deny' | 'require_approval' | 'pending';
@@ -222,8 +268,13 @@ export function listAdapterDecisions(params: {
   const db = getDatabase();
   const limit = params.limit ?? 50;
   const offset = params.offset ?? 0;
-  const conditions = ['tenant_id = ?', 'workspace_id = ?', 'adapter_id = ?'];
-  const values: unknown[] = [params.tenantId, params.workspaceId, params.adapterId];
+  const conditions = ['tenant_id = ?', 'workspace_id = ?'];
+  const values: unknown[] = [params.tenantId, params.workspaceId];
+
+  if (params.adapterId) {
+    conditions.push('adapter_id = ?');
+    values.push(params.adapterId);
+  }
 
   if (params.status) {
     conditions.push('status = ?');
@@ -296,25 +347,200 @@ export function getLatestDecisionForExecution(params: {
   return row ? rowToRecord(row) : null;
 }
 
+/**
+ * Resolve a decision. Approvals also issue the decision's single-use approval
+ * token (a fresh jti, valid for `decisionTokenTtlSeconds()`).
+ */
 export function resolveDecision(params: {
   decisionId: string;
   status: DecisionStatus;
   resolution: Record<string, unknown>;
 }): DecisionRecord | null {
   const db = getDatabase();
-  const now = new Date().toISOString();
+  const now = new Date();
+  const approved = params.status === 'approved';
   const result = db
     .prepare(
       `
       UPDATE decisions
-      SET status = ?, resolution = ?, updated_at = ?
+      SET status = ?, resolution = ?, updated_at = ?,
+          decision_token_jti = ?, decision_token_expires_at = ?, decision_token_used_at = NULL
       WHERE decision_id = ?
     `
     )
     .run(
       params.status,
       JSON.stringify(params.resolution),
-      now,
+      now.toISOString(),
+      approved ? uuidv7() : null,
+      approved ? new Date(now.getTime() + decisionTokenTtlSeconds() * 1000).toISOString() : null,
+      params.decisionId
+    );
+
+  if (result.changes === 0) return null;
+  const resolved = getDecision(params.decisionId);
+  if (resolved) emitDecisionEvent('decision.resolved', resolved);
+  return resolved;
+}
+
+/**
+ * Approved decisions carrying a standing approval grant, most recently updated first.
+ * With `activeAt`, only grants that are unrevoked, unexpired and not used up at
+ * that time (filtered before the limit applies).
+ */
+export function listGrantedDecisions(params: {
+  tenantId: string;
+  workspaceId?: string;
+  adapterId?: string;
+  activeAt?: Date;
+  limit?: number;
+}): DecisionRecord[] {
+  const db = getDatabase();
+  const conditions = [
+    'tenant_id = ?',
+    `status = 'approved'`,
+    `json_extract(granted_scope, '$.approval_grant') IS NOT NULL`,
+  ];
+  const values: unknown[] = [params.tenantId];
+  if (params.workspaceId) {
+    conditions.push('workspace_id = ?');
+    values.push(params.workspaceId);
+  }
+  if (params.adapterId) {
+    conditions.push('adapter_id = ?');
+    values.push(params.adapterId);
+  }
+  if (params.activeAt) {
+    conditions.push(
+      `json_extract(granted_scope, '$.approval_grant.revoked_at') IS NULL`,
+      `json_extract(granted_scope, '$.approval_grant.expires_at') > ?`,
+      `(json_extract(granted_scope, '$.approval_grant.max_uses') IS NULL
+        OR json_extract(granted_scope, '$.approval_grant.uses') < json_extract(granted_scope, '$.approval_grant.max_uses'))`
+    );
+    values.push(params.activeAt.toISOString());
+  }
+  const rows = db
+    .prepare(
+      `
+      SELECT * FROM decisions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY updated_at DESC, decision_id DESC
+      LIMIT ?
+    `
+    )
+    .all(...values, params.limit ?? 200) as DecisionRow[];
+
+  return rows.map(rowToRecord);
+}
+
+/**
+ * Replace a decision's granted scope (standing approval grants live there).
+ */
+export function updateDecisionGrantedScope(params: {
+  decisionId: string;
+  grantedScope: Record<string, unknown>;
+}): DecisionRecord | null {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `
+      UPDATE decisions
+      SET granted_scope = ?, updated_at = ?
+      WHERE decision_id = ?
+    `
+    )
+    .run(JSON.stringify(params.grantedScope), new Date().toISOString(), params.decisionId);
+
+  if (result.changes === 0) return null;
+  return getDecision(params.decisionId);
+}
+
+/**
+ * Pending decisions across all tenants, oldest first. `expiresBefore` limits to
+ * decisions whose expiry has passed, `createdBefore` to decisions pending at least
+ * since then, and `escalationBelow` to decisions not yet escalated that far.
+ */
+export function listSweepableDecisions(params: {
+  expiresBefore?: string;
+  createdBefore?: string;
+  escalationBelow?: number;
+  limit?: number;
+}): DecisionRecord[] {
+  const db = getDatabase();
+  const conditions = [`status = 'pending'`];
+  const values: unknown[] = [];
+  if (params.expiresBefore) {
+    conditions.push('expires_at IS NOT NULL AND expires_at <= ?');
+    values.push(params.expiresBefore);
+  }
+  if (params.createdBefore) {
+    conditions.push('created_at <= ?');
+    values.push(params.createdBefore);
+  }
+  if (params.escalationBelow !== undefined) {
+    conditions.push('escalation_level < ?');
+    values.push(params.escalationBelow);
+  }
+  const rows = db
+    .prepare(
+      `
+      SELECT * FROM decisions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at ASC, decision_id ASC
+      LIMIT ?
+    `
+    )
+    .all(...values, params.limit ?? 500) as DecisionRow[];
+
+  return rows.map(rowToRecord);
+}
+
+/**
+ * Mark a still-pending decision as expired. Returns null when it was resolved meanwhile.
+ */
+export function expireDecision(params: {
+  decisionId: string;
+  resolution: Record<string, unknown>;
+}): DecisionRecord | null {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `
+      UPDATE decisions
+      SET status = 'expired', resolution = ?, updated_at = ?
+      WHERE decision_id = ? AND status = 'pending'
+    `
+    )
+    .run(JSON.stringify(params.resolution), new Date().toISOString(), params.decisionId);
+
+  if (result.changes === 0) return null;
+  const expired = getDecision(params.decisionId);
+  if (expired) emitDecisionEvent('decision.resolved', expired);
+  return expired;
+}
+
+/**
+ * Record an escalation on a still-pending decision (new level and widened approval
+ * requirements). Returns null when it was resolved meanwhile.
+ */
+export function escalateDecision(params: {
+  decisionId: string;
+  escalationLevel: number;
+  approval: DecisionApprovalRequirements | null;
+}): DecisionRecord | null {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `
+      UPDATE decisions
+      SET escalation_level = ?, approval = ?, updated_at = ?
+      WHERE decision_id = ? AND status = 'pending'
+    `
+    )
+    .run(
+      params.escalationLevel,
+      params.approval ? JSON.stringify(params.approval) : null,
+      new Date().toISOString(),
       params.decisionId
     );
 
@@ -322,6 +548,77 @@ export function resolveDecision(params: {
   return getDecision(params.decisionId);
 }
 
+/**
+ * Mark the approval token `jti` as used. Returns false when the decision has no
+ * such token or it was already consumed (replay).
+ */
+export function markDecisionTokenUsed(params: { decisionId: string; jti: string; usedAt: string }): boolean {
+  const result = getDatabase()
+    .prepare(
+      `
+      UPDATE decisions
+      SET decision_token_used_at = ?, updated_at = ?
+      WHERE decision_id = ? AND decision_token_jti = ? AND decision_token_used_at IS NULL
+    `
+    )
+    .run(params.usedAt, params.usedAt, params.decisionId, params.jti);
+  return result.changes > 0;
+}
+
+/**
+ * Record the approver group a pending decision was routed to. Returns null when
+ * it was resolved meanwhile.
+ */
+export function assignDecisionGroup(params: { decisionId: string; groupId: string }): DecisionRecord | null {
+  const result = getDatabase()
+    .prepare(
+      `
+      UPDATE decisions
+      SET assigned_group = ?, updated_at = ?
+      WHERE decision_id = ? AND status = 'pending'
+    `
+    )
+    .run(params.groupId, new Date().toISOString(), params.decisionId);
+
+  if (result.changes === 0) return null;
+  return getDecision(params.decisionId);
+}
+
+/** Decision writes are announced on the EventBus (execution decision streams listen). */
+function emitDecisionEvent(type: 'decision.created' | 'decision.resolved', record: DecisionRecord): void {
+  getEventBus().emit(type, {
+    tenantId: record.tenant_id,
+    workspaceId: record.workspace_id,
+    payload: {
+      decision_id: record.decision_id,
+      execution_id: record.execution_id,
+      adapter_id: record.adapter_id,
+      status: record.status,
+    },
+  });
+}
+
+/**
+ * Call `listener` whenever a decision for the execution is resolved (approved,
+ * denied or expired). Returns an unsubscribe function.
+ */
+export function subscribeToExecutionDecisions(
+  params: { tenantId: string; workspaceId: string; adapterId: string; executionId: string },
+  listener: (event: ClasperEvent) => void
+): () => void {
+  return getEventBus().subscribe((event) => {
+    if (
+      event.type === 'decision.resolved' &&
+      event.tenantId === params.tenantId &&
+      event.workspaceId === params.workspaceId &&
+      event.payload.adapter_id === params.adapterId &&
+      event.payload.execution_id === params.executionId
+    ) {
+      listener(event);
+    }
+  });
+}
+
 interface DecisionRow {
   decision_id: string;
   tenant_id: string;
@@ -335,6 +632,13 @@ interface DecisionRow {
   granted_scope: string | null;
   resolution: string | null;
   callback_url: string | null;
+  shadow: string | null;
+  approval: string | null;
+  escalation_level: number | null;
+  decision_token_jti: string | null;
+  decision_token_expires_at: string | null;
+  decision_token_used_at: string | null;
+  assigned_group: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -353,6 +657,13 @@ function rowToRecord(row: DecisionRow): DecisionRecord {
     granted_scope: row.granted_scope ? JSON.parse(row.granted_scope) : null,
     resolution: row.resolution ? JSON.parse(row.resolution) : null,
     callback_url: row.callback_url,
+    shadow: row.shadow ? JSON.parse(row.shadow) : null,
+    approval: row.approval ? JSON.parse(row.approval) : null,
+    escalation_level: row.escalation_level ?? 0,
+    decision_token_jti: row.decision_token_jti ?? null,
+    decision_token_expires_at: row.decision_token_expires_at ?? null,
+    decision_token_used_at: row.decision_token_used_at ?? null,
+    assigned_group: row.assigned_group ?? null,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
@@ -16,8 +16,10 @@ import {
   logApprovalGrantConsumed,
 } from './auditLog.js';
 import type { OverrideRequest } from '../ops/overrides.js';
+import { freezeExplanation, getActiveFreeze } from '../ops/freezes.js';
 import type { ExecutionDecision } from '../adapters/executionContract.js';
 import { evaluatePolicies } from '../policy/policyEngine.js';
+import { recordRateLimitUsage } from '../policy/rateLimits.js';
 
 export interface ExecutionDecisionRequest {
   execution_id?: string;
@@ -46,6 +48,8 @@ export interface ExecutionDecisionRequest {
   agent_role?: string;
   /** Additional agent metadata for policy matching. */
   agent_metadata?: Record<string, unknown>;
+  /** Agent session the invocation belongs to (scopes "for this session" approval grants). */
+  session_id?: string;
   skill_state?: SkillState;
   temperature?: number;
   data_sensitivity?: 'none' | 'low' | 'medium' | 'high' | 'pii';
@@ -92,10 +96,43 @@ const APPROVAL_RISK_LEVELS: RiskLevel[] = ['high', 'critical'];
 export function evaluateExecutionDecision(
   request: ExecutionDecisionRequest
 ): ExecutionDecision {
+  const result = decideExecution(request);
+  // Charge rate-limit counters only for real decisions (not dry-runs/simulations).
+  recordRateLimitUsage({
+    tenantId: request.tenant_id,
+    workspaceId: request.workspace_id,
+    executionId: result.execution_id,
+    decision: result.decision ?? (result.allowed ? 'allow' : 'deny'),
+    decisionTrace: result.decision_trace,
+  });
+  return result;
+}
+
+function decideExecution(request: ExecutionDecisionRequest): ExecutionDecision {
   const executionId = request.execution_id || uuidv7();
   const approvalMode = getApprovalMode();
   let fallbackHit = false;
 
+  // Freezes (kill switch) win over everything else, including overrides and break-glass.
+  const freeze = getActiveFreeze({
+    tenantId: request.tenant_id,
+    workspaceId: request.workspace_id,
+    adapterId: request.adapter_id,
+    agentId: request.agent_id,
+  });
+  if (freeze) {
+    return {
+      allowed: false,
+      execution_id: executionId,
+      blocked_reason: 'frozen',
+      decision: 'deny',
+      explanation: freezeExplanation(freeze),
+      freeze_id: freeze.freeze_id,
+      approval_mode: approvalMode,
+      policy_fallback_hit: fallbackHit,
+    };
+  }
+
   if (request.rbac_allowed === false) {
     return {
       allowed: false,
@@ -154,6 +191,7 @@ export function evaluateExecutionDecision(
   };
 
   for (const traceEntry of policyResult.decision_trace) {
+    if (traceEntry.mode === 'shadow') continue;
     const operator = traceEntry.condition_details?.find((d) => d.operator !== 'eq')?.operator;
     if (traceEntry.result === 'matched' && traceEntry.decision === 'allow' && operator) {
       logPolicyExceptionHit({
@@ -180,7 +218,7 @@ export function evaluateExecutionDecision(
   const matchedPolicyId =
     policyResult.matched_policies.length === 1 ? policyResult.matched_policies[0] : undefined;
   const matchedTrace =
-    policyResult.decision_trace.filter((entry) => entry.result === 'matched');
+    policyResult.decision_trace.filter((entry) => entry.result === 'matched' && entry.mode !== 'shadow');
   fallbackHit = Boolean(
     matchedPolicyId &&
       matchedTrace.length === 1 &&
@@ -215,6 +253,7 @@ export function evaluateExecutionDecision(
       risk_score: riskScore.score,
       risk_level: riskScore.level,
       policy_bundle_hash: policyResult.policy_bundle_hash,
+      shadow: policyResult.shadow,
     };
   }
 
@@ -232,6 +271,7 @@ export function evaluateExecutionDecision(
       risk_score: riskScore.score,
       risk_level: riskScore.level,
       policy_bundle_hash: policyResult.policy_bundle_hash,
+      shadow: policyResult.shadow,
     };
   }
 
@@ -274,6 +314,7 @@ export function evaluateExecutionDecision(
         risk_score: riskScore.score,
         risk_level: riskScore.level,
         policy_bundle_hash: policyResult.policy_bundle_hash,
+        shadow: policyResult.shadow,
       };
     }
     return {
@@ -291,6 +332,8 @@ export function evaluateExecutionDecision(
       risk_score: riskScore.score,
       risk_level: riskScore.level,
       policy_bundle_hash: policyResult.policy_bundle_hash,
+      shadow: policyResult.shadow,
+      approval: policyResult.approval,
     };
   }
 
@@ -333,6 +376,7 @@ export function evaluateExecutionDecision(
         risk_score: riskScore.score,
         risk_level: riskScore.level,
         policy_bundle_hash: policyResult.policy_bundle_hash,
+        shadow: policyResult.shadow,
       };
     }
     return {
@@ -350,6 +394,7 @@ export function evaluateExecutionDecision(
       risk_score: riskScore.score,
       risk_level: riskScore.level,
       policy_bundle_hash: policyResult.policy_bundle_hash,
+      shadow: policyResult.shadow,
     };
   }
 
@@ -376,6 +421,7 @@ export function evaluateExecutionDecision(
     risk_score: riskScore.score,
     risk_level: riskScore.level,
     policy_bundle_hash: policyResult.policy_bundle_hash,
+    shadow: policyResult.shadow,
   };
 }
 
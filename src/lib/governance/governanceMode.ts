@@ -15,6 +15,8 @@ import type { PolicyObject } from '../policy/policySchema.js';
 
 export type GovernanceMode = 'permissive' | 'guarded' | 'strict';
 
+export const GOVERNANCE_MODES: GovernanceMode[] = ['permissive', 'guarded', 'strict'];
+
 export type GovernanceStatus = 'ENFORCED' | 'DEGRADED' | 'DISABLED';
 
 /**
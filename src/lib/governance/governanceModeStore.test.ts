@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { config } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { evaluatePolicies } from '../policy/policyEngine.js';
+import { getAuditLog } from './auditLog.js';
+import { computePosture } from './governancePosture.js';
+import {
+  clearGovernanceMode,
+  listGovernanceModes,
+  resolveGovernanceMode,
+  setGovernanceMode,
+} from './governanceModeStore.js';
+
+const originalMode = config.mode;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.mode = 'permissive';
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  config.mode = originalMode;
+});
+
+describe('governanceModeStore', () => {
+  it('inherits from the most specific scope down to CLASPER_MODE', () => {
+    expect(resolveGovernanceMode({ tenantId: 't1', workspaceId: 'ws', environment: 'prod' })).toMatchObject({
+      mode: 'permissive',
+      source: 'global',
+      setting: null,
+    });
+
+    setGovernanceMode({ tenantId: 't1', mode: 'guarded', updatedBy: 'ops' });
+    setGovernanceMode({ tenantId: 't1', environment: 'prod', mode: 'strict', updatedBy: 'ops' });
+    setGovernanceMode({ tenantId: 't1', workspaceId: 'sandbox', mode: 'permissive', updatedBy: 'ops' });
+    setGovernanceMode({ tenantId: 't1', workspaceId: 'sandbox', environment: 'prod', mode: 'guarded', updatedBy: 'ops' });
+
+    const resolve = (workspaceId?: string, environment?: string) =>
+      resolveGovernanceMode({ tenantId: 't1', workspaceId, environment });
+    expect(resolve('ws', 'staging')).toMatchObject({ mode: 'guarded', source: 'tenant' });
+    expect(resolve('ws', 'prod')).toMatchObject({ mode: 'strict', source: 'environment' });
+    expect(resolve('sandbox', 'staging')).toMatchObject({ mode: 'permissive', source: 'workspace' });
+    expect(resolve('sandbox', 'prod')).toMatchObject({ mode: 'guarded', source: 'workspace_environment' });
+    expect(resolve()).toMatchObject({ mode: 'guarded', source: 'tenant' });
+    expect(resolveGovernanceMode({ tenantId: 't2', workspaceId: 'sandbox' }).source).toBe('global');
+
+    expect(listGovernanceModes('t1').map((s) => [s.workspace_id, s.environment, s.mode])).toEqual([
+      [null, null, 'guarded'],
+      [null, 'prod', 'strict'],
+      ['sandbox', null, 'permissive'],
+      ['sandbox', 'prod', 'guarded'],
+    ]);
+
+    expect(clearGovernanceMode({ tenantId: 't1', environment: 'prod', clearedBy: 'ops' })).toBe(true);
+    expect(clearGovernanceMode({ tenantId: 't1', environment: 'prod', clearedBy: 'ops' })).toBe(false);
+    expect(resolve('ws', 'prod')).toMatchObject({ mode: 'guarded', source: 'tenant' });
+  });
+
+  it('audits every change as config_change', () => {
+    setGovernanceMode({ tenantId: 't1', workspaceId: 'ws', mode: 'strict', updatedBy: 'alice' });
+    setGovernanceMode({ tenantId: 't1', workspaceId: 'ws', mode: 'guarded', updatedBy: 'bob' });
+    clearGovernanceMode({ tenantId: 't1', workspaceId: 'ws', clearedBy: 'carol' });
+
+    const entries = getAuditLog().query({ tenantId: 't1', eventType: 'config_change' }).entries;
+    const change = (user: string, previous: string | null, value: string | null) => ({
+      user,
+      setting: 'governance_mode',
+      scope: { workspace_id: 'ws', environment: null },
+      previous_value: previous,
+      value,
+    });
+    expect(
+      entries
+        .map((entry) => ({ user: entry.userId, ...entry.eventData }))
+        .sort((a, b) => String(a.user).localeCompare(String(b.user)))
+    ).toEqual([change('alice', null, 'strict'), change('bob', 'strict', 'guarded'), change('carol', 'guarded', null)]);
+  });
+
+  it('applies the scoped mode to no-match decisions and posture', () => {
+    setGovernanceMode({ tenantId: 't1', environment: 'prod', mode: 'strict', updatedBy: 'ops' });
+    setGovernanceMode({ tenantId: 't1', environment: 'staging', mode: 'guarded', updatedBy: 'ops' });
+
+    const decide = (environment: string) =>
+      evaluatePolicies({ tenant_id: 't1', workspace_id: 'ws', environment, tool: 'exec' });
+    expect(decide('prod')).toMatchObject({ decision: 'deny', explanation: 'No matching policy (strict mode)' });
+    expect(decide('staging')).toMatchObject({
+      decision: 'deny',
+      explanation: 'No matching policy; guarded mode requires fallback policy',
+    });
+    expect(decide('dev')).toMatchObject({ decision: 'allow' });
+
+    const posture = (environment?: string) =>
+      computePosture({ tenant_id: 't1', workspace_id: 'ws', environment, adapter_id: 'openclaw-local' });
+    expect(posture('prod')).toMatchObject({ mode: 'strict', mode_source: 'environment', status: 'ENFORCED' });
+    expect(posture('staging')).toMatchObject({ mode: 'guarded', status: 'DEGRADED' });
+    expect(posture()).toMatchObject({ mode: 'permissive', mode_source: 'global', status: 'DISABLED' });
+  });
+});
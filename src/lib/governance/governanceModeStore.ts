@@ -0,0 +1,174 @@
+/**
+ * Scoped governance modes
+ *
+ * CLASPER_MODE is the global default. A tenant can override it for all of its
+ * requests, for one environment across workspaces, for one workspace, or for
+ * one workspace environment. The most specific setting wins:
+ *
+ *   workspace + environment > workspace > environment > tenant > CLASPER_MODE
+ *
+ * Every change is audited as `config_change`.
+ */
+
+import { config } from '../core/config.js';
+import { getDatabase } from '../core/db.js';
+import { logConfigChange } from './auditLog.js';
+import type { GovernanceMode } from './governanceMode.js';
+
+export interface GovernanceModeScope {
+  tenantId: string;
+  workspaceId?: string | null;
+  environment?: string | null;
+}
+
+export interface GovernanceModeSetting {
+  tenant_id: string;
+  /** null: every workspace of the tenant */
+  workspace_id: string | null;
+  /** null: every environment */
+  environment: string | null;
+  mode: GovernanceMode;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+/**
+ * Which level the effective mode came from.
+ */
+export type GovernanceModeSource = 'workspace_environment' | 'workspace' | 'environment' | 'tenant' | 'global';
+
+export interface EffectiveGovernanceMode {
+  mode: GovernanceMode;
+  source: GovernanceModeSource;
+  /** The setting that applied, or null for the global default. */
+  setting: GovernanceModeSetting | null;
+}
+
+interface GovernanceModeRow {
+  tenant_id: string;
+  workspace_id: string;
+  environment: string;
+  mode: GovernanceMode;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+function toSetting(row: GovernanceModeRow): GovernanceModeSetting {
+  return {
+    ...row,
+    workspace_id: row.workspace_id || null,
+    environment: row.environment || null,
+  };
+}
+
+function scopeKey(scope: GovernanceModeScope): [string, string, string] {
+  return [scope.tenantId, scope.workspaceId || '', scope.environment || ''];
+}
+
+function getSetting(scope: GovernanceModeScope): GovernanceModeSetting | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM governance_modes WHERE tenant_id = ? AND workspace_id = ? AND environment = ?')
+    .get(...scopeKey(scope)) as GovernanceModeRow | undefined;
+  return row ? toSetting(row) : null;
+}
+
+/**
+ * All scoped modes of a tenant, broadest first.
+ */
+export function listGovernanceModes(tenantId: string): GovernanceModeSetting[] {
+  const rows = getDatabase()
+    .prepare(
+      `
+      SELECT * FROM governance_modes WHERE tenant_id = ?
+      ORDER BY workspace_id <> '', environment <> '', workspace_id, environment
+    `
+    )
+    .all(tenantId) as GovernanceModeRow[];
+  return rows.map(toSetting);
+}
+
+/**
+ * The governance mode in effect for a request scope.
+ */
+export function resolveGovernanceMode(scope: GovernanceModeScope): EffectiveGovernanceMode {
+  const [tenantId, workspaceId, environment] = scopeKey(scope);
+  const rows = getDatabase()
+    .prepare(
+      `
+      SELECT * FROM governance_modes
+      WHERE tenant_id = ? AND workspace_id IN ('', ?) AND environment IN ('', ?)
+    `
+    )
+    .all(tenantId, workspaceId, environment) as GovernanceModeRow[];
+
+  const levels: Array<[GovernanceModeSource, string, string]> = [];
+  if (workspaceId && environment) levels.push(['workspace_environment', workspaceId, environment]);
+  if (workspaceId) levels.push(['workspace', workspaceId, '']);
+  if (environment) levels.push(['environment', '', environment]);
+  levels.push(['tenant', '', '']);
+
+  for (const [source, ws, env] of levels) {
+    const row = rows.find((candidate) => candidate.workspace_id === ws && candidate.environment === env);
+    if (row) return { mode: row.mode, source, setting: toSetting(row) };
+  }
+  return { mode: config.mode, source: 'global', setting: null };
+}
+
+function auditScope(scope: GovernanceModeScope): Record<string, unknown> {
+  return { workspace_id: scope.workspaceId || null, environment: scope.environment || null };
+}
+
+/**
+ * Set the mode for a scope (tenant-wide when workspace and environment are omitted).
+ */
+export function setGovernanceMode(
+  params: GovernanceModeScope & { mode: GovernanceMode; updatedBy: string; now?: Date }
+): GovernanceModeSetting {
+  const previous = getSetting(params);
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO governance_modes (tenant_id, workspace_id, environment, mode, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(tenant_id, workspace_id, environment) DO UPDATE SET
+        mode = excluded.mode,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `
+    )
+    .run(...scopeKey(params), params.mode, params.updatedBy, (params.now ?? new Date()).toISOString());
+
+  logConfigChange({
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId || undefined,
+    userId: params.updatedBy,
+    setting: 'governance_mode',
+    scope: auditScope(params),
+    previousValue: previous?.mode ?? null,
+    value: params.mode,
+  });
+  return getSetting(params)!;
+}
+
+/**
+ * Remove the mode set for a scope so it inherits again. Returns false when
+ * nothing was set there.
+ */
+export function clearGovernanceMode(params: GovernanceModeScope & { clearedBy: string }): boolean {
+  const previous = getSetting(params);
+  if (!previous) return false;
+  getDatabase()
+    .prepare('DELETE FROM governance_modes WHERE tenant_id = ? AND workspace_id = ? AND environment = ?')
+    .run(...scopeKey(params));
+
+  logConfigChange({
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId || undefined,
+    userId: params.clearedBy,
+    setting: 'governance_mode',
+    scope: auditScope(params),
+    previousValue: previous.mode,
+    value: null,
+  });
+  return true;
+}
@@ -2,13 +2,15 @@
  * Governance posture analyzer.
  * Reusable module for API/CLI; compute mode, status, coverage—not in HTTP handlers.
  */
-import { config } from '../core/config.js';
 import { getEngineVersion } from '../core/version.js';
 import { hasFallbackPolicy, computeGovernanceStatus, type GovernanceMode, type GovernanceStatus } from './governanceMode.js';
+import { resolveGovernanceMode, type GovernanceModeSource } from './governanceModeStore.js';
 import { listPolicies } from '../policy/policyStore.js';
 import type { PolicyObject } from '../policy/policySchema.js';
 import { normalizeToolName } from '../tools/toolIdentity.js';
 import { getAdapterRegistry } from '../adapters/registry.js';
+import { findActiveFreezes, type Freeze } from '../ops/freezes.js';
+import { getAuditChainStatus, type AuditChainVerification } from './auditChain.js';
 
 export interface AdapterPostureContext {
   tenant_id: string;
@@ -20,6 +22,8 @@ export interface AdapterPostureContext {
 export interface GovernancePostureResult {
   adapter: string;
   mode: GovernanceMode;
+  /** Scope level the mode was inherited from ('global' = CLASPER_MODE). */
+  mode_source: GovernanceModeSource;
   status: GovernanceStatus;
   engine_version: string;
   fallback_present: boolean;
@@ -27,6 +31,12 @@ export interface GovernancePostureResult {
   policy_count: number;
   covered_tools: string[];
   uncovered_tools: string[];
+  /** True when an active freeze denies every request of this adapter. */
+  frozen: boolean;
+  /** Active freezes that apply to this adapter, including agent-level ones. */
+  freezes: Freeze[];
+  /** Audit hash chain status for the tenant (verified at most once a minute). */
+  audit_chain: Pick<AuditChainVerification, 'status' | 'length' | 'head_hash' | 'failure_count' | 'verified_at'>;
 }
 
 /**
@@ -93,7 +103,11 @@ function isToolCovered(tool: string, policies: PolicyObject[]): boolean {
  * Compute governance posture for an adapter context.
  */
 export function computePosture(ctx: AdapterPostureContext): GovernancePostureResult {
-  const mode: GovernanceMode = config.mode;
+  const { mode, source: mode_source } = resolveGovernanceMode({
+    tenantId: ctx.tenant_id,
+    workspaceId: ctx.workspace_id,
+    environment: ctx.environment,
+  });
   const policies = listPolicies({
     tenantId: ctx.tenant_id,
     workspaceId: ctx.workspace_id,
@@ -127,9 +141,18 @@ export function computePosture(ctx: AdapterPostureContext): GovernancePostureRes
     else uncovered.add(norm);
   }
 
+  const freezes = findActiveFreezes({
+    tenantId: ctx.tenant_id,
+    workspaceId: ctx.workspace_id,
+    adapterId: ctx.adapter_id,
+    anyAgent: true,
+  });
+  const auditChain = getAuditChainStatus(ctx.tenant_id);
+
   return {
     adapter: ctx.adapter_id,
     mode,
+    mode_source,
     status,
     engine_version: getEngineVersion(),
     fallback_present,
@@ -137,5 +160,14 @@ export function computePosture(ctx: AdapterPostureContext): GovernancePostureRes
     policy_count: policies.length,
     covered_tools: [...covered].sort(),
     uncovered_tools: [...uncovered].sort(),
+    frozen: freezes.some((freeze) => freeze.agent_id === null),
+    freezes,
+    audit_chain: {
+      status: auditChain.status,
+      length: auditChain.length,
+      head_hash: auditChain.head_hash,
+      failure_count: auditChain.failure_count,
+      verified_at: auditChain.verified_at,
+    },
   };
 }
@@ -456,6 +456,247 @@ describe('Policy engine', () => {
     ).toThrow(/__clasper_/);
   });
 
+  it('matches any block when one branch is satisfied', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'approve_destructive_exec',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          tool: 'exec',
+          any: [
+            { 'context.exec.argv0': { in: ['rm', 'dd'] } },
+            { context: { elevated_privileges: true } },
+          ],
+        },
+        effect: { decision: 'require_approval' },
+      },
+    });
+
+    const result = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'exec',
+      context: { exec: { argv0: 'ls' }, elevated_privileges: true },
+    });
+
+    expect(result.decision).toBe('require_approval');
+    const trace = result.decision_trace.find((t) => t.policy_id === 'approve_destructive_exec');
+    const details = trace?.condition_details || [];
+    expect(details.find((d) => d.field === 'any[0].context.exec.argv0')?.result).toBe(false);
+    expect(details.find((d) => d.field === 'any[1].context.elevated_privileges')?.result).toBe(true);
+    expect(details.find((d) => d.field === 'any')).toMatchObject({ operator: 'any', actual: [1], result: true });
+  });
+
+  it('does not match any block when no branch is satisfied', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'approve_destructive_exec_miss',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          tool: 'exec',
+          any: [
+            { 'context.exec.argv0': { in: ['rm', 'dd'] } },
+            { context: { elevated_privileges: true } },
+          ],
+        },
+        effect: { decision: 'require_approval' },
+      },
+    });
+
+    const result = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'exec',
+      context: { exec: { argv0: 'ls' }, elevated_privileges: false },
+    });
+
+    expect(result.matched_policies).not.toContain('approve_destructive_exec_miss');
+  });
+
+  it('supports nested all and not blocks', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'deny_exec_outside_workspace',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          all: [
+            { tool: 'exec' },
+            { not: { 'context.exec.cwd': { prefix: '/workspace' } } },
+          ],
+        },
+        effect: { decision: 'deny' },
+      },
+    });
+
+    const outside = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'exec',
+      context: { exec: { cwd: '/etc' } },
+    });
+    expect(outside.decision).toBe('deny');
+    const details = outside.decision_trace.find((t) => t.policy_id === 'deny_exec_outside_workspace')?.condition_details || [];
+    expect(details.find((d) => d.field === 'all[1].not')).toMatchObject({ operator: 'not', actual: false, result: true });
+
+    const inside = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'exec',
+      context: { exec: { cwd: '/workspace/app' } },
+    });
+    expect(inside.matched_policies).not.toContain('deny_exec_outside_workspace');
+  });
+
+  it('rejects __clasper_ tool prefix inside composed conditions', () => {
+    expect(() =>
+      PolicySchema.parse({
+        policy_id: 'probe-nested',
+        subject: { type: 'tool' },
+        conditions: { any: [{ tool: 'exec' }, { tool: '__clasper_probe__' }] },
+        effect: { decision: 'allow' },
+      })
+    ).toThrow(/__clasper_/);
+  });
+
+  it('honors composed conditions when operators are disabled', () => {
+    config.policyOperatorsEnabled = false;
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'legacy_composed_rule',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          any: [{ tool: 'exec' }, { tool: 'shell' }],
+        },
+        effect: { decision: 'deny' },
+      },
+    });
+
+    expect(evaluatePolicy({ tenant_id: 't1', tool: 'shell' }).matched_policies).toContain('legacy_composed_rule');
+    expect(evaluatePolicy({ tenant_id: 't1', tool: 'read' }).matched_policies).not.toContain('legacy_composed_rule');
+  });
+
+  it('matches numeric, regex, and glob operators and records them in the trace', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'approve_costly_env_reads',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          tool: { matches: 'fs\\.(read|write)' },
+          estimated_cost: { between: [1, 10] },
+          context: { targets: { paths: { any_glob: '**/.env' } } },
+          'context.exec.argv': { gte: 2 },
+        },
+        effect: { decision: 'require_approval' },
+      },
+    });
+
+    const result = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'fs.read',
+      estimated_cost: 4,
+      context: { targets: { paths: ['/srv/app/main.ts', '/srv/app/.env'] }, exec: { argv: ['cat', '.env'] } },
+    });
+
+    expect(result.decision).toBe('require_approval');
+    const details = result.decision_trace.find((t) => t.policy_id === 'approve_costly_env_reads')?.condition_details || [];
+    expect(details.map((d) => d.operator)).toEqual(['matches', 'between', 'any_glob', 'gte']);
+    expect(details.every((d) => d.result)).toBe(true);
+
+    const miss = evaluatePolicy({
+      tenant_id: 't1',
+      tool: 'fs.read',
+      estimated_cost: 25,
+      context: { targets: { paths: ['/srv/app/.env'] }, exec: { argv: ['cat', '.env'] } },
+    });
+    expect(miss.matched_policies).not.toContain('approve_costly_env_reads');
+  });
+
+  it('rejects unsafe regex and invalid ranges at upsert', () => {
+    const base = {
+      policy_id: 'bad_operators',
+      scope: { tenant_id: 't1' },
+      subject: { type: 'tool' as const },
+      effect: { decision: 'deny' as const },
+    };
+    expect(() =>
+      upsertPolicy({ tenantId: 't1', policy: { ...base, conditions: { tool: { matches: '(a+)+' } } } })
+    ).toThrow(/nested quantifiers/);
+    expect(() =>
+      upsertPolicy({ tenantId: 't1', policy: { ...base, conditions: { estimated_cost: { between: [10, 1] } } } })
+    ).toThrow(/min <= max/);
+    expect(() =>
+      upsertPolicy({ tenantId: 't1', policy: { ...base, conditions: { 'context.exec.cwd': { matches: '(?=x)x' } } } })
+    ).toThrow(/matches requires/);
+  });
+
+  it('evaluates schedule conditions against the injected clock', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'approve_writes_during_freeze',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: {
+          tool: 'fs.write',
+          schedule: { timezone: 'UTC', date_ranges: [{ from: '2026-12-20', to: '2027-01-05' }] },
+        },
+        effect: { decision: 'require_approval' },
+      },
+    });
+
+    const during = evaluatePolicy({ tenant_id: 't1', tool: 'fs.write', now: new Date('2026-12-24T10:00:00Z') });
+    expect(during.decision).toBe('require_approval');
+    const detail = during.decision_trace
+      .find((t) => t.policy_id === 'approve_writes_during_freeze')
+      ?.condition_details?.find((d) => d.field === 'schedule');
+    expect(detail).toMatchObject({ operator: 'schedule', result: true, actual: { date: '2026-12-24' } });
+
+    const after = evaluatePolicy({ tenant_id: 't1', tool: 'fs.write', now: new Date('2027-01-10T10:00:00Z') });
+    expect(after.matched_policies).not.toContain('approve_writes_during_freeze');
+  });
+
+  it('uses config.defaultTimezone for schedules without a timezone', () => {
+    const originalTimezone = config.defaultTimezone;
+    config.defaultTimezone = 'Asia/Tokyo';
+    try {
+      upsertPolicy({
+        tenantId: 't1',
+        policy: {
+          policy_id: 'allow_exec_tokyo_mornings',
+          scope: { tenant_id: 't1' },
+          subject: { type: 'tool' },
+          conditions: { tool: 'exec', schedule: { time_ranges: [{ start: '09:00', end: '12:00' }] } },
+          effect: { decision: 'allow' },
+        },
+      });
+      const result = evaluatePolicy({ tenant_id: 't1', tool: 'exec', now: new Date('2026-10-19T01:00:00Z') });
+      expect(result.matched_policies).toContain('allow_exec_tokyo_mornings');
+    } finally {
+      config.defaultTimezone = originalTimezone;
+    }
+  });
+
+  it('rejects invalid schedule conditions at upsert', () => {
+    const base = {
+      policy_id: 'bad_schedule',
+      scope: { tenant_id: 't1' },
+      subject: { type: 'tool' as const },
+      effect: { decision: 'deny' as const },
+    };
+    expect(() =>
+      upsertPolicy({ tenantId: 't1', policy: { ...base, conditions: { schedule: { timezone: 'Nowhere/City', days_of_week: ['mon'] } } } })
+    ).toThrow(/Unknown timezone/);
+    expect(() =>
+      upsertPolicy({ tenantId: 't1', policy: { ...base, conditions: { schedule: { time_ranges: [{ start: '9am', end: '17:00' }] } } } })
+    ).toThrow(/HH:MM/);
+  });
+
   it('preserves legacy matching when operators are disabled', () => {
     config.policyOperatorsEnabled = false;
     upsertPolicy({
@@ -477,4 +718,98 @@ describe('Policy engine', () => {
     });
     expect(result.matched_policies).toContain('legacy_exec_rule');
   });
+
+  it('evaluates shadow policies without changing the outcome', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'allow_exec',
+        subject: { type: 'tool', name: 'exec' },
+        effect: { decision: 'allow' },
+      },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'shadow_deny_rm',
+        subject: { type: 'tool', name: 'exec' },
+        conditions: { 'context.exec.argv0': 'rm' },
+        effect: { decision: 'deny' },
+        precedence: 10,
+        mode: 'shadow',
+      },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'shadow_allow_exec',
+        subject: { type: 'tool', name: 'exec' },
+        effect: { decision: 'allow' },
+        mode: 'shadow',
+      },
+    });
+
+    const result = evaluatePolicy({ tenant_id: 't1', tool: 'exec', context: { exec: { argv0: 'rm' } } });
+    expect(result.decision).toBe('allow');
+    expect(result.matched_policies).toEqual(['allow_exec']);
+    expect(result.decision_trace.find((t) => t.policy_id === 'shadow_deny_rm')).toMatchObject({
+      result: 'matched',
+      decision: 'deny',
+      mode: 'shadow',
+    });
+    expect(result.shadow).toEqual({
+      enforced_decision: 'allow',
+      decision: 'deny',
+      flipped: true,
+      policies: [
+        { policy_id: 'shadow_deny_rm', decision: 'deny', flipped: true },
+        { policy_id: 'shadow_allow_exec', decision: 'allow', flipped: false },
+      ],
+    });
+
+    const ls = evaluatePolicy({ tenant_id: 't1', tool: 'exec', context: { exec: { argv0: 'ls' } } });
+    expect(ls.shadow).toMatchObject({ flipped: false, policies: [{ policy_id: 'shadow_allow_exec', flipped: false }] });
+    expect(evaluatePolicy({ tenant_id: 't1', tool: 'read' }).shadow).toBeUndefined();
+  });
+
+  it('ignores shadow fallback policies in guarded mode', () => {
+    const originalMode = config.mode;
+    config.mode = 'guarded';
+    try {
+      upsertPolicy({
+        tenantId: 't1',
+        policy: {
+          policy_id: 'shadow_fallback',
+          subject: { type: 'tool' },
+          effect: { decision: 'require_approval' },
+          mode: 'shadow',
+        },
+      });
+      const result = evaluatePolicy({ tenant_id: 't1', tool: 'exec' });
+      expect(result.decision).toBe('deny');
+      expect(result.shadow).toMatchObject({ decision: 'require_approval', flipped: true });
+    } finally {
+      config.mode = originalMode;
+    }
+  });
+
+  it('returns the approval requirements of the winning require_approval policy', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'approve_drop',
+        subject: { type: 'tool', name: 'db.drop' },
+        effect: { decision: 'require_approval', approval: { quorum: 2, roles: ['release_manager'] } },
+      },
+    });
+    expect(evaluatePolicy({ tenant_id: 't1', tool: 'db.drop' }).approval).toEqual({ quorum: 2, roles: ['release_manager'] });
+    expect(evaluatePolicy({ tenant_id: 't1', tool: 'exec' }).approval).toBeUndefined();
+    expect(
+      PolicySchema.safeParse({
+        policy_id: 'bad',
+        subject: { type: 'tool' },
+        effect: { decision: 'deny', approval: { quorum: 2 } },
+      }).success
+    ).toBe(false);
+  });
 });
@@ -1,5 +1,9 @@
-import { evaluatePolicies, type PolicyContext as PolicyEvalContext } from '../policy/policyEngine.js';
-import type { PolicyDecision } from '../policy/policySchema.js';
+import {
+  evaluatePolicies,
+  type PolicyContext as PolicyEvalContext,
+  type PolicyShadowResult,
+} from '../policy/policyEngine.js';
+import type { PolicyApproval, PolicyDecision } from '../policy/policySchema.js';
 
 export type PolicyContext = PolicyEvalContext;
 
@@ -18,8 +22,11 @@ export interface PolicyEvaluation {
       actual: unknown;
       result: boolean;
     }[];
+    mode?: 'shadow';
   }[];
   explanation?: string;
+  shadow?: PolicyShadowResult;
+  approval?: PolicyApproval;
 }
 
 export function evaluatePolicy(ctx: PolicyContext): PolicyEvaluation {
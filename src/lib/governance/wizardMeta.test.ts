@@ -197,6 +197,6 @@ describe("wizard meta helpers", () => {
     const h1 = hashPolicyBundle([p1, p2]);
     const h2 = hashPolicyBundle([p2, p1]);
     expect(h1).toBe(h2);
-    expect(h1).toMatch(/^[a-f0-9]{64}$/);
+    expect(h1).toMatch(/^v2:[a-f0-9]{64}$/);
   });
 });
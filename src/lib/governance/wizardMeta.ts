@@ -185,19 +185,41 @@ export function hashPolicySummary(policySummary: Record<string, unknown>): strin
   return createHash("sha256").update(serialized).digest("hex");
 }
 
+const VOLATILE_POLICY_FIELDS = new Set(["created_at", "updated_at", "source", "source_path"]);
+
 /**
- * Hash the policy bundle (all applicable policies) for deterministic replay.
- * Policies are sorted by policy_id for stable ordering.
+ * Canonical bundle contents: full policy bodies (minus row timestamps and management
+ * source), sorted by policy_id. This is what hashPolicyBundle hashes and what bundle
+ * snapshots store.
  */
-export function hashPolicyBundle(policies: Record<string, unknown>[]): string {
-  const summaries = policies
-    .map((p) => buildPolicySummaryForAudit(p))
+export function buildPolicyBundleEntries(policies: Record<string, unknown>[]): Record<string, unknown>[] {
+  return policies
+    .map((policy) => {
+      const entry: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(policy)) {
+        if (!VOLATILE_POLICY_FIELDS.has(key) && value !== undefined) entry[key] = value;
+      }
+      return canonicalize(entry) as Record<string, unknown>;
+    })
     .sort((a, b) => {
       const idA = (a.policy_id as string) ?? "";
       const idB = (b.policy_id as string) ?? "";
       return idA.localeCompare(idB);
     });
-  const payload = canonicalize(summaries);
-  const serialized = JSON.stringify(payload);
-  return createHash("sha256").update(serialized).digest("hex");
+}
+
+/**
+ * Version prefix of policy bundle hashes. Unprefixed hashes in older decision
+ * records are v1, which hashed the audit summaries of the policies rather than
+ * their full bodies; v1 and v2 hashes of the same bundle never compare equal.
+ */
+export const POLICY_BUNDLE_HASH_VERSION = "v2";
+
+/**
+ * Hash the policy bundle (all applicable policies) for deterministic replay.
+ * Policies are sorted by policy_id for stable ordering.
+ */
+export function hashPolicyBundle(policies: Record<string, unknown>[]): string {
+  const serialized = JSON.stringify(buildPolicyBundleEntries(policies));
+  return `${POLICY_BUNDLE_HASH_VERSION}:${createHash("sha256").update(serialized).digest("hex")}`;
 }
@@ -2,4 +2,5 @@
 export * from './missionControl.js';
 export * from './webhooks.js';
 export * from './costs.js';
-export * from './controlPlaneVersion.js';
\ No newline at end of file
+export * from './controlPlaneVersion.js';
+export * from './smtp.js';
\ No newline at end of file
@@ -0,0 +1,99 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { formatMailMessage, sendMail, SmtpError } from "./smtp.js";
+
+let server: net.Server | null = null;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+/**
+ * Start a scripted SMTP server on a free port; records every command and the DATA body.
+ */
+async function startServer(options: { rejectRecipient?: boolean } = {}) {
+  const commands: string[] = [];
+  let data = "";
+  server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = "";
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-test\r\n250-AUTH PLAIN\r\n250 SIZE 1000\r\n");
+        else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+        else if (line.startsWith("RCPT") && options.rejectRecipient) socket.write("550 no such user\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", () => resolve()));
+  const port = (server!.address() as net.AddressInfo).port;
+  return { port, commands, body: () => data };
+}
+
+const message = {
+  from: "clasper@example.com",
+  to: ["sec@example.com", "ops@example.com"],
+  subject: "Approval requested",
+  text: "Tool: exec\n.hidden line",
+};
+
+describe("smtp", () => {
+  it("authenticates and sends a dot-stuffed message to every recipient", async () => {
+    const smtp = await startServer();
+    await sendMail({ host: "127.0.0.1", port: smtp.port, tls: "none", username: "bot", password: "pw" }, message);
+
+    expect(smtp.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      `AUTH PLAIN ${Buffer.from("\u0000bot\u0000pw").toString("base64")}`,
+      "MAIL FROM:<clasper@example.com>",
+      "RCPT TO:<sec@example.com>",
+      "RCPT TO:<ops@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(smtp.body()).toContain("Subject: Approval requested\n");
+    expect(smtp.body()).toContain("\n..hidden line\n");
+  });
+
+  it("fails with the server reply when a step is rejected", async () => {
+    const smtp = await startServer({ rejectRecipient: true });
+    const sending = sendMail({ host: "127.0.0.1", port: smtp.port, tls: "none" }, message);
+    await expect(sending).rejects.toBeInstanceOf(SmtpError);
+    await expect(sending).rejects.toMatchObject({ code: 550 });
+  });
+
+  it("refuses STARTTLS when the server does not offer it", async () => {
+    const smtp = await startServer();
+    await expect(sendMail({ host: "127.0.0.1", port: smtp.port, tls: "starttls" }, message)).rejects.toThrow(
+      "does not offer STARTTLS"
+    );
+  });
+
+  it("formats headers with CRLF line endings", () => {
+    const formatted = formatMailMessage({ ...message, subject: "multi\nline" }, new Date("2026-01-01T00:00:00Z"));
+    expect(formatted).toContain("To: sec@example.com, ops@example.com\r\n");
+    expect(formatted).toContain("Subject: multi line\r\n");
+    expect(formatted).toContain("Date: Thu, 01 Jan 2026 00:00:00 GMT\r\n");
+  });
+});
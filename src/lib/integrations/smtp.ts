@@ -0,0 +1,216 @@
+/**
+ * Minimal SMTP client for plain-text notification mail.
+ * Speaks EHLO, optional STARTTLS or implicit TLS, AUTH PLAIN, MAIL/RCPT/DATA.
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+import { randomUUID } from "node:crypto";
+
+/**
+ * SMTP server connection settings.
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** implicit: TLS from the first byte (465); starttls: upgrade after EHLO; none: plain text. */
+  tls: "implicit" | "starttls" | "none";
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * A plain-text message.
+ */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = "SmtpError";
+    this.code = code;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads complete (possibly multi-line) replies off a socket.
+ */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  detach(): void {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== "-") {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  };
+
+  private onError = (error: Error): void => {
+    this.fail(error);
+  };
+
+  private onClose = (): void => {
+    this.fail(new SmtpError("SMTP connection closed"));
+  };
+
+  private push(reply: SmtpReply): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      options.tls === "implicit"
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+        : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+/**
+ * Build the RFC 5322 message (CRLF line endings, dot-stuffed for DATA).
+ */
+export function formatMailMessage(message: MailMessage, now: Date = new Date()): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, " ")}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${os.hostname()}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+/**
+ * Send a message. Throws SmtpError when the server rejects any step.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  let socket = await connect(options);
+  socket.setTimeout(options.timeoutMs ?? 10000, () => socket.destroy(new SmtpError("SMTP timeout")));
+  let reader = new ReplyReader(socket);
+
+  const expect = async (codes: number[], step: string): Promise<SmtpReply> => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply;
+  };
+  const command = (line: string, codes: number[], step: string): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, step);
+  };
+
+  try {
+    await expect([220], "greeting");
+    const ehlo = await command(`EHLO ${os.hostname()}`, [250], "EHLO");
+
+    if (options.tls === "starttls") {
+      if (!ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+        throw new SmtpError("SMTP server does not offer STARTTLS");
+      }
+      await command("STARTTLS", [220], "STARTTLS");
+      reader.detach();
+      socket = await upgrade(socket, options.host);
+      reader = new ReplyReader(socket);
+      await command(`EHLO ${os.hostname()}`, [250], "EHLO");
+    }
+
+    if (options.username) {
+      const credentials = Buffer.from(`\u0000${options.username}\u0000${options.password ?? ""}`).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await command(`MAIL FROM:<${message.from}>`, [250], "MAIL FROM");
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251], "RCPT TO");
+    }
+    await command("DATA", [354], "DATA");
+    await command(`${formatMailMessage(message)}\r\n.`, [250], "message");
+    // The message is accepted; a failed QUIT does not matter
+    await command("QUIT", [221], "QUIT").catch(() => {});
+  } finally {
+    reader.detach();
+    socket.on("error", () => {});
+    socket.end();
+  }
+}
@@ -11,7 +11,7 @@ import type { CostBreakdown } from "./costs.js";
  * Webhook payload sent on completion.
  */
 export interface WebhookPayload {
-  event: "agent.completed" | "agent.error";
+  event: "agent.completed" | "agent.error" | "approval.requested";
   timestamp: string;
   task_id?: string;
   user_id?: string;
@@ -20,6 +20,8 @@ export interface WebhookPayload {
   usage?: TokenUsage;
   cost?: CostBreakdown;
   error?: string;
+  /** Pending decision routed to an approver group (approval.requested). */
+  decision?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
 }
 
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { initDatabase, resetDatabase } from "../core/db.js";
+import { getAuditLog } from "../governance/auditLog.js";
+import {
+  BreakGlassError,
+  activateBreakGlass,
+  endBreakGlass,
+  getActiveBreakGlassSession,
+  getBreakGlassStatus,
+  listBreakGlassSessions,
+  recordBreakGlassAction,
+  signOffBreakGlassReview,
+} from "./breakGlass.js";
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ":memory:";
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+const activation = {
+  reason_code: "incident_response" as const,
+  justification: "Production outage, need to restart workers",
+  minutes: 30,
+};
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+describe("break-glass sessions", () => {
+  it("covers requests until ended, then keeps the tenant unreviewed until signed off", () => {
+    const session = activateBreakGlass({ tenantId: "t1", activation, activatedBy: "alice" });
+    expect(getBreakGlassStatus("t1")).toEqual({ status: "active", active_sessions: 1, unreviewed_sessions: 0 });
+    expect(() => activateBreakGlass({ tenantId: "t1", activation, activatedBy: "bob" })).toThrow(BreakGlassError);
+
+    const active = getActiveBreakGlassSession({ tenantId: "t1", workspaceId: "w1", agentId: "agent-1" });
+    expect(active?.session_id).toBe(session.session_id);
+    expect(getActiveBreakGlassSession({ tenantId: "t2", workspaceId: "w1" })).toBeNull();
+    recordBreakGlassAction({ session: active!, workspaceId: "w1", executionId: "exec-1", adapterId: "a1", tool: "exec", decision: "allow" });
+
+    expect(() => signOffBreakGlassReview({ sessionId: session.session_id, reviewedBy: "bob", notes: "Reviewed the restart" }))
+      .toThrow(expect.objectContaining({ code: "not_pending_review" }));
+
+    const ended = endBreakGlass({ sessionId: session.session_id, endedBy: "alice" });
+    expect(ended).toMatchObject({ active: false, review_status: "pending", action_count: 1, ended_by: "alice" });
+    expect(getActiveBreakGlassSession({ tenantId: "t1", workspaceId: "w1" })).toBeNull();
+    expect(getBreakGlassStatus("t1")).toEqual({ status: "unreviewed", active_sessions: 0, unreviewed_sessions: 1 });
+    expect(listBreakGlassSessions({ tenantId: "t1", status: "unreviewed" })).toHaveLength(1);
+
+    const reviewed = signOffBreakGlassReview({ sessionId: session.session_id, reviewedBy: "bob", notes: "Reviewed the restart" });
+    expect(reviewed).toMatchObject({ review_status: "signed_off", reviewed_by: "bob" });
+    expect(getBreakGlassStatus("t1").status).toBe("clear");
+
+    const audit = getAuditLog().query({ tenantId: "t1" });
+    expect(audit.entries.map((entry) => entry.eventType).sort()).toEqual([
+      "break_glass_action",
+      "break_glass_activated",
+      "break_glass_ended",
+      "break_glass_reviewed",
+    ]);
+  });
+
+  it("rejects sign-off by the activating operator when reviews must be independent", () => {
+    const session = activateBreakGlass({ tenantId: "t1", activation, activatedBy: "alice" });
+    endBreakGlass({ sessionId: session.session_id, endedBy: "alice" });
+    const signOff = (reviewedBy: string) =>
+      signOffBreakGlassReview({ sessionId: session.session_id, reviewedBy, notes: "Reviewed the restart", independentReview: true });
+
+    expect(() => signOff("alice")).toThrow(expect.objectContaining({ code: "self_review" }));
+    expect(getBreakGlassStatus("t1").status).toBe("unreviewed");
+    expect(signOff("bob")).toMatchObject({ review_status: "signed_off", reviewed_by: "bob" });
+  });
+
+  it("prefers agent-scoped sessions and expires sessions past their window", () => {
+    const tenantWide = activateBreakGlass({ tenantId: "t1", activation, activatedBy: "alice" });
+    const agentOnly = activateBreakGlass({
+      tenantId: "t1",
+      activation: { ...activation, agent_id: "agent-1", minutes: 5 },
+      activatedBy: "alice",
+    });
+
+    expect(getActiveBreakGlassSession({ tenantId: "t1", workspaceId: "w1", agentId: "agent-1" })?.session_id).toBe(
+      agentOnly.session_id
+    );
+    expect(getActiveBreakGlassSession({ tenantId: "t1", workspaceId: "w1", agentId: "agent-2" })?.session_id).toBe(
+      tenantWide.session_id
+    );
+
+    const later = getActiveBreakGlassSession({ tenantId: "t1", workspaceId: "w1", agentId: "agent-1", now: minutesFromNow(10) });
+    expect(later?.session_id).toBe(tenantWide.session_id);
+    expect(listBreakGlassSessions({ tenantId: "t1", status: "unreviewed" })).toEqual([
+      expect.objectContaining({ session_id: agentOnly.session_id, ended_by: "system", ended_at: agentOnly.expires_at }),
+    ]);
+  });
+});
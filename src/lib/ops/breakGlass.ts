@@ -0,0 +1,380 @@
+/**
+ * Break-Glass Sessions
+ *
+ * A break-glass session is a time-boxed emergency override for a tenant (or a
+ * single agent): while it is active, execution requests are decided with the
+ * session's override, so normally denied tools are allowed. Every decision made
+ * under the session is tagged with its id and audited. When the session ends
+ * (explicitly or on expiry) a post-incident review is opened; the tenant shows
+ * as "break-glass unreviewed" until an operator signs the review off.
+ */
+
+import { v7 as uuidv7 } from "uuid";
+import { z } from "zod";
+import { getDatabase } from "../core/db.js";
+import {
+  logBreakGlassAction,
+  logBreakGlassActivated,
+  logBreakGlassEnded,
+  logBreakGlassReviewed,
+} from "../governance/auditLog.js";
+import { MIN_JUSTIFICATION_LENGTH, OverrideSchema, type OverrideRequest } from "./overrides.js";
+
+/**
+ * Longest break-glass session an operator can open (minutes)
+ */
+export const MAX_BREAK_GLASS_MINUTES = 240;
+
+/**
+ * Activation payload: override reason plus scope and duration
+ */
+export const BreakGlassActivationSchema = OverrideSchema.extend({
+  workspace_id: z.string().optional(),
+  agent_id: z.string().min(1).optional(),
+  minutes: z.number().int().min(1).max(MAX_BREAK_GLASS_MINUTES).default(60),
+});
+
+export type BreakGlassActivation = z.infer<typeof BreakGlassActivationSchema>;
+
+/**
+ * Review sign-off payload
+ */
+export const BreakGlassReviewSchema = z.object({
+  notes: z.string().min(MIN_JUSTIFICATION_LENGTH, {
+    message: `Review notes must be at least ${MIN_JUSTIFICATION_LENGTH} characters`
+  }),
+});
+
+export type BreakGlassReviewStatus = "pending" | "signed_off";
+
+export interface BreakGlassSession {
+  session_id: string;
+  tenant_id: string;
+  workspace_id: string | null;
+  /** Null: the session covers every agent in scope. */
+  agent_id: string | null;
+  reason_code: OverrideRequest["reason_code"];
+  justification: string;
+  activated_by: string;
+  started_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  ended_by: string | null;
+  action_count: number;
+  /** Null while active; "pending" once ended until signed off. */
+  review_status: BreakGlassReviewStatus | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  active: boolean;
+}
+
+/**
+ * Tenant-level break-glass state shown on dashboards
+ */
+export interface BreakGlassStatus {
+  status: "active" | "unreviewed" | "clear";
+  active_sessions: number;
+  unreviewed_sessions: number;
+}
+
+export class BreakGlassError extends Error {
+  code: "not_found" | "already_active" | "not_active" | "not_pending_review" | "self_review";
+
+  constructor(message: string, code: BreakGlassError["code"]) {
+    super(message);
+    this.name = "BreakGlassError";
+    this.code = code;
+  }
+}
+
+type BreakGlassRow = Omit<BreakGlassSession, "active">;
+
+function rowToSession(row: BreakGlassRow): BreakGlassSession {
+  return { ...row, active: row.ended_at === null };
+}
+
+export function getBreakGlassSession(sessionId: string): BreakGlassSession | null {
+  const row = getDatabase()
+    .prepare("SELECT * FROM break_glass_sessions WHERE session_id = ?")
+    .get(sessionId) as BreakGlassRow | undefined;
+  return row ? rowToSession(row) : null;
+}
+
+function endSession(
+  session: BreakGlassSession,
+  endedBy: string,
+  endedAt: string,
+  reason: "ended" | "expired"
+): BreakGlassSession | null {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE break_glass_sessions
+      SET ended_at = ?, ended_by = ?, review_status = 'pending'
+      WHERE session_id = ? AND ended_at IS NULL
+    `)
+    .run(endedAt, endedBy, session.session_id);
+  if (result.changes === 0) return null;
+
+  logBreakGlassEnded({
+    tenantId: session.tenant_id,
+    workspaceId: session.workspace_id ?? undefined,
+    userId: endedBy,
+    sessionId: session.session_id,
+    reason,
+    actionCount: session.action_count,
+  });
+  return getBreakGlassSession(session.session_id);
+}
+
+/**
+ * End sessions past `expires_at` and open their reviews.
+ */
+export function closeExpiredBreakGlassSessions(now: Date = new Date()): BreakGlassSession[] {
+  const expired = getDatabase()
+    .prepare("SELECT * FROM break_glass_sessions WHERE ended_at IS NULL AND expires_at <= ?")
+    .all(now.toISOString()) as BreakGlassRow[];
+  const closed: BreakGlassSession[] = [];
+  for (const row of expired) {
+    // Ended at expiry, not at the moment the expiry was noticed.
+    const ended = endSession(rowToSession(row), "system", row.expires_at, "expired");
+    if (ended) closed.push(ended);
+  }
+  return closed;
+}
+
+/**
+ * Open a break-glass session. Throws BreakGlassError when one is already active
+ * for the same tenant, workspace and agent.
+ */
+export function activateBreakGlass(params: {
+  tenantId: string;
+  activation: BreakGlassActivation;
+  activatedBy: string;
+  now?: Date;
+}): BreakGlassSession {
+  const now = params.now ?? new Date();
+  closeExpiredBreakGlassSessions(now);
+  const { activation } = params;
+  const db = getDatabase();
+
+  const existing = db
+    .prepare(`
+      SELECT session_id FROM break_glass_sessions
+      WHERE tenant_id = ? AND ended_at IS NULL
+        AND IFNULL(workspace_id, '') = ? AND IFNULL(agent_id, '') = ?
+    `)
+    .get(params.tenantId, activation.workspace_id ?? "", activation.agent_id ?? "");
+  if (existing) {
+    throw new BreakGlassError("A break-glass session is already active for this scope", "already_active");
+  }
+
+  const sessionId = uuidv7();
+  const expiresAt = new Date(now.getTime() + activation.minutes * 60 * 1000).toISOString();
+  db.prepare(`
+    INSERT INTO break_glass_sessions (
+      session_id, tenant_id, workspace_id, agent_id, reason_code, justification,
+      activated_by, started_at, expires_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    sessionId,
+    params.tenantId,
+    activation.workspace_id ?? null,
+    activation.agent_id ?? null,
+    activation.reason_code,
+    activation.justification,
+    params.activatedBy,
+    now.toISOString(),
+    expiresAt
+  );
+
+  logBreakGlassActivated({
+    tenantId: params.tenantId,
+    workspaceId: activation.workspace_id,
+    userId: params.activatedBy,
+    sessionId,
+    agentId: activation.agent_id ?? null,
+    reasonCode: activation.reason_code,
+    justification: activation.justification,
+    expiresAt,
+  });
+  return getBreakGlassSession(sessionId)!;
+}
+
+/**
+ * End an active session now and open its review.
+ */
+export function endBreakGlass(params: { sessionId: string; endedBy: string; now?: Date }): BreakGlassSession {
+  const session = getBreakGlassSession(params.sessionId);
+  if (!session) throw new BreakGlassError("Break-glass session not found", "not_found");
+  const ended =
+    session.active && endSession(session, params.endedBy, (params.now ?? new Date()).toISOString(), "ended");
+  if (!ended) throw new BreakGlassError("Break-glass session is not active", "not_active");
+  return ended;
+}
+
+/**
+ * The active session covering a request, preferring an agent-specific one over
+ * a tenant-wide one. Expired sessions are closed first.
+ */
+export function getActiveBreakGlassSession(params: {
+  tenantId: string;
+  workspaceId: string;
+  agentId?: string;
+  now?: Date;
+}): BreakGlassSession | null {
+  closeExpiredBreakGlassSessions(params.now);
+  const row = getDatabase()
+    .prepare(`
+      SELECT * FROM break_glass_sessions
+      WHERE tenant_id = ? AND ended_at IS NULL
+        AND (workspace_id IS NULL OR workspace_id = ?)
+        AND (agent_id IS NULL OR agent_id = ?)
+      ORDER BY agent_id IS NULL, started_at DESC
+      LIMIT 1
+    `)
+    .get(params.tenantId, params.workspaceId, params.agentId ?? null) as BreakGlassRow | undefined;
+  return row ? rowToSession(row) : null;
+}
+
+/**
+ * The override an execution request is decided with under `session`.
+ */
+export function breakGlassOverride(session: BreakGlassSession): {
+  request: OverrideRequest;
+  actor: string;
+  role: string;
+  action: string;
+} {
+  return {
+    request: { reason_code: session.reason_code, justification: session.justification },
+    actor: session.activated_by,
+    role: "break_glass",
+    action: `break_glass:${session.session_id}`,
+  };
+}
+
+/**
+ * Count and audit an execution decided under a session.
+ */
+export function recordBreakGlassAction(params: {
+  session: BreakGlassSession;
+  workspaceId: string;
+  executionId: string;
+  adapterId: string;
+  agentId?: string | null;
+  tool?: string | null;
+  decision: string;
+}): void {
+  getDatabase()
+    .prepare("UPDATE break_glass_sessions SET action_count = action_count + 1 WHERE session_id = ?")
+    .run(params.session.session_id);
+  logBreakGlassAction({
+    tenantId: params.session.tenant_id,
+    workspaceId: params.workspaceId,
+    sessionId: params.session.session_id,
+    executionId: params.executionId,
+    adapterId: params.adapterId,
+    agentId: params.agentId,
+    tool: params.tool,
+    decision: params.decision,
+  });
+}
+
+/**
+ * Sign off the post-incident review of an ended session. With
+ * `independentReview` (set once operator identities are verified), the
+ * operator who activated the session cannot review it.
+ */
+export function signOffBreakGlassReview(params: {
+  sessionId: string;
+  reviewedBy: string;
+  notes: string;
+  independentReview?: boolean;
+  now?: Date;
+}): BreakGlassSession {
+  const session = getBreakGlassSession(params.sessionId);
+  if (!session) throw new BreakGlassError("Break-glass session not found", "not_found");
+  if (params.independentReview && params.reviewedBy === session.activated_by) {
+    throw new BreakGlassError("The operator who activated a break-glass session cannot review it", "self_review");
+  }
+  const result = getDatabase()
+    .prepare(`
+      UPDATE break_glass_sessions
+      SET review_status = 'signed_off', reviewed_by = ?, reviewed_at = ?, review_notes = ?
+      WHERE session_id = ? AND review_status = 'pending'
+    `)
+    .run(params.reviewedBy, (params.now ?? new Date()).toISOString(), params.notes, params.sessionId);
+  if (result.changes === 0) {
+    throw new BreakGlassError(
+      session.active ? "End the break-glass session before signing off its review" : "Review already signed off",
+      "not_pending_review"
+    );
+  }
+
+  logBreakGlassReviewed({
+    tenantId: session.tenant_id,
+    workspaceId: session.workspace_id ?? undefined,
+    userId: params.reviewedBy,
+    sessionId: session.session_id,
+    notes: params.notes,
+    actionCount: session.action_count,
+  });
+  return getBreakGlassSession(params.sessionId)!;
+}
+
+function scopeFilter(workspaceId?: string): { sql: string; args: string[] } {
+  return workspaceId
+    ? { sql: " AND (workspace_id IS NULL OR workspace_id = ?)", args: [workspaceId] }
+    : { sql: "", args: [] };
+}
+
+/**
+ * Sessions for a tenant, newest first: active ones, those awaiting review, or all.
+ */
+export function listBreakGlassSessions(params: {
+  tenantId: string;
+  workspaceId?: string;
+  status?: "active" | "unreviewed" | "all";
+  limit?: number;
+}): BreakGlassSession[] {
+  closeExpiredBreakGlassSessions();
+  const scope = scopeFilter(params.workspaceId);
+  const statusSql =
+    params.status === "active" ? " AND ended_at IS NULL" :
+    params.status === "unreviewed" ? " AND review_status = 'pending'" :
+    "";
+  const rows = getDatabase()
+    .prepare(`
+      SELECT * FROM break_glass_sessions
+      WHERE tenant_id = ?${scope.sql}${statusSql}
+      ORDER BY started_at DESC
+      LIMIT ?
+    `)
+    .all(params.tenantId, ...scope.args, params.limit ?? 100) as BreakGlassRow[];
+  return rows.map(rowToSession);
+}
+
+/**
+ * Whether a tenant is under break-glass or has sessions awaiting review.
+ */
+export function getBreakGlassStatus(tenantId: string, workspaceId?: string): BreakGlassStatus {
+  closeExpiredBreakGlassSessions();
+  const scope = scopeFilter(workspaceId);
+  const row = getDatabase()
+    .prepare(`
+      SELECT
+        SUM(CASE WHEN ended_at IS NULL THEN 1 ELSE 0 END) AS active_sessions,
+        SUM(CASE WHEN review_status = 'pending' THEN 1 ELSE 0 END) AS unreviewed_sessions
+      FROM break_glass_sessions
+      WHERE tenant_id = ?${scope.sql}
+    `)
+    .get(tenantId, ...scope.args) as { active_sessions: number | null; unreviewed_sessions: number | null };
+  const active = row.active_sessions ?? 0;
+  const unreviewed = row.unreviewed_sessions ?? 0;
+  return {
+    status: active > 0 ? "active" : unreviewed > 0 ? "unreviewed" : "clear",
+    active_sessions: active,
+    unreviewed_sessions: unreviewed,
+  };
+}
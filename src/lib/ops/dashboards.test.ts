@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getDatabase, initDatabase, resetDatabase } from "../core/db.js";
+import { createDecision, recordDecision } from "../governance/decisions.js";
+import { getApprovalsDashboard } from "./dashboards.js";
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ":memory:";
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+function minutesBefore(minutes: number): string {
+  return new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+}
+
+/** A decision created `createdMinutesAgo` that waited `waitedMinutes` for a human (or is still pending). */
+function seed(params: {
+  tool: string;
+  agentId: string;
+  status: "pending" | "approved" | "denied" | "expired";
+  createdMinutesAgo: number;
+  waitedMinutes?: number;
+  approver?: string;
+  group?: string;
+}) {
+  const decision = createDecision({
+    tenantId: "t1",
+    workspaceId: "w1",
+    executionId: `exec-${Math.random()}`,
+    adapterId: "adapter-1",
+    requestSnapshot: { request: { tool: params.tool, agent_id: params.agentId } },
+  });
+  const createdAt = minutesBefore(params.createdMinutesAgo);
+  const endedAt =
+    params.waitedMinutes === undefined ? null : minutesBefore(params.createdMinutesAgo - params.waitedMinutes);
+  const resolution =
+    params.status === "expired" ? { expired_at: endedAt } : endedAt ? { resolved_at: endedAt } : null;
+  const db = getDatabase();
+  db.prepare(
+    "UPDATE decisions SET status = ?, created_at = ?, updated_at = ?, resolution = ?, assigned_group = ? WHERE decision_id = ?"
+  ).run(
+    params.status,
+    createdAt,
+    NOW.toISOString(),
+    resolution ? JSON.stringify(resolution) : null,
+    params.group ?? null,
+    decision.decision_id
+  );
+  if (params.approver && endedAt) {
+    db.prepare(
+      "INSERT INTO decision_votes (decision_id, tenant_id, approver_id, vote, created_at) VALUES (?, 't1', ?, ?, ?)"
+    ).run(decision.decision_id, params.approver, params.status === "approved" ? "approve" : "deny", endedAt);
+  }
+}
+
+describe("approvals dashboard", () => {
+  it("computes time-to-decision, expiry rate and per tool, approver, agent and group breakdowns", () => {
+    seed({ tool: "exec", agentId: "a1", status: "approved", createdMinutesAgo: 60, waitedMinutes: 2, approver: "alice", group: "sre" });
+    seed({ tool: "exec", agentId: "a1", status: "approved", createdMinutesAgo: 50, waitedMinutes: 4, approver: "alice", group: "sre" });
+    seed({ tool: "exec", agentId: "a2", status: "denied", createdMinutesAgo: 40, waitedMinutes: 10, approver: "bob" });
+    seed({ tool: "http.request", agentId: "a2", status: "expired", createdMinutesAgo: 30, waitedMinutes: 15 });
+    seed({ tool: "http.request", agentId: "a1", status: "pending", createdMinutesAgo: 20, group: "sre" });
+    // Old and auto-decided rows stay out of the window / the metrics
+    seed({ tool: "exec", agentId: "a1", status: "approved", createdMinutesAgo: 60 * 24 * 10, waitedMinutes: 500 });
+    recordDecision({
+      tenantId: "t1",
+      workspaceId: "w1",
+      executionId: "exec-auto",
+      adapterId: "adapter-1",
+      status: "allow",
+      requestSnapshot: { request: { tool: "exec" } },
+    });
+
+    const dashboard = getApprovalsDashboard("t1", { since: minutesBefore(60 * 24 * 7), now: NOW });
+    const minutes = (m: number) => m * 60 * 1000;
+
+    expect(dashboard.sample_size).toBe(5);
+    expect(dashboard.totals).toEqual({
+      total: 5,
+      pending: 1,
+      approved: 2,
+      denied: 1,
+      expired: 1,
+      approval_rate: 67,
+      expiry_rate: 25,
+    });
+    expect(dashboard.time_to_decision).toEqual({
+      count: 3,
+      p50_ms: minutes(4),
+      p95_ms: minutes(10),
+      avg_ms: minutes(16 / 3),
+    });
+    expect(dashboard.oldest_pending_ms).toBe(minutes(20));
+
+    expect(dashboard.by_tool.map((row) => [row.tool, row.approval_rate, row.expiry_rate])).toEqual([
+      ["exec", 67, 0],
+      ["http.request", 0, 100],
+    ]);
+    expect(dashboard.by_approver).toEqual([
+      expect.objectContaining({ approver_id: "alice", approvals: 2, denials: 0, response_time: expect.objectContaining({ p50_ms: minutes(2) }) }),
+      expect.objectContaining({ approver_id: "bob", approvals: 0, denials: 1 }),
+    ]);
+    // Expired requests count as blocked time for the agent, but not as time-to-decision
+    expect(dashboard.by_agent.find((row) => row.agent_id === "a2")?.blocked_time).toMatchObject({
+      count: 2,
+      p50_ms: minutes(10),
+      p95_ms: minutes(15),
+    });
+    expect(dashboard.by_group).toEqual([
+      expect.objectContaining({ group_id: "sre", total: 3, pending: 1, approved: 2 }),
+    ]);
+
+    expect(getApprovalsDashboard("t1", { workspaceId: "other", now: NOW }).sample_size).toBe(0);
+  });
+});
@@ -5,6 +5,7 @@ import { computeTraceRisk } from "./traceViews.js";
 import { loadGovernanceMaps } from "./governanceViews.js";
 import { buildGovernanceView } from "./governanceViews.js";
 import { MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE } from "./pagination.js";
+import { getBreakGlassStatus } from "./breakGlass.js";
 
 /**
  * Coverage metadata for dashboard data fidelity
@@ -220,6 +221,7 @@ export function getGovernanceDashboard(tenantId: string, options: GovernanceDash
     adapter_error_count: adapterErrorCount,
     incident_count: incidentCount,
     trace_sample_size: total,
+    break_glass: getBreakGlassStatus(tenantId, options.workspaceId),
     coverage: getCoverageMetadata(tenantId)
   };
 }
@@ -267,3 +269,215 @@ export function getAgentsList(tenantId: string, options: AgentsListOptions = {})
     .sort((a, b) => b.count - a.count)
     .map(({ agent_id, agent_role, count }) => ({ agent_id, agent_role, trace_count: count }));
 }
+
+export interface ApprovalsDashboardOptions {
+  workspaceId?: string;
+  /** Only decisions created at or after this ISO timestamp. */
+  since?: string;
+  /** Only decisions created at or before this ISO timestamp. */
+  until?: string;
+  limit?: number;
+  now?: Date;
+}
+
+export interface DurationStats {
+  count: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  avg_ms: number | null;
+}
+
+/** Cap on decisions scanned for one approvals dashboard. */
+const MAX_APPROVAL_SAMPLE = 10000;
+
+/** Nearest-rank percentile of ascending values. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function durationStats(values: number[]): DurationStats {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50_ms: percentile(sorted, 50),
+    p95_ms: percentile(sorted, 95),
+    avg_ms: sorted.length ? Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length) : null
+  };
+}
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function parseJsonObject(value: unknown): Record<string, unknown> {
+  if (typeof value !== "string") return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Approval SLA metrics from the decisions table: time-to-decision, expiry rate,
+ * approve/deny split per tool, approver and group, and how long each agent was
+ * blocked waiting on a human. Only decisions that needed approval are counted.
+ */
+export function getApprovalsDashboard(tenantId: string, options: ApprovalsDashboardOptions = {}) {
+  const db = getDatabase();
+  const now = options.now ?? new Date();
+  const limit = Math.min(options.limit || MAX_APPROVAL_SAMPLE, MAX_APPROVAL_SAMPLE);
+
+  const conditions = ["tenant_id = ?", "status IN ('pending', 'approved', 'denied', 'expired')"];
+  const values: unknown[] = [tenantId];
+  if (options.workspaceId) {
+    conditions.push("workspace_id = ?");
+    values.push(options.workspaceId);
+  }
+  if (options.since) {
+    conditions.push("created_at >= ?");
+    values.push(options.since);
+  }
+  if (options.until) {
+    conditions.push("created_at <= ?");
+    values.push(options.until);
+  }
+
+  const rows = db.prepare(`
+    SELECT decision_id, status, assigned_group, request_snapshot, resolution, created_at, updated_at
+    FROM decisions
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).all(...values, limit) as {
+    decision_id: string;
+    status: "pending" | "approved" | "denied" | "expired";
+    assigned_group: string | null;
+    request_snapshot: string | null;
+    resolution: string | null;
+    created_at: string;
+    updated_at: string;
+  }[];
+
+  type Bucket = { pending: number; approved: number; denied: number; expired: number; durations: number[] };
+  const bucket = (): Bucket => ({ pending: 0, approved: 0, denied: 0, expired: 0, durations: [] });
+  const bucketFor = (map: Map<string, Bucket>, key: string): Bucket => {
+    let existing = map.get(key);
+    if (!existing) {
+      existing = bucket();
+      map.set(key, existing);
+    }
+    return existing;
+  };
+  const totals = bucket();
+  const byTool = new Map<string, Bucket>();
+  const byAgent = new Map<string, Bucket>();
+  const byGroup = new Map<string, Bucket>();
+  const createdAtById = new Map<string, number>();
+  const blocked: number[] = [];
+  let oldestPendingMs: number | null = null;
+
+  for (const row of rows) {
+    const request = parseJsonObject(row.request_snapshot).request as Record<string, unknown> | undefined;
+    const resolution = parseJsonObject(row.resolution);
+    const tool = typeof request?.tool === "string" ? request.tool : "unknown";
+    const agentId = typeof request?.agent_id === "string" ? request.agent_id : "unknown";
+    const createdAt = Date.parse(row.created_at);
+    createdAtById.set(row.decision_id, createdAt);
+
+    const toolBucket = bucketFor(byTool, tool);
+    const agentBucket = bucketFor(byAgent, agentId);
+    const groupBucket = row.assigned_group ? bucketFor(byGroup, row.assigned_group) : null;
+    for (const target of [totals, toolBucket, agentBucket, groupBucket]) {
+      if (target) target[row.status]++;
+    }
+
+    if (row.status === "pending") {
+      const age = now.getTime() - createdAt;
+      oldestPendingMs = Math.max(oldestPendingMs ?? 0, age);
+      continue;
+    }
+
+    // Resolution timestamps are recorded at resolve time; updated_at may move later (grants, token use).
+    const endedAt =
+      typeof resolution.resolved_at === "string" ? resolution.resolved_at :
+      typeof resolution.expired_at === "string" ? resolution.expired_at :
+      row.updated_at;
+    const waited = Math.max(0, Date.parse(endedAt) - createdAt);
+    if (Number.isNaN(waited)) continue;
+    blocked.push(waited);
+    agentBucket.durations.push(waited);
+    if (row.status !== "expired") {
+      totals.durations.push(waited);
+      toolBucket.durations.push(waited);
+      groupBucket?.durations.push(waited);
+    }
+  }
+
+  const summarize = (b: Bucket) => ({
+    total: b.pending + b.approved + b.denied + b.expired,
+    pending: b.pending,
+    approved: b.approved,
+    denied: b.denied,
+    expired: b.expired,
+    approval_rate: percentOf(b.approved, b.approved + b.denied),
+    expiry_rate: percentOf(b.expired, b.approved + b.denied + b.expired)
+  });
+
+  // Votes carry the approver; one decision can have several under quorum.
+  const votes = rows.length
+    ? db.prepare(`
+        SELECT v.decision_id, v.approver_id, v.vote, v.created_at
+        FROM decision_votes v
+        JOIN decisions d ON d.decision_id = v.decision_id
+        WHERE ${conditions.map((c) => `d.${c}`).join(" AND ")}
+      `).all(...values) as { decision_id: string; approver_id: string; vote: string; created_at: string }[]
+    : [];
+  const byApprover = new Map<string, { approvals: number; denials: number; durations: number[] }>();
+  for (const vote of votes) {
+    const createdAt = createdAtById.get(vote.decision_id);
+    if (createdAt === undefined) continue;
+    const entry = byApprover.get(vote.approver_id) ?? { approvals: 0, denials: 0, durations: [] };
+    if (vote.vote === "approve") entry.approvals++;
+    else entry.denials++;
+    entry.durations.push(Math.max(0, Date.parse(vote.created_at) - createdAt));
+    byApprover.set(vote.approver_id, entry);
+  }
+
+  const byVolume = (a: { total: number }, b: { total: number }) => b.total - a.total;
+
+  return {
+    window: {
+      since: options.since ?? null,
+      until: options.until ?? now.toISOString()
+    },
+    sample_size: rows.length,
+    truncated: rows.length >= limit,
+    totals: summarize(totals),
+    time_to_decision: durationStats(totals.durations),
+    blocked_time: durationStats(blocked),
+    oldest_pending_ms: oldestPendingMs,
+    by_tool: [...byTool.entries()]
+      .map(([tool, b]) => ({ tool, ...summarize(b), time_to_decision: durationStats(b.durations) }))
+      .sort(byVolume),
+    by_approver: [...byApprover.entries()]
+      .map(([approver_id, entry]) => ({
+        approver_id,
+        approvals: entry.approvals,
+        denials: entry.denials,
+        total: entry.approvals + entry.denials,
+        approval_rate: percentOf(entry.approvals, entry.approvals + entry.denials),
+        response_time: durationStats(entry.durations)
+      }))
+      .sort(byVolume),
+    by_agent: [...byAgent.entries()]
+      .map(([agent_id, b]) => ({ agent_id, ...summarize(b), blocked_time: durationStats(b.durations) }))
+      .sort(byVolume),
+    by_group: [...byGroup.entries()]
+      .map(([group_id, b]) => ({ group_id, ...summarize(b), time_to_decision: durationStats(b.durations) }))
+      .sort(byVolume)
+  };
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { initDatabase, resetDatabase } from "../core/db.js";
+import { getAuditLog } from "../governance/auditLog.js";
+import { evaluateExecutionDecision } from "../governance/executionDecision.js";
+import { computePosture } from "../governance/governancePosture.js";
+import {
+  FreezeCreateSchema,
+  FreezeError,
+  createFreeze,
+  getActiveFreeze,
+  liftFreeze,
+  listFreezes,
+} from "./freezes.js";
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ":memory:";
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+const reason = "Suspicious file deletions in production";
+
+function freezeInput(fields: Record<string, unknown> = {}) {
+  return FreezeCreateSchema.parse({ reason, ...fields });
+}
+
+function request(fields: Record<string, unknown> = {}) {
+  return {
+    tenant_id: "t1",
+    workspace_id: "w1",
+    adapter_id: "openclaw",
+    requested_capabilities: [],
+    tool_count: 1,
+    tool: "read_file",
+    agent_id: "agent-1",
+    ...fields,
+  };
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+describe("freezes", () => {
+  it("matches by tenant, workspace, adapter and agent, and global freezes match every tenant", () => {
+    const agentFreeze = createFreeze({ tenantId: "t1", freeze: freezeInput({ agent_id: "agent-1" }), createdBy: "alice" });
+    const target = { tenantId: "t1", workspaceId: "w1", adapterId: "openclaw" };
+    expect(getActiveFreeze({ ...target, agentId: "agent-1" })?.freeze_id).toBe(agentFreeze.freeze_id);
+    expect(getActiveFreeze({ ...target, agentId: "agent-2" })).toBeNull();
+    expect(getActiveFreeze(target)).toBeNull();
+
+    createFreeze({ tenantId: "t1", freeze: freezeInput({ adapter_id: "openclaw", workspace_id: "w2" }), createdBy: "alice" });
+    expect(getActiveFreeze({ ...target, workspaceId: "w2", agentId: "agent-2" })?.adapter_id).toBe("openclaw");
+    expect(getActiveFreeze({ ...target, workspaceId: "w2", adapterId: "other" })).toBeNull();
+    expect(getActiveFreeze({ tenantId: "t2", workspaceId: "w2", adapterId: "openclaw" })).toBeNull();
+
+    const global = createFreeze({ tenantId: "t1", freeze: freezeInput({ global: true }), createdBy: "root" });
+    expect(global.tenant_id).toBeNull();
+    expect(getActiveFreeze({ tenantId: "t2" })?.freeze_id).toBe(global.freeze_id);
+    expect(listFreezes({ tenantId: "t2" }).map((f) => f.freeze_id)).toEqual([global.freeze_id]);
+    expect(listFreezes({ tenantId: "t1" })).toHaveLength(3);
+  });
+
+  it("ends on expiry or when lifted, and audits both", () => {
+    const now = new Date();
+    const expiring = createFreeze({ tenantId: "t1", freeze: freezeInput({ minutes: 30 }), createdBy: "alice", now });
+    expect(expiring.expires_at).toBe(new Date(now.getTime() + 30 * 60 * 1000).toISOString());
+    expect(getActiveFreeze({ tenantId: "t1" }, minutesFromNow(29))?.freeze_id).toBe(expiring.freeze_id);
+    expect(getActiveFreeze({ tenantId: "t1" }, minutesFromNow(31))).toBeNull();
+    expect(() => liftFreeze({ freezeId: expiring.freeze_id, tenantId: "t1", liftedBy: "bob", now: minutesFromNow(31) }))
+      .toThrow(expect.objectContaining({ code: "not_active" }));
+
+    const manual = createFreeze({ tenantId: "t1", freeze: freezeInput(), createdBy: "alice" });
+    const lifted = liftFreeze({ freezeId: manual.freeze_id, tenantId: "t1", liftedBy: "bob" });
+    expect(lifted).toMatchObject({ active: false, lifted_by: "bob" });
+    expect(listFreezes({ tenantId: "t1" })).toHaveLength(1);
+    expect(listFreezes({ tenantId: "t1", status: "all" })).toHaveLength(2);
+    expect(() => liftFreeze({ freezeId: "missing", tenantId: "t1", liftedBy: "bob" })).toThrow(FreezeError);
+
+    const audit = getAuditLog().query({ tenantId: "t1" });
+    const types = audit.entries.map((entry) => entry.eventType);
+    expect(types.filter((type) => type === "freeze_created")).toHaveLength(2);
+    expect(types).toContain("freeze_lifted");
+    expect(() => freezeInput({ reason: "too short" })).toThrow(/at least/);
+  });
+
+  it("denies matching executions before policy, even with an override", () => {
+    const freeze = createFreeze({ tenantId: "t1", freeze: freezeInput({ agent_id: "agent-1" }), createdBy: "alice" });
+
+    const denied = evaluateExecutionDecision(
+      request({
+        override: {
+          request: { reason_code: "incident_response", justification: "Need to read the crash logs now" },
+          actor: "alice",
+          role: "operator",
+        },
+      })
+    );
+    expect(denied).toMatchObject({
+      allowed: false,
+      decision: "deny",
+      blocked_reason: "frozen",
+      freeze_id: freeze.freeze_id,
+    });
+    expect(denied.explanation).toContain(`Frozen by kill switch ${freeze.freeze_id}`);
+    expect(denied.explanation).toContain(reason);
+    expect(evaluateExecutionDecision(request({ agent_id: "agent-2" })).blocked_reason).not.toBe("frozen");
+
+    expect(computePosture({ tenant_id: "t1", workspace_id: "w1", adapter_id: "openclaw" })).toMatchObject({
+      frozen: false,
+      freezes: [expect.objectContaining({ freeze_id: freeze.freeze_id })],
+    });
+    createFreeze({ tenantId: "t1", freeze: freezeInput({ adapter_id: "openclaw" }), createdBy: "alice" });
+    expect(computePosture({ tenant_id: "t1", workspace_id: "w1", adapter_id: "openclaw" }).frozen).toBe(true);
+  });
+});
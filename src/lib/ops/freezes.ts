@@ -0,0 +1,286 @@
+/**
+ * Freezes (kill switch)
+ *
+ * A freeze stops execution immediately without touching policies: while it is
+ * active, every execution request it matches is denied before policy
+ * evaluation, whatever the policies, approvals, overrides or break-glass
+ * sessions say. A freeze targets any combination of tenant, workspace,
+ * adapter and agent (a field left empty matches everything); a freeze with no
+ * tenant stops every tenant. It carries a required reason and ends when it is
+ * lifted or its optional expiry passes. Decisions already pending or approved
+ * when a freeze starts are held too: approve votes are refused, the execution
+ * status reports deny and approval tokens cannot be redeemed.
+ */
+
+import { v7 as uuidv7 } from "uuid";
+import { z } from "zod";
+import { getDatabase } from "../core/db.js";
+import { logFreezeCreated, logFreezeLifted } from "../governance/auditLog.js";
+import type { DecisionRecord } from "../governance/decisions.js";
+import { MIN_JUSTIFICATION_LENGTH } from "./overrides.js";
+
+/**
+ * Longest expiry an operator can set (minutes); omit it for a freeze that
+ * lasts until lifted.
+ */
+export const MAX_FREEZE_MINUTES = 30 * 24 * 60;
+
+/**
+ * Freeze payload: target, reason and optional expiry. `global` freezes every
+ * tenant (tenant_id is ignored).
+ */
+export const FreezeCreateSchema = z.object({
+  global: z.boolean().default(false),
+  workspace_id: z.string().min(1).optional(),
+  adapter_id: z.string().min(1).optional(),
+  agent_id: z.string().min(1).optional(),
+  reason: z.string().trim().min(MIN_JUSTIFICATION_LENGTH, {
+    message: `Reason must be at least ${MIN_JUSTIFICATION_LENGTH} characters`
+  }),
+  minutes: z.number().int().min(1).max(MAX_FREEZE_MINUTES).optional(),
+});
+
+export type FreezeCreate = z.infer<typeof FreezeCreateSchema>;
+
+export interface Freeze {
+  freeze_id: string;
+  /** Null: every tenant. */
+  tenant_id: string | null;
+  workspace_id: string | null;
+  adapter_id: string | null;
+  agent_id: string | null;
+  reason: string;
+  created_by: string;
+  created_at: string;
+  /** Null: until lifted. */
+  expires_at: string | null;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  active: boolean;
+}
+
+/**
+ * Request scope a freeze is matched against
+ */
+export interface FreezeTarget {
+  tenantId: string;
+  workspaceId?: string;
+  adapterId?: string;
+  agentId?: string;
+}
+
+export class FreezeError extends Error {
+  code: "not_found" | "not_active";
+
+  constructor(message: string, code: FreezeError["code"]) {
+    super(message);
+    this.name = "FreezeError";
+    this.code = code;
+  }
+}
+
+type FreezeRow = Omit<Freeze, "active">;
+
+function rowToFreeze(row: FreezeRow, now: Date = new Date()): Freeze {
+  return {
+    ...row,
+    active: row.lifted_at === null && (row.expires_at === null || row.expires_at > now.toISOString()),
+  };
+}
+
+function auditScope(freeze: FreezeRow): Record<string, string | null> {
+  return {
+    tenant_id: freeze.tenant_id,
+    workspace_id: freeze.workspace_id,
+    adapter_id: freeze.adapter_id,
+    agent_id: freeze.agent_id,
+  };
+}
+
+const ACTIVE_SQL = "lifted_at IS NULL AND (expires_at IS NULL OR expires_at > ?)";
+
+export function getFreeze(freezeId: string): Freeze | null {
+  const row = getDatabase().prepare("SELECT * FROM freezes WHERE freeze_id = ?").get(freezeId) as
+    | FreezeRow
+    | undefined;
+  return row ? rowToFreeze(row) : null;
+}
+
+/**
+ * Create a freeze for `tenantId`, or for every tenant when `freeze.global` is
+ * set (then audited under `tenantId`, the operator's tenant).
+ */
+export function createFreeze(params: {
+  tenantId: string;
+  freeze: FreezeCreate;
+  createdBy: string;
+  now?: Date;
+}): Freeze {
+  const now = params.now ?? new Date();
+  const { freeze } = params;
+  const freezeId = uuidv7();
+  const row: FreezeRow = {
+    freeze_id: freezeId,
+    tenant_id: freeze.global ? null : params.tenantId,
+    workspace_id: freeze.workspace_id ?? null,
+    adapter_id: freeze.adapter_id ?? null,
+    agent_id: freeze.agent_id ?? null,
+    reason: freeze.reason,
+    created_by: params.createdBy,
+    created_at: now.toISOString(),
+    expires_at: freeze.minutes ? new Date(now.getTime() + freeze.minutes * 60 * 1000).toISOString() : null,
+    lifted_at: null,
+    lifted_by: null,
+  };
+  getDatabase()
+    .prepare(`
+      INSERT INTO freezes (
+        freeze_id, tenant_id, workspace_id, adapter_id, agent_id, reason, created_by, created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      row.freeze_id,
+      row.tenant_id,
+      row.workspace_id,
+      row.adapter_id,
+      row.agent_id,
+      row.reason,
+      row.created_by,
+      row.created_at,
+      row.expires_at
+    );
+
+  logFreezeCreated({
+    tenantId: params.tenantId,
+    workspaceId: row.workspace_id ?? undefined,
+    userId: params.createdBy,
+    freezeId,
+    scope: auditScope(row),
+    reason: row.reason,
+    expiresAt: row.expires_at,
+  });
+  return getFreeze(freezeId)!;
+}
+
+/**
+ * Lift an active freeze. A global freeze is audited under `tenantId`, the
+ * operator's tenant.
+ */
+export function liftFreeze(params: {
+  freezeId: string;
+  tenantId: string;
+  liftedBy: string;
+  now?: Date;
+}): Freeze {
+  const now = params.now ?? new Date();
+  const existing = getFreeze(params.freezeId);
+  if (!existing) throw new FreezeError("Freeze not found", "not_found");
+  const result = getDatabase()
+    .prepare(`UPDATE freezes SET lifted_at = ?, lifted_by = ? WHERE freeze_id = ? AND ${ACTIVE_SQL}`)
+    .run(now.toISOString(), params.liftedBy, params.freezeId, now.toISOString());
+  if (result.changes === 0) throw new FreezeError("Freeze is not active", "not_active");
+
+  logFreezeLifted({
+    tenantId: existing.tenant_id ?? params.tenantId,
+    workspaceId: existing.workspace_id ?? undefined,
+    userId: params.liftedBy,
+    freezeId: params.freezeId,
+    scope: auditScope(existing),
+  });
+  return getFreeze(params.freezeId)!;
+}
+
+/**
+ * Freezes that apply to a tenant (its own and global ones), newest first.
+ */
+export function listFreezes(params: {
+  tenantId: string;
+  status?: "active" | "all";
+  limit?: number;
+  now?: Date;
+}): Freeze[] {
+  const now = params.now ?? new Date();
+  const activeSql = params.status === "all" ? "" : ` AND ${ACTIVE_SQL}`;
+  const args = params.status === "all" ? [] : [now.toISOString()];
+  const rows = getDatabase()
+    .prepare(`
+      SELECT * FROM freezes
+      WHERE (tenant_id IS NULL OR tenant_id = ?)${activeSql}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `)
+    .all(params.tenantId, ...args, params.limit ?? 100) as FreezeRow[];
+  return rows.map((row) => rowToFreeze(row, now));
+}
+
+/**
+ * Active freezes matching a request scope, newest first. A freeze field that
+ * is set must equal the target's (an undefined target field never matches it).
+ * With `anyAgent` (posture), agent-level freezes are included as well.
+ */
+export function findActiveFreezes(target: FreezeTarget & { anyAgent?: boolean }, now: Date = new Date()): Freeze[] {
+  const agentSql = target.anyAgent ? "" : " AND (agent_id IS NULL OR agent_id = ?)";
+  const rows = getDatabase()
+    .prepare(`
+      SELECT * FROM freezes
+      WHERE ${ACTIVE_SQL}
+        AND (tenant_id IS NULL OR tenant_id = ?)
+        AND (workspace_id IS NULL OR workspace_id = ?)
+        AND (adapter_id IS NULL OR adapter_id = ?)${agentSql}
+      ORDER BY created_at DESC
+    `)
+    .all(
+      now.toISOString(),
+      target.tenantId,
+      target.workspaceId ?? null,
+      target.adapterId ?? null,
+      ...(target.anyAgent ? [] : [target.agentId ?? null])
+    ) as FreezeRow[];
+  return rows.map((row) => rowToFreeze(row, now));
+}
+
+/**
+ * The freeze that stops a request, if any.
+ */
+export function getActiveFreeze(target: FreezeTarget, now: Date = new Date()): Freeze | null {
+  return findActiveFreezes(target, now)[0] ?? null;
+}
+
+/**
+ * Active freeze matching a decision's tenant, workspace, adapter and agent.
+ */
+export function getDecisionFreeze(decision: DecisionRecord, now: Date = new Date()): Freeze | null {
+  const request = (decision.request_snapshot?.request ?? {}) as { agent_id?: unknown };
+  return getActiveFreeze(
+    {
+      tenantId: decision.tenant_id,
+      workspaceId: decision.workspace_id,
+      adapterId: decision.adapter_id,
+      agentId: typeof request.agent_id === "string" ? request.agent_id : undefined,
+    },
+    now
+  );
+}
+
+/**
+ * Human-readable scope, e.g. "tenant acme · agent browser-1" or "all tenants".
+ */
+export function describeFreezeScope(
+  freeze: Pick<Freeze, "tenant_id" | "workspace_id" | "adapter_id" | "agent_id">
+): string {
+  const parts = [
+    freeze.tenant_id ? `tenant ${freeze.tenant_id}` : "all tenants",
+    freeze.workspace_id && `workspace ${freeze.workspace_id}`,
+    freeze.adapter_id && `adapter ${freeze.adapter_id}`,
+    freeze.agent_id && `agent ${freeze.agent_id}`,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * Explanation returned with a request denied by a freeze.
+ */
+export function freezeExplanation(freeze: Freeze): string {
+  const until = freeze.expires_at ? ` until ${freeze.expires_at}` : " until lifted";
+  return `Frozen by kill switch ${freeze.freeze_id} (${describeFreezeScope(freeze)})${until}: ${freeze.reason}`;
+}
@@ -4,14 +4,21 @@ import os from 'node:os';
 import path from 'node:path';
 import {
   evalAllUnder,
+  evalAnyGlob,
   evalAnyUnder,
+  evalBetween,
+  evalCompare,
   evalExists,
+  evalGlob,
   evalIn,
+  evalMatches,
   evalPrefix,
   isSafeDottedPath,
+  isSafeRegexPattern,
   parseConditionExpression,
   resolveTemplate,
   resolveTemplates,
+  validateConditionExpression,
 } from './conditionOperators.js';
 
 describe('conditionOperators', () => {
@@ -86,6 +93,73 @@ describe('conditionOperators', () => {
     expect(evalExists(null)).toBe(false);
   });
 
+  it('supports numeric comparison operators', () => {
+    expect(evalCompare('gt', 5, 3)).toBe(true);
+    expect(evalCompare('gte', 3, 3)).toBe(true);
+    expect(evalCompare('lt', 3, 3)).toBe(false);
+    expect(evalCompare('lte', 2.5, 3)).toBe(true);
+    expect(evalCompare('gt', '5', 3)).toBe(false);
+    expect(evalCompare('gt', undefined, 0)).toBe(false);
+  });
+
+  it('compares array length for numeric operators', () => {
+    expect(evalCompare('gt', ['rm', '-rf', '/'], 2)).toBe(true);
+    expect(evalBetween(['ls'], [1, 3])).toBe(true);
+    expect(evalBetween(['a', 'b', 'c', 'd'], [1, 3])).toBe(false);
+  });
+
+  it('supports between with inclusive bounds', () => {
+    expect(evalBetween(10, [10, 20])).toBe(true);
+    expect(evalBetween(20, [10, 20])).toBe(true);
+    expect(evalBetween(21, [10, 20])).toBe(false);
+    expect(evalBetween(15, [20, 10])).toBe(false);
+  });
+
+  it('anchors matches patterns to the full string', () => {
+    expect(evalMatches('git', 'git|hg')).toBe(true);
+    expect(evalMatches('legit', 'git|hg')).toBe(false);
+    expect(evalMatches(['api.example.com', 'cdn.example.com'], '[a-z]+\\.example\\.com')).toBe(true);
+    expect(evalMatches(['api.example.com', 'evil.com'], '[a-z]+\\.example\\.com')).toBe(false);
+  });
+
+  it('rejects regex patterns that can backtrack catastrophically', () => {
+    expect(isSafeRegexPattern('[a-z]+\\.example\\.com')).toBe(true);
+    expect(isSafeRegexPattern('(ls|pwd)( -[a-z]+)?')).toBe(true);
+    expect(isSafeRegexPattern('(a+)+')).toBe(false);
+    expect(isSafeRegexPattern('((ab)*c)*')).toBe(false);
+    expect(isSafeRegexPattern('(a)\\1')).toBe(false);
+    expect(isSafeRegexPattern('(?=a)a')).toBe(false);
+    expect(isSafeRegexPattern('(unclosed')).toBe(false);
+    expect(isSafeRegexPattern('a'.repeat(300))).toBe(false);
+    expect(evalMatches('aaaaaaaaaaaaaaaaaaaaaaaaaaaa!', '(a+)+')).toBe(false);
+  });
+
+  it('supports glob for paths and hosts', () => {
+    expect(evalGlob('api.internal.example.com', '*.internal.example.com')).toBe(true);
+    expect(evalGlob('api.example.com', '*.internal.example.com')).toBe(false);
+    expect(evalGlob('.env', '**/.env')).toBe(true);
+    expect(evalGlob('/srv/app/config/.env', '**/.env')).toBe(true);
+    expect(evalGlob('/srv/app/.envrc', '**/.env')).toBe(false);
+    expect(evalGlob('/workspace/src/a.ts', '/workspace/*.ts')).toBe(false);
+    expect(evalGlob('/workspace/src/a.ts', '/workspace/**')).toBe(true);
+  });
+
+  it('requires every element for glob and one element for any_glob', () => {
+    const paths = ['/workspace/a.ts', '/workspace/.env'];
+    expect(evalGlob(paths, '/workspace/*.ts')).toBe(false);
+    expect(evalAnyGlob(paths, '**/.env')).toBe(true);
+    expect(evalAnyGlob(['/workspace/a.ts'], '**/.env')).toBe(false);
+  });
+
+  it('validates operator operands', () => {
+    expect(validateConditionExpression({ between: [1, 5] })).toBeNull();
+    expect(validateConditionExpression({ between: [5, 1] })).toMatch(/between/);
+    expect(validateConditionExpression({ gt: 'ten' })).toMatch(/finite number/);
+    expect(validateConditionExpression({ matches: '(a+)+' })).toMatch(/regex/);
+    expect(validateConditionExpression({ glob: '' })).toMatch(/glob/);
+    expect(validateConditionExpression({ in: ['ls'] })).toBeNull();
+  });
+
   it('rejects unsafe dotted paths', () => {
     expect(isSafeDottedPath('context.exec.argv0')).toBe(true);
     expect(isSafeDottedPath('context.__proto__.x')).toBe(false);
@@ -1,7 +1,21 @@
 import path from 'node:path';
 import { realpathSync } from 'node:fs';
 
-export type ConditionOperator = 'eq' | 'in' | 'prefix' | 'all_under' | 'any_under' | 'exists';
+export type ConditionOperator =
+  | 'eq'
+  | 'in'
+  | 'prefix'
+  | 'all_under'
+  | 'any_under'
+  | 'exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'matches'
+  | 'glob'
+  | 'any_glob';
 
 export type ConditionExpression =
   | string
@@ -12,15 +26,44 @@ export type ConditionExpression =
   | { prefix: string }
   | { all_under: string[] }
   | { any_under: string[] }
-  | { exists: true };
+  | { exists: true }
+  | { gt: number }
+  | { gte: number }
+  | { lt: number }
+  | { lte: number }
+  | { between: [number, number] }
+  | { matches: string }
+  | { glob: string }
+  | { any_glob: string };
 
 export interface ParsedConditionExpression {
   operator: ConditionOperator;
   expected: unknown;
 }
 
-const ALLOWED_TEMPLATE_KEYS = new Set(['workspace.root', 'tenant.id', 'workspace.id']);
+export const ALLOWED_TEMPLATE_KEYS = new Set(['workspace.root', 'tenant.id', 'workspace.id']);
 const FORBIDDEN_DOT_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+const CONDITION_OPERATORS = new Set<ConditionOperator>([
+  'eq',
+  'in',
+  'prefix',
+  'all_under',
+  'any_under',
+  'exists',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'matches',
+  'glob',
+  'any_glob',
+]);
+
+export const MAX_REGEX_PATTERN_LENGTH = 256;
+export const MAX_GLOB_PATTERN_LENGTH = 512;
+const MAX_COMPILED_PATTERN_CACHE = 500;
+const compiledPatternCache = new Map<string, RegExp | null>();
 
 function normalizeFilesystemPath(input: string): string | null {
   if (!input || typeof input !== 'string') return null;
@@ -44,9 +87,16 @@ function isPathUnderRoot(targetPath: string, rootPath: string): boolean {
   return ensureTrailingSep(normalizedTarget).startsWith(ensureTrailingSep(normalizedRoot));
 }
 
+const TEMPLATE_PATTERN = /\{\{\s*([a-zA-Z0-9._-]+)\s*\}\}/g;
+
+/** Template variable names referenced in a string (`{{ workspace.root }}` → `workspace.root`). */
+export function listTemplateVariables(value: string): string[] {
+  return [...value.matchAll(TEMPLATE_PATTERN)].map((match) => match[1]!);
+}
+
 export function resolveTemplate(value: string, vars: Record<string, string>): string {
   if (typeof value !== 'string') return value;
-  return value.replace(/\{\{\s*([a-zA-Z0-9._-]+)\s*\}\}/g, (_, key: string) => {
+  return value.replace(TEMPLATE_PATTERN, (_, key: string) => {
     if (!ALLOWED_TEMPLATE_KEYS.has(key)) {
       throw new Error(`Unknown template variable: ${key}`);
     }
@@ -89,18 +139,116 @@ export function parseConditionExpression(input: unknown): ParsedConditionExpress
   if (entries.length !== 1) return null;
   const [operator, expected] = entries[0]!;
 
-  if (
-    operator !== 'eq' &&
-    operator !== 'in' &&
-    operator !== 'prefix' &&
-    operator !== 'all_under' &&
-    operator !== 'any_under' &&
-    operator !== 'exists'
-  ) {
+  if (!CONDITION_OPERATORS.has(operator as ConditionOperator)) {
     return null;
   }
 
-  return { operator, expected };
+  return { operator: operator as ConditionOperator, expected };
+}
+
+/**
+ * Reject regex patterns that can backtrack catastrophically: nested quantifiers
+ * such as `(a+)+`, backreferences and lookaround. Patterns are also length-capped
+ * and must compile.
+ */
+export function isSafeRegexPattern(pattern: unknown): pattern is string {
+  if (typeof pattern !== 'string' || pattern.length === 0) return false;
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) return false;
+  if (/\\[1-9]|\\k<|\(\?<?[=!]/.test(pattern)) return false;
+
+  // Track whether each open group contains a quantifier; a quantified group that
+  // already contains one is a nested quantifier.
+  const groups: boolean[] = [];
+  let lastGroupHadQuantifier = false;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '\\') {
+      i++;
+      lastGroupHadQuantifier = false;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+    if (ch === '[') {
+      inClass = true;
+      lastGroupHadQuantifier = false;
+      continue;
+    }
+    if (ch === '(') {
+      groups.push(false);
+      if (pattern[i + 1] === '?') i += 2;
+      lastGroupHadQuantifier = false;
+      continue;
+    }
+    if (ch === ')') {
+      const hadQuantifier = groups.pop() ?? false;
+      if (hadQuantifier && groups.length > 0) groups[groups.length - 1] = true;
+      lastGroupHadQuantifier = hadQuantifier;
+      continue;
+    }
+    if (ch === '*' || ch === '+' || ch === '{') {
+      if (lastGroupHadQuantifier) return false;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      lastGroupHadQuantifier = false;
+      continue;
+    }
+    lastGroupHadQuantifier = false;
+  }
+  if (groups.length > 0) return false;
+  return compileAnchoredRegex(pattern) !== null;
+}
+
+function cachePattern(key: string, value: RegExp | null): RegExp | null {
+  if (compiledPatternCache.size >= MAX_COMPILED_PATTERN_CACHE) compiledPatternCache.clear();
+  compiledPatternCache.set(key, value);
+  return value;
+}
+
+function compileAnchoredRegex(pattern: string): RegExp | null {
+  const key = `re:${pattern}`;
+  if (compiledPatternCache.has(key)) return compiledPatternCache.get(key)!;
+  try {
+    return cachePattern(key, new RegExp(`^(?:${pattern})$`));
+  } catch {
+    return cachePattern(key, null);
+  }
+}
+
+/**
+ * Translate a glob into an anchored RegExp. `*` and `?` stay within one path
+ * segment, `**` crosses segments and a leading `**\/` also matches the root.
+ */
+export function globToRegExp(pattern: string): RegExp | null {
+  if (typeof pattern !== 'string' || pattern.length === 0 || pattern.length > MAX_GLOB_PATTERN_LENGTH) {
+    return null;
+  }
+  const key = `glob:${pattern}`;
+  if (compiledPatternCache.has(key)) return compiledPatternCache.get(key)!;
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return cachePattern(key, new RegExp(`^${source}$`));
 }
 
 export function evalEq(actual: unknown, expected: unknown): boolean {
@@ -141,6 +289,112 @@ export function evalExists(actual: unknown): boolean {
   return actual !== undefined && actual !== null;
 }
 
+/** Numbers compare by value; arrays (e.g. argv) compare by length. */
+function toComparableNumber(actual: unknown): number | null {
+  if (typeof actual === 'number' && Number.isFinite(actual)) return actual;
+  if (Array.isArray(actual)) return actual.length;
+  return null;
+}
+
+export function evalCompare(
+  operator: 'gt' | 'gte' | 'lt' | 'lte',
+  actual: unknown,
+  expected: unknown
+): boolean {
+  const value = toComparableNumber(actual);
+  if (value === null || typeof expected !== 'number' || !Number.isFinite(expected)) return false;
+  switch (operator) {
+    case 'gt':
+      return value > expected;
+    case 'gte':
+      return value >= expected;
+    case 'lt':
+      return value < expected;
+    case 'lte':
+      return value <= expected;
+  }
+}
+
+export function evalBetween(actual: unknown, expectedRange: unknown): boolean {
+  if (!isValidRange(expectedRange)) return false;
+  const value = toComparableNumber(actual);
+  if (value === null) return false;
+  return value >= expectedRange[0] && value <= expectedRange[1];
+}
+
+function isValidRange(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    value[0] <= value[1]
+  );
+}
+
+/** Match the full string (anchored). Arrays require every element to match. */
+export function evalMatches(actual: unknown, expectedPattern: unknown): boolean {
+  if (!isSafeRegexPattern(expectedPattern)) return false;
+  const regex = compileAnchoredRegex(expectedPattern);
+  if (!regex) return false;
+  return everyString(actual, (value) => regex.test(value));
+}
+
+/** Glob match. Arrays require every element to match (use any_glob for "at least one"). */
+export function evalGlob(actual: unknown, expectedPattern: unknown): boolean {
+  if (typeof expectedPattern !== 'string') return false;
+  const regex = globToRegExp(expectedPattern);
+  if (!regex) return false;
+  return everyString(actual, (value) => regex.test(value));
+}
+
+export function evalAnyGlob(actual: unknown, expectedPattern: unknown): boolean {
+  if (typeof expectedPattern !== 'string') return false;
+  const regex = globToRegExp(expectedPattern);
+  if (!regex || !Array.isArray(actual)) return false;
+  return actual.some((value) => typeof value === 'string' && regex.test(value));
+}
+
+function everyString(actual: unknown, test: (value: string) => boolean): boolean {
+  if (typeof actual === 'string') return test(actual);
+  if (!Array.isArray(actual) || actual.length === 0) return false;
+  return actual.every((value) => typeof value === 'string' && test(value));
+}
+
+/**
+ * Validate the operand of a single operator expression. Returns an error message,
+ * or null when the expression is valid (or uses an operator with no extra rules).
+ */
+export function validateConditionExpression(input: unknown): string | null {
+  const parsed = parseConditionExpression(input);
+  if (!parsed) return null;
+  const { operator, expected } = parsed;
+  switch (operator) {
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return typeof expected === 'number' && Number.isFinite(expected)
+        ? null
+        : `${operator} requires a finite number`;
+    case 'between':
+      return isValidRange(expected) ? null : 'between requires [min, max] with min <= max';
+    case 'matches':
+      return isSafeRegexPattern(expected)
+        ? null
+        : `matches requires a valid regex of at most ${MAX_REGEX_PATTERN_LENGTH} characters without nested quantifiers, backreferences or lookaround`;
+    case 'glob':
+    case 'any_glob':
+      return typeof expected === 'string' && globToRegExp(expected)
+        ? null
+        : `${operator} requires a non-empty pattern of at most ${MAX_GLOB_PATTERN_LENGTH} characters`;
+    default:
+      return null;
+  }
+}
+
 export function evaluateOperator(
   operator: ConditionOperator,
   actual: unknown,
@@ -159,6 +413,19 @@ export function evaluateOperator(
       return evalAnyUnder(actual, expected);
     case 'exists':
       return expected === true && evalExists(actual);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return evalCompare(operator, actual, expected);
+    case 'between':
+      return evalBetween(actual, expected);
+    case 'matches':
+      return evalMatches(actual, expected);
+    case 'glob':
+      return evalGlob(actual, expected);
+    case 'any_glob':
+      return evalAnyGlob(actual, expected);
     default:
       return false;
   }
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { recordDecision } from '../governance/decisions.js';
+import { backtestPolicies, buildCandidateBundle } from './policyBacktest.js';
+import type { PolicyObject } from './policySchema.js';
+import { upsertPolicy } from './policyStore.js';
+
+const originalPolicyOperatorsEnabled = config.policyOperatorsEnabled;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.policyOperatorsEnabled = true;
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  config.policyOperatorsEnabled = originalPolicyOperatorsEnabled;
+});
+
+function record(executionId: string, request: Record<string, unknown>, adapterId = 'adapter-1') {
+  return recordDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId,
+    adapterId,
+    status: 'allow',
+    requestSnapshot: { request: { tenant_id: 't1', workspace_id: 'w1', adapter_id: adapterId, ...request } },
+  });
+}
+
+const denyRm: PolicyObject = {
+  policy_id: 'deny-rm',
+  subject: { type: 'tool', name: 'exec' },
+  conditions: { 'context.exec.argv0': 'rm' },
+  effect: { decision: 'deny' },
+  precedence: 10,
+};
+
+describe('policy backtest', () => {
+  it('counts decisions that flip under a candidate policy, with examples', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'approve-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'require_approval' } },
+    });
+    const rm = [
+      record('exec-1', { tool: 'exec', context: { exec: { argv0: 'rm' } } }),
+      record('exec-2', { tool: 'exec', context: { exec: { argv0: 'rm' } } }),
+    ];
+    record('exec-3', { tool: 'exec', context: { exec: { argv0: 'ls' } } });
+    const fetch = record('exec-4', { tool: 'web_fetch' });
+    recordDecision({ tenantId: 't1', workspaceId: 'w1', executionId: 'exec-5', adapterId: 'adapter-1', status: 'allow', requestSnapshot: {} });
+
+    const report = backtestPolicies({
+      tenantId: 't1',
+      workspaceId: 'w1',
+      policies: [
+        ...buildCandidateBundle({ tenantId: 't1', policy: denyRm }),
+        { policy_id: 'approve-fetch', subject: { type: 'tool', name: 'web_fetch' }, effect: { decision: 'require_approval' } },
+      ],
+    });
+
+    expect(report).toMatchObject({ tenant_id: 't1', workspace_id: 'w1', evaluated: 4, skipped: 1, unchanged: 1, flipped: 3 });
+    expect(report.flips).toEqual([
+      {
+        from: 'require_approval',
+        to: 'deny',
+        count: 2,
+        decision_ids: expect.arrayContaining(rm.map((r) => r.decision_id)),
+      },
+      { from: 'allow', to: 'require_approval', count: 1, decision_ids: [fetch.decision_id] },
+    ]);
+    expect(report.candidate_bundle_hash).toEqual(expect.any(String));
+  });
+
+  it('builds candidate bundles from the live policies', () => {
+    upsertPolicy({ tenantId: 't1', policy: { ...denyRm, effect: { decision: 'allow' } } });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'approve-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'require_approval' } },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'disabled', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'deny' }, enabled: false },
+    });
+
+    const bundle = buildCandidateBundle({ tenantId: 't1', policy: denyRm, removePolicyIds: ['approve-exec'] });
+    expect(bundle.map((p) => [p.policy_id, p.effect.decision])).toEqual([['deny-rm', 'deny']]);
+    expect(bundle[0].scope?.tenant_id).toBe('t1');
+
+    record('exec-1', { tool: 'exec', context: { exec: { argv0: 'rm' } } }, 'adapter-1');
+    record('exec-2', { tool: 'exec', context: { exec: { argv0: 'ls' } } }, 'adapter-2');
+    const report = backtestPolicies({ tenantId: 't1', workspaceId: 'w1', adapterId: 'adapter-2', policies: bundle });
+    expect(report).toMatchObject({ adapter_id: 'adapter-2', evaluated: 1, flipped: 1 });
+    expect(report.flips).toEqual([expect.objectContaining({ from: 'require_approval', to: 'allow' })]);
+
+    expect(backtestPolicies({ tenantId: 't1', workspaceId: 'w1', since: '2999-01-01T00:00:00.000Z', policies: bundle }).evaluated).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Policy backtest
+ *
+ * Replays the request snapshots of historical decisions through the policy
+ * engine twice: once with the live policies and once with a candidate bundle.
+ * Comparing the two isolates the effect of the candidate change from drift
+ * since the decisions were recorded (other policy edits, approvals, budgets).
+ */
+
+import { listAdapterDecisions, type DecisionRecord } from '../governance/decisions.js';
+import { evaluatePolicies, type PolicyContext } from './policyEngine.js';
+import type { PolicyDecision, PolicyObject } from './policySchema.js';
+import { listPolicies, toPolicyBody } from './policyStore.js';
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_LIMIT = 1000;
+const EXAMPLES_PER_FLIP = 5;
+
+export interface PolicyBacktestFlip {
+  from: PolicyDecision;
+  to: PolicyDecision;
+  count: number;
+  /** Up to five example decision ids, most recent first. */
+  decision_ids: string[];
+}
+
+export interface PolicyBacktestReport {
+  tenant_id: string;
+  workspace_id: string;
+  adapter_id: string | null;
+  since: string;
+  /** Decisions replayed through both bundles. */
+  evaluated: number;
+  /** Decisions without a replayable request snapshot. */
+  skipped: number;
+  unchanged: number;
+  flipped: number;
+  /** Flips grouped by live → candidate decision, most frequent first. */
+  flips: PolicyBacktestFlip[];
+  candidate_bundle_hash: string | null;
+}
+
+/**
+ * The tenant's enabled policies with `policy` added (or replacing the policy
+ * with the same id) and `removePolicyIds` dropped.
+ */
+export function buildCandidateBundle(params: {
+  tenantId: string;
+  policy?: PolicyObject;
+  removePolicyIds?: string[];
+}): PolicyObject[] {
+  const removed = new Set(params.removePolicyIds ?? []);
+  if (params.policy) removed.add(params.policy.policy_id);
+  const bundle: PolicyObject[] = listPolicies({ tenantId: params.tenantId, enabled: true }).filter(
+    (policy) => !removed.has(policy.policy_id)
+  );
+  if (params.policy) bundle.push(toPolicyBody(params.tenantId, params.policy));
+  return bundle;
+}
+
+/**
+ * Rebuild the policy context an execution request was evaluated with
+ * (see evaluateExecutionDecision). Returns null for snapshots without a request.
+ */
+function replayContext(record: DecisionRecord): PolicyContext | null {
+  const snapshot = record.request_snapshot as Record<string, unknown> | null;
+  const request = snapshot?.request as Record<string, unknown> | undefined;
+  if (!request || typeof request !== 'object') return null;
+  const decision = snapshot?.decision as Record<string, unknown> | undefined;
+  return {
+    tenant_id: record.tenant_id,
+    workspace_id: record.workspace_id,
+    environment: request.environment as string | undefined,
+    adapter_id: (request.adapter_id as string | undefined) ?? record.adapter_id,
+    adapter_risk_class: request.adapter_risk_class as string | undefined,
+    tool: request.tool as string | undefined,
+    tool_group: request.tool_group as string | undefined,
+    skill_state: request.skill_state as string | undefined,
+    risk_level: decision?.risk_level as string | undefined,
+    estimated_cost: request.estimated_cost as number | undefined,
+    requested_capabilities: request.requested_capabilities as string[] | undefined,
+    intent: request.intent as string | undefined,
+    context: request.context as PolicyContext['context'],
+    templateVars: request.templateVars as Record<string, string> | undefined,
+    provenance: request.provenance as PolicyContext['provenance'],
+    agent_id: request.agent_id as string | undefined,
+    agent_role: request.agent_role as string | undefined,
+    // Schedule conditions see the time the decision was made.
+    now: new Date(record.created_at),
+  };
+}
+
+/**
+ * Replay historical decisions (default: the last 7 days, up to 1,000) through
+ * the live policies and the candidate bundle, and count decisions that flip.
+ */
+export function backtestPolicies(params: {
+  tenantId: string;
+  workspaceId: string;
+  adapterId?: string;
+  since?: string;
+  limit?: number;
+  policies: PolicyObject[];
+}): PolicyBacktestReport {
+  const since = params.since ?? new Date(Date.now() - DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const records = listAdapterDecisions({
+    tenantId: params.tenantId,
+    workspaceId: params.workspaceId,
+    adapterId: params.adapterId,
+    since,
+    limit: params.limit ?? DEFAULT_LIMIT,
+  });
+
+  let evaluated = 0;
+  let skipped = 0;
+  let candidateBundleHash: string | null = null;
+  const flips = new Map<string, PolicyBacktestFlip>();
+
+  for (const record of records) {
+    const ctx = replayContext(record);
+    if (!ctx) {
+      skipped += 1;
+      continue;
+    }
+    evaluated += 1;
+    const live = evaluatePolicies(ctx).decision;
+    const candidate = evaluatePolicies(ctx, { policies: params.policies });
+    candidateBundleHash ??= candidate.policy_bundle_hash ?? null;
+    if (candidate.decision === live) continue;
+
+    const key = `${live}->${candidate.decision}`;
+    let flip = flips.get(key);
+    if (!flip) {
+      flip = { from: live, to: candidate.decision, count: 0, decision_ids: [] };
+      flips.set(key, flip);
+    }
+    flip.count += 1;
+    if (flip.decision_ids.length < EXAMPLES_PER_FLIP) flip.decision_ids.push(record.decision_id);
+  }
+
+  const flipList = [...flips.values()].sort((a, b) => b.count - a.count);
+  const flipped = flipList.reduce((sum, flip) => sum + flip.count, 0);
+  return {
+    tenant_id: params.tenantId,
+    workspace_id: params.workspaceId,
+    adapter_id: params.adapterId ?? null,
+    since,
+    evaluated,
+    skipped,
+    unchanged: evaluated - flipped,
+    flipped,
+    flips: flipList,
+    candidate_bundle_hash: candidateBundleHash,
+  };
+}
@@ -1,8 +1,7 @@
-import type { PolicyDecision, PolicyObject } from './policySchema.js';
-import { listPolicies } from './policyStore.js';
-import { hashPolicyBundle } from '../governance/wizardMeta.js';
+import type { PolicyApproval, PolicyDecision, PolicyObject } from './policySchema.js';
 import { config } from '../core/config.js';
 import { hasFallbackPolicy } from '../governance/governanceMode.js';
+import { resolveGovernanceMode } from '../governance/governanceModeStore.js';
 import {
   evaluateOperator,
   isSafeDottedPath,
@@ -10,6 +9,10 @@ import {
   resolveTemplates,
   type ConditionOperator,
 } from './conditionOperators.js';
+import { evaluateSchedule } from './schedule.js';
+import { evaluateRateLimit } from './rateLimits.js';
+import { selectPolicyCandidates } from './policyIndex.js';
+import { hashPolicyBundle } from '../governance/wizardMeta.js';
 
 export interface PolicyContext {
   tenant_id: string;
@@ -48,6 +51,8 @@ export interface PolicyContext {
     };
   };
   templateVars?: Record<string, string>;
+  /** Clock for schedule conditions. Defaults to the current time. */
+  now?: Date;
   provenance?: {
     source?: string;
     publisher?: string;
@@ -60,7 +65,16 @@ export interface PolicyContext {
 
 export interface ConditionDetail {
   field: string;
-  operator: ConditionOperator | 'min_cost' | 'max_cost' | 'capability';
+  operator:
+    | ConditionOperator
+    | 'min_cost'
+    | 'max_cost'
+    | 'capability'
+    | 'schedule'
+    | 'rate_limit'
+    | 'all'
+    | 'any'
+    | 'not';
   expected: unknown;
   actual: unknown;
   result: boolean;
@@ -72,15 +86,41 @@ export interface PolicyDecisionTrace {
   decision?: PolicyDecision;
   explanation?: string;
   condition_details?: ConditionDetail[];
+  /** Set for shadow-mode policies (their decision is never enforced). */
+  mode?: 'shadow';
+}
+
+/** Would-be outcome of matched shadow-mode policies. */
+export interface PolicyShadowResult {
+  /** Decision the enforced policies produced. */
+  enforced_decision: PolicyDecision;
+  /** Decision if every matched shadow policy were enforced. */
+  decision: PolicyDecision;
+  flipped: boolean;
+  /** Each matched shadow policy, and whether enforcing it alone would flip the decision. */
+  policies: Array<{ policy_id: string; decision: PolicyDecision; flipped: boolean }>;
 }
 
 export interface PolicyEvaluationResult {
   decision: PolicyDecision;
+  /** Matched enforced policies (shadow policies are listed under `shadow`). */
   matched_policies: string[];
   decision_trace: PolicyDecisionTrace[];
   explanation?: string;
   /** SHA-256 hash of the policy bundle at evaluation time (for deterministic replay). */
   policy_bundle_hash?: string;
+  /** Present when at least one shadow-mode policy matched. */
+  shadow?: PolicyShadowResult;
+  /** Approval requirements of the winning require_approval policy. */
+  approval?: PolicyApproval;
+}
+
+export interface EvaluatePoliciesOptions {
+  /**
+   * Evaluate this policy bundle instead of the tenant's live policies (used by
+   * backtests). Disabled policies are ignored; the bundle is not snapshotted.
+   */
+  policies?: PolicyObject[];
 }
 
 function scopeMatches(policy: PolicyObject, ctx: PolicyContext): boolean {
@@ -117,8 +157,44 @@ function subjectMatches(policy: PolicyObject, ctx: PolicyContext): boolean {
   return true;
 }
 
-function conditionsMatch(policy: PolicyObject, ctx: PolicyContext): boolean {
-  const conditions = (policy.conditions || {}) as Record<string, unknown>;
+function isConditionBlock(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read the sliding-window count for a rate_limit condition and record it as a
+ * detail (the execution path records usage from these details afterwards).
+ */
+function evaluateRateLimitCondition(
+  conditions: Record<string, unknown>,
+  ctx: PolicyContext,
+  policyId: string,
+  details: ConditionDetail[],
+  prefix: string
+): boolean {
+  const field = `${prefix}rate_limit`;
+  const { result, observation } = evaluateRateLimit({
+    condition: conditions.rate_limit,
+    policyId,
+    field,
+    subject: ctx,
+    now: ctx.now,
+  });
+  details.push({ field, operator: 'rate_limit', expected: conditions.rate_limit, actual: observation, result });
+  return result;
+}
+
+/**
+ * Legacy matcher (operators disabled). Only rate_limit conditions add details,
+ * since their counts must still reach the trace.
+ */
+function conditionsMatch(
+  conditions: Record<string, unknown>,
+  ctx: PolicyContext,
+  policyId: string,
+  details: ConditionDetail[],
+  prefix = ''
+): boolean {
   if (
     conditions.adapter_risk_class &&
     (typeof conditions.adapter_risk_class !== 'string' ||
@@ -176,6 +252,12 @@ function conditionsMatch(policy: PolicyObject, ctx: PolicyContext): boolean {
     (ctx.estimated_cost ?? 0) > conditions.max_cost
   )
     return false;
+  if (
+    conditions.estimated_cost !== undefined &&
+    (typeof conditions.estimated_cost !== 'number' || conditions.estimated_cost !== ctx.estimated_cost)
+  ) {
+    return false;
+  }
   if (
     conditions.capability &&
     (typeof conditions.capability !== 'string' ||
@@ -242,6 +324,41 @@ function conditionsMatch(policy: PolicyObject, ctx: PolicyContext): boolean {
       return false;
     }
   }
+  if (conditions.schedule !== undefined && !evaluateSchedule(conditions.schedule, ctx.now ?? new Date(), config.defaultTimezone).result) {
+    return false;
+  }
+  if (
+    conditions.all !== undefined &&
+    (!Array.isArray(conditions.all) ||
+      conditions.all.length === 0 ||
+      !conditions.all.every(
+        (branch, i) => isConditionBlock(branch) && conditionsMatch(branch, ctx, policyId, details, `${prefix}all[${i}].`)
+      ))
+  ) {
+    return false;
+  }
+  if (
+    conditions.any !== undefined &&
+    (!Array.isArray(conditions.any) ||
+      !conditions.any.some(
+        (branch, i) => isConditionBlock(branch) && conditionsMatch(branch, ctx, policyId, details, `${prefix}any[${i}].`)
+      ))
+  ) {
+    return false;
+  }
+  if (
+    conditions.not !== undefined &&
+    (!isConditionBlock(conditions.not) ||
+      conditionsMatch(conditions.not, ctx, policyId, details, `${prefix}not.`))
+  ) {
+    return false;
+  }
+  if (
+    conditions.rate_limit !== undefined &&
+    !evaluateRateLimitCondition(conditions, ctx, policyId, details, prefix)
+  ) {
+    return false;
+  }
   return true;
 }
 
@@ -293,12 +410,18 @@ function evaluateConditionField(
   return result;
 }
 
-function conditionsMatchExtended(
-  policy: PolicyObject,
-  ctx: PolicyContext
-): { matched: boolean; details: ConditionDetail[] } {
-  const conditions = (policy.conditions || {}) as Record<string, unknown>;
-  const details: ConditionDetail[] = [];
+/**
+ * Evaluate one condition block (implicit AND across its fields), recursing into
+ * `all` / `any` / `not`. Nested fields are reported with their path, e.g.
+ * `any[1].context.elevated_privileges`, so the trace shows which branch matched.
+ */
+function evaluateConditionBlock(
+  conditions: Record<string, unknown>,
+  ctx: PolicyContext,
+  details: ConditionDetail[],
+  prefix: string,
+  policyId: string
+): boolean {
   const templateVars = ctx.templateVars || {};
   const contextPaths = getPathArray(ctx.context);
 
@@ -314,6 +437,7 @@ function conditionsMatchExtended(
     { field: 'tenant_id', condition: conditions.tenant_id, actual: ctx.tenant_id },
     { field: 'workspace_id', condition: conditions.workspace_id, actual: ctx.workspace_id },
     { field: 'intent', condition: conditions.intent, actual: ctx.intent },
+    { field: 'estimated_cost', condition: conditions.estimated_cost, actual: ctx.estimated_cost },
     { field: 'agent_id', condition: conditions.agent_id, actual: ctx.agent_id },
     { field: 'agent_role', condition: conditions.agent_role, actual: ctx.agent_role },
     { field: 'provenance.source', condition: (conditions.provenance as Record<string, unknown> | undefined)?.source, actual: ctx.provenance?.source },
@@ -332,8 +456,8 @@ function conditionsMatchExtended(
 
   for (const item of fieldMap) {
     if (item.condition === undefined) continue;
-    if (!evaluateConditionField(item.field, item.condition, item.actual, templateVars, details)) {
-      return { matched: false, details };
+    if (!evaluateConditionField(`${prefix}${item.field}`, item.condition, item.actual, templateVars, details)) {
+      return false;
     }
   }
 
@@ -341,16 +465,16 @@ function conditionsMatchExtended(
     const expected = conditions.min_cost;
     const actual = ctx.estimated_cost ?? 0;
     const result = typeof expected === 'number' && actual >= expected;
-    details.push({ field: 'min_cost', operator: 'min_cost', expected, actual, result });
-    if (!result) return { matched: false, details };
+    details.push({ field: `${prefix}min_cost`, operator: 'min_cost', expected, actual, result });
+    if (!result) return false;
   }
 
   if (conditions.max_cost !== undefined) {
     const expected = conditions.max_cost;
     const actual = ctx.estimated_cost ?? 0;
     const result = typeof expected === 'number' && actual <= expected;
-    details.push({ field: 'max_cost', operator: 'max_cost', expected, actual, result });
-    if (!result) return { matched: false, details };
+    details.push({ field: `${prefix}max_cost`, operator: 'max_cost', expected, actual, result });
+    if (!result) return false;
   }
 
   if (conditions.capability !== undefined) {
@@ -360,23 +484,100 @@ function conditionsMatchExtended(
       typeof expected === 'string' &&
       Array.isArray(actual) &&
       actual.includes(expected);
-    details.push({ field: 'capability', operator: 'capability', expected, actual, result });
-    if (!result) return { matched: false, details };
+    details.push({ field: `${prefix}capability`, operator: 'capability', expected, actual, result });
+    if (!result) return false;
   }
 
   for (const [key, value] of Object.entries(conditions)) {
     if (!key.includes('.')) continue;
     if (!isSafeDottedPath(key)) {
-      details.push({ field: key, operator: 'eq', expected: value, actual: undefined, result: false });
-      return { matched: false, details };
+      details.push({ field: `${prefix}${key}`, operator: 'eq', expected: value, actual: undefined, result: false });
+      return false;
     }
     const actual = getNestedValue(ctx, key);
-    if (!evaluateConditionField(key, value, actual, templateVars, details)) {
-      return { matched: false, details };
+    if (!evaluateConditionField(`${prefix}${key}`, value, actual, templateVars, details)) {
+      return false;
+    }
+  }
+
+  if (conditions.schedule !== undefined) {
+    const { result, moment } = evaluateSchedule(conditions.schedule, ctx.now ?? new Date(), config.defaultTimezone);
+    details.push({ field: `${prefix}schedule`, operator: 'schedule', expected: conditions.schedule, actual: moment, result });
+    if (!result) return false;
+  }
+
+  if (conditions.all !== undefined) {
+    const branches = Array.isArray(conditions.all) ? conditions.all : [];
+    const matchedBranches: number[] = [];
+    let result = branches.length > 0;
+    for (let i = 0; i < branches.length; i++) {
+      const branch = branches[i];
+      const branchMatched =
+        isConditionBlock(branch) && evaluateConditionBlock(branch, ctx, details, `${prefix}all[${i}].`, policyId);
+      if (!branchMatched) {
+        result = false;
+        break;
+      }
+      matchedBranches.push(i);
     }
+    details.push({ field: `${prefix}all`, operator: 'all', expected: branches.length, actual: matchedBranches, result });
+    if (!result) return false;
   }
 
-  return { matched: true, details };
+  if (conditions.any !== undefined) {
+    // Every branch is evaluated (no short-circuit) so the trace records each one.
+    const branches = Array.isArray(conditions.any) ? conditions.any : [];
+    const matchedBranches: number[] = [];
+    for (let i = 0; i < branches.length; i++) {
+      const branch = branches[i];
+      if (isConditionBlock(branch) && evaluateConditionBlock(branch, ctx, details, `${prefix}any[${i}].`, policyId)) {
+        matchedBranches.push(i);
+      }
+    }
+    const result = matchedBranches.length > 0;
+    details.push({ field: `${prefix}any`, operator: 'any', expected: branches.length, actual: matchedBranches, result });
+    if (!result) return false;
+  }
+
+  if (conditions.not !== undefined) {
+    const innerMatched =
+      isConditionBlock(conditions.not) && evaluateConditionBlock(conditions.not, ctx, details, `${prefix}not.`, policyId);
+    const result = isConditionBlock(conditions.not) && !innerMatched;
+    details.push({ field: `${prefix}not`, operator: 'not', expected: false, actual: innerMatched, result });
+    if (!result) return false;
+  }
+
+  // Evaluated last so a counter is only read (and later charged) once every
+  // other condition in the block matched.
+  if (conditions.rate_limit !== undefined) {
+    if (!evaluateRateLimitCondition(conditions, ctx, policyId, details, prefix)) return false;
+  }
+
+  return true;
+}
+
+function conditionsMatchLegacy(
+  policy: PolicyObject,
+  ctx: PolicyContext
+): { matched: boolean; details: ConditionDetail[] } {
+  const details: ConditionDetail[] = [];
+  const matched = conditionsMatch((policy.conditions || {}) as Record<string, unknown>, ctx, policy.policy_id, details);
+  return { matched, details };
+}
+
+function conditionsMatchExtended(
+  policy: PolicyObject,
+  ctx: PolicyContext
+): { matched: boolean; details: ConditionDetail[] } {
+  const details: ConditionDetail[] = [];
+  const matched = evaluateConditionBlock(
+    (policy.conditions || {}) as Record<string, unknown>,
+    ctx,
+    details,
+    '',
+    policy.policy_id
+  );
+  return { matched, details };
 }
 
 function deriveConditionExplanation(trace: ConditionDetail[]): string | undefined {
@@ -393,40 +594,86 @@ function deriveConditionExplanation(trace: ConditionDetail[]): string | undefine
   return undefined;
 }
 
-function specificityScore(policy: PolicyObject): number {
+export function specificityScore(policy: PolicyObject): number {
   const scope = policy.scope || {};
   if (scope.workspace_id && scope.environment) return 3;
   if (scope.environment) return 2;
   return 1;
 }
 
-function decisionRank(decision: PolicyDecision): number {
+export function decisionRank(decision: PolicyDecision): number {
   if (decision === 'deny') return 3;
   if (decision === 'require_approval') return 2;
   return 1;
 }
 
-export function evaluatePolicies(ctx: PolicyContext): PolicyEvaluationResult {
-  const policies = listPolicies({
-    tenantId: ctx.tenant_id,
-    workspaceId: ctx.workspace_id,
-    environment: ctx.environment,
-    enabled: true,
-  });
+/**
+ * Order two matching policies by priority: precedence, then scope specificity,
+ * then the more restrictive decision. Negative when `a` wins.
+ */
+export function comparePolicyPriority(a: PolicyObject, b: PolicyObject): number {
+  const precA = a.precedence ?? 0;
+  const precB = b.precedence ?? 0;
+  if (precA !== precB) return precB - precA;
+  const specA = specificityScore(a);
+  const specB = specificityScore(b);
+  if (specA !== specB) return specB - specA;
+  return decisionRank(b.effect.decision) - decisionRank(a.effect.decision);
+}
+
+/**
+ * Policies of a caller-supplied bundle in the context's workspace/environment,
+ * in evaluation order. Every one of them is a candidate.
+ */
+function selectBundleCandidates(
+  ctx: PolicyContext,
+  bundle: PolicyObject[]
+): { scoped: PolicyObject[]; candidates: PolicyObject[]; bundleHash: string } {
+  const scoped = bundle
+    .filter((policy) => policy.enabled !== false)
+    .filter((policy) => !ctx.workspace_id || !policy.scope?.workspace_id || policy.scope.workspace_id === ctx.workspace_id)
+    .filter((policy) => !ctx.environment || !policy.scope?.environment || policy.scope.environment === ctx.environment)
+    .sort((a, b) => (b.precedence ?? 0) - (a.precedence ?? 0));
+  const bundleHash = hashPolicyBundle(scoped as unknown as Record<string, unknown>[]);
+  return { scoped, candidates: scoped, bundleHash };
+}
+
+/**
+ * Evaluate the tenant's enabled policies. Only candidate policies from the
+ * compiled index (policyIndex.ts) are scanned; every other policy in the
+ * workspace/environment scope is listed as skipped in the decision trace
+ * without evaluating it. The bundle hash covers the whole scope.
+ */
+export function evaluatePolicies(ctx: PolicyContext, options: EvaluatePoliciesOptions = {}): PolicyEvaluationResult {
+  const {
+    scoped: policies,
+    candidates,
+    bundleHash: policyBundleHash,
+  } = options.policies ? selectBundleCandidates(ctx, options.policies) : selectPolicyCandidates(ctx);
 
   const decisionTrace: PolicyDecisionTrace[] = [];
   const matched: PolicyObject[] = [];
+  const candidateSet = new Set<PolicyObject>(candidates);
 
   for (const policy of policies) {
+    if (!candidateSet.has(policy)) {
+      decisionTrace.push(
+        policy.mode === 'shadow'
+          ? { policy_id: policy.policy_id, result: 'skipped', mode: 'shadow' }
+          : { policy_id: policy.policy_id, result: 'skipped' }
+      );
+      continue;
+    }
     const inScope = scopeMatches(policy, ctx);
     const subjectMatch = inScope ? subjectMatches(policy, ctx) : false;
     const conditionResult =
       inScope && subjectMatch
         ? config.policyOperatorsEnabled
           ? conditionsMatchExtended(policy, ctx)
-          : { matched: conditionsMatch(policy, ctx), details: [] }
+          : conditionsMatchLegacy(policy, ctx)
         : { matched: false, details: [] };
     const isMatch = inScope && subjectMatch && conditionResult.matched;
+    const mode = policy.mode === 'shadow' ? { mode: 'shadow' as const } : {};
     if (isMatch) {
       const explanation = policy.explanation || deriveConditionExplanation(conditionResult.details);
       matched.push(policy);
@@ -436,76 +683,78 @@ export function evaluatePolicies(ctx: PolicyContext): PolicyEvaluationResult {
         decision: policy.effect.decision,
         explanation,
         condition_details: conditionResult.details,
+        ...mode,
       });
     } else {
       decisionTrace.push({
         policy_id: policy.policy_id,
         result: 'skipped',
         condition_details: conditionResult.details.length > 0 ? conditionResult.details : undefined,
+        ...mode,
       });
     }
   }
 
-  const policyBundleHash = hashPolicyBundle(policies as unknown as Record<string, unknown>[]);
+  const enforcedPolicies = policies.filter((policy) => policy.mode !== 'shadow');
+  const enforced = matched.filter((policy) => policy.mode !== 'shadow');
+  const outcome = resolveOutcome(ctx, enforced, enforcedPolicies);
+  const winnerTrace = outcome.winner
+    ? decisionTrace.find((entry) => entry.policy_id === outcome.winner!.policy_id && entry.result === 'matched')
+    : undefined;
+  const result: PolicyEvaluationResult = {
+    decision: outcome.decision,
+    matched_policies: enforced.map((p) => p.policy_id),
+    decision_trace: decisionTrace,
+    explanation: outcome.winner
+      ? outcome.winner.explanation || winnerTrace?.explanation || deriveConditionExplanation(winnerTrace?.condition_details || [])
+      : outcome.explanation,
+    policy_bundle_hash: policyBundleHash,
+  };
+  if (outcome.decision === 'require_approval' && outcome.winner?.effect.approval) {
+    result.approval = outcome.winner.effect.approval;
+  }
+
+  const shadowMatched = matched.filter((policy) => policy.mode === 'shadow');
+  if (shadowMatched.length > 0) {
+    const decision = resolveOutcome(ctx, matched, policies).decision;
+    result.shadow = {
+      enforced_decision: outcome.decision,
+      decision,
+      flipped: decision !== outcome.decision,
+      policies: shadowMatched.map((policy) => {
+        const alone = resolveOutcome(ctx, [...enforced, policy], enforcedPolicies).decision;
+        return { policy_id: policy.policy_id, decision: policy.effect.decision, flipped: alone !== outcome.decision };
+      }),
+    };
+  }
+  return result;
+}
 
+/**
+ * Pick the winning policy among matched ones, or apply the no-match behavior of
+ * the governance mode in effect for the context's scope (guarded mode looks for
+ * a fallback policy in `scoped`).
+ */
+function resolveOutcome(
+  ctx: PolicyContext,
+  matched: PolicyObject[],
+  scoped: PolicyObject[]
+): { decision: PolicyDecision; winner?: PolicyObject; explanation?: string } {
   if (matched.length === 0) {
-    const mode = config.mode;
-    if (mode === 'permissive') {
-      return {
-        decision: 'allow',
-        matched_policies: [],
-        decision_trace: decisionTrace,
-        explanation: 'No matching policy',
-        policy_bundle_hash: policyBundleHash,
-      };
-    }
+    const { mode } = resolveGovernanceMode({
+      tenantId: ctx.tenant_id,
+      workspaceId: ctx.workspace_id,
+      environment: ctx.environment,
+    });
     if (mode === 'strict') {
-      return {
-        decision: 'deny',
-        matched_policies: [],
-        decision_trace: decisionTrace,
-        explanation: 'No matching policy (strict mode)',
-        policy_bundle_hash: policyBundleHash,
-      };
+      return { decision: 'deny', explanation: 'No matching policy (strict mode)' };
     }
-    if (mode === 'guarded') {
-      const fallbackPresent = hasFallbackPolicy(policies);
-      if (!fallbackPresent) {
-        return {
-          decision: 'deny',
-          matched_policies: [],
-          decision_trace: decisionTrace,
-          explanation: 'No matching policy; guarded mode requires fallback policy',
-          policy_bundle_hash: policyBundleHash,
-        };
-      }
-      return {
-        decision: 'allow',
-        matched_policies: [],
-        decision_trace: decisionTrace,
-        explanation: 'No matching policy',
-        policy_bundle_hash: policyBundleHash,
-      };
+    if (mode === 'guarded' && !hasFallbackPolicy(scoped)) {
+      return { decision: 'deny', explanation: 'No matching policy; guarded mode requires fallback policy' };
     }
+    return { decision: 'allow', explanation: 'No matching policy' };
   }
 
-  const sorted = [...matched].sort((a, b) => {
-    const precA = a.precedence ?? 0;
-    const precB = b.precedence ?? 0;
-    if (precA !== precB) return precB - precA;
-    const specA = specificityScore(a);
-    const specB = specificityScore(b);
-    if (specA !== specB) return specB - specA;
-    return decisionRank(b.effect.decision) - decisionRank(a.effect.decision);
-  });
-
-  const winner = sorted[0];
-  const winnerTrace = decisionTrace.find((entry) => entry.policy_id === winner.policy_id && entry.result === 'matched');
-  return {
-    decision: winner.effect.decision,
-    matched_policies: matched.map((p) => p.policy_id),
-    decision_trace: decisionTrace,
-    explanation: winner.explanation || winnerTrace?.explanation || deriveConditionExplanation(winnerTrace?.condition_details || []),
-    policy_bundle_hash: policyBundleHash,
-  };
+  const winner = [...matched].sort(comparePolicyPriority)[0];
+  return { decision: winner.effect.decision, winner };
 }
@@ -0,0 +1,183 @@
+/**
+ * Policy files
+ *
+ * Loads policies from a YAML file or a directory of YAML files (config.policyPath).
+ * Each file holds a list of policies, a single policy, or `{ policies: [...] }`.
+ * Loading only parses and validates; reconciling into the store is policySync.ts.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { extname, isAbsolute, join, relative } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { PolicySchema, type PolicyObject } from './policySchema.js';
+
+const POLICY_FILE_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+export interface PolicyFileEntry {
+  policy: PolicyObject;
+  /** File the policy was loaded from (relative to the working directory when inside it). */
+  source_path: string;
+}
+
+export interface PolicyFileIssue {
+  source_path: string;
+  index?: number;
+  policy_id?: string;
+  message: string;
+}
+
+export interface PolicyFileLoadResult {
+  path: string;
+  files: string[];
+  policies: PolicyFileEntry[];
+  issues: PolicyFileIssue[];
+}
+
+export class PolicyFileError extends Error {
+  readonly issues: PolicyFileIssue[];
+
+  constructor(issues: PolicyFileIssue[]) {
+    super(`Invalid policy files: ${issues.map(formatPolicyFileIssue).join('; ')}`);
+    this.name = 'PolicyFileError';
+    this.issues = issues;
+  }
+}
+
+export function formatPolicyFileIssue(issue: PolicyFileIssue): string {
+  const where = [
+    issue.source_path,
+    issue.index !== undefined ? `#${issue.index}` : null,
+    issue.policy_id ? `(${issue.policy_id})` : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return `${where}: ${issue.message}`;
+}
+
+function displayPath(file: string): string {
+  const rel = relative(process.cwd(), file);
+  return rel && !rel.startsWith('..') && !isAbsolute(rel) ? rel : file;
+}
+
+function collectPolicyFiles(dir: string, out: string[]): void {
+  const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      collectPolicyFiles(full, out);
+    } else if (entry.isFile() && POLICY_FILE_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      out.push(full);
+    }
+  }
+}
+
+/**
+ * List the YAML files under a policy path (a single file or a directory, recursively).
+ */
+export function listPolicyFiles(path: string): string[] {
+  if (!existsSync(path)) return [];
+  if (!statSync(path).isDirectory()) return [path];
+  const files: string[] = [];
+  collectPolicyFiles(path, files);
+  return files;
+}
+
+function documentPolicies(doc: unknown): unknown[] | null {
+  if (doc === null || doc === undefined) return [];
+  if (Array.isArray(doc)) return doc;
+  if (typeof doc === 'object') {
+    const policies = (doc as Record<string, unknown>).policies;
+    if (Array.isArray(policies)) return policies;
+    if ('policy_id' in (doc as Record<string, unknown>)) return [doc];
+  }
+  return null;
+}
+
+/**
+ * Validate raw policies (as read from files) against PolicySchema.
+ * Policy IDs must be unique across all entries.
+ */
+export function validatePolicyFileEntries(
+  items: Array<{ source_path: string; index?: number; policy?: unknown }>
+): { policies: PolicyFileEntry[]; issues: PolicyFileIssue[] } {
+  const policies: PolicyFileEntry[] = [];
+  const issues: PolicyFileIssue[] = [];
+  const seen = new Map<string, string>();
+
+  for (const item of items) {
+    const raw = item.policy;
+    const policyId =
+      raw && typeof raw === 'object' && typeof (raw as Record<string, unknown>).policy_id === 'string'
+        ? ((raw as Record<string, unknown>).policy_id as string)
+        : undefined;
+    const parsed = PolicySchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const at = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+        issues.push({
+          source_path: item.source_path,
+          index: item.index,
+          policy_id: policyId,
+          message: `${at}${issue.message}`,
+        });
+      }
+      continue;
+    }
+    const firstSeen = seen.get(parsed.data.policy_id);
+    if (firstSeen) {
+      issues.push({
+        source_path: item.source_path,
+        index: item.index,
+        policy_id: parsed.data.policy_id,
+        message: `Duplicate policy_id (also defined in ${firstSeen})`,
+      });
+      continue;
+    }
+    seen.set(parsed.data.policy_id, item.source_path);
+    policies.push({ policy: parsed.data, source_path: item.source_path });
+  }
+
+  return { policies, issues };
+}
+
+/**
+ * Parse and validate every policy under `path` (see validatePolicyFileEntries).
+ */
+export function loadPolicyFiles(path: string): PolicyFileLoadResult {
+  const result: PolicyFileLoadResult = { path, files: [], policies: [], issues: [] };
+  if (!existsSync(path)) {
+    result.issues.push({ source_path: path, message: 'Policy path not found' });
+    return result;
+  }
+
+  const items: Array<{ source_path: string; index: number; policy: unknown }> = [];
+  for (const file of listPolicyFiles(path)) {
+    const sourcePath = displayPath(file);
+    result.files.push(sourcePath);
+
+    let doc: unknown;
+    try {
+      doc = parseYaml(readFileSync(file, 'utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.issues.push({ source_path: sourcePath, message: `Invalid YAML: ${message}` });
+      continue;
+    }
+
+    const policies = documentPolicies(doc);
+    if (!policies) {
+      result.issues.push({
+        source_path: sourcePath,
+        message: 'Expected a list of policies, a policy, or { policies: [...] }',
+      });
+      continue;
+    }
+    policies.forEach((policy, index) => items.push({ source_path: sourcePath, index, policy }));
+  }
+
+  const validated = validatePolicyFileEntries(items);
+  result.policies = validated.policies;
+  result.issues.push(...validated.issues);
+  return result;
+}
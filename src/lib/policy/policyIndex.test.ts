@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../core/config.js';
+import { getDatabase, initDatabase, resetDatabase } from '../core/db.js';
+import { hashPolicyBundle } from '../governance/wizardMeta.js';
+import { evaluatePolicies } from './policyEngine.js';
+import { getPolicyIndex, invalidatePolicyIndex, policyIndexKeys, selectPolicyCandidates } from './policyIndex.js';
+import type { PolicyObject } from './policySchema.js';
+import { deletePolicy, listPolicies, setPolicyEnabled, upsertPolicy, type PolicyRecord } from './policyStore.js';
+
+const originalPolicyOperatorsEnabled = config.policyOperatorsEnabled;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.policyOperatorsEnabled = true;
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  config.policyOperatorsEnabled = originalPolicyOperatorsEnabled;
+});
+
+function policy(partial: Partial<PolicyObject> & { policy_id: string }): PolicyObject {
+  return { subject: { type: 'tool' }, effect: { decision: 'deny' }, ...partial };
+}
+
+function candidateIds(ctx: Parameters<typeof selectPolicyCandidates>[0]): string[] {
+  return selectPolicyCandidates(ctx).candidates.map((p) => p.policy_id);
+}
+
+/** 5,000 tool-scoped policies (plus one generic policy in fifty) in tenant `bench`. */
+function seedBenchPolicies(): void {
+  const db = getDatabase();
+  const insert = db.prepare(
+    `INSERT INTO policies (tenant_id, policy_id, precedence, enabled, policy_json, created_at, updated_at)
+     VALUES (?, ?, ?, 1, ?, ?, ?)`
+  );
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (let i = 0; i < 5000; i += 1) {
+      const body =
+        i % 50 === 0
+          ? policy({
+              policy_id: `generic-${i}`,
+              conditions: { 'context.exec.argv0': { in: [`bin-${i}`] } },
+              precedence: i % 7,
+            })
+          : policy({
+              policy_id: `tool-${i}`,
+              subject: { type: 'tool', name: `tool-${i % 1000}` },
+              conditions: { 'context.exec.argv0': { prefix: `cmd-${i}` } },
+              effect: { decision: i % 3 === 0 ? 'require_approval' : 'deny' },
+              precedence: i % 7,
+            });
+      const record = { ...body, scope: { tenant_id: 'bench' }, enabled: true, precedence: body.precedence ?? 0 };
+      insert.run('bench', body.policy_id, record.precedence, JSON.stringify(record), now, now);
+    }
+  })();
+  invalidatePolicyIndex('bench');
+}
+
+describe('policy index', () => {
+  it('derives index keys from subject names and tool conditions', () => {
+    const keys = (p: PolicyObject) => policyIndexKeys(p as PolicyRecord);
+    expect(keys(policy({ policy_id: 'a', subject: { type: 'tool', name: 'exec' } }))).toEqual(['tool:exec']);
+    expect(keys(policy({ policy_id: 'b', subject: { type: 'agent', name: 'ops' } }))).toEqual(['agent:ops']);
+    expect(keys(policy({ policy_id: 'c', conditions: { tool: { in: ['exec', 'shell'] } } }))).toEqual([
+      'tool:exec',
+      'tool:shell',
+    ]);
+    expect(keys(policy({ policy_id: 'd', conditions: { tool_group: 'web' } }))).toEqual(['tool_group:web']);
+    expect(keys(policy({ policy_id: 'e', conditions: { tool: { prefix: 'fs.' } } }))).toEqual([]);
+    expect(keys(policy({ policy_id: 'f', conditions: { tool: '{{workspace.tool}}' } }))).toEqual([]);
+  });
+
+  it('selects only candidate policies, in evaluation order', () => {
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'exec', subject: { type: 'tool', name: 'exec' }, precedence: 5 }) });
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'fetch', conditions: { tool: 'web_fetch' } }) });
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'web', conditions: { tool_group: 'web' }, precedence: 1 }) });
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'any', conditions: { tool: { prefix: 'e' } }, precedence: 10 }) });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: policy({ policy_id: 'other-ws', scope: { workspace_id: 'w2' }, subject: { type: 'tool', name: 'exec' } }),
+    });
+
+    expect(candidateIds({ tenant_id: 't1', workspace_id: 'w1', tool: 'exec' })).toEqual(['any', 'exec']);
+    expect(candidateIds({ tenant_id: 't1', workspace_id: 'w1', tool: 'web_fetch', tool_group: 'web' })).toEqual([
+      'any',
+      'web',
+      'fetch',
+    ]);
+    expect(candidateIds({ tenant_id: 't1', workspace_id: 'w2', tool: 'exec' })).toContain('other-ws');
+
+    // Policies that are not candidates are still traced, as skipped.
+    const result = evaluatePolicies({ tenant_id: 't1', workspace_id: 'w1', tool: 'exec' });
+    expect(result.decision_trace).toEqual([
+      expect.objectContaining({ policy_id: 'any', result: 'matched' }),
+      expect.objectContaining({ policy_id: 'exec', result: 'matched' }),
+      { policy_id: 'web', result: 'skipped' },
+      { policy_id: 'fetch', result: 'skipped' },
+    ]);
+    expect(result.matched_policies).toEqual(['any', 'exec']);
+  });
+
+  it('keeps the bundle hash over every policy in scope', () => {
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'exec', subject: { type: 'tool', name: 'exec' } }) });
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'fetch', subject: { type: 'tool', name: 'web_fetch' } }) });
+
+    const result = evaluatePolicies({ tenant_id: 't1', workspace_id: 'w1', tool: 'exec' });
+    const scoped = listPolicies({ tenantId: 't1', workspaceId: 'w1', enabled: true });
+    expect(result.policy_bundle_hash).toBe(hashPolicyBundle(scoped as unknown as Record<string, unknown>[]));
+    expect(result.decision_trace).toHaveLength(2);
+    expect(result.decision_trace).toContainEqual({ policy_id: 'fetch', result: 'skipped' });
+  });
+
+  it('invalidates the compiled index on policy writes', () => {
+    upsertPolicy({ tenantId: 't1', policy: policy({ policy_id: 'exec', subject: { type: 'tool', name: 'exec' } }) });
+    const first = getPolicyIndex('t1');
+    expect(getPolicyIndex('t1')).toBe(first);
+
+    setPolicyEnabled({ tenantId: 't1', policyId: 'exec', enabled: false });
+    const disabled = getPolicyIndex('t1');
+    expect(disabled.version).toBeGreaterThan(first.version);
+    expect(evaluatePolicies({ tenant_id: 't1', tool: 'exec' }).decision).toBe('allow');
+
+    setPolicyEnabled({ tenantId: 't1', policyId: 'exec', enabled: true });
+    expect(evaluatePolicies({ tenant_id: 't1', tool: 'exec' }).decision).toBe('deny');
+
+    deletePolicy({ tenantId: 't1', policyId: 'exec' });
+    expect(evaluatePolicies({ tenant_id: 't1', tool: 'exec' }).decision).toBe('allow');
+  });
+
+  it('evaluates only indexed candidates with 5,000 policies', () => {
+    seedBenchPolicies();
+
+    for (let i = 0; i < 50; i += 1) {
+      const result = evaluatePolicies({
+        tenant_id: 'bench',
+        workspace_id: 'local',
+        tool: `tool-${(i * 37) % 1000}`,
+        context: { exec: { argv0: `cmd-${i}` } },
+      });
+      // Every policy is traced, but only the 4-5 subject-indexed policies per tool
+      // plus the 100 generic ones have their conditions evaluated.
+      expect(result.decision_trace).toHaveLength(5000);
+      expect(result.decision_trace.filter((t) => t.condition_details).length).toBeLessThan(110);
+    }
+  });
+
+  // Timing-sensitive: run with BENCH=1 (`npm run bench:policy-index` prints the full breakdown).
+  it.skipIf(!process.env.BENCH)('evaluates 5,000 policies with a low p99 latency', () => {
+    seedBenchPolicies();
+    // The first evaluation compiles the index and hashes the bundle; measure steady state.
+    evaluatePolicies({ tenant_id: 'bench', workspace_id: 'local', tool: 'tool-0' });
+    const samples: number[] = [];
+    for (let i = 0; i < 500; i += 1) {
+      const started = performance.now();
+      evaluatePolicies({
+        tenant_id: 'bench',
+        workspace_id: 'local',
+        tool: `tool-${(i * 37) % 1000}`,
+        context: { exec: { argv0: `cmd-${i}` } },
+      });
+      samples.push(performance.now() - started);
+    }
+    samples.sort((a, b) => a - b);
+    expect(samples[Math.floor(samples.length * 0.99)]).toBeLessThan(50);
+  });
+});
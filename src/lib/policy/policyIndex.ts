@@ -0,0 +1,219 @@
+/**
+ * Compiled policy index
+ *
+ * Caches each tenant's enabled policies in memory, pre-indexed by subject
+ * (type + name), conditions.tool and conditions.tool_group, so evaluation only
+ * scans candidate policies. The index is versioned and rebuilt lazily after a
+ * policy write (policy.* events on the EventBus) or a write from another
+ * connection (SQLite data_version).
+ */
+
+import { getDatabase } from '../core/db.js';
+import { getEventBus, type ClasperEvent, type EventBus } from '../core/eventBus.js';
+import { hashPolicyBundle } from '../governance/wizardMeta.js';
+import { inPolicyBundleScope, storePolicyBundle } from './policyRevisions.js';
+import { listPolicies, type PolicyRecord } from './policyStore.js';
+
+/** Context fields the index keys on (a subset of PolicyContext). */
+export interface PolicyIndexContext {
+  tenant_id: string;
+  workspace_id?: string;
+  environment?: string;
+  tool?: string;
+  tool_group?: string;
+  adapter_id?: string;
+  skill_state?: string;
+  risk_level?: string;
+  agent_id?: string;
+  agent_role?: string;
+}
+
+export interface CompiledPolicyIndex {
+  tenant_id: string;
+  version: number;
+  /** Enabled policies in evaluation order (precedence DESC, updated_at DESC). */
+  policies: PolicyRecord[];
+  /** Policies keyed by an index key (e.g. `tool:exec`), in evaluation order. */
+  buckets: Map<string, number[]>;
+  /** Policies that can match any context (no indexable constraint). */
+  wildcard: number[];
+  /** Bundle hash per workspace/environment scope, computed on first use. */
+  bundles: Map<string, { policies: PolicyRecord[]; hash: string }>;
+}
+
+export interface PolicyCandidates {
+  /** Every enabled policy in the context's workspace/environment (the bundle). */
+  scoped: PolicyRecord[];
+  /** The subset that could match this context, in evaluation order. */
+  candidates: PolicyRecord[];
+  bundleHash: string;
+  version: number;
+}
+
+const SUBJECT_CONTEXT_FIELDS: Record<string, Array<keyof PolicyIndexContext>> = {
+  tool: ['tool'],
+  adapter: ['adapter_id'],
+  skill: ['skill_state'],
+  environment: ['environment'],
+  risk: ['risk_level'],
+  agent: ['agent_id', 'agent_role'],
+};
+
+const cache = new Map<string, CompiledPolicyIndex>();
+let version = 0;
+let subscribedBus: EventBus | null = null;
+let unsubscribe: (() => void) | null = null;
+let cachedDatabase: unknown = null;
+let cachedDataVersion: number | null = null;
+
+/**
+ * Drop the compiled index for one tenant (or all tenants).
+ */
+export function invalidatePolicyIndex(tenantId?: string): void {
+  version += 1;
+  if (tenantId) {
+    cache.delete(tenantId);
+  } else {
+    cache.clear();
+  }
+}
+
+function onPolicyEvent(event: ClasperEvent): void {
+  if (event.type.startsWith('policy.')) {
+    invalidatePolicyIndex(event.tenantId);
+  }
+}
+
+/**
+ * Keep the cache consistent with the current EventBus and database: a new bus
+ * (resetEventBus) or database (resetDatabase) would otherwise leave stale entries,
+ * and writes from other connections don't emit events in this process.
+ */
+function ensureFresh(): void {
+  const bus = getEventBus();
+  if (bus !== subscribedBus) {
+    unsubscribe?.();
+    unsubscribe = bus.subscribe(onPolicyEvent);
+    subscribedBus = bus;
+    invalidatePolicyIndex();
+  }
+  const db = getDatabase();
+  const dataVersion = db.pragma('data_version', { simple: true }) as number;
+  if (db !== cachedDatabase || dataVersion !== cachedDataVersion) {
+    cachedDatabase = db;
+    cachedDataVersion = dataVersion;
+    invalidatePolicyIndex();
+  }
+}
+
+/**
+ * Exact-match values a condition requires (`x`, `{ eq: x }`, `{ in: [...] }`),
+ * or null when the condition can't be indexed. Templated values are not indexed.
+ */
+function indexableValues(condition: unknown): string[] | null {
+  const isPlain = (value: unknown): value is string =>
+    typeof value === 'string' && value.length > 0 && !value.includes('{{');
+  if (isPlain(condition)) return [condition];
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) return null;
+  const keys = Object.keys(condition);
+  if (keys.length !== 1) return null;
+  const operand = (condition as Record<string, unknown>)[keys[0]];
+  if (keys[0] === 'eq' && isPlain(operand)) return [operand];
+  if (keys[0] === 'in' && Array.isArray(operand) && operand.length > 0 && operand.every(isPlain)) {
+    return operand as string[];
+  }
+  return null;
+}
+
+/**
+ * Index keys for a policy. Every context the policy can match produces at least
+ * one of these keys; an empty list means the policy is a wildcard.
+ */
+export function policyIndexKeys(policy: PolicyRecord): string[] {
+  const subject = policy.subject;
+  if (subject.name && SUBJECT_CONTEXT_FIELDS[subject.type]) {
+    return [`${subject.type}:${subject.name}`];
+  }
+  const conditions = (policy.conditions || {}) as Record<string, unknown>;
+  const tools = indexableValues(conditions.tool);
+  if (tools) return tools.map((tool) => `tool:${tool}`);
+  const groups = indexableValues(conditions.tool_group);
+  if (groups) return groups.map((group) => `tool_group:${group}`);
+  return [];
+}
+
+function contextIndexKeys(ctx: PolicyIndexContext): string[] {
+  const keys: string[] = [];
+  for (const [type, fields] of Object.entries(SUBJECT_CONTEXT_FIELDS)) {
+    for (const field of fields) {
+      const value = ctx[field];
+      if (value) keys.push(`${type}:${value}`);
+    }
+  }
+  if (ctx.tool_group) keys.push(`tool_group:${ctx.tool_group}`);
+  return keys;
+}
+
+function compilePolicyIndex(tenantId: string): CompiledPolicyIndex {
+  const policies = listPolicies({ tenantId, enabled: true });
+  const buckets = new Map<string, number[]>();
+  const wildcard: number[] = [];
+  policies.forEach((policy, position) => {
+    const keys = policyIndexKeys(policy);
+    if (keys.length === 0) {
+      wildcard.push(position);
+      return;
+    }
+    for (const key of new Set(keys)) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(position);
+      else buckets.set(key, [position]);
+    }
+  });
+  return { tenant_id: tenantId, version, policies, buckets, wildcard, bundles: new Map() };
+}
+
+export function getPolicyIndex(tenantId: string): CompiledPolicyIndex {
+  ensureFresh();
+  let index = cache.get(tenantId);
+  if (!index) {
+    index = compilePolicyIndex(tenantId);
+    cache.set(tenantId, index);
+  }
+  return index;
+}
+
+/** Same workspace/environment filter listPolicies applies in SQL. */
+function inContextScope(policy: PolicyRecord, ctx: PolicyIndexContext): boolean {
+  return inPolicyBundleScope(policy, { workspaceId: ctx.workspace_id, environment: ctx.environment });
+}
+
+/**
+ * Resolve the policy bundle and candidate policies for a context. The bundle is
+ * snapshotted (storePolicyBundle) once per scope and index version.
+ */
+export function selectPolicyCandidates(ctx: PolicyIndexContext): PolicyCandidates {
+  const index = getPolicyIndex(ctx.tenant_id);
+
+  const scopeKey = `${ctx.workspace_id ?? ''}\u0000${ctx.environment ?? ''}`;
+  let bundle = index.bundles.get(scopeKey);
+  if (!bundle) {
+    const policies = index.policies.filter((policy) => inContextScope(policy, ctx));
+    const records = policies as unknown as Record<string, unknown>[];
+    const hash = hashPolicyBundle(records);
+    storePolicyBundle({ tenantId: ctx.tenant_id, policies: records, bundleHash: hash });
+    bundle = { policies, hash };
+    index.bundles.set(scopeKey, bundle);
+  }
+
+  const positions = new Set<number>(index.wildcard);
+  for (const key of contextIndexKeys(ctx)) {
+    for (const position of index.buckets.get(key) ?? []) positions.add(position);
+  }
+  const candidates = [...positions]
+    .sort((a, b) => a - b)
+    .map((position) => index.policies[position])
+    .filter((policy) => inContextScope(policy, ctx));
+
+  return { scoped: bundle.policies, candidates, bundleHash: bundle.hash, version: index.version };
+}
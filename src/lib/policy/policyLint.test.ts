@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { recordToolAuthorization } from '../ops/toolOps.js';
+import { lintPolicies, lintPolicyFiles, lintTenantPolicies } from './policyLint.js';
+import type { PolicyObject } from './policySchema.js';
+import { upsertPolicy } from './policyStore.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function policy(partial: Partial<PolicyObject> & { policy_id: string }): PolicyObject {
+  return { subject: { type: 'tool' }, effect: { decision: 'deny' }, ...partial };
+}
+
+function lint(policies: PolicyObject[], tools: Array<{ name: string; tool_group: string | null }> = []) {
+  return lintPolicies({ tenantId: 't1', policies, tools }).findings;
+}
+
+describe('policy linter', () => {
+  it('reports policies shadowed by a broader, higher-priority policy', () => {
+    const findings = lint(
+      [
+        policy({
+          policy_id: 'approve-rm',
+          subject: { type: 'tool', name: 'exec' },
+          conditions: { 'context.exec.argv0': { in: ['rm', 'dd'] } },
+          effect: { decision: 'require_approval' },
+          precedence: 5,
+        }),
+        policy({
+          policy_id: 'allow-runtime',
+          conditions: { tool_group: 'runtime' },
+          effect: { decision: 'allow' },
+          precedence: 10,
+        }),
+        policy({ policy_id: 'deny-exec-prefix', conditions: { tool: { prefix: 'ex' } }, precedence: 20 }),
+        policy({ policy_id: 'deny-exec', subject: { type: 'tool', name: 'exec' }, precedence: 1 }),
+      ],
+      [{ name: 'exec', tool_group: 'runtime' }]
+    );
+
+    const shadowed = findings.filter((f) => f.rule === 'shadowed');
+    expect(shadowed).toEqual([
+      expect.objectContaining({ policy_id: 'approve-rm', related_policy_id: 'deny-exec-prefix', severity: 'warning' }),
+      expect.objectContaining({ policy_id: 'deny-exec', related_policy_id: 'deny-exec-prefix', severity: 'info' }),
+    ]);
+  });
+
+  it('uses the tool registry to relate tool_group and tool', () => {
+    const policies = [
+      policy({ policy_id: 'approve-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'require_approval' } }),
+      policy({ policy_id: 'allow-runtime', conditions: { tool_group: 'runtime' }, effect: { decision: 'allow' }, precedence: 10 }),
+    ];
+    expect(lint(policies, [{ name: 'exec', tool_group: 'runtime' }])).toContainEqual(
+      expect.objectContaining({ rule: 'shadowed', policy_id: 'approve-exec', related_policy_id: 'allow-runtime' })
+    );
+    expect(lint(policies, [{ name: 'exec', tool_group: 'shell' }]).some((f) => f.rule === 'shadowed')).toBe(false);
+  });
+
+  it('does not report narrower exceptions or policies in other scopes', () => {
+    const findings = lint([
+      policy({ policy_id: 'deny-exec', subject: { type: 'tool', name: 'exec' }, precedence: 1 }),
+      policy({
+        policy_id: 'allow-ls',
+        subject: { type: 'tool', name: 'exec' },
+        conditions: { 'context.exec.argv0': 'ls' },
+        effect: { decision: 'allow' },
+        precedence: 10,
+      }),
+      policy({ policy_id: 'deny-exec-w2', scope: { workspace_id: 'w2' }, subject: { type: 'tool', name: 'exec' }, precedence: 20 }),
+      policy({
+        policy_id: 'deny-office-hours',
+        subject: { type: 'tool', name: 'exec' },
+        conditions: { schedule: { time_ranges: [{ start: '09:00', end: '18:00' }] } },
+        precedence: 30,
+      }),
+    ]);
+    expect(findings.filter((f) => f.rule === 'shadowed' || f.rule === 'conflict')).toEqual([]);
+  });
+
+  it('reports conflicting policies over the same space', () => {
+    const findings = lint([
+      policy({ policy_id: 'allow-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'allow' } }),
+      policy({ policy_id: 'deny-exec', conditions: { tool: 'exec' } }),
+      policy({ policy_id: 'approve-fetch', conditions: { tool: 'web_fetch' }, effect: { decision: 'require_approval' } }),
+      policy({ policy_id: 'allow-fetch', conditions: { tool: { in: ['web_fetch'] } }, effect: { decision: 'allow' }, precedence: 5 }),
+    ]);
+    expect(findings.filter((f) => f.rule === 'conflict')).toEqual([
+      expect.objectContaining({ policy_id: 'allow-exec', related_policy_id: 'deny-exec', severity: 'error' }),
+      expect.objectContaining({ policy_id: 'approve-fetch', related_policy_id: 'allow-fetch', severity: 'warning' }),
+    ]);
+  });
+
+  it('reports over-broad allow rules, template problems and unknown tools', () => {
+    const findings = lint(
+      [
+        policy({ policy_id: 'allow-all', effect: { decision: 'allow' } }),
+        policy({ policy_id: 'allow-trusted', conditions: { agent_role: 'trusted' }, effect: { decision: 'allow' } }),
+        policy({ policy_id: 'allow-read', subject: { type: 'tool', name: 'read' }, effect: { decision: 'allow' } }),
+        policy({
+          policy_id: 'templates',
+          subject: { type: 'tool', name: 'reed' },
+          conditions: {
+            'context.targets.paths': { all_under: ['{{workspace.root}}', '{{home.dir}}'] },
+            capability: '{{tenant.id}}',
+          },
+        }),
+      ],
+      [{ name: 'read', tool_group: 'fs' }]
+    );
+    const byRule = (rule: string) => findings.filter((f) => f.rule === rule);
+
+    expect(byRule('allow_without_scope')).toEqual([
+      expect.objectContaining({ policy_id: 'allow-all', severity: 'error' }),
+      expect.objectContaining({ policy_id: 'allow-trusted', severity: 'warning' }),
+    ]);
+    expect(byRule('unused_template_variable')).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'conditions.context.targets.paths.all_under[1]' }),
+      expect.objectContaining({ severity: 'warning', path: 'conditions.capability' }),
+    ]);
+    expect(byRule('unknown_tool')).toEqual([
+      expect.objectContaining({ policy_id: 'templates', path: 'subject.name', severity: 'warning' }),
+    ]);
+    // allow-all also makes the narrower allow rules redundant; findings are ordered by severity.
+    expect(byRule('shadowed').map((f) => [f.policy_id, f.severity])).toEqual([
+      ['allow-read', 'info'],
+      ['allow-trusted', 'info'],
+    ]);
+    expect(findings.map((f) => f.severity)).toEqual(['error', 'error', 'warning', 'warning', 'warning', 'info', 'info']);
+  });
+
+  it('lints stored policies and policy files against the tool registry', () => {
+    recordToolAuthorization({
+      tenant_id: 't1',
+      adapter_id: 'openclaw',
+      execution_id: 'exec-1',
+      tool: 'exec',
+      tool_group: 'runtime',
+      decision: 'allow',
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: policy({ policy_id: 'approve-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'require_approval' } }),
+    });
+
+    const stored = lintTenantPolicies('t1');
+    expect(stored).toMatchObject({ tenant_id: 't1', policy_count: 1, findings: [] });
+
+    const files = lintPolicyFiles({
+      tenantId: 't1',
+      policies: [
+        {
+          source_path: 'policies/runtime.yaml',
+          policy: policy({ policy_id: 'allow-runtime', conditions: { tool_group: 'runtime' }, effect: { decision: 'allow' }, precedence: 10 }),
+        },
+      ],
+    });
+    expect(files.policy_count).toBe(2);
+    expect(files.summary).toEqual({ error: 0, warning: 1, info: 0 });
+    expect(files.findings[0]).toMatchObject({
+      rule: 'shadowed',
+      policy_id: 'approve-exec',
+      related_policy_id: 'allow-runtime',
+    });
+    expect(files.findings[0].source_path).toBeUndefined();
+  });
+});
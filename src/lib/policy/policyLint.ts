@@ -0,0 +1,493 @@
+/**
+ * Policy linter
+ *
+ * Static analysis over a tenant's enabled policies. Pairs of policies are
+ * compared in the same priority order evaluatePolicies uses to pick a winner
+ * (comparePolicyPriority), so a policy reported as shadowed can never decide a
+ * request. Coverage checks are conservative: a finding is only reported when
+ * one policy provably matches every request the other matches.
+ */
+
+import { isDeepStrictEqual } from 'node:util';
+import { config } from '../core/config.js';
+import { listToolRegistry } from '../ops/toolOps.js';
+import { ALLOWED_TEMPLATE_KEYS, listTemplateVariables, parseConditionExpression } from './conditionOperators.js';
+import { comparePolicyPriority, decisionRank, specificityScore } from './policyEngine.js';
+import type { PolicyFileEntry } from './policyFiles.js';
+import type { PolicyObject } from './policySchema.js';
+import { listPolicies, toPolicyBody } from './policyStore.js';
+
+export type PolicyLintSeverity = 'error' | 'warning' | 'info';
+
+export type PolicyLintRule =
+  | 'shadowed'
+  | 'conflict'
+  | 'allow_without_scope'
+  | 'unused_template_variable'
+  | 'unknown_tool';
+
+export interface PolicyLintFinding {
+  rule: PolicyLintRule;
+  severity: PolicyLintSeverity;
+  policy_id: string;
+  /** The other policy involved (the shadowing or conflicting policy). */
+  related_policy_id?: string;
+  /** Field the finding points at, e.g. `conditions.tool`. */
+  path?: string;
+  /** Set when linting policy files. */
+  source_path?: string;
+  message: string;
+}
+
+export interface PolicyLintReport {
+  tenant_id: string;
+  policy_count: number;
+  findings: PolicyLintFinding[];
+  summary: Record<PolicyLintSeverity, number>;
+}
+
+export interface PolicyLintTool {
+  name: string;
+  tool_group: string | null;
+}
+
+const SEVERITY_ORDER: Record<PolicyLintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/** Context field each named subject type constrains (see subjectMatches). */
+const SUBJECT_FIELDS: Record<string, string> = {
+  tool: 'tool',
+  adapter: 'adapter_id',
+  skill: 'skill_state',
+  environment: 'environment',
+  risk: 'risk_level',
+  agent: 'agent',
+};
+
+/** Condition blocks compared as a whole rather than field by field. */
+const BLOCK_CONDITIONS = new Set(['all', 'any', 'not', 'schedule', 'rate_limit']);
+
+/** Condition keys evaluated without template substitution. */
+const UNTEMPLATED_CONDITIONS = new Set(['min_cost', 'max_cost', 'capability', 'schedule', 'rate_limit']);
+
+/**
+ * The request space a policy matches: constraints per context field (scope,
+ * subject and top-level conditions, with nested `context` / `provenance`
+ * objects flattened to dotted paths) plus condition blocks.
+ */
+interface PolicySpace {
+  fields: Map<string, unknown[]>;
+  blocks: Map<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function policySpace(policy: PolicyObject): PolicySpace {
+  const fields = new Map<string, unknown[]>();
+  const blocks = new Map<string, unknown>();
+  const add = (field: string, constraint: unknown) => {
+    const existing = fields.get(field);
+    if (existing) existing.push(constraint);
+    else fields.set(field, [constraint]);
+  };
+  const flatten = (prefix: string, value: Record<string, unknown>) => {
+    for (const [key, entry] of Object.entries(value)) {
+      if (isPlainObject(entry) && !parseConditionExpression(entry)) flatten(`${prefix}.${key}`, entry);
+      else add(`${prefix}.${key}`, entry);
+    }
+  };
+
+  if (policy.scope?.workspace_id) add('workspace_id', policy.scope.workspace_id);
+  if (policy.scope?.environment) add('environment', policy.scope.environment);
+  const subjectField = SUBJECT_FIELDS[policy.subject.type];
+  if (subjectField && policy.subject.name) add(subjectField, policy.subject.name);
+
+  for (const [key, value] of Object.entries((policy.conditions || {}) as Record<string, unknown>)) {
+    if (value === undefined) continue;
+    if (BLOCK_CONDITIONS.has(key)) blocks.set(key, value);
+    else if ((key === 'context' || key === 'provenance') && isPlainObject(value) && !parseConditionExpression(value)) {
+      flatten(key, value);
+    } else add(key, value);
+  }
+  return { fields, blocks };
+}
+
+/** Values an `eq` / `in` constraint admits, or null for other operators. */
+function exactValues(constraint: unknown): unknown[] | null {
+  const parsed = parseConditionExpression(constraint);
+  if (!parsed) return null;
+  if (parsed.operator === 'eq') return [parsed.expected];
+  if (parsed.operator === 'in' && Array.isArray(parsed.expected) && parsed.expected.length > 0) {
+    return parsed.expected;
+  }
+  return null;
+}
+
+interface NumericRange {
+  min: number;
+  minInclusive: boolean;
+  max: number;
+  maxInclusive: boolean;
+}
+
+function numericRange(constraint: unknown): NumericRange | null {
+  const parsed = parseConditionExpression(constraint);
+  if (!parsed) return null;
+  const { operator, expected } = parsed;
+  const open = { min: -Infinity, minInclusive: false, max: Infinity, maxInclusive: false };
+  if (operator === 'between') {
+    if (!Array.isArray(expected) || typeof expected[0] !== 'number' || typeof expected[1] !== 'number') return null;
+    return { min: expected[0], minInclusive: true, max: expected[1], maxInclusive: true };
+  }
+  if (operator === 'eq' || operator === 'in') {
+    const values = exactValues(constraint);
+    if (!values || !values.every((value) => typeof value === 'number')) return null;
+    const numbers = values as number[];
+    return { min: Math.min(...numbers), minInclusive: true, max: Math.max(...numbers), maxInclusive: true };
+  }
+  if (typeof expected !== 'number') return null;
+  if (operator === 'gt') return { ...open, min: expected };
+  if (operator === 'gte') return { ...open, min: expected, minInclusive: true };
+  if (operator === 'lt') return { ...open, max: expected };
+  if (operator === 'lte') return { ...open, max: expected, maxInclusive: true };
+  return null;
+}
+
+function rangeContains(outer: NumericRange, inner: NumericRange): boolean {
+  const lowOk =
+    inner.min > outer.min || (inner.min === outer.min && (outer.minInclusive || !inner.minInclusive));
+  const highOk =
+    inner.max < outer.max || (inner.max === outer.max && (outer.maxInclusive || !inner.maxInclusive));
+  return lowOk && highOk;
+}
+
+function isUnderRoot(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith('/') ? root : `${root}/`);
+}
+
+/**
+ * Whether every value satisfying `narrow` also satisfies `broad`. Without
+ * operators only identical constraints imply each other (legacy equality).
+ */
+function constraintImplies(narrow: unknown, broad: unknown, operatorsEnabled: boolean): boolean {
+  if (isDeepStrictEqual(narrow, broad)) return true;
+  if (!operatorsEnabled) return false;
+  const n = parseConditionExpression(narrow);
+  const b = parseConditionExpression(broad);
+  if (!n || !b) return false;
+  const values = exactValues(narrow);
+
+  switch (b.operator) {
+    case 'eq':
+      return values !== null && values.every((value) => value === b.expected);
+    case 'in':
+      return values !== null && Array.isArray(b.expected) && values.every((value) => (b.expected as unknown[]).includes(value));
+    case 'prefix': {
+      const prefix = b.expected;
+      if (typeof prefix !== 'string') return false;
+      if (n.operator === 'prefix') return typeof n.expected === 'string' && n.expected.startsWith(prefix);
+      return values !== null && values.every((value) => typeof value === 'string' && value.startsWith(prefix));
+    }
+    case 'exists':
+      return ['eq', 'in', 'prefix', 'gt', 'gte', 'lt', 'lte', 'between'].includes(n.operator) && (values === null || values.every((value) => value !== null));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+    case 'between': {
+      const outer = numericRange(broad);
+      const inner = numericRange(narrow);
+      return outer !== null && inner !== null && rangeContains(outer, inner);
+    }
+    case 'all_under': {
+      if (n.operator !== 'all_under' || !Array.isArray(n.expected) || !Array.isArray(b.expected)) return false;
+      const roots = b.expected.filter((root): root is string => typeof root === 'string');
+      return n.expected.length > 0 && n.expected.every((path) => typeof path === 'string' && roots.some((root) => isUnderRoot(path, root)));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether `broad` matches every request `narrow` matches. A `tool_group`
+ * constraint is also satisfied by tools the registry has seen in that group.
+ */
+function spaceCovers(
+  broad: PolicySpace,
+  narrow: PolicySpace,
+  toolGroups: Map<string, string>,
+  operatorsEnabled: boolean
+): boolean {
+  if (broad.blocks.has('rate_limit')) return false;
+  for (const [key, block] of broad.blocks) {
+    if (!narrow.blocks.has(key) || !isDeepStrictEqual(narrow.blocks.get(key), block)) return false;
+  }
+  for (const [field, constraints] of broad.fields) {
+    const narrowed = narrow.fields.get(field) ?? [];
+    for (const constraint of constraints) {
+      if (narrowed.some((entry) => constraintImplies(entry, constraint, operatorsEnabled))) continue;
+      if (field === 'tool_group' && toolGroupImplied(narrow, constraint, toolGroups, operatorsEnabled)) continue;
+      return false;
+    }
+  }
+  return true;
+}
+
+function toolGroupImplied(
+  narrow: PolicySpace,
+  constraint: unknown,
+  toolGroups: Map<string, string>,
+  operatorsEnabled: boolean
+): boolean {
+  return (narrow.fields.get('tool') ?? []).some((entry) => {
+    const tools = exactValues(entry);
+    return (
+      tools !== null &&
+      tools.every((tool) => {
+        const group = typeof tool === 'string' ? toolGroups.get(tool) : undefined;
+        return group !== undefined && constraintImplies(group, constraint, operatorsEnabled);
+      })
+    );
+  });
+}
+
+function describePolicy(policy: PolicyObject): string {
+  return `"${policy.policy_id}" (${policy.effect.decision}, precedence ${policy.precedence ?? 0})`;
+}
+
+function pairFindings(
+  ordered: PolicyObject[],
+  spaces: PolicySpace[],
+  toolGroups: Map<string, string>,
+  operatorsEnabled: boolean
+): PolicyLintFinding[] {
+  const findings: PolicyLintFinding[] = [];
+  const reported = new Set<number>();
+
+  for (let j = 1; j < ordered.length; j += 1) {
+    for (let i = 0; i < j; i += 1) {
+      if (reported.has(j)) break;
+      const winner = ordered[i];
+      const loser = ordered[j];
+      if (!spaceCovers(spaces[i], spaces[j], toolGroups, operatorsEnabled)) continue;
+      reported.add(j);
+
+      const sameDecision = winner.effect.decision === loser.effect.decision;
+      const sameSpace = spaceCovers(spaces[j], spaces[i], toolGroups, operatorsEnabled);
+      if (sameSpace && !sameDecision) {
+        const tied =
+          (winner.precedence ?? 0) === (loser.precedence ?? 0) && specificityScore(winner) === specificityScore(loser);
+        findings.push({
+          rule: 'conflict',
+          severity: tied ? 'error' : 'warning',
+          policy_id: loser.policy_id,
+          related_policy_id: winner.policy_id,
+          message:
+            `Matches the same requests as ${describePolicy(winner)} with a different decision; ` +
+            (tied
+              ? `the tie is only broken by decision rank, so "${winner.policy_id}" always wins`
+              : `"${winner.policy_id}" always wins`),
+        });
+        continue;
+      }
+      findings.push({
+        rule: 'shadowed',
+        severity: sameDecision ? 'info' : 'warning',
+        policy_id: loser.policy_id,
+        related_policy_id: winner.policy_id,
+        message: sameDecision
+          ? `Redundant: ${describePolicy(winner)} matches every request this policy matches with the same decision`
+          : `Never decides: ${describePolicy(winner)} matches every request this policy matches and wins` +
+            (decisionRank(winner.effect.decision) < decisionRank(loser.effect.decision)
+              ? ` with a less restrictive decision`
+              : ''),
+      });
+    }
+  }
+  return findings;
+}
+
+function allowWithoutScopeFinding(policy: PolicyObject, space: PolicySpace): PolicyLintFinding | null {
+  if (policy.effect.decision !== 'allow') return null;
+  if (policy.scope?.workspace_id || policy.scope?.environment) return null;
+  const subjectField = SUBJECT_FIELDS[policy.subject.type];
+  if (subjectField && policy.subject.name) return null;
+  if (space.fields.has('tool') || space.fields.has('tool_group')) return null;
+  const unconstrained = space.fields.size === 0 && space.blocks.size === 0;
+  return {
+    rule: 'allow_without_scope',
+    severity: unconstrained ? 'error' : 'warning',
+    policy_id: policy.policy_id,
+    message: unconstrained
+      ? 'Allows every request in every workspace and environment'
+      : 'Allow rule is not limited to a workspace, environment, subject or tool',
+  };
+}
+
+function templateFindings(policy: PolicyObject, operatorsEnabled: boolean): PolicyLintFinding[] {
+  const findings: PolicyLintFinding[] = [];
+  const visit = (value: unknown, path: string, resolved: boolean) => {
+    if (typeof value === 'string') {
+      if (!value.includes('{{')) return;
+      const variables = listTemplateVariables(value);
+      const unknown = variables.filter((key) => !ALLOWED_TEMPLATE_KEYS.has(key));
+      let message: string | null = null;
+      let severity: PolicyLintSeverity = 'warning';
+      if (variables.length === 0) {
+        message = `Malformed template "${value}" is compared literally`;
+      } else if (!resolved) {
+        message = `Template ${variables.map((key) => `{{${key}}}`).join(', ')} is never substituted here and is compared literally`;
+      } else if (unknown.length > 0) {
+        severity = 'error';
+        message = `Unknown template variable ${unknown.join(', ')} (allowed: ${[...ALLOWED_TEMPLATE_KEYS].join(', ')}); the condition never matches`;
+      } else if (!operatorsEnabled) {
+        message = `Template ${variables.map((key) => `{{${key}}}`).join(', ')} is not substituted while policy operators are disabled`;
+      }
+      if (message) {
+        findings.push({ rule: 'unused_template_variable', severity, policy_id: policy.policy_id, path, message });
+      }
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((entry, index) => visit(entry, `${path}[${index}]`, resolved));
+      return;
+    }
+    if (isPlainObject(value)) {
+      for (const [key, entry] of Object.entries(value)) visit(entry, `${path}.${key}`, resolved);
+    }
+  };
+
+  visit(policy.scope, 'scope', false);
+  visit(policy.subject, 'subject', false);
+  const visitConditions = (conditions: Record<string, unknown>, path: string) => {
+    for (const [key, value] of Object.entries(conditions)) {
+      if ((key === 'all' || key === 'any') && Array.isArray(value)) {
+        value.forEach((branch, index) => {
+          if (isPlainObject(branch)) visitConditions(branch, `${path}.${key}[${index}]`);
+        });
+      } else if (key === 'not' && isPlainObject(value)) {
+        visitConditions(value, `${path}.not`);
+      } else {
+        visit(value, `${path}.${key}`, !UNTEMPLATED_CONDITIONS.has(key));
+      }
+    }
+  };
+  visitConditions((policy.conditions || {}) as Record<string, unknown>, 'conditions');
+  return findings;
+}
+
+/** Tools a policy names exactly (subject name, `tool` eq/in conditions), with their paths. */
+function referencedTools(policy: PolicyObject): Array<{ tool: string; path: string }> {
+  const out: Array<{ tool: string; path: string }> = [];
+  const add = (tool: unknown, path: string) => {
+    if (typeof tool === 'string' && tool.length > 0 && !tool.includes('{{')) out.push({ tool, path });
+  };
+  if (policy.subject.type === 'tool') add(policy.subject.name, 'subject.name');
+  const visit = (conditions: Record<string, unknown>, path: string) => {
+    for (const value of exactValues(conditions.tool) ?? []) add(value, `${path}.tool`);
+    for (const key of ['all', 'any'] as const) {
+      const branches = conditions[key];
+      if (!Array.isArray(branches)) continue;
+      branches.forEach((branch, index) => {
+        if (isPlainObject(branch)) visit(branch, `${path}.${key}[${index}]`);
+      });
+    }
+    if (isPlainObject(conditions.not)) visit(conditions.not, `${path}.not`);
+  };
+  visit((policy.conditions || {}) as Record<string, unknown>, 'conditions');
+  return out;
+}
+
+/**
+ * Lint a set of policies. `tools` is the tool registry (tools seen in
+ * authorizations); the unknown_tool check is skipped when it is empty.
+ */
+export function lintPolicies(params: {
+  tenantId: string;
+  policies: PolicyObject[];
+  tools?: PolicyLintTool[];
+  operatorsEnabled?: boolean;
+}): PolicyLintReport {
+  const operatorsEnabled = params.operatorsEnabled ?? true;
+  const tools = params.tools ?? [];
+  const toolGroups = new Map<string, string>();
+  for (const tool of tools) {
+    if (tool.tool_group) toolGroups.set(tool.name, tool.tool_group);
+  }
+  const knownTools = new Set(tools.map((tool) => tool.name));
+
+  // Stable sort: ties keep the caller's order, as they do in evaluation.
+  const ordered = params.policies.filter((policy) => policy.enabled !== false).sort(comparePolicyPriority);
+  const spaces = ordered.map(policySpace);
+
+  // Shadow-mode policies never decide, so they take no part in shadowing or conflicts.
+  const enforced = ordered.map((policy, index) => ({ policy, space: spaces[index] })).filter(({ policy }) => policy.mode !== 'shadow');
+  const findings = pairFindings(
+    enforced.map(({ policy }) => policy),
+    enforced.map(({ space }) => space),
+    toolGroups,
+    operatorsEnabled
+  );
+  ordered.forEach((policy, index) => {
+    const broad = allowWithoutScopeFinding(policy, spaces[index]);
+    if (broad) findings.push(broad);
+    findings.push(...templateFindings(policy, operatorsEnabled));
+    if (knownTools.size === 0) return;
+    const seen = new Set<string>();
+    for (const { tool, path } of referencedTools(policy)) {
+      if (knownTools.has(tool) || seen.has(tool)) continue;
+      seen.add(tool);
+      findings.push({
+        rule: 'unknown_tool',
+        severity: 'warning',
+        policy_id: policy.policy_id,
+        path,
+        message: `References tool "${tool}", which has never been seen in the tool registry`,
+      });
+    }
+  });
+
+  findings.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.policy_id.localeCompare(b.policy_id)
+  );
+  const summary: Record<PolicyLintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) summary[finding.severity] += 1;
+  return { tenant_id: params.tenantId, policy_count: ordered.length, findings, summary };
+}
+
+/**
+ * Lint a tenant's enabled policies against its tool registry.
+ */
+export function lintTenantPolicies(tenantId: string): PolicyLintReport {
+  return lintPolicies({
+    tenantId,
+    policies: listPolicies({ tenantId, enabled: true }),
+    tools: listToolRegistry(tenantId),
+    operatorsEnabled: config.policyOperatorsEnabled,
+  });
+}
+
+/**
+ * Lint policy files as they would be applied: the file policies plus console
+ * policies they leave in place (file sync never deletes those). Findings carry
+ * the source_path of file policies.
+ */
+export function lintPolicyFiles(params: { tenantId: string; policies: PolicyFileEntry[] }): PolicyLintReport {
+  const sourcePaths = new Map(params.policies.map((entry) => [entry.policy.policy_id, entry.source_path]));
+  const consolePolicies = listPolicies({ tenantId: params.tenantId, enabled: true }).filter(
+    (policy) => policy.source !== 'file' && !sourcePaths.has(policy.policy_id)
+  );
+  const report = lintPolicies({
+    tenantId: params.tenantId,
+    policies: [...params.policies.map((entry) => toPolicyBody(params.tenantId, entry.policy)), ...consolePolicies],
+    tools: listToolRegistry(params.tenantId),
+    operatorsEnabled: config.policyOperatorsEnabled,
+  });
+  for (const finding of report.findings) {
+    const sourcePath = sourcePaths.get(finding.policy_id);
+    if (sourcePath) finding.source_path = sourcePath;
+  }
+  return report;
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { hashPolicyBundle } from '../governance/wizardMeta.js';
+import { evaluatePolicies } from './policyEngine.js';
+import { diffPolicyBodies, getPolicyBundle, getPolicyRevision, listPolicyRevisions } from './policyRevisions.js';
+import { deletePolicy, getPolicy, listPolicies, rollbackPolicy, setPolicyEnabled, upsertPolicy } from './policyStore.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function denyTool(tool: string) {
+  return {
+    policy_id: 'deny-tool',
+    subject: { type: 'tool' as const },
+    conditions: { tool },
+    effect: { decision: 'deny' as const },
+  };
+}
+
+describe('policy revisions', () => {
+  it('records a revision for every create, update, enable and delete', () => {
+    upsertPolicy({ tenantId: 't1', policy: denyTool('exec'), author: 'alice', reason: 'initial' });
+    upsertPolicy({ tenantId: 't1', policy: denyTool('web_fetch'), author: 'bob' });
+    setPolicyEnabled({ tenantId: 't1', policyId: 'deny-tool', enabled: false, author: 'bob', reason: 'noisy' });
+    deletePolicy({ tenantId: 't1', policyId: 'deny-tool', author: 'carol' });
+
+    const revisions = listPolicyRevisions({ tenantId: 't1', policyId: 'deny-tool' });
+    expect(revisions.map((r) => [r.revision, r.action, r.author])).toEqual([
+      [4, 'delete', 'carol'],
+      [3, 'disable', 'bob'],
+      [2, 'update', 'bob'],
+      [1, 'create', 'alice'],
+    ]);
+    expect(revisions[3].reason).toBe('initial');
+    expect(revisions[3].policy?.conditions).toEqual({ tool: 'exec' });
+    expect(revisions[2].policy?.conditions).toEqual({ tool: 'web_fetch' });
+    expect(revisions[1].policy?.enabled).toBe(false);
+    // Deletes keep the last body so it can be restored.
+    expect(revisions[0].policy?.conditions).toEqual({ tool: 'web_fetch' });
+    expect(listPolicyRevisions({ tenantId: 't2', policyId: 'deny-tool' })).toEqual([]);
+  });
+
+  it('resolves each revision bundle hash to the enabled bundle after the change', () => {
+    upsertPolicy({ tenantId: 't1', policy: denyTool('exec') });
+    setPolicyEnabled({ tenantId: 't1', policyId: 'deny-tool', enabled: false });
+
+    const created = getPolicyRevision('t1', 'deny-tool', 1)!;
+    const disabled = getPolicyRevision('t1', 'deny-tool', 2)!;
+    expect(getPolicyBundle('t1', created.bundle_hash)?.policies).toHaveLength(1);
+    expect(getPolicyBundle('t1', disabled.bundle_hash)?.policies).toEqual([]);
+    expect(getPolicyBundle('t2', created.bundle_hash)).toBeNull();
+  });
+
+  it('stores the bundle of each workspace/environment scope with the revision', () => {
+    upsertPolicy({ tenantId: 't1', policy: denyTool('exec') });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { ...denyTool('web_fetch'), policy_id: 'deny-fetch-w1', scope: { workspace_id: 'w1' } },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { ...denyTool('shell'), policy_id: 'deny-shell-prod', scope: { environment: 'prod' } },
+    });
+
+    // Hash exactly what the engine evaluates, without evaluating (so nothing is stored lazily).
+    const expectBundle = (workspaceId: string | undefined, environment: string | undefined, ids: string[]) => {
+      const policies = listPolicies({ tenantId: 't1', workspaceId, environment, enabled: true });
+      const bundle = getPolicyBundle('t1', hashPolicyBundle(policies as unknown as Record<string, unknown>[]));
+      expect(bundle?.policies.map((policy) => policy.policy_id).sort()).toEqual(ids.sort());
+    };
+    expectBundle('w1', 'prod', ['deny-tool', 'deny-fetch-w1', 'deny-shell-prod']);
+    expectBundle('w1', 'dev', ['deny-tool', 'deny-fetch-w1']);
+    expectBundle('w2', undefined, ['deny-tool', 'deny-shell-prod']);
+    expectBundle('w2', 'dev', ['deny-tool']);
+
+    const result = evaluatePolicies({ tenant_id: 't1', workspace_id: 'w1', environment: 'dev', tool: 'exec' });
+    expect(getPolicyBundle('t1', result.policy_bundle_hash!)?.policies).toHaveLength(2);
+  });
+
+  it('diffs two revision bodies field by field', () => {
+    const changes = diffPolicyBodies(
+      { policy_id: 'p', conditions: { tool: 'exec', argv: ['a'] }, precedence: 0 },
+      { policy_id: 'p', conditions: { tool: 'web_fetch', argv: ['a', 'b'] }, description: 'x' }
+    );
+    expect(changes).toEqual([
+      { path: 'conditions.argv', kind: 'changed', before: ['a'], after: ['a', 'b'] },
+      { path: 'conditions.tool', kind: 'changed', before: 'exec', after: 'web_fetch' },
+      { path: 'description', kind: 'added', after: 'x' },
+      { path: 'precedence', kind: 'removed', before: 0 },
+    ]);
+    expect(diffPolicyBodies({ a: 1 }, { a: 1 })).toEqual([]);
+  });
+
+  it('rolls back to an earlier revision, including after a delete', () => {
+    upsertPolicy({ tenantId: 't1', policy: denyTool('exec') });
+    upsertPolicy({ tenantId: 't1', policy: denyTool('web_fetch') });
+    deletePolicy({ tenantId: 't1', policyId: 'deny-tool' });
+
+    const restored = rollbackPolicy({ tenantId: 't1', policyId: 'deny-tool', revision: 1, author: 'alice' });
+    expect(restored?.conditions).toEqual({ tool: 'exec' });
+    expect(getPolicy('t1', 'deny-tool')?.conditions).toEqual({ tool: 'exec' });
+
+    const latest = listPolicyRevisions({ tenantId: 't1', policyId: 'deny-tool', limit: 1 })[0];
+    expect(latest).toMatchObject({ revision: 4, action: 'rollback', author: 'alice', reason: 'Rollback to revision 1' });
+    expect(rollbackPolicy({ tenantId: 't1', policyId: 'deny-tool', revision: 99 })).toBeNull();
+  });
+
+  it('makes a decision policy_bundle_hash resolvable to the evaluated bundle', () => {
+    upsertPolicy({ tenantId: 't1', policy: denyTool('exec') });
+    const result = evaluatePolicies({ tenant_id: 't1', tool: 'exec' });
+    expect(result.decision).toBe('deny');
+
+    const bundle = getPolicyBundle('t1', result.policy_bundle_hash!);
+    expect(bundle?.policies).toHaveLength(1);
+    expect(bundle?.policies[0]).toMatchObject({ policy_id: 'deny-tool', conditions: { tool: 'exec' } });
+    expect(hashPolicyBundle(bundle!.policies)).toBe(result.policy_bundle_hash);
+  });
+});
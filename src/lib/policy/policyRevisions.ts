@@ -0,0 +1,275 @@
+/**
+ * Policy revisions
+ *
+ * Append-only history of policy changes plus snapshots of evaluated policy
+ * bundles, so a decision's policy_bundle_hash resolves to exact contents.
+ */
+
+import { getDatabase } from '../core/db.js';
+import { buildPolicyBundleEntries, hashPolicyBundle } from '../governance/wizardMeta.js';
+
+export type PolicyRevisionAction = 'create' | 'update' | 'enable' | 'disable' | 'delete' | 'rollback';
+
+export interface PolicyRevision {
+  tenant_id: string;
+  policy_id: string;
+  revision: number;
+  action: PolicyRevisionAction;
+  author: string | null;
+  reason: string | null;
+  /** Full policy body after the change (before it, for deletes). */
+  policy: Record<string, unknown> | null;
+  /** Hash of the tenant's enabled policy bundle (all scopes) after the change. */
+  bundle_hash: string;
+  created_at: string;
+}
+
+export interface PolicyBundleSnapshot {
+  tenant_id: string;
+  bundle_hash: string;
+  policies: Record<string, unknown>[];
+  created_at: string;
+}
+
+export interface PolicyRevisionChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+interface PolicyRevisionRow {
+  tenant_id: string;
+  policy_id: string;
+  revision: number;
+  action: PolicyRevisionAction;
+  author: string | null;
+  reason: string | null;
+  policy_json: string | null;
+  bundle_hash: string;
+  created_at: string;
+}
+
+/**
+ * Store the bundle contents under their hash (no-op when already known).
+ */
+export function storePolicyBundle(params: {
+  tenantId: string;
+  policies: Record<string, unknown>[];
+  bundleHash?: string;
+}): string {
+  const db = getDatabase();
+  const bundleHash = params.bundleHash ?? hashPolicyBundle(params.policies);
+  const existing = db
+    .prepare(`SELECT 1 FROM policy_bundles WHERE tenant_id = ? AND bundle_hash = ?`)
+    .get(params.tenantId, bundleHash);
+  if (!existing) {
+    db.prepare(
+      `INSERT OR IGNORE INTO policy_bundles (tenant_id, bundle_hash, policies_json, created_at)
+       VALUES (?, ?, ?, ?)`
+    ).run(
+      params.tenantId,
+      bundleHash,
+      JSON.stringify(buildPolicyBundleEntries(params.policies)),
+      new Date().toISOString()
+    );
+  }
+  return bundleHash;
+}
+
+/** Workspace/environment a bundle is evaluated for; unset includes every policy. */
+export interface PolicyBundleScope {
+  workspaceId?: string;
+  environment?: string;
+}
+
+/**
+ * Whether a policy belongs to the bundle evaluated for a scope. Unscoped
+ * policies apply everywhere; scoped ones only to their own workspace/environment.
+ */
+export function inPolicyBundleScope(
+  policy: { workspace_id?: string | null; environment?: string | null },
+  scope: PolicyBundleScope
+): boolean {
+  if (scope.workspaceId && policy.workspace_id && policy.workspace_id !== scope.workspaceId) return false;
+  if (scope.environment && policy.environment && policy.environment !== scope.environment) return false;
+  return true;
+}
+
+/** Stands in for a workspace/environment that no policy names. */
+const UNNAMED_SCOPE = '\u0000';
+
+/**
+ * Store the bundle of every scope a decision can be evaluated in: none, each
+ * workspace/environment the policies name, and one they do not name. Each is
+ * hashed exactly as the engine hashes it, so decision hashes resolve.
+ */
+export function storeScopedPolicyBundles(params: {
+  tenantId: string;
+  policies: Record<string, unknown>[];
+}): void {
+  const scoped = params.policies as { workspace_id?: string | null; environment?: string | null }[];
+  const values = (key: 'workspace_id' | 'environment') => [
+    undefined,
+    UNNAMED_SCOPE,
+    ...new Set(scoped.map((policy) => policy[key]).filter((value): value is string => Boolean(value))),
+  ];
+  const seen = new Set<string>();
+  for (const workspaceId of values('workspace_id')) {
+    for (const environment of values('environment')) {
+      const policies = params.policies.filter((_, i) => inPolicyBundleScope(scoped[i], { workspaceId, environment }));
+      const bundleHash = hashPolicyBundle(policies);
+      if (seen.has(bundleHash)) continue;
+      seen.add(bundleHash);
+      storePolicyBundle({ tenantId: params.tenantId, policies, bundleHash });
+    }
+  }
+}
+
+export function getPolicyBundle(tenantId: string, bundleHash: string): PolicyBundleSnapshot | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT * FROM policy_bundles WHERE tenant_id = ? AND bundle_hash = ?`)
+    .get(tenantId, bundleHash) as
+    | { tenant_id: string; bundle_hash: string; policies_json: string; created_at: string }
+    | undefined;
+  if (!row) return null;
+  return {
+    tenant_id: row.tenant_id,
+    bundle_hash: row.bundle_hash,
+    policies: JSON.parse(row.policies_json),
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Append a revision. Callers run this in the same transaction as the change.
+ * The revision keeps the tenant-wide bundle hash; the per-scope bundles that
+ * decisions are hashed against are stored alongside it.
+ */
+export function recordPolicyRevision(params: {
+  tenantId: string;
+  policyId: string;
+  action: PolicyRevisionAction;
+  policy: Record<string, unknown> | null;
+  bundlePolicies: Record<string, unknown>[];
+  author?: string | null;
+  reason?: string | null;
+}): PolicyRevision {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+  const bundleHash = storePolicyBundle({ tenantId: params.tenantId, policies: params.bundlePolicies });
+  storeScopedPolicyBundles({ tenantId: params.tenantId, policies: params.bundlePolicies });
+  const last = db
+    .prepare(`SELECT MAX(revision) as revision FROM policy_revisions WHERE tenant_id = ? AND policy_id = ?`)
+    .get(params.tenantId, params.policyId) as { revision: number | null };
+  const revision = (last.revision ?? 0) + 1;
+
+  db.prepare(
+    `INSERT INTO policy_revisions (
+       tenant_id, policy_id, revision, action, author, reason, policy_json, bundle_hash, created_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    params.tenantId,
+    params.policyId,
+    revision,
+    params.action,
+    params.author ?? null,
+    params.reason ?? null,
+    params.policy ? JSON.stringify(params.policy) : null,
+    bundleHash,
+    now
+  );
+
+  return {
+    tenant_id: params.tenantId,
+    policy_id: params.policyId,
+    revision,
+    action: params.action,
+    author: params.author ?? null,
+    reason: params.reason ?? null,
+    policy: params.policy,
+    bundle_hash: bundleHash,
+    created_at: now,
+  };
+}
+
+export function listPolicyRevisions(params: {
+  tenantId: string;
+  policyId: string;
+  limit?: number;
+  offset?: number;
+}): PolicyRevision[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT * FROM policy_revisions
+       WHERE tenant_id = ? AND policy_id = ?
+       ORDER BY revision DESC
+       LIMIT ? OFFSET ?`
+    )
+    .all(params.tenantId, params.policyId, params.limit ?? 50, params.offset ?? 0) as PolicyRevisionRow[];
+  return rows.map(rowToRevision);
+}
+
+export function getPolicyRevision(tenantId: string, policyId: string, revision: number): PolicyRevision | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT * FROM policy_revisions WHERE tenant_id = ? AND policy_id = ? AND revision = ?`)
+    .get(tenantId, policyId, revision) as PolicyRevisionRow | undefined;
+  return row ? rowToRevision(row) : null;
+}
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && path) out.set(path, {});
+    for (const [key, entry] of entries) {
+      flatten(entry, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  if (path) out.set(path, value);
+}
+
+/**
+ * Field-level diff between two revision bodies. Objects are compared per key;
+ * arrays and scalars are compared as whole values.
+ */
+export function diffPolicyBodies(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): PolicyRevisionChange[] {
+  const left = new Map<string, unknown>();
+  const right = new Map<string, unknown>();
+  flatten(before ?? {}, '', left);
+  flatten(after ?? {}, '', right);
+  const paths = [...new Set([...left.keys(), ...right.keys()])].sort();
+  const changes: PolicyRevisionChange[] = [];
+  for (const path of paths) {
+    const hasBefore = left.has(path);
+    const hasAfter = right.has(path);
+    if (hasBefore && !hasAfter) {
+      changes.push({ path, kind: 'removed', before: left.get(path) });
+    } else if (!hasBefore && hasAfter) {
+      changes.push({ path, kind: 'added', after: right.get(path) });
+    } else if (JSON.stringify(left.get(path)) !== JSON.stringify(right.get(path))) {
+      changes.push({ path, kind: 'changed', before: left.get(path), after: right.get(path) });
+    }
+  }
+  return changes;
+}
+
+function rowToRevision(row: PolicyRevisionRow): PolicyRevision {
+  return {
+    tenant_id: row.tenant_id,
+    policy_id: row.policy_id,
+    revision: row.revision,
+    action: row.action,
+    author: row.author,
+    reason: row.reason,
+    policy: row.policy_json ? JSON.parse(row.policy_json) : null,
+    bundle_hash: row.bundle_hash,
+    created_at: row.created_at,
+  };
+}
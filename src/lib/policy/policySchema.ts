@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import {
+  MAX_GLOB_PATTERN_LENGTH,
+  isSafeRegexPattern,
+  parseConditionExpression,
+  validateConditionExpression,
+} from './conditionOperators.js';
+import { SCHEDULE_DAYS, isValidScheduleDate, isValidTimeOfDay, isValidTimezone } from './schedule.js';
 
 export const PolicyDecisionSchema = z.enum(['allow', 'deny', 'require_approval']);
 export type PolicyDecision = z.infer<typeof PolicyDecisionSchema>;
@@ -16,11 +23,30 @@ export const PolicySubjectSchema = z.object({
 
 const ScalarConditionSchema = z.union([z.string(), z.number(), z.boolean()]);
 
+const RegexPatternSchema = z.string().refine(isSafeRegexPattern, {
+  message: 'Regex must compile and must not use nested quantifiers, backreferences or lookaround',
+});
+const GlobPatternSchema = z.string().min(1).max(MAX_GLOB_PATTERN_LENGTH);
+const FiniteNumberSchema = z.number().finite();
+const NumberRangeSchema = z
+  .tuple([FiniteNumberSchema, FiniteNumberSchema])
+  .refine(([min, max]) => min <= max, { message: 'between requires min <= max' });
+
+const NumericComparisonSchemas = [
+  z.object({ gt: FiniteNumberSchema }),
+  z.object({ gte: FiniteNumberSchema }),
+  z.object({ lt: FiniteNumberSchema }),
+  z.object({ lte: FiniteNumberSchema }),
+  z.object({ between: NumberRangeSchema }),
+] as const;
+
 const StringConditionSchema = z.union([
   z.string(),
   z.object({ eq: z.string() }),
   z.object({ in: z.array(z.string()) }),
   z.object({ prefix: z.string() }),
+  z.object({ matches: RegexPatternSchema }),
+  z.object({ glob: GlobPatternSchema }),
   z.object({ exists: z.literal(true) }),
 ]);
 
@@ -35,12 +61,16 @@ const NumberConditionSchema = z.union([
   z.number(),
   z.object({ eq: z.number() }),
   z.object({ in: z.array(z.number()) }),
+  ...NumericComparisonSchemas,
   z.object({ exists: z.literal(true) }),
 ]);
 
+/** `glob` requires every path to match; `any_glob` requires at least one. */
 const PathArrayConditionSchema = z.union([
   z.object({ all_under: z.array(z.string()) }),
   z.object({ any_under: z.array(z.string()) }),
+  z.object({ glob: GlobPatternSchema }),
+  z.object({ any_glob: GlobPatternSchema }),
   z.object({ exists: z.literal(true) }),
 ]);
 
@@ -51,10 +81,65 @@ export const PolicyConditionOperatorSchema = z.union([
   z.object({ prefix: z.string() }),
   z.object({ all_under: z.array(z.string()) }),
   z.object({ any_under: z.array(z.string()) }),
+  ...NumericComparisonSchemas,
+  z.object({ matches: RegexPatternSchema }),
+  z.object({ glob: GlobPatternSchema }),
+  z.object({ any_glob: GlobPatternSchema }),
   z.object({ exists: z.literal(true) }),
 ]);
 
-export const PolicyConditionsSchema = z
+const TimeOfDaySchema = z.string().refine(isValidTimeOfDay, { message: 'Expected HH:MM (24h)' });
+const ScheduleDateSchema = z
+  .string()
+  .refine(isValidScheduleDate, { message: 'Expected YYYY-MM-DD or an ISO timestamp' });
+
+/** Time-window condition evaluated against the policy clock in `timezone`. */
+export const ScheduleConditionSchema = z
+  .object({
+    /** IANA timezone; falls back to config.defaultTimezone, then the system timezone. */
+    timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).optional(),
+    days_of_week: z.array(z.enum(SCHEDULE_DAYS)).min(1).optional(),
+    /** Local time windows; `end` is exclusive and an `end` before `start` wraps midnight. */
+    time_ranges: z.array(z.object({ start: TimeOfDaySchema, end: TimeOfDaySchema })).min(1).optional(),
+    /** Absolute inclusive ranges, e.g. a change freeze. */
+    date_ranges: z
+      .array(
+        z
+          .object({ from: ScheduleDateSchema.optional(), to: ScheduleDateSchema.optional() })
+          .refine((r) => r.from !== undefined || r.to !== undefined, {
+            message: 'date range requires from or to',
+          })
+      )
+      .min(1)
+      .optional(),
+  })
+  .strict()
+  .refine(
+    (s) => s.days_of_week !== undefined || s.time_ranges !== undefined || s.date_ranges !== undefined,
+    { message: 'schedule requires days_of_week, time_ranges or date_ranges' }
+  );
+
+export const RATE_LIMIT_KEY_FIELDS = ['agent_id', 'tool', 'workspace_id', 'adapter_id'] as const;
+export type RateLimitKeyField = (typeof RATE_LIMIT_KEY_FIELDS)[number];
+const MAX_RATE_LIMIT_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Stateful sliding-window limit. Matches once `max` events were already counted
+ * for the key inside the window, so pair it with a deny/require_approval effect.
+ */
+export const RateLimitConditionSchema = z
+  .object({
+    max: z.number().int().min(1),
+    window_seconds: z.number().int().min(1).max(MAX_RATE_LIMIT_WINDOW_SECONDS),
+    /** Request fields that partition the counter; omitted = one counter per policy. */
+    key: z.array(z.enum(RATE_LIMIT_KEY_FIELDS)).optional(),
+    /** `requests` counts non-denied requests (default); `denials` counts denied ones. */
+    count: z.enum(['requests', 'denials']).optional(),
+  })
+  .strict();
+export type RateLimitCondition = z.infer<typeof RateLimitConditionSchema>;
+
+const BasePolicyConditionsSchema = z
   .object({
   adapter_risk_class: z.string().optional(),
   tool: StringConditionSchema.optional(),
@@ -64,6 +149,8 @@ export const PolicyConditionsSchema = z
   risk_level: StringConditionSchema.optional(),
   min_cost: z.number().optional(),
   max_cost: z.number().optional(),
+  /** Estimated cost of the request (supports numeric comparison operators). */
+  estimated_cost: NumberConditionSchema.optional(),
   tenant_id: StringConditionSchema.optional(),
   workspace_id: StringConditionSchema.optional(),
   capability: StringConditionSchema.optional(),
@@ -78,6 +165,10 @@ export const PolicyConditionsSchema = z
   resource: StringConditionSchema.optional(),
   /** Actor identifier for generic policy matching. */
   actor: StringConditionSchema.optional(),
+  /** Only match inside this time window (on-hours, change freezes). */
+  schedule: ScheduleConditionSchema.optional(),
+  /** Only match once the sliding-window count for this policy key is exhausted. */
+  rate_limit: RateLimitConditionSchema.optional(),
   context: z
     .object({
       external_network: BooleanConditionSchema.optional(),
@@ -87,8 +178,15 @@ export const PolicyConditionsSchema = z
       exec: z
         .object({
           argv0: StringConditionSchema.optional(),
+          /** Numeric comparison operators compare the argv length. */
           argv: z
-            .union([z.array(z.string()), z.object({ in: z.array(z.string()) }), z.object({ exists: z.literal(true) })])
+            .union([
+              z.array(z.string()),
+              z.object({ in: z.array(z.string()) }),
+              ...NumericComparisonSchemas,
+              z.object({ any_glob: GlobPatternSchema }),
+              z.object({ exists: z.literal(true) }),
+            ])
             .optional(),
           cwd: StringConditionSchema.optional(),
         })
@@ -100,6 +198,9 @@ export const PolicyConditionsSchema = z
             .union([
               z.array(z.string()),
               z.object({ in: z.array(z.string()) }),
+              z.object({ matches: RegexPatternSchema }),
+              z.object({ glob: GlobPatternSchema }),
+              z.object({ any_glob: GlobPatternSchema }),
               z.object({ exists: z.literal(true) }),
             ])
             .optional(),
@@ -130,9 +231,54 @@ export const PolicyConditionsSchema = z
   })
   .passthrough();
 
-export const PolicyEffectSchema = z.object({
-  decision: PolicyDecisionSchema,
+/**
+ * Policy conditions. Fields at the same level are implicitly ANDed; `all`, `any`
+ * and `not` nest further condition blocks for explicit boolean composition.
+ */
+export type PolicyConditions = z.infer<typeof BasePolicyConditionsSchema> & {
+  all?: PolicyConditions[];
+  any?: PolicyConditions[];
+  not?: PolicyConditions;
+};
+
+export const PolicyConditionsSchema: z.ZodType<PolicyConditions, z.ZodTypeDef, unknown> =
+  BasePolicyConditionsSchema.extend({
+    /** Every nested block must match. */
+    all: z.array(z.lazy(() => PolicyConditionsSchema)).min(1).optional(),
+    /** At least one nested block must match. */
+    any: z.array(z.lazy(() => PolicyConditionsSchema)).min(1).optional(),
+    /** The nested block must not match. */
+    not: z.lazy(() => PolicyConditionsSchema).optional(),
+  }).passthrough();
+
+/**
+ * Who may approve a `require_approval` decision: `quorum` distinct approvers,
+ * optionally restricted to `roles`. The agent's owner cannot approve their own
+ * request unless `allow_self_approval` is set. A single deny vote denies.
+ */
+export const PolicyApprovalSchema = z.object({
+  quorum: z.number().int().min(1).max(10).optional(),
+  roles: z.array(z.string().min(1)).min(1).optional(),
+  allow_self_approval: z.boolean().optional(),
 });
+export type PolicyApproval = z.infer<typeof PolicyApprovalSchema>;
+
+export const PolicyEffectSchema = z
+  .object({
+    decision: PolicyDecisionSchema,
+    approval: PolicyApprovalSchema.optional(),
+  })
+  .refine((effect) => !effect.approval || effect.decision === 'require_approval', {
+    message: 'effect.approval only applies to require_approval',
+    path: ['approval'],
+  });
+
+/**
+ * `shadow` policies are evaluated and traced but never change the outcome;
+ * their would-be decision is reported alongside the enforced one.
+ */
+export const PolicyModeSchema = z.enum(['enforce', 'shadow']);
+export type PolicyMode = z.infer<typeof PolicyModeSchema>;
 
 const RESERVED_TOOL_PREFIX = '__clasper_';
 
@@ -141,8 +287,13 @@ function getToolValuesFromPolicy(obj: { subject?: { type?: string; name?: string
   if (obj.subject?.type === 'tool' && obj.subject.name) {
     out.push(obj.subject.name);
   }
-  const cond = obj.conditions as Record<string, unknown> | undefined;
-  const tool = cond?.tool;
+  collectConditionToolValues(obj.conditions as Record<string, unknown> | undefined, out);
+  return out;
+}
+
+function collectConditionToolValues(cond: Record<string, unknown> | undefined, out: string[]): void {
+  if (!cond || typeof cond !== 'object') return;
+  const tool = cond.tool;
   if (typeof tool === 'string') out.push(tool);
   else if (tool && typeof tool === 'object' && !Array.isArray(tool)) {
     const t = tool as Record<string, unknown>;
@@ -153,7 +304,38 @@ function getToolValuesFromPolicy(obj: { subject?: { type?: string; name?: string
       }
     }
   }
-  return out;
+  for (const key of ['all', 'any'] as const) {
+    const branches = cond[key];
+    if (!Array.isArray(branches)) continue;
+    for (const branch of branches) {
+      collectConditionToolValues(branch as Record<string, unknown>, out);
+    }
+  }
+  collectConditionToolValues(cond.not as Record<string, unknown> | undefined, out);
+}
+
+/**
+ * Dotted-key conditions pass through the object schema untyped, so walk every
+ * operator expression and validate its operand (regex safety, numeric ranges).
+ */
+function collectConditionOperatorIssues(
+  value: unknown,
+  path: (string | number)[],
+  issues: Array<{ path: (string | number)[]; message: string }>
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectConditionOperatorIssues(entry, [...path, index], issues));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  if (parseConditionExpression(value)) {
+    const message = validateConditionExpression(value);
+    if (message) issues.push({ path, message });
+    return;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    collectConditionOperatorIssues(entry, [...path, key], issues);
+  }
 }
 
 export const PolicySchema = z
@@ -163,6 +345,7 @@ export const PolicySchema = z
     subject: PolicySubjectSchema,
     conditions: PolicyConditionsSchema.optional(),
     effect: PolicyEffectSchema,
+    mode: PolicyModeSchema.optional(),
     explanation: z.string().optional(),
     precedence: z.number().int().optional(),
     enabled: z.boolean().optional(),
@@ -177,6 +360,13 @@ export const PolicySchema = z
     {
       message: `Tool names starting with "${RESERVED_TOOL_PREFIX}" are reserved for Clasper internal use (e.g. diagnostics). Choose a different tool name.`,
     }
-  );
+  )
+  .superRefine((p, ctx) => {
+    const issues: Array<{ path: (string | number)[]; message: string }> = [];
+    collectConditionOperatorIssues(p.conditions, ['conditions'], issues);
+    for (const issue of issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    }
+  });
 
 export type PolicyObject = z.infer<typeof PolicySchema>;
@@ -1,5 +1,10 @@
 import { getDatabase } from '../core/db.js';
-import { PolicySchema, type PolicyObject } from './policySchema.js';
+import { getEventBus } from '../core/eventBus.js';
+import { PolicySchema, type PolicyMode, type PolicyObject } from './policySchema.js';
+import { getPolicyRevision, recordPolicyRevision, type PolicyRevisionAction } from './policyRevisions.js';
+
+/** Where a policy is managed: the Ops console/API or a policy file (GitOps). */
+export type PolicySource = 'ops' | 'file';
 
 export interface PolicyRecord extends PolicyObject {
   tenant_id: string;
@@ -7,58 +12,108 @@ export interface PolicyRecord extends PolicyObject {
   environment?: string | null;
   precedence: number;
   enabled: boolean;
+  source: PolicySource;
+  source_path: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export function upsertPolicy(params: {
-  tenantId: string;
-  policy: PolicyObject;
-}): PolicyRecord {
-  const db = getDatabase();
-  const now = new Date().toISOString();
-  const parsed = PolicySchema.parse(params.policy);
-  const scope = parsed.scope || {};
-  const precedence = parsed.precedence ?? 0;
-  const enabled = parsed.enabled ?? true;
+/** Who made a policy change and why; recorded on the revision. */
+export interface PolicyChangeAttribution {
+  author?: string | null;
+  reason?: string | null;
+}
 
-  const record = {
+export function upsertPolicy(
+  params: {
+    tenantId: string;
+    policy: PolicyObject;
+    source?: PolicySource;
+    sourcePath?: string | null;
+  } & PolicyChangeAttribution
+): PolicyRecord {
+  return writePolicy(params);
+}
+
+/**
+ * The stored policy document: schema-parsed with scope.tenant_id, precedence and
+ * enabled filled in. Revisions and file reconciliation compare these bodies.
+ */
+export function toPolicyBody(tenantId: string, policy: PolicyObject): PolicyObject {
+  const parsed = PolicySchema.parse(policy);
+  const scope = parsed.scope || {};
+  return {
     ...parsed,
     scope: {
       ...scope,
-      tenant_id: scope.tenant_id || params.tenantId,
+      tenant_id: scope.tenant_id || tenantId,
     },
-    precedence,
-    enabled,
+    precedence: parsed.precedence ?? 0,
+    enabled: parsed.enabled ?? true,
   };
+}
 
-  db.prepare(
-    `
-      INSERT INTO policies (
-        tenant_id, policy_id, workspace_id, environment, precedence, enabled,
-        policy_json, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(tenant_id, policy_id) DO UPDATE SET
-        workspace_id = excluded.workspace_id,
-        environment = excluded.environment,
-        precedence = excluded.precedence,
-        enabled = excluded.enabled,
-        policy_json = excluded.policy_json,
-        updated_at = excluded.updated_at
-    `
-  ).run(
-    record.scope?.tenant_id || params.tenantId,
-    record.policy_id,
-    record.scope?.workspace_id || null,
-    record.scope?.environment || null,
-    precedence,
-    enabled ? 1 : 0,
-    JSON.stringify(record),
-    now,
-    now
-  );
+function writePolicy(
+  params: {
+    tenantId: string;
+    policy: PolicyObject;
+    source?: PolicySource;
+    sourcePath?: string | null;
+    action?: PolicyRevisionAction;
+  } & PolicyChangeAttribution
+): PolicyRecord {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+  const record = toPolicyBody(params.tenantId, params.policy);
+  const precedence = record.precedence ?? 0;
+  const enabled = record.enabled ?? true;
 
-  return getPolicy(params.tenantId, record.policy_id)!;
+  const existing = getPolicy(params.tenantId, record.policy_id);
+  const write = db.transaction(() => {
+    db.prepare(
+      `
+        INSERT INTO policies (
+          tenant_id, policy_id, workspace_id, environment, precedence, enabled,
+          policy_json, source, source_path, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(tenant_id, policy_id) DO UPDATE SET
+          workspace_id = excluded.workspace_id,
+          environment = excluded.environment,
+          precedence = excluded.precedence,
+          enabled = excluded.enabled,
+          policy_json = excluded.policy_json,
+          source = excluded.source,
+          source_path = excluded.source_path,
+          updated_at = excluded.updated_at
+      `
+    ).run(
+      record.scope?.tenant_id || params.tenantId,
+      record.policy_id,
+      record.scope?.workspace_id || null,
+      record.scope?.environment || null,
+      precedence,
+      enabled ? 1 : 0,
+      JSON.stringify(record),
+      params.source ?? 'ops',
+      params.sourcePath ?? null,
+      now,
+      now
+    );
+    const saved = getPolicy(params.tenantId, record.policy_id)!;
+    writeRevision({
+      tenantId: params.tenantId,
+      policyId: record.policy_id,
+      action: params.action ?? (existing ? 'update' : 'create'),
+      policy: saved,
+      author: params.author,
+      reason: params.reason,
+    });
+    return saved;
+  });
+
+  const saved = write();
+  emitPolicyEvent(existing ? 'policy.updated' : 'policy.created', saved);
+  return saved;
 }
 
 export function getPolicy(tenantId: string, policyId: string): PolicyRecord | null {
@@ -113,42 +168,162 @@ export function listPolicies(params: {
   return rows.map(rowToRecord);
 }
 
-export function setPolicyEnabled(params: {
-  tenantId: string;
-  policyId: string;
-  enabled: boolean;
-}): PolicyRecord | null {
+export function setPolicyEnabled(
+  params: {
+    tenantId: string;
+    policyId: string;
+    enabled: boolean;
+  } & PolicyChangeAttribution
+): PolicyRecord | null {
   const db = getDatabase();
   const now = new Date().toISOString();
-  const result = db
-    .prepare(
+  const update = db.transaction(() => {
+    const result = db
+      .prepare(
+        `
+        UPDATE policies
+        SET enabled = ?, updated_at = ?
+        WHERE tenant_id = ? AND policy_id = ?
       `
-      UPDATE policies
-      SET enabled = ?, updated_at = ?
-      WHERE tenant_id = ? AND policy_id = ?
-    `
-    )
-    .run(params.enabled ? 1 : 0, now, params.tenantId, params.policyId);
+      )
+      .run(params.enabled ? 1 : 0, now, params.tenantId, params.policyId);
 
-  if (result.changes === 0) return null;
-  return getPolicy(params.tenantId, params.policyId);
+    if (result.changes === 0) return null;
+    const saved = getPolicy(params.tenantId, params.policyId)!;
+    writeRevision({
+      tenantId: params.tenantId,
+      policyId: params.policyId,
+      action: params.enabled ? 'enable' : 'disable',
+      policy: saved,
+      author: params.author,
+      reason: params.reason,
+    });
+    return saved;
+  });
+  const saved = update();
+  if (saved) emitPolicyEvent('policy.updated', saved);
+  return saved;
 }
 
-export function deletePolicy(params: {
-  tenantId: string;
-  policyId: string;
-}): boolean {
+/**
+ * Switch a policy between `enforce` and `shadow` (e.g. promote a shadow policy
+ * once its report looks right). Returns null when the policy does not exist.
+ */
+export function setPolicyMode(
+  params: {
+    tenantId: string;
+    policyId: string;
+    mode: PolicyMode;
+  } & PolicyChangeAttribution
+): PolicyRecord | null {
+  const current = getPolicy(params.tenantId, params.policyId);
+  if (!current) return null;
+  return writePolicy({
+    tenantId: params.tenantId,
+    policy: { ...PolicySchema.parse(current), mode: params.mode },
+    source: current.source,
+    sourcePath: current.source_path,
+    author: params.author,
+    reason: params.reason,
+  });
+}
+
+export function deletePolicy(
+  params: {
+    tenantId: string;
+    policyId: string;
+  } & PolicyChangeAttribution
+): boolean {
   const db = getDatabase();
-  const result = db
-    .prepare(
+  const remove = db.transaction(() => {
+    const existing = getPolicy(params.tenantId, params.policyId);
+    const result = db
+      .prepare(
+        `
+        DELETE FROM policies
+        WHERE tenant_id = ? AND policy_id = ?
       `
-      DELETE FROM policies
-      WHERE tenant_id = ? AND policy_id = ?
-    `
-    )
-    .run(params.tenantId, params.policyId);
+      )
+      .run(params.tenantId, params.policyId);
+
+    if (result.changes === 0) return null;
+    writeRevision({
+      tenantId: params.tenantId,
+      policyId: params.policyId,
+      action: 'delete',
+      policy: existing,
+      author: params.author,
+      reason: params.reason,
+    });
+    return existing;
+  });
+  const removed = remove();
+  if (removed) emitPolicyEvent('policy.deleted', removed);
+  return Boolean(removed);
+}
+
+/**
+ * Restore the body recorded at an earlier revision (including a deleted policy).
+ * Returns null when the revision does not exist.
+ */
+export function rollbackPolicy(
+  params: {
+    tenantId: string;
+    policyId: string;
+    revision: number;
+  } & PolicyChangeAttribution
+): PolicyRecord | null {
+  const target = getPolicyRevision(params.tenantId, params.policyId, params.revision);
+  if (!target?.policy) return null;
+  const current = getPolicy(params.tenantId, params.policyId);
+  return writePolicy({
+    tenantId: params.tenantId,
+    policy: PolicySchema.parse(target.policy),
+    source: current?.source,
+    sourcePath: current?.source_path,
+    action: 'rollback',
+    author: params.author,
+    reason: params.reason ?? `Rollback to revision ${params.revision}`,
+  });
+}
+
+/** Policy writes are announced on the EventBus (the compiled policy index listens). */
+function emitPolicyEvent(
+  type: 'policy.created' | 'policy.updated' | 'policy.deleted',
+  record: PolicyRecord
+): void {
+  getEventBus().emit(type, {
+    tenantId: record.tenant_id,
+    workspaceId: record.workspace_id ?? undefined,
+    payload: { policy_id: record.policy_id, enabled: record.enabled, source: record.source },
+  });
+}
+
+function writeRevision(params: {
+  tenantId: string;
+  policyId: string;
+  action: PolicyRevisionAction;
+  policy: PolicyRecord | null;
+  author?: string | null;
+  reason?: string | null;
+}): void {
+  recordPolicyRevision({
+    tenantId: params.tenantId,
+    policyId: params.policyId,
+    action: params.action,
+    policy: params.policy ? toRevisionBody(params.policy) : null,
+    bundlePolicies: listPolicies({ tenantId: params.tenantId, enabled: true }) as unknown as Record<
+      string,
+      unknown
+    >[],
+    author: params.author,
+    reason: params.reason,
+  });
+}
 
-  return result.changes > 0;
+/** Revision bodies keep the policy document (scope, enabled, precedence) without row timestamps. */
+function toRevisionBody(record: PolicyRecord): Record<string, unknown> {
+  return PolicySchema.parse(record) as unknown as Record<string, unknown>;
 }
 
 interface PolicyRow {
@@ -159,6 +334,8 @@ interface PolicyRow {
   precedence: number;
   enabled: number;
   policy_json: string;
+  source: string | null;
+  source_path: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -172,6 +349,8 @@ function rowToRecord(row: PolicyRow): PolicyRecord {
     environment: row.environment,
     precedence: row.precedence,
     enabled: row.enabled === 1,
+    source: row.source === 'file' ? 'file' : 'ops',
+    source_path: row.source_path ?? null,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
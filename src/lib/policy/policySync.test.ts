@@ -0,0 +1,194 @@
+import { mkdirSync, mkdtempSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { loadPolicyFiles, PolicyFileError } from './policyFiles.js';
+import { listPolicyRevisions } from './policyRevisions.js';
+import { getPolicy, listPolicies, upsertPolicy } from './policyStore.js';
+import { applyPolicyFiles, planPolicyFiles, syncPolicyFiles, watchPolicyFiles, type PolicyPlan } from './policySync.js';
+
+let dir: string;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  dir = mkdtempSync(join(tmpdir(), 'clasper-policies-'));
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const DENY_EXEC = `
+- policy_id: deny-exec
+  subject: { type: tool }
+  conditions: { tool: exec }
+  effect: { decision: deny }
+`;
+
+const APPROVE_FETCH = `
+policies:
+  - policy_id: approve-fetch
+    subject: { type: tool, name: web_fetch }
+    effect: { decision: require_approval }
+    precedence: 10
+`;
+
+describe('policy files', () => {
+  it('loads a directory of YAML files recursively', () => {
+    mkdirSync(join(dir, 'nested'));
+    writeFileSync(join(dir, 'a.yaml'), DENY_EXEC);
+    writeFileSync(join(dir, 'nested', 'b.yml'), APPROVE_FETCH);
+    writeFileSync(join(dir, 'README.md'), '# not a policy');
+
+    const loaded = loadPolicyFiles(dir);
+    expect(loaded.issues).toEqual([]);
+    expect(loaded.files).toHaveLength(2);
+    expect(loaded.policies.map((p) => p.policy.policy_id)).toEqual(['deny-exec', 'approve-fetch']);
+    expect(loaded.policies[1].source_path).toMatch(/nested[\\/]b\.yml$/);
+  });
+
+  it('reports schema errors, bad YAML and duplicate policy ids', () => {
+    writeFileSync(join(dir, 'a.yaml'), DENY_EXEC);
+    writeFileSync(join(dir, 'b.yaml'), DENY_EXEC);
+    writeFileSync(join(dir, 'c.yaml'), '- policy_id: broken\n  subject: { type: tool }\n');
+    writeFileSync(join(dir, 'd.yaml'), 'policies: [unclosed');
+
+    const issues = loadPolicyFiles(dir).issues;
+    expect(issues.some((i) => i.policy_id === 'deny-exec' && i.message.startsWith('Duplicate policy_id'))).toBe(true);
+    expect(issues.some((i) => i.policy_id === 'broken' && i.message.startsWith('effect'))).toBe(true);
+    expect(issues.some((i) => i.source_path.endsWith('d.yaml') && i.message.startsWith('Invalid YAML'))).toBe(true);
+    expect(loadPolicyFiles(join(dir, 'missing.yaml')).issues[0].message).toBe('Policy path not found');
+  });
+});
+
+describe('policy file sync', () => {
+  it('plans creates, updates, deletes and unchanged policies', () => {
+    const file = join(dir, 'policies.yaml');
+    writeFileSync(file, DENY_EXEC);
+    writeFileSync(join(dir, 'fetch.yaml'), APPROVE_FETCH);
+    syncPolicyFiles({ path: dir, tenantId: 'local' });
+    rmSync(join(dir, 'fetch.yaml'));
+
+    upsertPolicy({
+      tenantId: 'local',
+      policy: { policy_id: 'console-only', subject: { type: 'tool' }, effect: { decision: 'allow' } },
+    });
+    writeFileSync(
+      file,
+      `
+- policy_id: deny-exec
+  subject: { type: tool }
+  conditions: { tool: exec }
+  effect: { decision: deny }
+- policy_id: deny-shell
+  subject: { type: tool }
+  conditions: { tool: shell }
+  effect: { decision: deny }
+  precedence: 5
+`
+    );
+
+    const loaded = loadPolicyFiles(dir);
+    loaded.policies[0].policy.precedence = 20;
+    const plan = planPolicyFiles({ tenantId: 'local', policies: loaded.policies });
+    expect(plan.creates.map((i) => i.policy_id)).toEqual(['deny-shell']);
+    expect(plan.updates).toEqual([
+      {
+        action: 'update',
+        policy_id: 'deny-exec',
+        source_path: loaded.policies[0].source_path,
+        changes: [{ path: 'precedence', kind: 'changed', before: 0, after: 20 }],
+      },
+    ]);
+    // Console-created policies are never deleted by file sync.
+    expect(plan.deletes.map((i) => i.policy_id)).toEqual(['approve-fetch']);
+
+    const unchanged = planPolicyFiles({ tenantId: 'local', policies: loadPolicyFiles(dir).policies });
+    expect(unchanged.unchanged).toEqual(['deny-exec']);
+  });
+
+  it('applies file policies as file-managed with revisions', () => {
+    const file = join(dir, 'policies.yaml');
+    writeFileSync(file, DENY_EXEC);
+    const plan = syncPolicyFiles({ path: file, tenantId: 'local', author: 'policy-files' });
+    expect(plan.creates).toHaveLength(1);
+
+    const record = getPolicy('local', 'deny-exec');
+    expect(record).toMatchObject({ source: 'file', enabled: true, conditions: { tool: 'exec' } });
+    expect(record?.source_path).toMatch(/policies\.yaml$/);
+    const [revision] = listPolicyRevisions({ tenantId: 'local', policyId: 'deny-exec' });
+    expect(revision).toMatchObject({ action: 'create', author: 'policy-files' });
+    expect(revision.reason).toMatch(/^Applied from .*policies\.yaml$/);
+
+    writeFileSync(file, '[]');
+    const removal = syncPolicyFiles({ path: file, tenantId: 'local' });
+    expect(removal.deletes.map((i) => i.policy_id)).toEqual(['deny-exec']);
+    expect(getPolicy('local', 'deny-exec')).toBeNull();
+  });
+
+  it('adopts an existing console policy with the same id', () => {
+    upsertPolicy({
+      tenantId: 'local',
+      policy: { policy_id: 'deny-exec', subject: { type: 'tool' }, conditions: { tool: 'exec' }, effect: { decision: 'deny' } },
+    });
+    writeFileSync(join(dir, 'policies.yaml'), DENY_EXEC);
+
+    const plan = planPolicyFiles({ tenantId: 'local', policies: loadPolicyFiles(dir).policies });
+    expect(plan.updates[0].changes).toEqual([{ path: 'source', kind: 'changed', before: 'ops', after: 'file' }]);
+    syncPolicyFiles({ path: dir, tenantId: 'local' });
+    expect(getPolicy('local', 'deny-exec')?.source).toBe('file');
+  });
+
+  it('rejects policies scoped to another tenant without writing anything', () => {
+    writeFileSync(
+      join(dir, 'policies.yaml'),
+      DENY_EXEC +
+        `
+- policy_id: other-tenant
+  scope: { tenant_id: acme }
+  subject: { type: tool }
+  effect: { decision: deny }
+`
+    );
+    const loaded = loadPolicyFiles(dir);
+    expect(() => applyPolicyFiles({ tenantId: 'local', policies: loaded.policies })).toThrow(PolicyFileError);
+    expect(listPolicies({ tenantId: 'local' })).toEqual([]);
+  });
+
+  it('keeps re-syncing a policy file saved by renaming a temp file over it', async () => {
+    const file = join(dir, 'policies.yaml');
+    writeFileSync(file, DENY_EXEC);
+    syncPolicyFiles({ path: file, tenantId: 't1' });
+
+    let resolveSync: (plan: PolicyPlan) => void = () => {};
+    const stop = watchPolicyFiles({
+      path: file,
+      tenantId: 't1',
+      debounceMs: 10,
+      onSync: (plan) => resolveSync(plan),
+    });
+    const atomicSave = (content: string) => {
+      const synced = new Promise<PolicyPlan>((resolve) => (resolveSync = resolve));
+      writeFileSync(join(dir, '.policies.yaml.tmp'), content);
+      renameSync(join(dir, '.policies.yaml.tmp'), file);
+      return synced;
+    };
+
+    try {
+      await atomicSave(`${DENY_EXEC}- policy_id: approve-fetch
+  subject: { type: tool, name: web_fetch }
+  effect: { decision: require_approval }
+`);
+      expect(getPolicy('t1', 'approve-fetch')).not.toBeNull();
+      await atomicSave(DENY_EXEC);
+      expect(getPolicy('t1', 'approve-fetch')).toBeNull();
+    } finally {
+      stop();
+    }
+  });
+});
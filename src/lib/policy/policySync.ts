@@ -0,0 +1,210 @@
+/**
+ * Policy file sync (GitOps mode)
+ *
+ * Reconciles policies loaded from files into the store: plan lists the
+ * creates/updates/deletes, apply performs them. Policies written here are
+ * marked source = 'file' and are read-only through the Ops API. Deletes only
+ * touch file-managed policies; policies created in the Ops console are left alone.
+ */
+
+import { existsSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import { getDatabase } from '../core/db.js';
+import {
+  PolicyFileError,
+  loadPolicyFiles,
+  type PolicyFileEntry,
+  type PolicyFileIssue,
+} from './policyFiles.js';
+import { diffPolicyBodies, type PolicyRevisionChange } from './policyRevisions.js';
+import { deletePolicy, getPolicy, listPolicies, toPolicyBody, upsertPolicy, type PolicyRecord } from './policyStore.js';
+
+export type PolicyPlanAction = 'create' | 'update' | 'delete';
+
+export interface PolicyPlanItem {
+  action: PolicyPlanAction;
+  policy_id: string;
+  source_path: string | null;
+  changes: PolicyRevisionChange[];
+}
+
+export interface PolicyPlan {
+  tenant_id: string;
+  creates: PolicyPlanItem[];
+  updates: PolicyPlanItem[];
+  deletes: PolicyPlanItem[];
+  unchanged: string[];
+  issues: PolicyFileIssue[];
+}
+
+function storedBody(tenantId: string, record: PolicyRecord): Record<string, unknown> {
+  return toPolicyBody(tenantId, record) as unknown as Record<string, unknown>;
+}
+
+/**
+ * Compare file policies with the store for one tenant.
+ */
+export function planPolicyFiles(params: { tenantId: string; policies: PolicyFileEntry[] }): PolicyPlan {
+  const plan: PolicyPlan = {
+    tenant_id: params.tenantId,
+    creates: [],
+    updates: [],
+    deletes: [],
+    unchanged: [],
+    issues: [],
+  };
+  const fileIds = new Set<string>();
+
+  for (const entry of params.policies) {
+    const { policy, source_path: sourcePath } = entry;
+    const scopedTenant = policy.scope?.tenant_id;
+    if (scopedTenant && scopedTenant !== params.tenantId) {
+      plan.issues.push({
+        source_path: sourcePath,
+        policy_id: policy.policy_id,
+        message: `scope.tenant_id "${scopedTenant}" does not match tenant "${params.tenantId}"`,
+      });
+      continue;
+    }
+    fileIds.add(policy.policy_id);
+
+    const body = toPolicyBody(params.tenantId, policy) as unknown as Record<string, unknown>;
+    const current = getPolicy(params.tenantId, policy.policy_id);
+    if (!current) {
+      plan.creates.push({
+        action: 'create',
+        policy_id: policy.policy_id,
+        source_path: sourcePath,
+        changes: diffPolicyBodies(null, body),
+      });
+      continue;
+    }
+
+    const changes = diffPolicyBodies(storedBody(params.tenantId, current), body);
+    if (current.source !== 'file') {
+      changes.push({ path: 'source', kind: 'changed', before: current.source, after: 'file' });
+    } else if (current.source_path !== sourcePath) {
+      changes.push({ path: 'source_path', kind: 'changed', before: current.source_path, after: sourcePath });
+    }
+    if (changes.length === 0) {
+      plan.unchanged.push(policy.policy_id);
+    } else {
+      plan.updates.push({ action: 'update', policy_id: policy.policy_id, source_path: sourcePath, changes });
+    }
+  }
+
+  for (const record of listPolicies({ tenantId: params.tenantId })) {
+    if (record.source !== 'file' || fileIds.has(record.policy_id)) continue;
+    plan.deletes.push({
+      action: 'delete',
+      policy_id: record.policy_id,
+      source_path: record.source_path,
+      changes: diffPolicyBodies(storedBody(params.tenantId, record), null),
+    });
+  }
+
+  return plan;
+}
+
+export function hasPolicyPlanChanges(plan: PolicyPlan): boolean {
+  return plan.creates.length + plan.updates.length + plan.deletes.length > 0;
+}
+
+/**
+ * Plan and apply in one transaction. Throws PolicyFileError when the plan has
+ * issues (nothing is written).
+ */
+export function applyPolicyFiles(params: {
+  tenantId: string;
+  policies: PolicyFileEntry[];
+  author?: string | null;
+}): PolicyPlan {
+  const db = getDatabase();
+  const apply = db.transaction(() => {
+    const plan = planPolicyFiles(params);
+    if (plan.issues.length > 0) {
+      throw new PolicyFileError(plan.issues);
+    }
+    const entries = new Map(params.policies.map((entry) => [entry.policy.policy_id, entry]));
+    for (const item of [...plan.creates, ...plan.updates]) {
+      const entry = entries.get(item.policy_id)!;
+      upsertPolicy({
+        tenantId: params.tenantId,
+        policy: entry.policy,
+        source: 'file',
+        sourcePath: entry.source_path,
+        author: params.author,
+        reason: `Applied from ${entry.source_path}`,
+      });
+    }
+    for (const item of plan.deletes) {
+      deletePolicy({
+        tenantId: params.tenantId,
+        policyId: item.policy_id,
+        author: params.author,
+        reason: `Removed from ${item.source_path ?? 'policy files'}`,
+      });
+    }
+    return plan;
+  });
+  return apply();
+}
+
+/**
+ * Load the policy path and apply it. Throws PolicyFileError on invalid files.
+ */
+export function syncPolicyFiles(params: { path: string; tenantId: string; author?: string | null }): PolicyPlan {
+  const loaded = loadPolicyFiles(params.path);
+  if (loaded.issues.length > 0) {
+    throw new PolicyFileError(loaded.issues);
+  }
+  return applyPolicyFiles({ tenantId: params.tenantId, policies: loaded.policies, author: params.author });
+}
+
+/**
+ * Re-sync whenever a file under the policy path changes. Invalid edits are
+ * reported through onError and leave the store untouched. Returns a stop function.
+ */
+export function watchPolicyFiles(params: {
+  path: string;
+  tenantId: string;
+  author?: string | null;
+  debounceMs?: number;
+  onSync?: (plan: PolicyPlan) => void;
+  onError?: (error: unknown) => void;
+}): () => void {
+  if (!existsSync(params.path)) return () => {};
+  const debounceMs = params.debounceMs ?? 250;
+  let timer: NodeJS.Timeout | null = null;
+
+  const run = () => {
+    timer = null;
+    try {
+      const plan = syncPolicyFiles(params);
+      params.onSync?.(plan);
+    } catch (error) {
+      params.onError?.(error);
+    }
+  };
+
+  // A single file is watched through its directory: editors that save by
+  // renaming a temp file over it replace the inode a file watch is bound to.
+  const isDirectory = statSync(params.path).isDirectory();
+  const fileName = isDirectory ? null : basename(params.path);
+  const watcher: FSWatcher = watch(
+    isDirectory ? params.path : dirname(params.path),
+    { persistent: false, recursive: isDirectory },
+    (_event, changed) => {
+      if (fileName && changed !== fileName) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(run, debounceMs);
+      timer.unref();
+    }
+  );
+  watcher.on('error', (error) => params.onError?.(error));
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../core/config.js';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { getAuditLog } from '../governance/auditLog.js';
+import { evaluateExecutionDecision } from '../governance/executionDecision.js';
+import { evaluatePolicy } from '../governance/policyEngine.js';
+import { upsertPolicy } from './policyStore.js';
+import { countRateLimitEvents, evaluateRateLimit, recordRateLimitEvent } from './rateLimits.js';
+
+const originalPolicyOperatorsEnabled = config.policyOperatorsEnabled;
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+  config.policyOperatorsEnabled = true;
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+  config.policyOperatorsEnabled = originalPolicyOperatorsEnabled;
+});
+
+function webFetchRequest(agentId: string) {
+  return {
+    tenant_id: 't1',
+    workspace_id: 'w1',
+    adapter_id: 'openclaw',
+    requested_capabilities: [],
+    tool_count: 1,
+    tool: 'web_fetch',
+    agent_id: agentId,
+  };
+}
+
+describe('policy rate limits', () => {
+  it('counts events inside a sliding window', () => {
+    const subject = { tenant_id: 't1', agent_id: 'a1', tool: 'web_fetch' };
+    const condition = { max: 2, window_seconds: 60, key: ['agent_id', 'tool'] };
+    const t0 = new Date('2026-10-19T10:00:00Z');
+
+    const first = evaluateRateLimit({ condition, policyId: 'p1', field: 'rate_limit', subject, now: t0 });
+    expect(first.result).toBe(false);
+    expect(first.observation?.counter_key).toBe('p1#rate_limit|agent_id=a1|tool=web_fetch');
+
+    recordRateLimitEvent({ tenantId: 't1', observation: first.observation!, now: t0 });
+    recordRateLimitEvent({ tenantId: 't1', observation: first.observation!, now: new Date('2026-10-19T10:00:30Z') });
+
+    const limited = evaluateRateLimit({
+      condition,
+      policyId: 'p1',
+      field: 'rate_limit',
+      subject,
+      now: new Date('2026-10-19T10:00:45Z'),
+    });
+    expect(limited.result).toBe(true);
+    expect(limited.observation?.count).toBe(2);
+
+    const slid = evaluateRateLimit({
+      condition,
+      policyId: 'p1',
+      field: 'rate_limit',
+      subject,
+      now: new Date('2026-10-19T10:01:10Z'),
+    });
+    expect(slid.result).toBe(false);
+    expect(slid.observation?.count).toBe(1);
+  });
+
+  it('denies once an agent exhausts its window and audits the trip', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'limit_web_fetch',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool', name: 'web_fetch' },
+        conditions: { rate_limit: { max: 2, window_seconds: 600, key: ['agent_id', 'tool'] } },
+        effect: { decision: 'deny' },
+      },
+    });
+
+    expect(evaluateExecutionDecision(webFetchRequest('a1')).decision).toBe('allow');
+    expect(evaluateExecutionDecision(webFetchRequest('a1')).decision).toBe('allow');
+
+    const third = evaluateExecutionDecision(webFetchRequest('a1'));
+    expect(third.decision).toBe('deny');
+    const detail = third.decision_trace
+      ?.find((t) => t.policy_id === 'limit_web_fetch')
+      ?.condition_details?.find((d) => d.operator === 'rate_limit');
+    expect(detail).toMatchObject({ result: true, actual: { count: 2, max: 2 } });
+
+    // Other agents have their own counter.
+    expect(evaluateExecutionDecision(webFetchRequest('a2')).decision).toBe('allow');
+
+    const audit = getAuditLog().query({ tenantId: 't1', eventType: 'rate_limit_exceeded' });
+    expect(audit.entries).toHaveLength(1);
+    expect(audit.entries[0]?.eventData).toMatchObject({ policy_id: 'limit_web_fetch', count: 2, max: 2 });
+  });
+
+  it('locks an agent out after repeated denials', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'deny_rm',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool', name: 'exec' },
+        conditions: { 'context.exec.argv0': 'rm' },
+        effect: { decision: 'deny' },
+      },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'lockout_after_denials',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: { rate_limit: { max: 2, window_seconds: 3600, key: ['agent_id'], count: 'denials' } },
+        effect: { decision: 'deny' },
+        precedence: 100,
+      },
+    });
+
+    const exec = (argv0: string) => ({
+      ...webFetchRequest('a1'),
+      tool: 'exec',
+      context: { exec: { argv0 } },
+    });
+    expect(evaluateExecutionDecision(exec('ls')).decision).toBe('allow');
+    expect(evaluateExecutionDecision(exec('rm')).decision).toBe('deny');
+    expect(evaluateExecutionDecision(exec('rm')).decision).toBe('deny');
+    const locked = evaluateExecutionDecision(exec('ls'));
+    expect(locked.decision).toBe('deny');
+    expect(locked.matched_policies).toContain('lockout_after_denials');
+  });
+
+  it('enforces rate limits when operators are disabled', () => {
+    config.policyOperatorsEnabled = false;
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'legacy_limit',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool', name: 'web_fetch' },
+        conditions: { rate_limit: { max: 1, window_seconds: 600, key: ['agent_id'] } },
+        effect: { decision: 'deny' },
+      },
+    });
+    expect(evaluateExecutionDecision(webFetchRequest('a1')).decision).toBe('allow');
+    expect(evaluateExecutionDecision(webFetchRequest('a1')).decision).toBe('deny');
+  });
+
+  it('does not consume quota during policy simulation', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'limit_sim',
+        scope: { tenant_id: 't1' },
+        subject: { type: 'tool' },
+        conditions: { rate_limit: { max: 1, window_seconds: 600 } },
+        effect: { decision: 'deny' },
+      },
+    });
+    evaluatePolicy({ tenant_id: 't1', tool: 'exec' });
+    evaluatePolicy({ tenant_id: 't1', tool: 'exec' });
+    expect(
+      countRateLimitEvents({ tenantId: 't1', counterKey: 'limit_sim#rate_limit', eventKind: 'request', windowSeconds: 600 })
+    ).toBe(0);
+  });
+});
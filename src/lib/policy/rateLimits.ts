@@ -0,0 +1,201 @@
+/**
+ * Policy rate limits
+ *
+ * Sliding-window counters backing `rate_limit` policy conditions. Evaluation
+ * only reads counts; the execution path records usage afterwards so dry-runs
+ * and simulations never consume quota.
+ */
+
+import { getDatabase } from '../core/db.js';
+import { logRateLimitExceeded } from '../governance/auditLog.js';
+import type { RateLimitCondition, RateLimitKeyField } from './policySchema.js';
+
+export type RateLimitEventKind = 'request' | 'denial';
+
+export interface RateLimitSubject {
+  tenant_id: string;
+  workspace_id?: string;
+  adapter_id?: string;
+  agent_id?: string;
+  tool?: string;
+}
+
+/** Reported as the `actual` of a rate_limit condition detail. */
+export interface RateLimitObservation {
+  counter_key: string;
+  policy_id: string;
+  dimensions: Partial<Record<RateLimitKeyField, string | null>>;
+  event_kind: RateLimitEventKind;
+  count: number;
+  max: number;
+  window_seconds: number;
+}
+
+interface TraceEntryLike {
+  policy_id: string;
+  result: 'matched' | 'skipped';
+  mode?: 'shadow';
+  condition_details?: {
+    field: string;
+    operator: string;
+    actual: unknown;
+    result: boolean;
+  }[];
+}
+
+function windowStart(now: Date, windowSeconds: number): string {
+  return new Date(now.getTime() - windowSeconds * 1000).toISOString();
+}
+
+export function buildRateLimitCounterKey(
+  policyId: string,
+  field: string,
+  dimensions: Partial<Record<RateLimitKeyField, string | null>>
+): string {
+  const parts = Object.entries(dimensions).map(([name, value]) => `${name}=${value ?? ''}`);
+  return [`${policyId}#${field}`, ...parts].join('|');
+}
+
+export function countRateLimitEvents(params: {
+  tenantId: string;
+  counterKey: string;
+  eventKind: RateLimitEventKind;
+  windowSeconds: number;
+  now?: Date;
+}): number {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) as count FROM policy_rate_counters
+       WHERE tenant_id = ? AND counter_key = ? AND event_kind = ? AND occurred_at > ?`
+    )
+    .get(
+      params.tenantId,
+      params.counterKey,
+      params.eventKind,
+      windowStart(params.now ?? new Date(), params.windowSeconds)
+    ) as { count: number };
+  return row.count;
+}
+
+/**
+ * Read the current window count for a rate_limit condition. `result` is true
+ * when the limit is already exhausted (the condition matches).
+ */
+export function evaluateRateLimit(params: {
+  condition: unknown;
+  policyId: string;
+  field: string;
+  subject: RateLimitSubject;
+  now?: Date;
+}): { result: boolean; observation: RateLimitObservation | null } {
+  const condition = params.condition as RateLimitCondition | undefined;
+  if (
+    !condition ||
+    typeof condition !== 'object' ||
+    typeof condition.max !== 'number' ||
+    typeof condition.window_seconds !== 'number'
+  ) {
+    return { result: false, observation: null };
+  }
+  const dimensions: Partial<Record<RateLimitKeyField, string | null>> = {};
+  for (const name of condition.key || []) {
+    dimensions[name] = params.subject[name] ?? null;
+  }
+  const counterKey = buildRateLimitCounterKey(params.policyId, params.field, dimensions);
+  const eventKind: RateLimitEventKind = condition.count === 'denials' ? 'denial' : 'request';
+  const count = countRateLimitEvents({
+    tenantId: params.subject.tenant_id,
+    counterKey,
+    eventKind,
+    windowSeconds: condition.window_seconds,
+    now: params.now,
+  });
+  return {
+    result: count >= condition.max,
+    observation: {
+      counter_key: counterKey,
+      policy_id: params.policyId,
+      dimensions,
+      event_kind: eventKind,
+      count,
+      max: condition.max,
+      window_seconds: condition.window_seconds,
+    },
+  };
+}
+
+export function recordRateLimitEvent(params: {
+  tenantId: string;
+  observation: RateLimitObservation;
+  executionId?: string;
+  now?: Date;
+}): void {
+  const db = getDatabase();
+  const now = params.now ?? new Date();
+  const { observation } = params;
+  db.prepare(
+    `INSERT INTO policy_rate_counters
+       (tenant_id, policy_id, counter_key, dimensions, event_kind, execution_id, occurred_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    params.tenantId,
+    observation.policy_id,
+    observation.counter_key,
+    JSON.stringify(observation.dimensions),
+    observation.event_kind,
+    params.executionId ?? null,
+    now.toISOString()
+  );
+  // Events older than the window can never count again.
+  db.prepare(
+    `DELETE FROM policy_rate_counters
+     WHERE tenant_id = ? AND counter_key = ? AND occurred_at <= ?`
+  ).run(params.tenantId, observation.counter_key, windowStart(now, observation.window_seconds));
+}
+
+function isObservation(value: unknown): value is RateLimitObservation {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    typeof (value as RateLimitObservation).counter_key === 'string' &&
+    typeof (value as RateLimitObservation).window_seconds === 'number'
+  );
+}
+
+/**
+ * Record usage for every rate_limit condition reached while deciding one
+ * execution, and audit the limits that tripped on a matched policy.
+ */
+export function recordRateLimitUsage(params: {
+  tenantId: string;
+  workspaceId?: string;
+  executionId: string;
+  decision: 'allow' | 'deny' | 'require_approval' | 'pending';
+  decisionTrace?: TraceEntryLike[];
+  now?: Date;
+}): void {
+  const now = params.now ?? new Date();
+  const seen = new Set<string>();
+  for (const entry of params.decisionTrace || []) {
+    for (const detail of entry.condition_details || []) {
+      if (detail.operator !== 'rate_limit' || !isObservation(detail.actual)) continue;
+      const observation = detail.actual;
+      // Shadow policies keep counting but never report a tripped limit.
+      if (detail.result && entry.result === 'matched' && entry.mode !== 'shadow') {
+        logRateLimitExceeded({
+          tenantId: params.tenantId,
+          workspaceId: params.workspaceId,
+          executionId: params.executionId,
+          policyId: entry.policy_id,
+          decision: params.decision,
+          observation,
+        });
+      }
+      const counts = observation.event_kind === 'denial' ? params.decision === 'deny' : params.decision !== 'deny';
+      if (!counts || seen.has(observation.counter_key)) continue;
+      seen.add(observation.counter_key);
+      recordRateLimitEvent({ tenantId: params.tenantId, observation, executionId: params.executionId, now });
+    }
+  }
+}
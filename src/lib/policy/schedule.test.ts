@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSchedule, getScheduleMoment } from './schedule.js';
+
+describe('schedule conditions', () => {
+  const onHours = {
+    timezone: 'Europe/Berlin',
+    days_of_week: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    time_ranges: [{ start: '09:00', end: '18:00' }],
+  };
+
+  it('resolves local day and time in the schedule timezone', () => {
+    expect(getScheduleMoment(new Date('2026-10-19T07:30:00Z'), 'Europe/Berlin')).toEqual({
+      timezone: 'Europe/Berlin',
+      date: '2026-10-19',
+      day: 'mon',
+      time: '09:30',
+    });
+  });
+
+  it('matches weekday business hours', () => {
+    expect(evaluateSchedule(onHours, new Date('2026-10-19T07:30:00Z')).result).toBe(true);
+    expect(evaluateSchedule(onHours, new Date('2026-10-19T16:00:00Z')).result).toBe(false);
+    expect(evaluateSchedule(onHours, new Date('2026-10-18T10:00:00Z')).result).toBe(false);
+  });
+
+  it('wraps time ranges past midnight', () => {
+    const overnight = { timezone: 'UTC', time_ranges: [{ start: '22:00', end: '06:00' }] };
+    expect(evaluateSchedule(overnight, new Date('2026-10-19T23:15:00Z')).result).toBe(true);
+    expect(evaluateSchedule(overnight, new Date('2026-10-19T05:59:00Z')).result).toBe(true);
+    expect(evaluateSchedule(overnight, new Date('2026-10-19T06:00:00Z')).result).toBe(false);
+  });
+
+  it('matches inclusive local date ranges', () => {
+    const freeze = { timezone: 'UTC', date_ranges: [{ from: '2026-12-20', to: '2027-01-05' }] };
+    expect(evaluateSchedule(freeze, new Date('2026-12-20T00:00:00Z')).result).toBe(true);
+    expect(evaluateSchedule(freeze, new Date('2027-01-05T23:59:00Z')).result).toBe(true);
+    expect(evaluateSchedule(freeze, new Date('2027-01-06T00:00:00Z')).result).toBe(false);
+  });
+
+  it('compares timestamp bounds as instants', () => {
+    const window = { date_ranges: [{ from: '2026-10-19T12:00:00Z' }] };
+    expect(evaluateSchedule(window, new Date('2026-10-19T11:59:59Z')).result).toBe(false);
+    expect(evaluateSchedule(window, new Date('2026-10-19T12:00:00Z')).result).toBe(true);
+  });
+
+  it('falls back to the default timezone', () => {
+    const morning = { time_ranges: [{ start: '09:00', end: '12:00' }] };
+    const result = evaluateSchedule(morning, new Date('2026-10-19T01:00:00Z'), 'Asia/Tokyo');
+    expect(result.result).toBe(true);
+    expect(result.moment?.timezone).toBe('Asia/Tokyo');
+  });
+
+  it('fails closed for unknown timezones', () => {
+    expect(evaluateSchedule({ timezone: 'Mars/Olympus', days_of_week: ['mon'] }, new Date()).result).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+export const SCHEDULE_DAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+export type ScheduleDay = (typeof SCHEDULE_DAYS)[number];
+
+export interface ScheduleTimeRange {
+  /** Inclusive local start time (HH:MM). */
+  start: string;
+  /** Exclusive local end time (HH:MM). An end before the start wraps past midnight. */
+  end: string;
+}
+
+export interface ScheduleDateRange {
+  /** Inclusive start: a local date (YYYY-MM-DD) or an ISO timestamp. */
+  from?: string;
+  /** Inclusive end: a local date (YYYY-MM-DD) or an ISO timestamp. */
+  to?: string;
+}
+
+export interface ScheduleCondition {
+  timezone?: string;
+  days_of_week?: ScheduleDay[];
+  time_ranges?: ScheduleTimeRange[];
+  date_ranges?: ScheduleDateRange[];
+}
+
+export interface ScheduleMoment {
+  timezone: string;
+  date: string;
+  day: ScheduleDay;
+  time: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_MAP: Record<string, ScheduleDay> = {
+  Mon: 'mon',
+  Tue: 'tue',
+  Wed: 'wed',
+  Thu: 'thu',
+  Fri: 'fri',
+  Sat: 'sat',
+  Sun: 'sun',
+};
+
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A local date (YYYY-MM-DD) or any timestamp Date.parse understands. */
+export function isValidScheduleDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  if (DATE_ONLY_PATTERN.test(value)) return !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+  return !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Resolve the schedule timezone: the condition's own, then the caller's default
+ * (config.defaultTimezone), then the system timezone (same fallback as workspace
+ * time context).
+ */
+export function resolveScheduleTimezone(timezone?: string, defaultTimezone?: string): string {
+  return timezone || defaultTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function getScheduleMoment(now: Date, timezone: string): ScheduleMoment | null {
+  if (!isValidTimezone(timezone) || Number.isNaN(now.getTime())) return null;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '';
+  const day = WEEKDAY_MAP[get('weekday')];
+  if (!day) return null;
+  return {
+    timezone,
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    day,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+function timeInRange(time: string, range: ScheduleTimeRange): boolean {
+  if (!isValidTimeOfDay(range.start) || !isValidTimeOfDay(range.end)) return false;
+  if (range.start <= range.end) return time >= range.start && time < range.end;
+  return time >= range.start || time < range.end;
+}
+
+function dateBoundSatisfied(bound: string | undefined, moment: ScheduleMoment, now: Date, side: 'from' | 'to'): boolean {
+  if (bound === undefined) return true;
+  if (!isValidScheduleDate(bound)) return false;
+  if (DATE_ONLY_PATTERN.test(bound)) {
+    return side === 'from' ? moment.date >= bound : moment.date <= bound;
+  }
+  const instant = Date.parse(bound);
+  return side === 'from' ? now.getTime() >= instant : now.getTime() <= instant;
+}
+
+function dateInRange(moment: ScheduleMoment, now: Date, range: ScheduleDateRange): boolean {
+  if (range.from === undefined && range.to === undefined) return false;
+  return dateBoundSatisfied(range.from, moment, now, 'from') && dateBoundSatisfied(range.to, moment, now, 'to');
+}
+
+/**
+ * Evaluate a schedule condition at `now`. Every part that is present must match:
+ * the weekday is listed, the local time falls in one of the time ranges, and the
+ * date falls in one of the date ranges. Unknown timezones fail closed.
+ */
+export function evaluateSchedule(
+  schedule: unknown,
+  now: Date,
+  defaultTimezone?: string
+): { result: boolean; moment: ScheduleMoment | null } {
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    return { result: false, moment: null };
+  }
+  const condition = schedule as ScheduleCondition;
+  const moment = getScheduleMoment(now, resolveScheduleTimezone(condition.timezone, defaultTimezone));
+  if (!moment) return { result: false, moment: null };
+
+  if (condition.days_of_week !== undefined) {
+    if (!Array.isArray(condition.days_of_week) || !condition.days_of_week.includes(moment.day)) {
+      return { result: false, moment };
+    }
+  }
+  if (condition.time_ranges !== undefined) {
+    if (!Array.isArray(condition.time_ranges) || !condition.time_ranges.some((r) => timeInRange(moment.time, r))) {
+      return { result: false, moment };
+    }
+  }
+  if (condition.date_ranges !== undefined) {
+    if (!Array.isArray(condition.date_ranges) || !condition.date_ranges.some((r) => dateInRange(moment, now, r))) {
+      return { result: false, moment };
+    }
+  }
+  return { result: true, moment };
+}
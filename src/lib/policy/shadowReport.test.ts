@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initDatabase, resetDatabase } from '../core/db.js';
+import { getDecision, recordDecision } from '../governance/decisions.js';
+import { evaluatePolicies } from './policyEngine.js';
+import { listPolicyRevisions } from './policyRevisions.js';
+import { getPolicy, setPolicyMode, upsertPolicy } from './policyStore.js';
+import { getShadowPolicyReport } from './shadowReport.js';
+
+beforeEach(() => {
+  process.env.CLASPER_DB_PATH = ':memory:';
+  resetDatabase();
+  initDatabase();
+});
+
+afterEach(() => {
+  resetDatabase();
+  delete process.env.CLASPER_DB_PATH;
+});
+
+function decide(tool: string, executionId: string) {
+  const result = evaluatePolicies({ tenant_id: 't1', workspace_id: 'w1', tool });
+  return recordDecision({
+    tenantId: 't1',
+    workspaceId: 'w1',
+    executionId,
+    adapterId: 'adapter-1',
+    status: result.decision === 'deny' ? 'deny' : 'allow',
+    requestSnapshot: { request: { tool } },
+    shadow: result.shadow,
+  });
+}
+
+describe('shadow policy report', () => {
+  it('counts matches and would-be flips per shadow policy', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'allow-read', subject: { type: 'tool', name: 'read' }, effect: { decision: 'allow' } },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'shadow-deny-exec',
+        subject: { type: 'tool', name: 'exec' },
+        effect: { decision: 'deny' },
+        mode: 'shadow',
+      },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: {
+        policy_id: 'shadow-allow-read',
+        subject: { type: 'tool', name: 'read' },
+        effect: { decision: 'allow' },
+        mode: 'shadow',
+      },
+    });
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'shadow-unused', subject: { type: 'tool', name: 'write' }, effect: { decision: 'deny' }, mode: 'shadow' },
+    });
+
+    const first = decide('exec', 'exec-1');
+    expect(first.status).toBe('allow');
+    expect(getDecision(first.decision_id)?.shadow).toMatchObject({ enforced_decision: 'allow', decision: 'deny', flipped: true });
+    decide('exec', 'exec-2');
+    decide('read', 'exec-3');
+    decide('fetch', 'exec-4');
+
+    const report = getShadowPolicyReport({ tenantId: 't1' });
+    expect(report.decisions).toBe(4);
+    expect(report.policies).toEqual([
+      expect.objectContaining({
+        policy_id: 'shadow-deny-exec',
+        mode: 'shadow',
+        decision: 'deny',
+        matched: 2,
+        flipped: 2,
+        flip_rate: 1,
+        flips: { 'allow->deny': 2 },
+      }),
+      expect.objectContaining({ policy_id: 'shadow-allow-read', matched: 1, flipped: 0, flip_rate: 0, flips: {} }),
+      expect.objectContaining({ policy_id: 'shadow-unused', matched: 0, last_matched_at: null }),
+    ]);
+    expect(getShadowPolicyReport({ tenantId: 't1', since: '2999-01-01T00:00:00.000Z' }).decisions).toBe(0);
+  });
+
+  it('promotes a shadow policy to enforce with a revision', () => {
+    upsertPolicy({
+      tenantId: 't1',
+      policy: { policy_id: 'deny-exec', subject: { type: 'tool', name: 'exec' }, effect: { decision: 'deny' }, mode: 'shadow' },
+    });
+    expect(evaluatePolicies({ tenant_id: 't1', tool: 'exec' }).decision).toBe('allow');
+
+    const promoted = setPolicyMode({ tenantId: 't1', policyId: 'deny-exec', mode: 'enforce', author: 'ops', reason: 'No unexpected flips' });
+    expect(promoted?.mode).toBe('enforce');
+    expect(getPolicy('t1', 'deny-exec')?.mode).toBe('enforce');
+    expect(evaluatePolicies({ tenant_id: 't1', tool: 'exec' }).decision).toBe('deny');
+    expect(listPolicyRevisions({ tenantId: 't1', policyId: 'deny-exec' })[0]).toMatchObject({
+      action: 'update',
+      author: 'ops',
+      reason: 'No unexpected flips',
+    });
+    expect(setPolicyMode({ tenantId: 't1', policyId: 'missing', mode: 'enforce' })).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Shadow policy report
+ *
+ * Aggregates the shadow outcome recorded on decision rows: how often each
+ * shadow-mode policy matched and how often enforcing it would have flipped the
+ * decision. Used to decide when a shadow policy is safe to promote.
+ */
+
+import { getDatabase } from '../core/db.js';
+import type { PolicyShadowResult } from './policyEngine.js';
+import type { PolicyDecision, PolicyMode } from './policySchema.js';
+import { listPolicies } from './policyStore.js';
+
+export interface ShadowPolicyStats {
+  policy_id: string;
+  /** Current mode, or null when the policy no longer exists. */
+  mode: PolicyMode | null;
+  /** Current decision of the policy, or null when it no longer exists. */
+  decision: PolicyDecision | null;
+  enabled: boolean;
+  matched: number;
+  flipped: number;
+  /** flipped / matched (0 when the policy never matched). */
+  flip_rate: number;
+  /** Flip counts keyed by `<enforced decision>-><shadow decision>`, e.g. `allow->deny`. */
+  flips: Record<string, number>;
+  last_matched_at: string | null;
+}
+
+export interface ShadowPolicyReport {
+  tenant_id: string;
+  since: string | null;
+  /** Decisions recorded in the window (with or without a shadow match). */
+  decisions: number;
+  policies: ShadowPolicyStats[];
+}
+
+export function getShadowPolicyReport(params: {
+  tenantId: string;
+  workspaceId?: string;
+  since?: string;
+}): ShadowPolicyReport {
+  const db = getDatabase();
+  const conditions = ['tenant_id = ?'];
+  const values: unknown[] = [params.tenantId];
+  if (params.workspaceId) {
+    conditions.push('workspace_id = ?');
+    values.push(params.workspaceId);
+  }
+  if (params.since) {
+    conditions.push('created_at >= ?');
+    values.push(params.since);
+  }
+  const whereClause = conditions.join(' AND ');
+
+  const total = db
+    .prepare(`SELECT COUNT(*) AS count FROM decisions WHERE ${whereClause}`)
+    .get(...values) as { count: number };
+  const rows = db
+    .prepare(
+      `
+      SELECT shadow, created_at FROM decisions
+      WHERE ${whereClause} AND shadow IS NOT NULL
+      ORDER BY created_at ASC
+    `
+    )
+    .all(...values) as Array<{ shadow: string; created_at: string }>;
+
+  const current = new Map(listPolicies({ tenantId: params.tenantId }).map((policy) => [policy.policy_id, policy]));
+  const stats = new Map<string, ShadowPolicyStats>();
+  const statsFor = (policyId: string): ShadowPolicyStats => {
+    let entry = stats.get(policyId);
+    if (!entry) {
+      const policy = current.get(policyId);
+      entry = {
+        policy_id: policyId,
+        mode: policy ? (policy.mode ?? 'enforce') : null,
+        decision: policy?.effect.decision ?? null,
+        enabled: policy?.enabled ?? false,
+        matched: 0,
+        flipped: 0,
+        flip_rate: 0,
+        flips: {},
+        last_matched_at: null,
+      };
+      stats.set(policyId, entry);
+    }
+    return entry;
+  };
+
+  for (const policy of current.values()) {
+    if (policy.mode === 'shadow') statsFor(policy.policy_id);
+  }
+  for (const row of rows) {
+    let shadow: PolicyShadowResult;
+    try {
+      shadow = JSON.parse(row.shadow) as PolicyShadowResult;
+    } catch {
+      continue;
+    }
+    for (const outcome of shadow.policies ?? []) {
+      const entry = statsFor(outcome.policy_id);
+      entry.matched += 1;
+      entry.last_matched_at = row.created_at;
+      if (outcome.flipped) {
+        entry.flipped += 1;
+        const key = `${shadow.enforced_decision}->${outcome.decision}`;
+        entry.flips[key] = (entry.flips[key] ?? 0) + 1;
+      }
+    }
+  }
+
+  const policies = [...stats.values()].map((entry) => ({
+    ...entry,
+    flip_rate: entry.matched > 0 ? entry.flipped / entry.matched : 0,
+  }));
+  policies.sort((a, b) => b.flipped - a.flipped || b.matched - a.matched || a.policy_id.localeCompare(b.policy_id));
+
+  return { tenant_id: params.tenantId, since: params.since ?? null, decisions: total.count, policies };
+}
@@ -1,4 +1,4 @@
-import { token, user, permissions, tenantId, selectedWorkspace, authHeaders, showToast, healthStatus, pendingApprovalsCount } from "./state.js";
+import { token, bearerToken, user, permissions, tenantId, selectedWorkspace, authHeaders, showToast, healthStatus, pendingApprovalsCount } from "./state.js";
 
 // --- Fetch Wrapper ---
 export async function api(path, opts = {}) {
@@ -56,10 +56,85 @@ export async function fetchMe() {
 
 export function signOut() {
   token.value = "";
+  bearerToken.value = "";
   user.value = null;
   permissions.value = [];
 }
 
+// --- OIDC sign-in (authorization code + PKCE) ---
+const OIDC_PENDING_KEY = "clasper_ops_oidc_pending";
+
+function randomUrlSafe(bytes) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...buf)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function pkceChallenge(verifier) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return btoa(String.fromCharCode(...new Uint8Array(digest))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function oidcRedirectUri() {
+  return location.origin + location.pathname;
+}
+
+/** SSO settings from the server, or null when OIDC sign-in is not configured. */
+export async function fetchAuthConfig() {
+  try {
+    const res = await fetch("/ops/api/auth/config");
+    if (!res.ok) return null;
+    return (await res.json()).oidc || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function startOidcSignIn(oidc) {
+  const verifier = randomUrlSafe(32);
+  const state = randomUrlSafe(16);
+  sessionStorage.setItem(OIDC_PENDING_KEY, JSON.stringify({ state, verifier, hash: location.hash }));
+  const url = new URL(oidc.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: oidc.client_id,
+    redirect_uri: oidcRedirectUri(),
+    scope: oidc.scopes,
+    state,
+    code_challenge: await pkceChallenge(verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  location.assign(url.toString());
+}
+
+/** Finish a sign-in when the identity provider redirected back with ?code&state. */
+export async function completeOidcSignIn() {
+  const params = new URLSearchParams(location.search);
+  const code = params.get("code");
+  if (!code && !params.get("error")) return;
+
+  const pending = JSON.parse(sessionStorage.getItem(OIDC_PENDING_KEY) || "null");
+  sessionStorage.removeItem(OIDC_PENDING_KEY);
+  history.replaceState(null, "", location.pathname + (pending?.hash || location.hash));
+
+  if (!code || !pending || pending.state !== params.get("state")) {
+    showToast(params.get("error_description") || params.get("error") || "SSO sign-in failed", "error");
+    return;
+  }
+  try {
+    const res = await fetch("/ops/api/auth/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code, code_verifier: pending.verifier, redirect_uri: oidcRedirectUri() }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || `API ${res.status}`);
+    bearerToken.value = data.token;
+    showToast(`Signed in as ${data.user.id}`, "success");
+  } catch (e) {
+    showToast(`SSO sign-in failed: ${e.message}`, "error");
+  }
+}
+
 // --- Health ---
 export async function fetchHealth() {
   try {
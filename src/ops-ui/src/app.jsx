@@ -1,6 +1,6 @@
 import { useEffect } from "preact/hooks";
-import { currentRoute, token, tenantId, selectedWorkspace, showToast } from "./state.js";
-import { fetchMe, fetchHealth, setupSSE, teardownSSE, fetchWorkspaces, refreshPendingApprovalsCount } from "./api.js";
+import { currentRoute, token, bearerToken, tenantId, selectedWorkspace, showToast } from "./state.js";
+import { fetchMe, completeOidcSignIn, fetchHealth, setupSSE, teardownSSE, fetchWorkspaces, refreshPendingApprovalsCount } from "./api.js";
 
 import { Sidebar } from "./components/sidebar.jsx";
 import { Topbar } from "./components/topbar.jsx";
@@ -18,6 +18,7 @@ import { SkillsView } from "./views/skills.jsx";
 import { PoliciesView } from "./views/policies.jsx";
 import { AdaptersView } from "./views/adapters.jsx";
 import { ApprovalsView } from "./views/approvals.jsx";
+import { SlaView } from "./views/sla.jsx";
 import { AuditView } from "./views/audit.jsx";
 import { SettingsView } from "./views/settings.jsx";
 import { ToolsView } from "./views/tools.jsx";
@@ -34,6 +35,7 @@ const VIEWS = {
   policies: PoliciesView,
   adapters: AdaptersView,
   approvals: ApprovalsView,
+  sla: SlaView,
   audit: AuditView,
   agents: AgentsView,
   incidents: IncidentsView,
@@ -41,12 +43,15 @@ const VIEWS = {
 };
 
 export function App() {
+  // Returning from SSO: exchange the authorization code (sets bearerToken)
+  useEffect(() => { completeOidcSignIn(); }, []);
+
   // Bootstrap: authenticate then start SSE + load workspaces
   useEffect(() => {
     fetchMe().then(() => {
       fetchWorkspaces();
     });
-  }, [token.value]);
+  }, [token.value, bearerToken.value]);
 
   // SSE connection: reconnect when tenant changes
   useEffect(() => {
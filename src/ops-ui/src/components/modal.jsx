@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from "preact/hooks";
-import { authModalOpen, overrideModal, confirmModal, token, showToast } from "../state.js";
-import { fetchMe } from "../api.js";
+import { authModalOpen, overrideModal, confirmModal, token, bearerToken, showToast } from "../state.js";
+import { fetchMe, fetchAuthConfig, startOidcSignIn } from "../api.js";
 import { XIcon } from "./icons.jsx";
 
 // --- Auth Modal ---
@@ -8,10 +8,12 @@ export function AuthModal() {
   const open = authModalOpen.value;
   const inputRef = useRef(null);
   const [val, setVal] = useState("");
+  const [oidc, setOidc] = useState(null);
 
   useEffect(() => {
     if (open) {
       setVal(token.value);
+      fetchAuthConfig().then(setOidc);
       setTimeout(() => inputRef.current?.focus(), 50);
     }
   }, [open]);
@@ -20,6 +22,7 @@ export function AuthModal() {
 
   const close = () => { authModalOpen.value = false; };
   const save = () => {
+    bearerToken.value = "";
     token.value = val;
     fetchMe();
     close();
@@ -34,6 +37,12 @@ export function AuthModal() {
           <button class="btn-icon" onClick={close}><XIcon /></button>
         </div>
         <div class="modal-body">
+          {oidc && (
+            <div class="form-group">
+              <button class="btn-primary w-full" onClick={() => startOidcSignIn(oidc)}>Sign in with SSO</button>
+              <p class="text-secondary text-xs">Or use an Ops API key:</p>
+            </div>
+          )}
           <div class="form-group">
             <label data-tooltip="Authenticates your session with the Clasper Core Ops API. Use the key from your control plane or environment (e.g. CLASPER_OPS_API_KEY).">Ops API Key</label>
             <input ref={inputRef} type="password" placeholder="Paste Ops API key..." value={val} onInput={(e) => setVal(e.target.value)} onKeyDown={(e) => e.key === "Enter" && save()} />
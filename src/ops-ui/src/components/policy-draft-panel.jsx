@@ -88,7 +88,7 @@ function normalizePathCondition(value) {
   return { operator: "all_under", values: [] };
 }
 
-/** Normalize any string condition (eq, in, prefix, exists) for tool_group, actor, action, resource, agent_id, agent_role, etc. */
+/** Normalize any string condition (eq, in, prefix, matches, glob, exists) for tool_group, actor, action, resource, agent_id, agent_role, etc. */
 function normalizeStringCondition(value) {
   if (typeof value === "string") return { operator: "eq", values: [value] };
   if (value && typeof value === "object") {
@@ -97,6 +97,8 @@ function normalizeStringCondition(value) {
       return { operator: "in", values: value.in.filter((v) => typeof v === "string") };
     }
     if (typeof value.prefix === "string") return { operator: "prefix", values: [value.prefix] };
+    if (typeof value.matches === "string") return { operator: "matches", values: [value.matches] };
+    if (typeof value.glob === "string") return { operator: "glob", values: [value.glob] };
     if (value.exists === true) return { operator: "exists", values: [] };
   }
   return { operator: "eq", values: [] };
@@ -106,6 +108,8 @@ function normalizeStringCondition(value) {
 function buildStringCondition(operator, values) {
   if (operator === "exists") return { exists: true };
   if (operator === "prefix" && values[0]) return { prefix: values[0] };
+  if (operator === "matches" && values[0]) return { matches: values.join(",") };
+  if (operator === "glob" && values[0]) return { glob: values[0] };
   if (operator === "in" && values.length > 0) return { in: values };
   if (operator === "eq" && values[0]) return values[0];
   return undefined;
@@ -149,6 +153,7 @@ function buildSeedFromPolicy(policy) {
     explanation: typeof policy?.explanation === "string" ? policy.explanation : "",
     precedence: typeof policy?.precedence === "number" ? policy.precedence : 20,
     enabled: policy?.enabled !== false,
+    mode: policy?.mode === "shadow" ? "shadow" : undefined,
     wizardMeta: policy?._wizard_meta && typeof policy._wizard_meta === "object" ? policy._wizard_meta : null,
     derived: {
       argv0Operator: argv0.operator,
@@ -546,10 +551,10 @@ function HelpTip({ text }) {
   );
 }
 
-/** Compact editor for string conditions: eq, in, prefix, exists */
+/** Compact editor for string conditions: eq, in, prefix, matches, glob, exists */
 function StringConditionField({ label, operator, onOperatorChange, value, onValueChange, placeholder = "", helpText = "" }) {
   const isExists = operator === "exists";
-  const operatorHelp = "eq = exact match, in = any of list (comma-separated), prefix = starts with, exists = field must be present";
+  const operatorHelp = "eq = exact match, in = any of list (comma-separated), prefix = starts with, matches = full-string regex, glob = wildcard pattern (*, **), exists = field must be present";
   return (
     <div style={{ display: "flex", gap: "8px", alignItems: "flex-start", flexWrap: "wrap" }}>
       <div style={{ minWidth: "80px", display: "flex", alignItems: "center", gap: "4px" }}>
@@ -565,6 +570,8 @@ function StringConditionField({ label, operator, onOperatorChange, value, onValu
         <option value="eq">eq</option>
         <option value="in">in</option>
         <option value="prefix">prefix</option>
+        <option value="matches">matches</option>
+        <option value="glob">glob</option>
         <option value="exists">exists</option>
       </select>
       {!isExists && (
@@ -678,6 +685,8 @@ export function PolicyDraftPanel() {
   const [pathExists, setPathExists] = useState(false);
   const [argv0Exists, setArgv0Exists] = useState(false);
   const [previewResult, setPreviewResult] = useState(null);
+  const [backtestResult, setBacktestResult] = useState(null);
+  const [backtesting, setBacktesting] = useState(false);
   const [requiresReAck, setRequiresReAck] = useState(false);
   const [validationError, setValidationError] = useState(null);
 
@@ -702,6 +711,7 @@ export function PolicyDraftPanel() {
       setAllowAcknowledged(false);
       setPriority("high");
       setPreviewResult(null);
+      setBacktestResult(null);
       setRequiresReAck(false);
       setCommandDraft("");
       return;
@@ -744,6 +754,7 @@ export function PolicyDraftPanel() {
       setWizardStep(1);
       setAllowAcknowledged(false);
       setPreviewResult(null);
+      setBacktestResult(null);
       setRequiresReAck(false);
       setCommandDraft("");
       return;
@@ -785,6 +796,7 @@ export function PolicyDraftPanel() {
     setWizardStep(1);
     setAllowAcknowledged(false);
     setPreviewResult(null);
+    setBacktestResult(null);
     setRequiresReAck(false);
     setCommandDraft("");
     setValidationError(null);
@@ -953,6 +965,7 @@ export function PolicyDraftPanel() {
     effect: { decision },
     precedence: precedenceNum,
     enabled: true,
+    ...(seed?.mode ? { mode: seed.mode } : {}),
   };
   const rawPolicyJson = JSON.stringify(rawPolicyPreview, null, 2);
   const changedFields = [];
@@ -1097,6 +1110,23 @@ export function PolicyDraftPanel() {
     setPreviewResult(result);
   };
 
+  const runBacktest = async () => {
+    setBacktesting(true);
+    try {
+      const result = await apiPost("/ops/api/policies/dry-run", {
+        tenant_id: tenant || tenantId.value,
+        ...(workspace ? { workspace_id: workspace } : {}),
+        backtest: { policy: rawPolicyPreview },
+      });
+      setBacktestResult(result.backtest);
+    } catch (e) {
+      setBacktestResult(null);
+      showToast(e?.message || "Backtest failed", "error");
+    } finally {
+      setBacktesting(false);
+    }
+  };
+
   const copyRawPolicyJson = async () => {
     try {
       if (!navigator?.clipboard?.writeText) {
@@ -1130,6 +1160,7 @@ export function PolicyDraftPanel() {
         explanation: seed.explanation,
         precedence: precedenceNum,
         enabled: true,
+        ...(seed.mode ? { mode: seed.mode } : {}),
         _source_trace_id: trace?.id,
         _source_adapter_id: trace?.adapter_id ?? undefined,
         _wizard_meta: {
@@ -1910,6 +1941,41 @@ export function PolicyDraftPanel() {
                     </div>
                   </div>
                 )}
+
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", margin: "16px 0 12px" }}>
+                  <span style={{ fontSize: "12px", fontWeight: 600, color: "var(--text-primary)", display: "flex", alignItems: "center", gap: "6px" }}>
+                    Backtest
+                    <HelpTip text="Replay the last 7 days of decisions with this rule in place of the current one and count decisions that would change." />
+                  </span>
+                  <button class="btn-secondary btn-sm" type="button" onClick={runBacktest} disabled={backtesting} title="Replay recent decisions against the policies with this rule applied">
+                    {backtesting ? "Replaying…" : "Backtest Last 7 Days"}
+                  </button>
+                </div>
+
+                {backtestResult && (
+                  <div class="detail-block" style={{ padding: "12px", borderRadius: "6px", border: "1px solid var(--border-subtle)" }}>
+                    <div style={{ fontSize: "13px", fontWeight: 600, color: "var(--text-primary)", marginBottom: "8px" }}>
+                      {backtestResult.flipped === 0
+                        ? `No changes across ${backtestResult.evaluated} decisions`
+                        : `${backtestResult.flipped} of ${backtestResult.evaluated} decisions would change`}
+                    </div>
+                    <div style={{ display: "grid", gap: "6px" }}>
+                      {backtestResult.flips.map((flip) => (
+                        <div key={`${flip.from}-${flip.to}`} style={{ fontSize: "12px", color: "var(--text-secondary)" }}>
+                          <span class="mono">{flip.from} → {flip.to}</span>: {flip.count}
+                          <div class="mono" style={{ fontSize: "11px", opacity: 0.8, wordBreak: "break-all" }}>
+                            e.g. {flip.decision_ids.join(", ")}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {backtestResult.skipped > 0 && (
+                      <div class="text-secondary text-xs" style={{ marginTop: "8px" }}>
+                        {backtestResult.skipped} decisions had no request snapshot and were skipped.
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </>
           )}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "preact/hooks";
 import { currentRoute, selectedWorkspace, tenantId, user, authModalOpen, pendingApprovalsCount } from "../state.js";
 import { fetchWorkspaces, signOut, refreshPendingApprovalsCount } from "../api.js";
-import { DashboardIcon, SearchIcon, LayersIcon, DollarIcon, BoltIcon, GearIcon, ShieldIcon, ThumbsUpIcon, FileIcon, UserIcon, LockIcon, LogOutIcon, ChevronDownIcon, WrenchIcon, AlertTriangleIcon } from "./icons.jsx";
+import { DashboardIcon, SearchIcon, LayersIcon, DollarIcon, BoltIcon, GearIcon, ShieldIcon, ThumbsUpIcon, FileIcon, UserIcon, LockIcon, LogOutIcon, ChevronDownIcon, WrenchIcon, AlertTriangleIcon, ClockIcon } from "./icons.jsx";
 
 const NAV = [
   { group: "Operations", items: [
@@ -12,6 +12,7 @@ const NAV = [
   { group: "Traces", items: [
     { id: "traces", label: "Traces", icon: SearchIcon },
     { id: "approvals", label: "Approvals", icon: ThumbsUpIcon },
+    { id: "sla", label: "Approval SLA", icon: ClockIcon },
     { id: "incidents", label: "Incidents", icon: AlertTriangleIcon },
   ]},
   { group: "Governance", items: [
@@ -1,9 +1,11 @@
 import { currentRoute, healthStatus } from "../state.js";
 
+const ROUTE_LABELS = { sla: "Approval SLA" };
+
 export function Topbar() {
   const route = currentRoute.value;
   const health = healthStatus.value;
-  const label = route.charAt(0).toUpperCase() + route.slice(1);
+  const label = ROUTE_LABELS[route] || route.charAt(0).toUpperCase() + route.slice(1);
   const operatorsEnabled = health?.config?.policyOperatorsEnabled === true;
 
   const dotColor = health.ok === null ? "var(--text-tertiary)" : health.ok ? "#10b981" : "#ef4444";
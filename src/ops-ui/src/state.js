@@ -12,7 +12,17 @@ effect(() => {
   else localStorage.removeItem("clasper_ops_token");
 });
 
+// OIDC bearer token from SSO sign-in (takes precedence over the API key)
+export const bearerToken = signal(localStorage.getItem("clasper_ops_bearer") || "");
+
+effect(() => {
+  const t = bearerToken.value;
+  if (t) localStorage.setItem("clasper_ops_bearer", t);
+  else localStorage.removeItem("clasper_ops_bearer");
+});
+
 export const authHeaders = computed(() =>
+  bearerToken.value ? { Authorization: `Bearer ${bearerToken.value}` } :
   token.value ? { "X-Ops-Api-Key": token.value } : {}
 );
 
@@ -83,3 +93,14 @@ export function formatCost(cost) {
   if (num < 0.01) return `$${num.toFixed(4)}`;
   return `$${num.toFixed(2)}`;
 }
+
+export function formatDuration(ms) {
+  if (ms === undefined || ms === null || Number.isNaN(Number(ms))) return "-";
+  const seconds = Math.round(Number(ms) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
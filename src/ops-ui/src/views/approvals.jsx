@@ -7,15 +7,46 @@ import {
   hasPermission,
   policyDraftPanel,
   policyExceptionResolution,
+  user,
 } from "../state.js";
 import { api, apiPost, buildParams, refreshPendingApprovalsCount } from "../api.js";
 import { copy, formatTimestamp } from "../copy.js";
 import { XIcon, ShieldIcon, RefreshIcon } from "../components/icons.jsx";
-import { GovernanceBadge } from "../components/badge.jsx";
+import { Badge, GovernanceBadge } from "../components/badge.jsx";
 
 const PENDING_DECISIONS_TOOLTIP =
   "Pending decisions represent execution requests paused by governance policies that require human input. Clasper Core supports local approvals for single-operator workflows. These approvals are self-attested and not externally verifiable.";
 
+const STANDING_GRANTS_TOOLTIP =
+  "Standing grants let similar requests through without a new approval: from the same session, for a limited time, for a number of uses, or for the exact same command. Every reuse is recorded in the audit log.";
+
+const EMPTY_GRANT = { enabled: false, session: false, minutes: "", max_uses: "" };
+
+/**
+ * Resolve payload `grant` from the approve-similar form; undefined when not requested.
+ * Grants for commands always pin the exact command (the server requires it).
+ */
+function buildGrantPayload(form, isExec) {
+  if (!form.enabled) return undefined;
+  const grant = {};
+  if (form.session) grant.session = true;
+  if (isExec) grant.fingerprint = true;
+  const minutes = parseInt(form.minutes, 10);
+  if (minutes > 0) grant.minutes = minutes;
+  const maxUses = parseInt(form.max_uses, 10);
+  if (maxUses > 0) grant.max_uses = maxUses;
+  // Nothing narrower picked: time-bound only, using the server's 8 hour default.
+  return Object.keys(grant).length ? grant : { minutes: 480 };
+}
+
+function describeGrantScope(grant) {
+  const parts = [];
+  if (grant.session_id) parts.push(`session ${grant.session_id}`);
+  if (grant.fingerprint) parts.push("exact command");
+  parts.push(grant.max_uses ? `${grant.uses}/${grant.max_uses} uses` : `${grant.uses} uses`);
+  return parts.join(" · ");
+}
+
 const RECENTLY_APPROVED_TOOLTIP =
   "Recently approved decisions show executions that were approved locally, including auto-resolutions from matching exception rules. Clasper Core supports local approvals for single-operator workflows. These approvals are self-attested and not externally verifiable.";
 
@@ -141,6 +172,23 @@ function getTargetLabelAndValue(tool, context) {
 
 function formatConditionDetail(detail) {
   if (!detail) return null;
+  if (detail.operator === "any" || detail.operator === "all") {
+    const matched = Array.isArray(detail.actual) ? detail.actual : [];
+    const label = matched.length ? `branch ${matched.map((i) => `[${i}]`).join(", ")}` : "no branch";
+    return `${detail.result ? "Matched" : "Failed"}: ${detail.field} (${label} of ${detail.expected})`;
+  }
+  if (detail.operator === "schedule") {
+    const at = detail.actual ? `${detail.actual.day} ${detail.actual.date} ${detail.actual.time} ${detail.actual.timezone}` : "unknown time";
+    return `${detail.result ? "Inside" : "Outside"} schedule window (${at})`;
+  }
+  if (detail.operator === "rate_limit") {
+    const counter = detail.actual || {};
+    const usage = `${counter.count ?? "?"}/${counter.max ?? "?"} ${counter.event_kind === "denial" ? "denials" : "requests"} in ${counter.window_seconds ?? "?"}s`;
+    return `${detail.result ? "Rate limit exceeded" : "Within rate limit"}: ${usage}`;
+  }
+  if (detail.operator === "not") {
+    return `${detail.result ? "Matched" : "Failed"}: ${detail.field} (inner block ${detail.actual ? "matched" : "did not match"})`;
+  }
   if (detail.field === "context.exec.argv0" && detail.result && detail.operator === "in") {
     return `Allowed: argv0 matched allowlist (${String(detail.actual)})`;
   }
@@ -173,9 +221,12 @@ export function ApprovalsView() {
   const [decisions, setDecisions] = useState(null);
   const [selectedDecision, setSelectedDecision] = useState(null);
   const [activeTab, setActiveTab] = useState("pending");
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const approverGroups = user.value?.approver_groups || [];
   const resolutionEvent = policyExceptionResolution.value;
 
   const load = async ({ reconcile = false } = {}) => {
+    if (activeTab === "grants") return;
     try {
       if (reconcile && activeTab === "pending") {
         try {
@@ -193,11 +244,12 @@ export function ApprovalsView() {
         `/ops/api/decisions?${buildParams({
           status: activeTab === "pending" ? "pending" : "approved",
           limit: activeTab === "pending" ? 100 : 50,
+          ...(assignedToMe ? { assigned: "mine" } : {}),
         })}`
       );
       const records = data.decisions || [];
       setDecisions(records);
-      if (activeTab === "pending") {
+      if (activeTab === "pending" && !assignedToMe) {
         pendingApprovalsCount.value = records.length;
       }
     } catch {
@@ -208,7 +260,7 @@ export function ApprovalsView() {
     }
   };
 
-  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value, activeTab]);
+  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value, activeTab, assignedToMe]);
 
   useEffect(() => {
     const decisionIds = Array.isArray(resolutionEvent?.decisionIds) ? resolutionEvent.decisionIds : [];
@@ -225,13 +277,21 @@ export function ApprovalsView() {
   const openDrawer = (d) => setSelectedDecision(d);
   const closeDrawer = () => setSelectedDecision(null);
 
-  const handleResolve = async (decisionId, status) => {
+  const handleResolve = async (decisionId, status, grant) => {
     try {
-      await apiPost(`/ops/api/decisions/${decisionId}/resolve`, { 
+      const result = await apiPost(`/ops/api/decisions/${decisionId}/resolve`, { 
         status, 
-        note: "Resolved via Ops Console" 
+        note: "Resolved via Ops Console",
+        ...(grant ? { grant } : {}),
       });
-      showToast(status === "approved" ? "Approved locally" : "Denied locally", "success");
+      const progress = result?.decision?.approval_progress;
+      if (result?.decision?.status === "pending" && progress) {
+        showToast(`Approval recorded (${progress.approvals}/${progress.quorum})`, "success");
+      } else if (result?.grant) {
+        showToast("Approved locally with a standing grant", "success");
+      } else {
+        showToast(status === "approved" ? "Approved locally" : "Denied locally", "success");
+      }
       closeDrawer();
       load();
       refreshPendingApprovalsCount();
@@ -246,13 +306,23 @@ export function ApprovalsView() {
       <div class="panel">
         <div class="panel-header">
           <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-            <h3 data-tooltip={activeTab === "pending" ? PENDING_DECISIONS_TOOLTIP : RECENTLY_APPROVED_TOOLTIP}>
-              {activeTab === "pending" ? "Pending Decisions" : "Recently Approved"}
+            <h3
+              data-tooltip={
+                activeTab === "pending"
+                  ? PENDING_DECISIONS_TOOLTIP
+                  : activeTab === "grants"
+                    ? STANDING_GRANTS_TOOLTIP
+                    : RECENTLY_APPROVED_TOOLTIP
+              }
+            >
+              {activeTab === "pending" ? "Pending Decisions" : activeTab === "grants" ? "Standing Grants" : "Recently Approved"}
             </h3>
           </div>
-          <button class="btn-secondary btn-sm" onClick={() => load({ reconcile: true })}>
-            <RefreshIcon width={14} /> {activeTab === "pending" ? "Refresh Queue" : "Refresh"}
-          </button>
+          {activeTab !== "grants" && (
+            <button class="btn-secondary btn-sm" onClick={() => load({ reconcile: true })}>
+              <RefreshIcon width={14} /> {activeTab === "pending" ? "Refresh Queue" : "Refresh"}
+            </button>
+          )}
         </div>
         <div style={{ display: "flex", gap: "8px", padding: "10px 16px", borderBottom: "1px solid var(--border-subtle)" }}>
           <button
@@ -269,14 +339,37 @@ export function ApprovalsView() {
           >
             Recently Approved
           </button>
+          <button
+            class={activeTab === "grants" ? "btn-secondary btn-sm" : "btn-ghost btn-sm"}
+            onClick={() => setActiveTab("grants")}
+            type="button"
+          >
+            Standing Grants
+          </button>
+          {activeTab !== "grants" && approverGroups.length > 0 && (
+            <label
+              class="text-secondary text-xs"
+              style={{ display: "flex", alignItems: "center", gap: "6px", marginLeft: "auto" }}
+              data-tooltip={`Only decisions routed to your approver groups: ${approverGroups.join(", ")}`}
+            >
+              <input type="checkbox" checked={assignedToMe} onChange={(e) => setAssignedToMe(e.target.checked)} />
+              Assigned to my group
+            </label>
+          )}
         </div>
 
+        {activeTab === "grants" && <StandingGrantsTable />}
+        {activeTab !== "grants" && (
         <div class={activeTab === "approved" ? "table-container" : "panel-list"}>
           {decisions === null && <div class="empty-state"><div class="spinner" /></div>}
           {decisions && !decisions.length && (
             <div class="empty-state">
               <div class="empty-icon">✓</div>
-              <div>{activeTab === "pending" ? "No pending approvals" : "No recently approved decisions"}</div>
+              <div>
+                {activeTab === "pending"
+                  ? assignedToMe ? "No pending approvals for your groups" : "No pending approvals"
+                  : "No recently approved decisions"}
+              </div>
             </div>
           )}
           {decisions && decisions.length > 0 && activeTab === "pending" && (
@@ -319,6 +412,7 @@ export function ApprovalsView() {
             </table>
           )}
         </div>
+        )}
       </div>
 
       <DecisionDrawer 
@@ -330,6 +424,88 @@ export function ApprovalsView() {
   );
 }
 
+function StandingGrantsTable() {
+  const [grants, setGrants] = useState(null);
+  const [revoking, setRevoking] = useState(null);
+  const canResolve = hasPermission("decision:resolve");
+
+  const load = async () => {
+    try {
+      const data = await api(`/ops/api/approval-grants?${buildParams({})}`);
+      setGrants(data.grants || []);
+    } catch {
+      setGrants([]);
+    }
+  };
+
+  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value]);
+
+  const revoke = async (grant) => {
+    setRevoking(grant.decision_id);
+    try {
+      await apiPost(`/ops/api/approval-grants/${grant.decision_id}/revoke`, {});
+      showToast(`Revoked standing grant for ${grant.tool}`, "success");
+      load();
+    } catch (e) {
+      showToast(e.message || "Failed to revoke grant", "error");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (grants === null) return <div class="empty-state"><div class="spinner" /></div>;
+  if (!grants.length) {
+    return (
+      <div class="empty-state">
+        <div class="empty-icon">✓</div>
+        <div>No active standing grants</div>
+      </div>
+    );
+  }
+
+  return (
+    <div class="table-container">
+      <table class="data-table">
+        <thead>
+          <tr>
+            <th data-tooltip="Approved decision the grant was issued on">Decision ID</th>
+            <th>Adapter</th>
+            <th>Tool</th>
+            <th data-tooltip="What a request must match to reuse the grant">Scope</th>
+            <th>Expires</th>
+            <th>Granted by</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {grants.map((grant) => (
+            <tr key={grant.decision_id}>
+              <td class="mono" title={grant.decision_id}>{grant.decision_id.slice(0, 8)}…</td>
+              <td>{grant.adapter_id || "—"}</td>
+              <td class="mono">{grant.tool}</td>
+              <td class="text-secondary" style={{ fontSize: "12px" }}>{describeGrantScope(grant)}</td>
+              <td class="text-secondary" title={grant.expires_at}>{formatTimestamp(grant.expires_at)}</td>
+              <td class="mono text-secondary">{grant.created_by}</td>
+              <td>
+                {canResolve && (
+                  <button
+                    class="btn-danger btn-sm"
+                    disabled={revoking === grant.decision_id}
+                    onClick={() => revoke(grant)}
+                    type="button"
+                  >
+                    {revoking === grant.decision_id ? "Revoking..." : "Revoke"}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function DecisionRow({ decision, mode, onClick }) {
   const req = decision.request_snapshot || {};
   const r = req.request || {};
@@ -361,6 +537,9 @@ function DecisionRow({ decision, mode, onClick }) {
           <strong style={{ fontSize: "14px", color: "var(--text-primary)" }}>
             {tool} {target ? <span class="text-secondary" style={{ fontWeight: 400 }}>on {target}</span> : ""}
           </strong>
+          {decision.assigned_group && (
+            <Badge text={decision.assigned_group} kind="info" tooltip="Approver group this request was routed to" />
+          )}
         </div>
         <div class="text-secondary text-xs" style={{ whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
           {decision.adapter_id}
@@ -433,9 +612,126 @@ function DecisionTableRow({ decision, mode, onClick }) {
   );
 }
 
+const NOTIFICATION_BADGE_KIND = { delivered: "success", pending: "warn", failed: "danger", cancelled: "info" };
+
+/** Delivery state of the approver-group notification for a routed decision. */
+const DIFF_LINE_STYLES = {
+  "+": { color: "var(--accent-success)", background: "var(--bg-success)" },
+  "-": { color: "var(--accent-danger)", background: "var(--bg-danger)" },
+  "@": { color: "var(--accent-info)" },
+};
+
+function DiffLines({ diff }) {
+  return (
+    <pre class="mono" style={{ fontSize: "11px", margin: 0, overflowX: "auto", maxHeight: "320px" }}>
+      {diff.split("\n").map((line, i) => (
+        <div key={i} style={line.startsWith("+++") || line.startsWith("---") ? {} : DIFF_LINE_STYLES[line[0]]}>
+          {line || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/** Adapter-supplied preview of what the tool will do: file diffs, the parsed command, or the HTTP request. */
+function ApprovalPreview({ preview }) {
+  if (preview.kind === "diff") {
+    return (
+      <>
+        {preview.files.map((file) => (
+          <div key={file.path} style={{ marginBottom: "12px" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+              <span class="mono" style={{ fontWeight: 600 }}>{file.path}</span>
+              <Badge text={file.status} kind={file.status === "deleted" ? "danger" : file.status === "added" ? "success" : "info"} />
+              <span class="mono" style={{ fontSize: "11px" }}>
+                <span style={{ color: "var(--accent-success)" }}>+{file.additions}</span>{" "}
+                <span style={{ color: "var(--accent-danger)" }}>-{file.deletions}</span>
+              </span>
+            </div>
+            {file.diff ? <DiffLines diff={file.diff} /> : <div class="text-secondary">No changes shown.</div>}
+          </div>
+        ))}
+        {preview.truncated && <div class="text-secondary" style={{ fontSize: "12px" }}>Preview truncated.</div>}
+      </>
+    );
+  }
+  if (preview.kind === "command") {
+    return (
+      <>
+        {preview.cwd && (
+          <div class="detail-row">
+            <span class="detail-label">Working dir</span>
+            <span class="mono">{preview.cwd}</span>
+          </div>
+        )}
+        <pre class="mono" style={{ fontSize: "12px", whiteSpace: "pre-wrap", margin: "0 0 8px" }}>
+          {preview.segments.map((segment, i) => (
+            <div key={i}>
+              {segment.argv.join(" ")}
+              {segment.operator && <strong style={{ color: "var(--accent-warn)" }}> {segment.operator}</strong>}
+            </div>
+          ))}
+        </pre>
+        {preview.flags.length > 0 && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+            {preview.flags.map((flag, i) => (
+              <Badge key={i} text={flag.token} kind={flag.severity} tooltip={flag.reason} />
+            ))}
+          </div>
+        )}
+      </>
+    );
+  }
+  if (preview.kind === "http") {
+    return (
+      <>
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <Badge text={preview.method} kind="info" />
+          <span class="mono" style={{ wordBreak: "break-all" }}>{preview.url}</span>
+        </div>
+        {preview.body && (
+          <pre class="mono text-secondary" style={{ fontSize: "11px", whiteSpace: "pre-wrap", marginTop: "8px" }}>
+            {preview.body}
+          </pre>
+        )}
+      </>
+    );
+  }
+  return null;
+}
+
+function NotificationStatus({ decisionId }) {
+  const [notifications, setNotifications] = useState(null);
+
+  useEffect(() => {
+    setNotifications(null);
+    api(`/ops/api/approval-notifications?${buildParams({ decision_id: decisionId, limit: 20 })}`)
+      .then((data) => setNotifications(data.notifications || []))
+      .catch(() => setNotifications([]));
+  }, [decisionId]);
+
+  if (!notifications || notifications.length === 0) return null;
+  return notifications.map((n) => (
+    <div class="detail-row" key={n.notification_id}>
+      <span class="detail-label">
+        Notified via {n.channel_type}
+        {n.recipient_id ? ` (${n.recipient_id})` : ""}
+      </span>
+      <span>
+        <Badge
+          text={`${n.status}${n.attempts > 1 ? ` · ${n.attempts} attempts` : ""}`}
+          kind={NOTIFICATION_BADGE_KIND[n.status] || "info"}
+          tooltip={n.last_error || (n.delivered_at ? `Delivered ${formatTimestamp(n.delivered_at)}` : undefined)}
+        />
+      </span>
+    </div>
+  ));
+}
+
 function DecisionDrawer({ decision, onClose, onResolve }) {
   const [busy, setBusy] = useState(false);
   const [confirm, setConfirm] = useState(null); // 'approve' | 'deny' | null
+  const [grantForm, setGrantForm] = useState(EMPTY_GRANT);
 
   if (!decision) return <div class="drawer"><div class="drawer-backdrop" /></div>;
 
@@ -478,10 +774,12 @@ function DecisionDrawer({ decision, onClose, onResolve }) {
   
   const resolve = async (status) => {
     setBusy(true);
-    await onResolve(decision.decision_id, status);
+    await onResolve(decision.decision_id, status, status === "approved" ? buildGrantPayload(grantForm, !!r.context?.exec) : undefined);
     setBusy(false);
     setConfirm(null);
+    setGrantForm(EMPTY_GRANT);
   };
+  const updateGrant = (key, value) => setGrantForm((prev) => ({ ...prev, [key]: value }));
 
   return (
     <>
@@ -532,8 +830,24 @@ function DecisionDrawer({ decision, onClose, onResolve }) {
               <span class="detail-label">Requested at</span>
               <span>{decision.created_at ? new Date(decision.created_at).toLocaleString() : "—"}</span>
             </div>
+            {decision.assigned_group && (
+              <div class="detail-row">
+                <span class="detail-label">Routed to</span>
+                <span class="mono">{decision.assigned_group}</span>
+              </div>
+            )}
+            {decision.assigned_group && <NotificationStatus decisionId={decision.decision_id} />}
           </div>
 
+          {r.preview && (
+            <>
+              <div class="drawer-section-header">Preview</div>
+              <div class="detail-block">
+                <ApprovalPreview preview={r.preview} />
+              </div>
+            </>
+          )}
+
           <div class="drawer-section-header">Intent & Context</div>
           <div class="detail-block">
             <div style={{ fontSize: "13px", lineHeight: "1.5", marginBottom: "12px", color: "var(--text-primary)" }}>
@@ -639,6 +953,57 @@ function DecisionDrawer({ decision, onClose, onResolve }) {
             )}
           </div>
 
+          {(() => {
+            const progress = decision.approval_progress;
+            const votes = Array.isArray(decision.votes) ? decision.votes : [];
+            const escalationLevel = decision.escalation_level || 0;
+            if (
+              !progress ||
+              (progress.quorum <= 1 && !progress.roles && !progress.owner && votes.length === 0 && escalationLevel === 0)
+            ) return null;
+            return (
+              <>
+                <div class="drawer-section-header">Approvals</div>
+                <div class="detail-block">
+                  <div class="detail-row">
+                    <span class="detail-label">Quorum</span>
+                    <span>{progress.approvals} of {progress.quorum} approvals</span>
+                  </div>
+                  {progress.roles && (
+                    <div class="detail-row">
+                      <span class="detail-label">Approver roles</span>
+                      <span class="mono">{progress.roles.join(", ")}</span>
+                    </div>
+                  )}
+                  {escalationLevel > 0 && (
+                    <div class="detail-row">
+                      <span class="detail-label" title="Escalation tiers applied while the decision was pending">Escalation</span>
+                      <Badge text={`Tier ${escalationLevel}`} kind="warn" />
+                    </div>
+                  )}
+                  {progress.owner && (
+                    <div class="detail-row">
+                      <span class="detail-label">Agent owner</span>
+                      <span class="mono">
+                        {progress.owner}
+                        {!progress.allow_self_approval && <span class="text-secondary"> (cannot approve)</span>}
+                      </span>
+                    </div>
+                  )}
+                  {votes.map((v) => (
+                    <div key={v.approver_id} class="detail-row">
+                      <span class="detail-label mono">{v.approver_id}</span>
+                      <span>
+                        <Badge text={v.vote === "approve" ? "Approved" : "Denied"} kind={v.vote === "approve" ? "success" : "danger"} />{" "}
+                        <span class="text-secondary text-xs">{new Date(v.created_at).toLocaleString()}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            );
+          })()}
+
           <div class="drawer-section-header">Raw Request</div>
           <details>
             <summary style={{ cursor: "pointer", fontSize: "12px", color: "var(--text-secondary)" }}>Show full JSON</summary>
@@ -747,6 +1112,70 @@ function DecisionDrawer({ decision, onClose, onResolve }) {
                   );
                 })()}
               </div>
+              {confirm === "approve" && (
+                <div style={{ marginTop: "16px" }}>
+                  <label class="text-sm" style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                    <input
+                      type="checkbox"
+                      checked={grantForm.enabled}
+                      disabled={busy}
+                      onChange={(e) => updateGrant("enabled", e.target.checked)}
+                    />
+                    <span data-tooltip={STANDING_GRANTS_TOOLTIP}>Approve similar requests</span>
+                  </label>
+                  {grantForm.enabled && (
+                    <div style={{ marginTop: "8px", paddingLeft: "24px", display: "grid", gap: "8px" }}>
+                      <label class="text-sm" style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                        <input
+                          type="checkbox"
+                          checked={grantForm.session}
+                          disabled={busy || !r.session_id}
+                          onChange={(e) => updateGrant("session", e.target.checked)}
+                        />
+                        Only this session{r.session_id ? "" : " (no session reported)"}
+                      </label>
+                      <label class="text-sm" style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                        <input
+                          type="checkbox"
+                          checked={!!r.context?.exec}
+                          disabled
+                        />
+                        Only this exact command (argv and cwd){r.context?.exec ? ", required for commands" : ""}
+                      </label>
+                      <label class="text-sm" style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                        For the next
+                        <input
+                          class="input-sm"
+                          type="number"
+                          min="1"
+                          max="1440"
+                          placeholder="480"
+                          value={grantForm.minutes}
+                          disabled={busy}
+                          onInput={(e) => updateGrant("minutes", e.target.value)}
+                          style={{ width: "80px" }}
+                        />
+                        minutes
+                      </label>
+                      <label class="text-sm" style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                        Up to
+                        <input
+                          class="input-sm"
+                          type="number"
+                          min="1"
+                          max="1000"
+                          placeholder="∞"
+                          value={grantForm.max_uses}
+                          disabled={busy}
+                          onInput={(e) => updateGrant("max_uses", e.target.value)}
+                          style={{ width: "80px" }}
+                        />
+                        uses
+                      </label>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
             <div class="modal-footer">
               <button class="btn-ghost" disabled={busy} onClick={() => setConfirm(null)}>Cancel</button>
@@ -16,6 +16,23 @@ function getTargetPaths(context) {
 
 function formatConditionDetail(detail) {
   if (!detail) return null;
+  if (detail.operator === "any" || detail.operator === "all") {
+    const matched = Array.isArray(detail.actual) ? detail.actual : [];
+    const label = matched.length ? `branch ${matched.map((i) => `[${i}]`).join(", ")}` : "no branch";
+    return `${detail.result ? "Matched" : "Failed"}: ${detail.field} (${label} of ${detail.expected})`;
+  }
+  if (detail.operator === "schedule") {
+    const at = detail.actual ? `${detail.actual.day} ${detail.actual.date} ${detail.actual.time} ${detail.actual.timezone}` : "unknown time";
+    return `${detail.result ? "Inside" : "Outside"} schedule window (${at})`;
+  }
+  if (detail.operator === "rate_limit") {
+    const counter = detail.actual || {};
+    const usage = `${counter.count ?? "?"}/${counter.max ?? "?"} ${counter.event_kind === "denial" ? "denials" : "requests"} in ${counter.window_seconds ?? "?"}s`;
+    return `${detail.result ? "Rate limit exceeded" : "Within rate limit"}: ${usage}`;
+  }
+  if (detail.operator === "not") {
+    return `${detail.result ? "Matched" : "Failed"}: ${detail.field} (inner block ${detail.actual ? "matched" : "did not match"})`;
+  }
   if (detail.field === "context.exec.argv0" && detail.result && detail.operator === "in") {
     return `Allowed: argv0 matched allowlist (${String(detail.actual)})`;
   }
@@ -66,6 +83,54 @@ export function AuditView() {
         const status = typeof ed.status === "string" ? ed.status : "resolved";
         return `Approval ${status}${tool ? ` for ${tool}` : ""}`;
       }
+      if (eventType === "policy_decision_escalated") {
+        const group = ed.assigned_group ? ` to ${ed.assigned_group}` : "";
+        return `Approval escalated${group} (tier ${ed.escalation_level ?? "?"})`;
+      }
+      if (eventType === "policy_decision_routed") {
+        return `Approval routed to ${ed.group_id ?? "approver group"}`;
+      }
+      if (eventType === "approval_action_used") {
+        return `Approval link used: ${ed.action ?? "vote"} by ${ed.approver_id ?? "approver"}`;
+      }
+      if (eventType === "break_glass_activated") {
+        return "Break-glass session activated";
+      }
+      if (eventType === "break_glass_action") {
+        return `Break-glass action${tool ? ` (${tool})` : ""}`;
+      }
+      if (eventType === "break_glass_ended") {
+        return `Break-glass session ${ed.reason === "expired" ? "expired" : "ended"}`;
+      }
+      if (eventType === "break_glass_reviewed") {
+        return "Break-glass review signed off";
+      }
+      if (eventType === "ops_user_created") {
+        return `Ops user created: ${ed.subject_user_id ?? "user"}`;
+      }
+      if (eventType === "ops_user_updated") {
+        return `Ops user ${ed.disabled ? "disabled" : "updated"}: ${ed.subject_user_id ?? "user"}`;
+      }
+      if (eventType === "ops_api_key_issued") {
+        const rotated = Array.isArray(ed.rotated_key_ids) && ed.rotated_key_ids.length > 0;
+        return `API key ${rotated ? "rotated" : "issued"} for ${ed.subject_user_id ?? "user"}`;
+      }
+      if (eventType === "ops_api_key_revoked") {
+        return `API key revoked for ${ed.subject_user_id ?? "user"}`;
+      }
+      if (eventType === "freeze_created" || eventType === "freeze_lifted") {
+        const verb = eventType === "freeze_created" ? "set" : "lifted";
+        return `Freeze ${verb}${ed.scope?.tenant_id === null ? " for all tenants" : ""}`;
+      }
+      if (eventType === "config_change") {
+        return `Config changed: ${ed.setting ?? "setting"} set to ${ed.value ?? "inherited"}`;
+      }
+      if (eventType === "decision_token_consumed") {
+        return "Approval token consumed";
+      }
+      if (eventType === "decision_token_rejected") {
+        return `Approval token rejected (${ed.reason ?? "invalid"})`;
+      }
       if (eventType === "adapter_audit_event") {
         return typeof ed.event_type === "string" ? `Adapter event: ${ed.event_type}` : "Adapter event";
       }
@@ -87,6 +152,9 @@ export function AuditView() {
       if (eventType === "approval_grant_consumed") {
         return "Approval reused via grant window";
       }
+      if (eventType === "approval_grant_revoked") {
+        return `Standing approval grant revoked${typeof ed.tool === "string" ? ` (${ed.tool})` : ""}`;
+      }
       return eventType || "-";
     })();
   const getEntryTargetSummary = (e) => {
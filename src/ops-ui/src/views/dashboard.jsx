@@ -89,6 +89,19 @@ export function DashboardView() {
   return (
     <section class="dashboard-view">
       <Hero />
+      {governance?.break_glass && governance.break_glass.status !== "clear" && (
+        <div class="alert warn">
+          <AlertTriangleIcon />
+          <div>
+            <strong>{governance.break_glass.status === "active" ? "Break-glass active" : "Break-glass unreviewed"}</strong>
+            {" — "}
+            {governance.break_glass.status === "active"
+              ? `${governance.break_glass.active_sessions} emergency override session(s) in progress.`
+              : `${governance.break_glass.unreviewed_sessions} ended session(s) awaiting post-incident review.`}{" "}
+            <a href="#incidents">Open Incidents</a>
+          </div>
+        </div>
+      )}
       <div class="dashboard-grid dashboard-grid--primary">
         <StatCard icon={<ActivityIcon />} variant="info" label="Traces Today" tooltip={copy.tooltips.dashboard.tracesToday} value={traces.count} meta={traces.breakdown} href={`#traces?start_date=${new Date().toISOString().split("T")[0]}`} />
         <StatCard
@@ -1,14 +1,362 @@
 import { useEffect, useState, useMemo } from "preact/hooks";
-import { tenantId, selectedWorkspace, formatCost, showToast } from "../state.js";
-import { api, buildParams } from "../api.js";
+import {
+  tenantId,
+  user,
+  selectedWorkspace,
+  formatCost,
+  showToast,
+  hasPermission,
+  overrideModal,
+  confirmModal,
+} from "../state.js";
+import { api, apiPost, buildParams } from "../api.js";
 import { openTrace } from "../components/drawer.jsx";
-import { ExecutionBadge, RiskBadge, GovernanceBadge } from "../components/badge.jsx";
+import { Badge, ExecutionBadge, RiskBadge, GovernanceBadge } from "../components/badge.jsx";
 import { RefreshIcon } from "../components/icons.jsx";
 import { formatTimestamp } from "../copy.js";
 
 const INCIDENT_RESPONSE_TOOLTIP =
   "Traces with execution errors or denied governance decisions. Click a row to open the trace detail.";
 
+const BREAK_GLASS_TOOLTIP =
+  "Break-glass opens a time-boxed emergency override: normally denied tools are allowed and every action is tagged with the session. When the session ends, a post-incident review must be signed off.";
+
+const FREEZE_TOOLTIP =
+  "A freeze (kill switch) denies every matching execution before policies are evaluated, regardless of approvals, overrides or break-glass. It lasts until lifted or until its expiry.";
+
+function freezeScope(freeze) {
+  return [
+    freeze.tenant_id ? "tenant" : "all tenants",
+    freeze.workspace_id && `workspace ${freeze.workspace_id}`,
+    freeze.adapter_id && `adapter ${freeze.adapter_id}`,
+    freeze.agent_id && `agent ${freeze.agent_id}`,
+  ].filter(Boolean).join(" · ");
+}
+
+function FreezePanel() {
+  const [freezes, setFreezes] = useState(null);
+  const [form, setForm] = useState({ reason: "", adapter_id: "", agent_id: "", minutes: "", global: false });
+  const [busy, setBusy] = useState(false);
+  const canManage = hasPermission("freeze:manage");
+  const isAdmin = (user.value?.roles || []).includes("admin");
+
+  const load = async () => {
+    try {
+      const res = await api(`/ops/api/freezes?${buildParams({ status: "active" })}`);
+      setFreezes(res.freezes || []);
+    } catch {
+      setFreezes([]);
+    }
+  };
+
+  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value]);
+
+  const run = async (action, success) => {
+    setBusy(true);
+    try {
+      await action();
+      showToast(success, "success");
+      load();
+    } catch (e) {
+      showToast(e.message || "Freeze request failed", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const freeze = () => {
+    confirmModal.value = {
+      open: true,
+      title: form.global ? "Freeze all tenants" : "Freeze execution",
+      message: "Every matching execution will be denied until the freeze is lifted or expires.",
+      callback: () =>
+        run(async () => {
+          await apiPost("/ops/api/freezes", {
+            tenant_id: tenantId.value,
+            workspace_id: selectedWorkspace.value || undefined,
+            adapter_id: form.adapter_id.trim() || undefined,
+            agent_id: form.agent_id.trim() || undefined,
+            reason: form.reason.trim(),
+            minutes: parseInt(form.minutes, 10) || undefined,
+            global: form.global,
+          });
+          setForm((f) => ({ ...f, reason: "" }));
+        }, "Execution frozen"),
+    };
+  };
+
+  const lift = (item) => {
+    confirmModal.value = {
+      open: true,
+      title: "Lift freeze",
+      message: `Lift the freeze on ${freezeScope(item)}? Matching executions are evaluated by policy again.`,
+      callback: () => run(() => apiPost(`/ops/api/freezes/${item.freeze_id}/lift`, {}), "Freeze lifted"),
+    };
+  };
+
+  const active = freezes || [];
+
+  return (
+    <div class="panel">
+      <div class="panel-header">
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <h3 data-tooltip={FREEZE_TOOLTIP}>Kill Switch</h3>
+          {active.length > 0 && <Badge text="Frozen" kind="danger" />}
+        </div>
+        {canManage && (
+          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+            <input
+              class="input-sm"
+              placeholder="Reason (min 10 chars)"
+              value={form.reason}
+              onInput={(e) => setForm((f) => ({ ...f, reason: e.target.value }))}
+            />
+            <input
+              class="input-sm"
+              placeholder="Adapter ID (optional)"
+              value={form.adapter_id}
+              onInput={(e) => setForm((f) => ({ ...f, adapter_id: e.target.value }))}
+            />
+            <input
+              class="input-sm"
+              placeholder="Agent ID (optional)"
+              value={form.agent_id}
+              onInput={(e) => setForm((f) => ({ ...f, agent_id: e.target.value }))}
+            />
+            <select class="input-sm" value={form.minutes} onChange={(e) => setForm((f) => ({ ...f, minutes: e.target.value }))} title="Expiry">
+              <option value="">Until lifted</option>
+              <option value="15">15 min</option>
+              <option value="60">1 hour</option>
+              <option value="240">4 hours</option>
+              <option value="1440">24 hours</option>
+            </select>
+            {isAdmin && (
+              <label class="text-secondary" title="Freeze every tenant">
+                <input type="checkbox" checked={form.global} onChange={(e) => setForm((f) => ({ ...f, global: e.target.checked }))} /> Global
+              </label>
+            )}
+            <button
+              class="btn-danger btn-sm"
+              disabled={busy || form.reason.trim().length < 10}
+              onClick={freeze}
+              type="button"
+            >
+              Freeze
+            </button>
+          </div>
+        )}
+      </div>
+      {freezes === null && <div class="empty-state"><div class="spinner" /></div>}
+      {freezes && !active.length && (
+        <div class="empty-state">
+          <div class="empty-icon">✓</div>
+          <div>No active freezes</div>
+        </div>
+      )}
+      {active.length > 0 && (
+        <div class="table-container">
+          <table class="data-table">
+            <thead>
+              <tr>
+                <th>Freeze</th>
+                <th>Scope</th>
+                <th>Reason</th>
+                <th>Frozen by</th>
+                <th>Until</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {active.map((item) => (
+                <tr key={item.freeze_id}>
+                  <td class="mono" title={item.freeze_id}>{item.freeze_id.slice(0, 8)}…</td>
+                  <td class="text-secondary">{freezeScope(item)}</td>
+                  <td>{item.reason}</td>
+                  <td class="mono text-secondary">{item.created_by}</td>
+                  <td class="text-secondary">{item.expires_at ? formatTimestamp(item.expires_at) : "Lifted manually"}</td>
+                  <td>
+                    {canManage && (item.tenant_id || isAdmin) && (
+                      <button class="btn-secondary btn-sm" disabled={busy} onClick={() => lift(item)} type="button">Lift</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function breakGlassScope(session) {
+  return [session.workspace_id ? `workspace ${session.workspace_id}` : "all workspaces", session.agent_id ? `agent ${session.agent_id}` : "all agents"].join(" · ");
+}
+
+function BreakGlassPanel() {
+  const [data, setData] = useState(null);
+  const [form, setForm] = useState({ minutes: "60", agent_id: "" });
+  const [notes, setNotes] = useState({});
+  const [busy, setBusy] = useState(false);
+  const canManage = hasPermission("break_glass:manage");
+
+  const load = async () => {
+    try {
+      const res = await api(`/ops/api/break-glass?${buildParams({ status: "all" })}`);
+      setData(res);
+    } catch {
+      setData({ sessions: [], status: { status: "clear" } });
+    }
+  };
+
+  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value]);
+
+  const run = async (action, success) => {
+    setBusy(true);
+    try {
+      await action();
+      showToast(success, "success");
+      load();
+    } catch (e) {
+      showToast(e.message || "Break-glass request failed", "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const activate = () => {
+    overrideModal.value = {
+      open: true,
+      message: "Break-glass allows normally denied tools until the session ends. All actions are tagged and a post-incident review is required.",
+      callback: (override) =>
+        run(
+          () =>
+            apiPost("/ops/api/break-glass", {
+              ...override,
+              tenant_id: tenantId.value,
+              workspace_id: selectedWorkspace.value || undefined,
+              agent_id: form.agent_id.trim() || undefined,
+              minutes: parseInt(form.minutes, 10) || 60,
+            }),
+          "Break-glass session activated"
+        ),
+    };
+  };
+
+  const end = (session) => {
+    confirmModal.value = {
+      open: true,
+      title: "End break-glass session",
+      message: "End the session now? A post-incident review will be opened.",
+      callback: () => run(() => apiPost(`/ops/api/break-glass/${session.session_id}/end`, {}), "Break-glass session ended"),
+    };
+  };
+
+  const signOff = (session) =>
+    run(
+      () => apiPost(`/ops/api/break-glass/${session.session_id}/review`, { notes: (notes[session.session_id] || "").trim() }),
+      "Review signed off"
+    );
+
+  const sessions = (data?.sessions || []).filter((s) => s.active || s.review_status === "pending");
+  const status = data?.status?.status || "clear";
+
+  return (
+    <div class="panel">
+      <div class="panel-header">
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <h3 data-tooltip={BREAK_GLASS_TOOLTIP}>Break-Glass</h3>
+          {status === "active" && <Badge text="Active" kind="danger" />}
+          {status === "unreviewed" && <Badge text="Unreviewed" kind="warn" tooltip="Ended sessions awaiting post-incident review" />}
+        </div>
+        {canManage && (
+          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+            <input
+              class="input-sm"
+              placeholder="Agent ID (optional)"
+              value={form.agent_id}
+              onInput={(e) => setForm((f) => ({ ...f, agent_id: e.target.value }))}
+              title="Limit the session to one agent; leave empty for the whole tenant"
+            />
+            <select class="input-sm" value={form.minutes} onChange={(e) => setForm((f) => ({ ...f, minutes: e.target.value }))} title="Session duration">
+              <option value="15">15 min</option>
+              <option value="60">1 hour</option>
+              <option value="120">2 hours</option>
+              <option value="240">4 hours</option>
+            </select>
+            <button class="btn-danger btn-sm" disabled={busy} onClick={activate} type="button">Activate</button>
+          </div>
+        )}
+      </div>
+      {data === null && <div class="empty-state"><div class="spinner" /></div>}
+      {data && !sessions.length && (
+        <div class="empty-state">
+          <div class="empty-icon">✓</div>
+          <div>No active break-glass sessions or open reviews</div>
+        </div>
+      )}
+      {sessions.length > 0 && (
+        <div class="table-container">
+          <table class="data-table">
+            <thead>
+              <tr>
+                <th>Session</th>
+                <th>Scope</th>
+                <th>Reason</th>
+                <th>Activated by</th>
+                <th>Window</th>
+                <th>Actions</th>
+                <th>Review</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr key={session.session_id}>
+                  <td class="mono" title={session.session_id}>{session.session_id.slice(0, 8)}…</td>
+                  <td class="text-secondary">{breakGlassScope(session)}</td>
+                  <td title={session.justification}>{session.reason_code}</td>
+                  <td class="mono text-secondary">{session.activated_by}</td>
+                  <td class="text-secondary">
+                    {formatTimestamp(session.started_at)} → {formatTimestamp(session.ended_at || session.expires_at)}
+                  </td>
+                  <td class="text-right">{session.action_count}</td>
+                  <td>
+                    {session.active ? (
+                      canManage && (
+                        <button class="btn-secondary btn-sm" disabled={busy} onClick={() => end(session)} type="button">End now</button>
+                      )
+                    ) : (
+                      <div style={{ display: "flex", gap: "6px" }}>
+                        <input
+                          class="input-sm"
+                          placeholder="Review notes (min 10 chars)"
+                          value={notes[session.session_id] || ""}
+                          disabled={!canManage || busy}
+                          onInput={(e) => setNotes((n) => ({ ...n, [session.session_id]: e.target.value }))}
+                        />
+                        {canManage && (
+                          <button
+                            class="btn-primary btn-sm"
+                            disabled={busy || (notes[session.session_id] || "").trim().length < 10}
+                            onClick={() => signOff(session)}
+                            type="button"
+                          >
+                            Sign off
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 const DEFAULT_FILTERS = { status: "", governance: "", risk: "", trace_id: "", start_date: "", end_date: "" };
 
 export function IncidentsView() {
@@ -73,6 +421,8 @@ export function IncidentsView() {
 
   return (
     <section class="incidents-view">
+      <FreezePanel />
+      <BreakGlassPanel />
       <div class="panel">
         <div class="toolbar incidents-toolbar">
           <div class="toolbar-group" style={{ flex: 1, gap: "8px", flexWrap: "wrap" }}>
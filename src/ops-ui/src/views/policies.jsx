@@ -18,7 +18,7 @@ function policyToEditPayload(p) {
       enabled: true,
     };
   }
-  const { policy_id, scope, subject, conditions, effect, explanation, precedence, enabled } = p;
+  const { policy_id, scope, subject, conditions, effect, explanation, precedence, enabled, mode } = p;
   return {
     policy_id: policy_id ?? "",
     scope: scope ?? {},
@@ -28,6 +28,7 @@ function policyToEditPayload(p) {
     explanation: explanation ?? "",
     precedence: precedence ?? 0,
     enabled: enabled ?? true,
+    ...(mode ? { mode } : {}),
   };
 }
 
@@ -60,7 +61,10 @@ function getExceptionsForPolicy(policyId, allPolicies) {
 }
 
 const POLICY_REGISTRY_TOOLTIP =
-  "Policies define pre-execution governance rules for agent actions, including allow, deny, and require-approval decisions. Each policy specifies an effect, optional conditions, and a scope. Policies are evaluated before execution occurs. Deterministic condition operators include eq, in, prefix, all_under, any_under, and exists. Guardrail: prefix rules are broad; prefer strict in and scoped path operators for security-sensitive exceptions. Click a policy to edit it, enable or disable enforcement, or run a dry-run test against recent traces.";
+  "Policies define pre-execution governance rules for agent actions, including allow, deny, and require-approval decisions. Each policy specifies an effect, optional conditions, and a scope. Policies are evaluated before execution occurs. Deterministic condition operators include eq, in, prefix, all_under, any_under, exists, numeric comparisons (gt, gte, lt, lte, between), anchored regex (matches), and glob. Guardrail: prefix rules are broad; prefer strict in and scoped path operators for security-sensitive exceptions. Click a policy to edit it, enable or disable enforcement, or run a dry-run test against recent traces.";
+
+const SHADOW_POLICIES_TOOLTIP =
+  "Shadow-mode policies are evaluated on every execution but never change the decision. Matched counts how often each one applied; would flip counts how often enforcing it would have produced a different decision. Promote a policy to enforce once its flips are expected.";
 
 const DECISION_OPTIONS = [
   { value: "", label: "All" },
@@ -113,6 +117,8 @@ export function PoliciesView() {
   const [dryResult, setDryResult] = useState(null);
   const [toggling, setToggling] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [promoting, setPromoting] = useState(false);
+  const [shadowReport, setShadowReport] = useState(null);
 
   const load = async (isManual = false) => {
     try {
@@ -124,8 +130,14 @@ export function PoliciesView() {
     }
   };
 
+  const loadShadowReport = () =>
+    api(`/ops/api/policies/shadow-report?${buildParams()}`)
+      .then((d) => setShadowReport(d.report || null))
+      .catch(() => setShadowReport(null));
+
   useEffect(() => {
     load();
+    loadShadowReport();
   }, [tenantId.value, selectedWorkspace.value]);
 
   useEffect(() => {
@@ -231,6 +243,31 @@ export function PoliciesView() {
     }
   };
 
+  const promotePolicy = async (policy) => {
+    if (!policy) return;
+    if (!confirm(`Promote "${policy.policy_id}" to enforce? Its decision will start applying to executions.`)) return;
+    setPromoting(true);
+    try {
+      await apiPatch(`/ops/api/policies/${encodeURIComponent(policy.policy_id)}`, {
+        tenant_id: policy.tenant_id || tenantId.value,
+        mode: "enforce",
+      });
+      showToast(`${policy.policy_id} is now enforced`, "success");
+      const data = await api(`/ops/api/policies?${buildParams()}`);
+      const nextPolicies = data.policies || [];
+      setPolicies(nextPolicies);
+      const updated = nextPolicies.find((p) => p.policy_id === policy.policy_id);
+      if (updated) {
+        setDrawerStack((prev) => (prev.length && prev[prev.length - 1]?.policy_id === policy.policy_id ? [...prev.slice(0, -1), updated] : prev));
+      }
+      loadShadowReport();
+    } catch (e) {
+      showToast(`Error: ${e.message}`, "error");
+    } finally {
+      setPromoting(false);
+    }
+  };
+
   const deletePolicyById = async () => {
     if (!selectedPolicy) return;
     if (!confirm(`Are you sure you want to delete policy "${selectedPolicy.policy_id}"?`)) return;
@@ -487,6 +524,24 @@ export function PoliciesView() {
                       {getPolicyIcon(p.effect?.decision)}
                       <strong style={{ fontSize: "14px", color: "var(--text-primary)" }}>{p.policy_id}</strong>
                       <Badge text={p.enabled ? "Enabled" : "Disabled"} kind={p.enabled ? "success" : "muted"} />
+                      {p.mode === "shadow" && (
+                        <span
+                          class="badge-pill warn"
+                          data-tooltip="Shadow mode: evaluated and recorded, but never changes the decision"
+                          style={{ fontSize: "10px", fontWeight: "600" }}
+                        >
+                          Shadow
+                        </span>
+                      )}
+                      {p.source === "file" && (
+                        <span
+                          class="badge-pill"
+                          data-tooltip={`Managed from ${p.source_path ?? "policy files"} (read-only here)`}
+                          style={{ fontSize: "10px", fontWeight: "600" }}
+                        >
+                          File
+                        </span>
+                      )}
                       {(() => {
                         const n = countExceptionsForPolicy(p.policy_id, policies);
                         if (n === 0) return null;
@@ -519,6 +574,59 @@ export function PoliciesView() {
         </div>
       </div>
 
+      {shadowReport?.policies?.length > 0 && (
+        <div class="panel" style={{ marginTop: "16px" }}>
+          <div class="panel-header">
+            <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+              <h3 data-tooltip={SHADOW_POLICIES_TOOLTIP}>Shadow Policies</h3>
+              <span class="text-secondary text-xs" style={{ fontWeight: 500 }}>
+                {shadowReport.decisions} decisions
+              </span>
+            </div>
+          </div>
+          <div class="table-container">
+            <table class="data-table">
+              <thead>
+                <tr>
+                  <th>Policy</th>
+                  <th>Decision</th>
+                  <th class="text-right">Matched</th>
+                  <th class="text-right">Would flip</th>
+                  <th class="text-right">Flip rate</th>
+                  <th>Flips</th>
+                  <th>Last matched</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shadowReport.policies.map((s) => (
+                  <tr
+                    key={s.policy_id}
+                    style={{ cursor: "pointer" }}
+                    onClick={() => {
+                      const policy = policies?.find((p) => p.policy_id === s.policy_id);
+                      if (policy) openDrawer(policy);
+                    }}
+                  >
+                    <td class="mono">
+                      {s.policy_id}
+                      {s.mode && s.mode !== "shadow" && <span class="text-secondary text-xs"> ({s.mode})</span>}
+                    </td>
+                    <td>{s.decision ?? "—"}</td>
+                    <td class="text-right">{s.matched}</td>
+                    <td class="text-right">{s.flipped}</td>
+                    <td class="text-right">{s.matched ? `${Math.round(s.flip_rate * 100)}%` : "—"}</td>
+                    <td class="mono text-xs">
+                      {Object.entries(s.flips).map(([k, n]) => `${k} ×${n}`).join(", ") || "—"}
+                    </td>
+                    <td class="text-secondary text-xs">{s.last_matched_at ? new Date(s.last_matched_at).toLocaleString() : "never"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Policy Drawer (edit / new) */}
       <div class={`drawer ${drawerOpen ? "open" : ""}`}>
         <div class="drawer-header">
@@ -543,29 +651,56 @@ export function PoliciesView() {
                 <div class="text-secondary text-xs">
                   Tenant: <span class="mono">{selectedPolicy.scope?.tenant_id ?? selectedPolicy.tenant_id ?? "—"}</span>
                 </div>
-                <div style={{ display: "flex", gap: "12px", alignItems: "center" }}>
-                  <button type="button" class="btn-primary btn-sm" onClick={() => openWizardEditor(selectedPolicy)}>
-                    {selectedPolicy._wizard_meta?.exception_for_policy_id ? "Edit Exception" : "Edit Policy"}
-                  </button>
-                  <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                    <button
-                      class={`toggle-switch ${selectedPolicy.enabled ? "active" : ""}`}
-                      onClick={() => !toggling && setPolicyEnabled(selectedPolicy, !selectedPolicy.enabled)}
-                      disabled={toggling}
-                      role="switch"
-                      aria-checked={selectedPolicy.enabled}
-                      aria-label={selectedPolicy.enabled ? "Disable policy" : "Enable policy"}
-                      type="button"
-                      title={selectedPolicy.enabled ? "Disable policy" : "Enable policy"}
-                      style={toggling ? { opacity: 0.6, cursor: "not-allowed" } : undefined}
-                    >
-                      <span class="toggle-thumb" />
+                {selectedPolicy.source === "file" ? (
+                  <span class="badge-pill" style={{ fontSize: "10px", fontWeight: "600" }}>Read-only</span>
+                ) : (
+                  <div style={{ display: "flex", gap: "12px", alignItems: "center" }}>
+                    <button type="button" class="btn-primary btn-sm" onClick={() => openWizardEditor(selectedPolicy)}>
+                      {selectedPolicy._wizard_meta?.exception_for_policy_id ? "Edit Exception" : "Edit Policy"}
                     </button>
-                    <span class="text-secondary text-xs" style={{ opacity: toggling ? 0.6 : 1 }}>{toggling ? "…" : selectedPolicy.enabled ? "Enabled" : "Disabled"}</span>
+                    <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                      <button
+                        class={`toggle-switch ${selectedPolicy.enabled ? "active" : ""}`}
+                        onClick={() => !toggling && setPolicyEnabled(selectedPolicy, !selectedPolicy.enabled)}
+                        disabled={toggling}
+                        role="switch"
+                        aria-checked={selectedPolicy.enabled}
+                        aria-label={selectedPolicy.enabled ? "Disable policy" : "Enable policy"}
+                        type="button"
+                        title={selectedPolicy.enabled ? "Disable policy" : "Enable policy"}
+                        style={toggling ? { opacity: 0.6, cursor: "not-allowed" } : undefined}
+                      >
+                        <span class="toggle-thumb" />
+                      </button>
+                      <span class="text-secondary text-xs" style={{ opacity: toggling ? 0.6 : 1 }}>{toggling ? "…" : selectedPolicy.enabled ? "Enabled" : "Disabled"}</span>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
 
+              {selectedPolicy.source === "file" && (
+                <div class="text-secondary text-xs" style={{ marginBottom: "12px" }}>
+                  Managed from <span class="mono">{selectedPolicy.source_path ?? "policy files"}</span>. Edit the file and run{" "}
+                  <span class="mono">clasper-core policy apply</span> to change it.
+                </div>
+              )}
+
+              {selectedPolicy.mode === "shadow" && (
+                <div
+                  class="text-secondary text-xs"
+                  style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "12px", marginBottom: "12px", padding: "10px 12px", borderRadius: "6px", border: "1px dashed var(--accent-warn)" }}
+                >
+                  <span>
+                    Shadow mode: this policy is evaluated and its would-be decision is recorded, but it never changes the outcome.
+                  </span>
+                  {selectedPolicy.source !== "file" && (
+                    <button type="button" class="btn-secondary btn-sm" onClick={() => promotePolicy(selectedPolicy)} disabled={promoting} style={{ whiteSpace: "nowrap" }}>
+                      {promoting ? "Promoting…" : "Promote to enforce"}
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div style={{ display: "flex", alignItems: "flex-start", gap: "10px", marginBottom: "12px" }}>
                 <div style={{ marginTop: "3px" }}>
                   {getPolicyIcon(selectedPolicy.effect?.decision)}
@@ -827,7 +962,7 @@ export function PoliciesView() {
             </div>
           )}
 
-          {selectedPolicy && (
+          {selectedPolicy && selectedPolicy.source !== "file" && (
             <>
               <div class="divider" style={{ margin: "32px 0" }} />
               <div class="drawer-section-header" style={{ color: "var(--accent-danger)" }}>Danger Zone</div>
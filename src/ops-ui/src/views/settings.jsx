@@ -1,5 +1,5 @@
 import { useState, useEffect } from "preact/hooks";
-import { showToast, user, token } from "../state.js";
+import { showToast, user, token, bearerToken } from "../state.js";
 import { api } from "../api.js";
 import {
   GearIcon,
@@ -100,8 +100,10 @@ export function SettingsView() {
 
   const clearStorage = () => {
     const tok = token.value;
+    const bearer = bearerToken.value;
     localStorage.clear();
     if (tok) localStorage.setItem("clasper_ops_token", tok);
+    if (bearer) localStorage.setItem("clasper_ops_bearer", bearer);
     showToast("Local data cleared (token preserved)", "success");
   };
 
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "preact/hooks";
+import { tenantId, selectedWorkspace, routeQuery, formatDuration, showToast } from "../state.js";
+import { api, buildParams } from "../api.js";
+import { StatCard } from "../components/stat-card.jsx";
+import { RefreshIcon, ClockIcon, AlertTriangleIcon, CheckIcon, UserIcon } from "../components/icons.jsx";
+
+const APPROVAL_SLA_TOOLTIP =
+  "How long agents wait on humans. Time to decision counts approved and denied requests; blocked time also counts requests that expired unanswered. Only decisions that required approval are included.";
+
+const RANGES = ["24h", "7d", "30d", "90d"];
+
+function parseRange(q) {
+  const range = new URLSearchParams(q || "").get("range");
+  return RANGES.includes(range) ? range : "7d";
+}
+
+function SlaTable({ title, empty, columns, rows, rowKey }) {
+  return (
+    <div class="panel">
+      <div class="panel-header">
+        <h3>{title}</h3>
+        <div class="text-secondary text-xs">{rows.length} rows</div>
+      </div>
+      <div class="table-container">
+        {!rows.length && <div class="empty-state">{empty}</div>}
+        {rows.length > 0 && (
+          <table class="data-table">
+            <thead>
+              <tr>
+                {columns.map((c) => <th key={c.label} class={c.align === "right" ? "text-right" : ""}>{c.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={rowKey(row)}>
+                  {columns.map((c) => (
+                    <td key={c.label} class={[c.mono ? "mono" : "", c.align === "right" ? "text-right" : ""].join(" ")}>
+                      {c.render(row)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const outcomeColumns = [
+  { label: "Total", align: "right", render: (r) => r.total },
+  { label: "Pending", align: "right", render: (r) => r.pending },
+  { label: "Approved", align: "right", render: (r) => r.approved },
+  { label: "Denied", align: "right", render: (r) => r.denied },
+  { label: "Expired", align: "right", render: (r) => r.expired },
+  { label: "Approve %", align: "right", render: (r) => `${r.approval_rate}%` },
+];
+
+export function SlaView() {
+  const [loading, setLoading] = useState(true);
+  const [dashboard, setDashboard] = useState(null);
+  const [range, setRange] = useState(parseRange(routeQuery.value));
+
+  // Apply hash query (#sla?range=24h|7d|30d|90d) and then normalize URL to #sla
+  useEffect(() => {
+    const q = routeQuery.value;
+    if (!q) return;
+    setRange(parseRange(q));
+    routeQuery.value = "";
+    if (location.hash.includes("?")) location.hash = "sla";
+  }, []);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const data = await api(`/ops/api/dashboards/approvals?${buildParams({ since: range })}`);
+      setDashboard(data.dashboard || null);
+      return true;
+    } catch (e) {
+      console.error("Load approvals dashboard error:", e);
+      setDashboard(null);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    const ok = await load();
+    showToast(ok ? "Approval SLA refreshed" : "Refresh failed", ok ? "success" : "error");
+  };
+
+  useEffect(() => { load(); }, [tenantId.value, selectedWorkspace.value, range]);
+
+  const totals = dashboard?.totals;
+  const ttd = dashboard?.time_to_decision;
+
+  return (
+    <section class="sla-view">
+      <div class="panel">
+        <div class="panel-header">
+          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+            <h3 data-tooltip={APPROVAL_SLA_TOOLTIP}>Approval SLA</h3>
+          </div>
+          <div class="toolbar-group">
+            <div class="theme-segments">
+              {RANGES.map((r) => (
+                <button key={r} class={`theme-tab ${range === r ? "active" : ""}`} onClick={() => setRange(r)}>
+                  {r}
+                </button>
+              ))}
+            </div>
+            <button class="btn-secondary btn-sm" onClick={handleRefresh} title="Refresh">
+              <RefreshIcon width={14} /> Refresh
+            </button>
+          </div>
+        </div>
+        <div class="panel-body">
+          {loading && <div class="empty-state loading"><div class="spinner" /><div>Loading approval metrics…</div></div>}
+          {!loading && !dashboard && <div class="empty-state">Approval metrics unavailable</div>}
+          {!loading && dashboard && (
+            <div class="dashboard-governance-grid">
+              <StatCard
+                icon={<ClockIcon />}
+                variant="info"
+                label="Time to decision"
+                tooltip="Median (P50) time from request to approve or deny"
+                value={formatDuration(ttd?.p50_ms)}
+                meta={`P95 ${formatDuration(ttd?.p95_ms)} · ${ttd?.count ?? 0} decided`}
+              />
+              <StatCard
+                icon={<AlertTriangleIcon />}
+                variant="warn"
+                label="Expiry rate"
+                tooltip="Share of closed requests that expired without a human decision"
+                value={`${totals?.expiry_rate ?? 0}%`}
+                meta={`${totals?.expired ?? 0} expired`}
+              />
+              <StatCard
+                icon={<CheckIcon />}
+                variant="success"
+                label="Approved"
+                tooltip="Approved share of approve/deny decisions"
+                value={`${totals?.approval_rate ?? 0}%`}
+                meta={`${totals?.approved ?? 0} approved · ${totals?.denied ?? 0} denied`}
+              />
+              <StatCard
+                icon={<UserIcon />}
+                variant="primary"
+                label="Pending"
+                tooltip="Requests still waiting, and how long the oldest one has waited"
+                value={totals?.pending ?? 0}
+                meta={dashboard.oldest_pending_ms != null ? `Oldest ${formatDuration(dashboard.oldest_pending_ms)}` : "None waiting"}
+                href="#approvals"
+              />
+            </div>
+          )}
+          {!loading && dashboard?.truncated && (
+            <div class="text-secondary text-xs" style={{ marginTop: 10 }}>
+              Based on the latest {dashboard.sample_size} requests in this range.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!loading && dashboard && (
+        <>
+          <SlaTable
+            title="Agents blocked on approval"
+            empty="No approval requests in this range"
+            rows={dashboard.by_agent}
+            rowKey={(r) => r.agent_id}
+            columns={[
+              { label: "Agent", mono: true, render: (r) => r.agent_id },
+              { label: "Requests", align: "right", render: (r) => r.total },
+              { label: "Pending", align: "right", render: (r) => r.pending },
+              { label: "Blocked P50", align: "right", render: (r) => formatDuration(r.blocked_time.p50_ms) },
+              { label: "Blocked P95", align: "right", render: (r) => formatDuration(r.blocked_time.p95_ms) },
+            ]}
+          />
+          <SlaTable
+            title="By tool"
+            empty="No approval requests in this range"
+            rows={dashboard.by_tool}
+            rowKey={(r) => r.tool}
+            columns={[
+              { label: "Tool", mono: true, render: (r) => r.tool },
+              ...outcomeColumns,
+              { label: "P50", align: "right", render: (r) => formatDuration(r.time_to_decision.p50_ms) },
+            ]}
+          />
+          <SlaTable
+            title="Approver workload"
+            empty="No votes cast in this range"
+            rows={dashboard.by_approver}
+            rowKey={(r) => r.approver_id}
+            columns={[
+              { label: "Approver", mono: true, render: (r) => r.approver_id },
+              { label: "Votes", align: "right", render: (r) => r.total },
+              { label: "Approved", align: "right", render: (r) => r.approvals },
+              { label: "Denied", align: "right", render: (r) => r.denials },
+              { label: "Approve %", align: "right", render: (r) => `${r.approval_rate}%` },
+              { label: "Response P50", align: "right", render: (r) => formatDuration(r.response_time.p50_ms) },
+              { label: "Response P95", align: "right", render: (r) => formatDuration(r.response_time.p95_ms) },
+            ]}
+          />
+          {dashboard.by_group.length > 0 && (
+            <SlaTable
+              title="By approver group"
+              empty="No routed requests in this range"
+              rows={dashboard.by_group}
+              rowKey={(r) => r.group_id}
+              columns={[
+                { label: "Group", mono: true, render: (r) => r.group_id },
+                ...outcomeColumns,
+                { label: "P50", align: "right", render: (r) => formatDuration(r.time_to_decision.p50_ms) },
+              ]}
+            />
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,7 +1,9 @@
+import crypto from "node:crypto";
 import os from "node:os";
 import path from "node:path";
 import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
-import { getPolicy } from "../lib/policy/policyStore.js";
+import type { OpsRole } from "../lib/auth/opsAuth.js";
+import { deletePolicy, getPolicy } from "../lib/policy/policyStore.js";
 import { getAuditLog } from "../lib/governance/auditLog.js";
 import { createDecision, getDecision, resolveDecision } from "../lib/governance/decisions.js";
 
@@ -711,3 +713,1056 @@ describe("Policy wizard guardrails", () => {
     expect(updatedDecision?.status).toBe("approved");
   });
 });
+
+describe("Policy files (GitOps)", () => {
+  it("plans and applies file policies and keeps them read-only in Ops", async () => {
+    const app = buildApp();
+    const policyId = "policy-gitops-readonly-test";
+    const filePolicies = [
+      {
+        source_path: "config/policies/gitops-test.yaml",
+        index: 0,
+        policy: {
+          policy_id: policyId,
+          subject: { type: "tool", name: "exec" },
+          conditions: { tool: "exec" },
+          effect: { decision: "deny" },
+        },
+      },
+    ];
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/plan",
+      payload: { policies: [{ source_path: "bad.yaml", policy: { policy_id: "bad" } }] },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().code).toBe("invalid_policy_files");
+
+    const plan = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/plan",
+      payload: { tenant_id: "local", policies: filePolicies },
+    });
+    expect(plan.statusCode).toBe(200);
+    expect(plan.json().plan.creates.map((i: { policy_id: string }) => i.policy_id)).toEqual([policyId]);
+    expect(getPolicy("local", policyId)).toBeNull();
+
+    const apply = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/apply",
+      payload: { tenant_id: "local", policies: filePolicies },
+    });
+    expect(apply.statusCode).toBe(200);
+    expect(getPolicy("local", policyId)).toMatchObject({
+      source: "file",
+      source_path: "config/policies/gitops-test.yaml",
+    });
+
+    const patch = await app.inject({
+      method: "PATCH",
+      url: `/ops/api/policies/${policyId}`,
+      payload: { tenant_id: "local", enabled: false },
+    });
+    expect(patch.statusCode).toBe(409);
+    expect(patch.json()).toMatchObject({ code: "policy_file_managed", source_path: "config/policies/gitops-test.yaml" });
+    expect(getPolicy("local", policyId)?.enabled).toBe(true);
+
+    deletePolicy({ tenantId: "local", policyId });
+  });
+});
+
+describe("Policy lint", () => {
+  it("lints stored policies and policy files", async () => {
+    const app = buildApp();
+
+    const stored = await app.inject({ method: "GET", url: "/ops/api/policies/lint?tenant_id=local" });
+    expect(stored.statusCode).toBe(200);
+    expect(stored.json().report).toMatchObject({ tenant_id: "local", summary: expect.any(Object) });
+
+    const files = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/lint",
+      payload: {
+        tenant_id: "local",
+        policies: [
+          {
+            source_path: "lint-test.yaml",
+            policy: {
+              policy_id: "policy-lint-test-allow",
+              subject: { type: "tool", name: "lint_test_tool" },
+              effect: { decision: "allow" },
+            },
+          },
+          {
+            source_path: "lint-test.yaml",
+            policy: {
+              policy_id: "policy-lint-test-deny",
+              subject: { type: "tool", name: "lint_test_tool" },
+              effect: { decision: "deny" },
+            },
+          },
+        ],
+      },
+    });
+    expect(files.statusCode).toBe(200);
+    expect(files.json().report.findings).toContainEqual(
+      expect.objectContaining({
+        rule: "conflict",
+        severity: "error",
+        policy_id: "policy-lint-test-allow",
+        related_policy_id: "policy-lint-test-deny",
+        source_path: "lint-test.yaml",
+      })
+    );
+  });
+});
+
+describe("Policy bundles", () => {
+  it("returns distinct 404 codes for unknown and pre-versioning bundle hashes", async () => {
+    const app = buildApp();
+
+    const legacy = await app.inject({ method: "GET", url: `/ops/api/policy-bundles/${"a".repeat(64)}` });
+    expect(legacy.statusCode).toBe(404);
+    expect(legacy.json().code).toBe("unversioned_bundle_hash");
+
+    const unknown = await app.inject({ method: "GET", url: `/ops/api/policy-bundles/v2:${"b".repeat(64)}` });
+    expect(unknown.statusCode).toBe(404);
+    expect(unknown.json().code).toBe("bundle_not_found");
+  });
+});
+
+describe("Policy backtest", () => {
+  it("replays historical decisions against a candidate policy", async () => {
+    const app = buildApp();
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/dry-run",
+      payload: { tenant_id: "local", backtest: {} },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/ops/api/policies/dry-run",
+      payload: {
+        tenant_id: "local",
+        backtest: {
+          policy: {
+            policy_id: "policy-backtest-test",
+            subject: { type: "tool", name: "backtest_test_tool" },
+            effect: { decision: "deny" },
+          },
+          limit: 50,
+        },
+      },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().backtest).toMatchObject({
+      tenant_id: "local",
+      evaluated: expect.any(Number),
+      flipped: 0,
+      flips: [],
+    });
+  });
+});
+
+describe("Decision approvals", () => {
+  it("collects votes from distinct approvers until quorum", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    // Own database: quorum votes need per-user keys, and once a user exists keyless requests are rejected.
+    const build = await buildAppWithEnv({ CLASPER_DB_PATH: ":memory:", OPS_LOCAL_API_KEY: "" });
+    try {
+      const { createDecision, getDecision } = await import("../lib/governance/decisions.js");
+      const { createOpsUser } = await import("../lib/auth/opsUsers.js");
+      const app = build();
+      const decision = createDecision({
+        tenantId: "local",
+        workspaceId: "local",
+        executionId: `exec-quorum-${Date.now()}`,
+        adapterId: "openclaw-local",
+        requestSnapshot: { request: { tool: "quorum_test_tool" } },
+        approval: { quorum: 2, roles: ["release_manager"], allow_self_approval: false, owner: "alice" },
+      });
+      const resolve = (headers: Record<string, string>, status: "approved" | "denied" = "approved") =>
+        app.inject({ method: "POST", url: `/ops/api/decisions/${decision.decision_id}/resolve`, headers, payload: { status } });
+
+      // Self-attested identities (no per-user keys yet) cannot count toward quorum.
+      const selfAttested = await resolve({ "x-ops-user": "bob", "x-ops-roles": "release_manager" });
+      expect(selfAttested.statusCode).toBe(403);
+      expect(selfAttested.json()).toMatchObject({ code: "unauthenticated" });
+
+      const keyFor = (userId: string, roles: OpsRole[]) => {
+        const { api_key } = createOpsUser({ userId, tenantId: "local", workspaceId: "local", roles, createdBy: "test" });
+        return { "x-ops-api-key": api_key };
+      };
+      const alice = keyFor("alice", ["release_manager"]);
+      const bob = keyFor("bob", ["release_manager"]);
+      const carol = keyFor("carol", ["operator"]);
+      const dave = keyFor("dave", ["admin", "release_manager"]);
+
+      expect((await resolve(carol)).json()).toMatchObject({ code: "role_not_allowed" });
+      expect((await resolve(alice)).statusCode).toBe(403);
+
+      const first = await resolve(bob);
+      expect(first.statusCode).toBe(200);
+      expect(first.json().decision).toMatchObject({ status: "pending", approval_progress: { approvals: 1, remaining: 1 } });
+      expect((await resolve(bob)).statusCode).toBe(409);
+
+      const second = await resolve(dave);
+      expect(second.statusCode).toBe(200);
+      expect(second.json().decision).toMatchObject({ status: "approved", resolution: { approvers: ["bob", "dave"] } });
+      expect(getDecision(decision.decision_id)?.status).toBe("approved");
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+
+  it("issues standing grants on approval that can be listed and revoked", async () => {
+    const app = buildApp();
+    const decision = createDecision({
+      tenantId: "local",
+      workspaceId: "local",
+      executionId: `exec-grant-${Date.now()}`,
+      adapterId: "openclaw-local",
+      requestSnapshot: { request: { tool: "grant_test_tool", session_id: "session-grant" } },
+    });
+    const grants = async () =>
+      (await app.inject({ method: "GET", url: "/ops/api/approval-grants?tenant_id=local" }))
+        .json()
+        .grants.filter((grant: { decision_id: string }) => grant.decision_id === decision.decision_id);
+
+    const rejected = await app.inject({
+      method: "POST",
+      url: `/ops/api/decisions/${decision.decision_id}/resolve`,
+      payload: { status: "approved", grant: { fingerprint: true } },
+    });
+    expect(rejected.statusCode).toBe(400);
+    expect(rejected.json()).toMatchObject({ code: "no_fingerprint" });
+    expect(getDecision(decision.decision_id)?.status).toBe("pending");
+
+    const resolved = await app.inject({
+      method: "POST",
+      url: `/ops/api/decisions/${decision.decision_id}/resolve`,
+      payload: { status: "approved", grant: { session: true, max_uses: 3 } },
+    });
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.json().grant).toMatchObject({
+      tool: "grant_test_tool",
+      session_id: "session-grant",
+      max_uses: 3,
+      uses: 0,
+      active: true,
+    });
+    expect(await grants()).toHaveLength(1);
+
+    const revoked = await app.inject({
+      method: "POST",
+      url: `/ops/api/approval-grants/${decision.decision_id}/revoke`,
+      payload: {},
+    });
+    expect(revoked.statusCode).toBe(200);
+    expect(revoked.json().grant).toMatchObject({ active: false });
+    expect(await grants()).toEqual([]);
+    expect(
+      (await app.inject({ method: "POST", url: "/ops/api/approval-grants/missing/revoke", payload: {} })).statusCode
+    ).toBe(404);
+  });
+});
+
+describe("Execution decision stream", () => {
+  it("pushes the decision status once a pending decision is resolved", async () => {
+    const build = await buildAppWithEnv({ ADAPTER_JWT_SECRET: "stream-test-secret" });
+    // Same module instances as the app built above (shared EventBus and config).
+    const { buildAdapterToken } = await import("../lib/adapters/auth.js");
+    const { getEventBus } = await import("../lib/core/eventBus.js");
+    const { createDecision, resolveDecision } = await import("../lib/governance/decisions.js");
+    const app = build();
+    const token = await buildAdapterToken({
+      adapter_id: "stream-adapter",
+      tenant_id: "local",
+      workspace_id: "local",
+      allowed_capabilities: ["exec"],
+    });
+    const executionId = `exec-stream-${Date.now()}`;
+    const decision = createDecision({
+      tenantId: "local",
+      workspaceId: "local",
+      executionId,
+      adapterId: "stream-adapter",
+    });
+    const events = (payload: string) =>
+      payload
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => JSON.parse(line.slice(6)));
+
+    const listeners = getEventBus().listenerCount();
+    const streamed = app.inject({
+      method: "GET",
+      url: `/api/execution/${executionId}/events`,
+      headers: { "x-adapter-token": token },
+    });
+    for (let i = 0; i < 100 && getEventBus().listenerCount() === listeners; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    resolveDecision({ decisionId: decision.decision_id, status: "approved", resolution: {} });
+
+    const response = await streamed;
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+    expect(events(response.payload)).toEqual([
+      { execution_id: executionId, effect: "pending", decision_id: decision.decision_id, approval_type: "local" },
+      { execution_id: executionId, effect: "allow", decision_id: decision.decision_id, approval_type: "local" },
+    ]);
+    expect(getEventBus().listenerCount()).toBe(listeners);
+
+    const resolved = await app.inject({
+      method: "GET",
+      url: `/api/execution/${executionId}/events`,
+      headers: { "x-adapter-token": token },
+    });
+    expect(events(resolved.payload).map((event) => event.effect)).toEqual(["allow"]);
+
+    const missing = await app.inject({
+      method: "GET",
+      url: "/api/execution/exec-stream-missing/events",
+      headers: { "x-adapter-token": token },
+    });
+    expect(missing.statusCode).toBe(404);
+    expect((await app.inject({ method: "GET", url: `/api/execution/${executionId}/events` })).statusCode).toBe(401);
+  });
+});
+
+describe("Decision tokens", () => {
+  it("hands out a single-use token for approved decisions and rejects replays", async () => {
+    const build = await buildAppWithEnv({ ADAPTER_JWT_SECRET: "decision-token-test-secret" });
+    const { buildAdapterToken } = await import("../lib/adapters/auth.js");
+    const { createDecision, resolveDecision } = await import("../lib/governance/decisions.js");
+    const app = build();
+    const token = await buildAdapterToken({
+      adapter_id: "token-adapter",
+      tenant_id: "local",
+      workspace_id: "local",
+      allowed_capabilities: ["exec"],
+    });
+    const decision = createDecision({
+      tenantId: "local",
+      workspaceId: "local",
+      executionId: `exec-token-${Date.now()}`,
+      adapterId: "token-adapter",
+      requestSnapshot: { request: { tool: "exec" } },
+    });
+    const poll = async () =>
+      (
+        await app.inject({
+          method: "GET",
+          url: `/api/decisions/${decision.decision_id}`,
+          headers: { "x-adapter-token": token },
+        })
+      ).json();
+    const consume = (decisionToken: string) =>
+      app.inject({
+        method: "POST",
+        url: `/api/decisions/${decision.decision_id}/consume`,
+        headers: { "x-adapter-token": token },
+        payload: { decision_token: decisionToken },
+      });
+
+    expect((await poll()).decision_token).toBeNull();
+    resolveDecision({ decisionId: decision.decision_id, status: "approved", resolution: {} });
+    const approved = await poll();
+    expect(approved.decision_token).toEqual(expect.any(String));
+
+    const first = await consume(approved.decision_token);
+    expect(first.statusCode).toBe(200);
+    expect(first.json()).toMatchObject({ decision_id: decision.decision_id, status: "approved" });
+    expect((await poll()).decision_token_used_at).toBe(first.json().consumed_at);
+
+    const replay = await consume(approved.decision_token);
+    expect(replay.statusCode).toBe(409);
+    expect(replay.json()).toMatchObject({ code: "already_consumed" });
+    expect((await consume("not-a-token")).statusCode).toBe(401);
+  });
+});
+
+describe("Break-glass sessions", () => {
+  it("activates, ends and signs off a session through the ops API", async () => {
+    const app = buildApp();
+    const agentId = `agent-bg-${Date.now()}`;
+    const activate = () =>
+      app.inject({
+        method: "POST",
+        url: "/ops/api/break-glass",
+        payload: {
+          tenant_id: "local",
+          agent_id: agentId,
+          minutes: 15,
+          reason_code: "incident_response",
+          justification: "Agent stuck mid-deploy, needs manual unblock",
+        },
+      });
+
+    const created = await activate();
+    expect(created.statusCode).toBe(201);
+    const sessionId = created.json().session.session_id;
+    expect(created.json().session).toMatchObject({ agent_id: agentId, active: true });
+    expect((await activate()).statusCode).toBe(409);
+
+    const review = (notes: string) =>
+      app.inject({ method: "POST", url: `/ops/api/break-glass/${sessionId}/review`, payload: { notes } });
+    expect((await review("Too early to review")).statusCode).toBe(409);
+    expect((await review("short")).statusCode).toBe(400);
+
+    const ended = await app.inject({ method: "POST", url: `/ops/api/break-glass/${sessionId}/end`, payload: {} });
+    expect(ended.statusCode).toBe(200);
+    expect(ended.json().session).toMatchObject({ active: false, review_status: "pending" });
+
+    const unreviewed = await app.inject({ method: "GET", url: "/ops/api/break-glass?tenant_id=local&status=unreviewed" });
+    expect(unreviewed.json().status.status).toBe("unreviewed");
+    expect(unreviewed.json().sessions.map((session: { session_id: string }) => session.session_id)).toContain(sessionId);
+
+    const signedOff = await review("Unblocked the deploy, no further access needed");
+    expect(signedOff.statusCode).toBe(200);
+    expect(signedOff.json().session).toMatchObject({ review_status: "signed_off" });
+    expect(
+      (await app.inject({ method: "POST", url: "/ops/api/break-glass/missing/end", payload: {} })).statusCode
+    ).toBe(404);
+  });
+  it("rejects sign-off by the operator who activated the session once users exist", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    // Own database: once a user exists keyless requests are rejected.
+    const build = await buildAppWithEnv({ CLASPER_DB_PATH: ":memory:", OPS_LOCAL_API_KEY: "" });
+    try {
+      const { createOpsUser } = await import("../lib/auth/opsUsers.js");
+      const app = build();
+      const keyFor = (userId: string) => {
+        const { api_key } = createOpsUser({ userId, tenantId: "local", workspaceId: "local", roles: ["operator"], createdBy: "test" });
+        return { "x-ops-api-key": api_key };
+      };
+      const alice = keyFor("alice");
+      const bob = keyFor("bob");
+
+      const created = await app.inject({
+        method: "POST",
+        url: "/ops/api/break-glass",
+        headers: alice,
+        payload: {
+          tenant_id: "local",
+          reason_code: "incident_response",
+          justification: "Production outage, need to restart workers",
+        },
+      });
+      expect(created.statusCode).toBe(201);
+      const sessionId = created.json().session.session_id;
+      await app.inject({ method: "POST", url: `/ops/api/break-glass/${sessionId}/end`, headers: alice, payload: {} });
+
+      const review = (headers: Record<string, string>) =>
+        app.inject({
+          method: "POST",
+          url: `/ops/api/break-glass/${sessionId}/review`,
+          headers,
+          payload: { notes: "Restarted workers, no further access needed" },
+        });
+      const selfReview = await review(alice);
+      expect(selfReview.statusCode).toBe(403);
+      expect(selfReview.json()).toMatchObject({ code: "self_review" });
+
+      const signedOff = await review(bob);
+      expect(signedOff.statusCode).toBe(200);
+      expect(signedOff.json().session).toMatchObject({ review_status: "signed_off", reviewed_by: "bob" });
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+});
+
+describe("Approval routing", () => {
+  it("routes new pending decisions and filters the queue to the caller's groups", async () => {
+    const fs = await import("node:fs");
+    const routingPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "clasper-routing-")), "routing.yaml");
+    const tool = `routed_tool_${Date.now()}`;
+    fs.writeFileSync(
+      routingPath,
+      [
+        "groups:",
+        "  - id: sre",
+        "    members: [alice]",
+        "rules:",
+        `  - match: { tool: ${tool} }`,
+        "    group: sre",
+      ].join("\n")
+    );
+    const build = await buildAppWithEnv({ CLASPER_APPROVAL_ROUTING_PATH: routingPath, OPS_LOCAL_API_KEY: "" });
+    const { createDecision } = await import("../lib/governance/decisions.js");
+    const app = build();
+    const queue = async (user: string) =>
+      (
+        await app.inject({
+          method: "GET",
+          url: "/ops/api/decisions?tenant_id=local&assigned=mine",
+          headers: { "x-ops-user": user },
+        })
+      )
+        .json()
+        .decisions.map((decision: { decision_id: string }) => decision.decision_id);
+
+    const routed = createDecision({
+      tenantId: "local",
+      workspaceId: "local",
+      executionId: `exec-routed-${Date.now()}`,
+      adapterId: "openclaw-local",
+      requestSnapshot: { request: { tool } },
+    });
+
+    const me = (await app.inject({ method: "GET", url: "/ops/api/me", headers: { "x-ops-user": "alice" } })).json();
+    expect(me.user.approver_groups).toEqual(["sre"]);
+    expect(await queue("alice")).toContain(routed.decision_id);
+    expect(await queue("bob")).toEqual([]);
+
+    const notifications = await app.inject({
+      method: "GET",
+      url: `/ops/api/approval-notifications?tenant_id=local&decision_id=${routed.decision_id}`,
+    });
+    expect(notifications.statusCode).toBe(200);
+    expect(notifications.json().notifications).toEqual([]);
+    fs.rmSync(path.dirname(routingPath), { recursive: true, force: true });
+  });
+});
+
+describe("Approval action links", () => {
+  it("confirms on GET, votes on POST and accepts the same token from the CLI endpoint", async () => {
+    const fs = await import("node:fs");
+    const { SignJWT } = await import("jose");
+    const routingPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "clasper-links-")), "routing.yaml");
+    fs.writeFileSync(routingPath, ["groups:", "  - id: sre", "    members: [alice, bob]", "    roles: [admin]"].join("\n"));
+    const build = await buildAppWithEnv({
+      ADAPTER_JWT_SECRET: "adapter-test-secret",
+      CLASPER_APPROVAL_LINK_SECRET: "approval-link-test-secret",
+      CLASPER_APPROVAL_ROUTING_PATH: routingPath,
+      OPS_LOCAL_API_KEY: "",
+    });
+    const { createDecision, getDecision } = await import("../lib/governance/decisions.js");
+    const { signApprovalAction } = await import("../lib/governance/approvalActions.js");
+    const { getAuditLog } = await import("../lib/governance/auditLog.js");
+    const app = build();
+    const pending = (tool: string, approval?: { quorum: number; roles: string[] | null }) =>
+      createDecision({
+        tenantId: "local",
+        workspaceId: "local",
+        executionId: `exec-link-${tool}-${Date.now()}`,
+        adapterId: "openclaw-local",
+        requestSnapshot: { request: { tool, agent_id: "agent-<1>" } },
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        approval: approval ? { ...approval, allow_self_approval: false, owner: null } : undefined,
+      });
+
+    const denied = pending("denied_tool");
+    const denyToken = await signApprovalAction({ decision: denied, action: "deny", approverId: "alice", groupId: "sre" });
+    const page = await app.inject({ method: "GET", url: `/ops/actions/${denyToken}?reason=1` });
+    expect(page.statusCode).toBe(200);
+    expect(page.headers["content-type"]).toContain("text/html");
+    expect(page.body).toContain("agent-&lt;1&gt;");
+    expect(page.body).toContain("required");
+    expect(getDecision(denied.decision_id)?.status).toBe("pending");
+
+    const submitted = await app.inject({
+      method: "POST",
+      url: `/ops/actions/${denyToken}`,
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: "reason=not+during+the+freeze",
+    });
+    expect(submitted.statusCode).toBe(200);
+    expect(getDecision(denied.decision_id)?.status).toBe("denied");
+    const used = getAuditLog().query({ tenantId: "local", eventType: "approval_action_used" }).entries;
+    expect(used.find((entry) => entry.eventData.decision_id === denied.decision_id)).toMatchObject({
+      userId: "alice",
+      eventData: { action: "deny", via: "link", reason: "not during the freeze" },
+    });
+    const replay = await app.inject({ method: "POST", url: `/ops/actions/${denyToken}` });
+    expect(replay.statusCode).toBe(409);
+    // Form bodies are only parsed for the confirmation page.
+    const formElsewhere = await app.inject({
+      method: "POST",
+      url: "/api/approval-actions",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: `token=${denyToken}`,
+    });
+    expect(formElsewhere.statusCode).toBe(415);
+
+    const approved = pending("approved_tool");
+    const approveToken = await signApprovalAction({ decision: approved, action: "approve", approverId: "bob", groupId: "sre" });
+    const cli = await app.inject({
+      method: "POST",
+      url: "/api/approval-actions",
+      payload: { token: approveToken },
+    });
+    expect(cli.statusCode).toBe(200);
+    expect(cli.json()).toMatchObject({ status: "approved", action: "approve", approver_id: "bob", resolved: true });
+
+    // Link votes count as authenticated: they satisfy quorum and role requirements.
+    const redeem = async (decision: { decision_id: string }, approverId: string) =>
+      app.inject({
+        method: "POST",
+        url: "/api/approval-actions",
+        payload: {
+          token: await signApprovalAction({
+            decision: getDecision(decision.decision_id)!,
+            action: "approve",
+            approverId,
+            groupId: "sre",
+          }),
+        },
+      });
+    const quorum = pending("quorum_tool", { quorum: 2, roles: null });
+    expect((await redeem(quorum, "alice")).json()).toMatchObject({ status: "pending", resolved: false });
+    expect((await redeem(quorum, "bob")).json()).toMatchObject({ status: "approved", resolved: true });
+    expect(getDecision(quorum.decision_id)?.resolution).toMatchObject({ trust_level: "authenticated" });
+
+    const adminOnly = pending("admin_tool", { quorum: 1, roles: ["admin"] });
+    expect((await redeem(adminOnly, "alice")).json()).toMatchObject({ status: "approved", resolved: true });
+    const releaseOnly = pending("release_tool", { quorum: 1, roles: ["release_manager"] });
+    const wrongRole = await redeem(releaseOnly, "alice");
+    expect(wrongRole.statusCode).toBe(403);
+    expect(wrongRole.json().code).toBe("role_not_allowed");
+
+    const tampered = await app.inject({ method: "POST", url: "/api/approval-actions", payload: { token: `${approveToken}x` } });
+    expect(tampered.statusCode).toBe(400);
+
+    // An adapter (or the agent behind it) holds ADAPTER_JWT_SECRET but cannot mint links.
+    const target = pending("forged_tool");
+    const forgedToken = await new SignJWT({
+      type: "approval_action",
+      decision_id: target.decision_id,
+      tenant_id: "local",
+      workspace_id: "local",
+      action: "approve",
+      group_id: "sre",
+      roles: ["admin"],
+      sub: "alice",
+    })
+      .setProtectedHeader({ alg: "HS256" })
+      .setJti("forged-link")
+      .setExpirationTime("5m")
+      .sign(new TextEncoder().encode("adapter-test-secret"));
+    const forged = await app.inject({ method: "POST", url: "/api/approval-actions", payload: { token: forgedToken } });
+    expect(forged.statusCode).toBe(400);
+    expect(getDecision(target.decision_id)?.status).toBe("pending");
+
+    const outsider = await signApprovalAction({ decision: target, action: "approve", approverId: "mallory", groupId: "sre" });
+    const rejected = await app.inject({ method: "POST", url: "/api/approval-actions", payload: { token: outsider } });
+    expect(rejected.statusCode).toBe(403);
+    expect(getDecision(target.decision_id)?.status).toBe("pending");
+    fs.rmSync(path.dirname(routingPath), { recursive: true, force: true });
+  });
+});
+
+describe("Ops users and RBAC", () => {
+  it("authenticates per-user keys and enforces role permissions", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    // Own database: once a user exists, keyless Ops requests are rejected.
+    const build = await buildAppWithEnv({ OPS_LOCAL_API_KEY: "rbac-shared-key", CLASPER_DB_PATH: ":memory:" });
+    try {
+      const { createDecision, getDecision } = await import("../lib/governance/decisions.js");
+      const { getAuditLog } = await import("../lib/governance/auditLog.js");
+      const app = build();
+      const createUser = async (headers: Record<string, string>, userId: string, roles: string[]) => {
+        const res = await app.inject({ method: "POST", url: "/ops/api/users", headers, payload: { user_id: userId, roles } });
+        expect(res.statusCode).toBe(201);
+        return res.json().api_key as string;
+      };
+      // The shared key acts as operator; X-Ops-Roles bootstraps the first admin.
+      const sharedAsAdmin = { "x-ops-api-key": "rbac-shared-key", "x-ops-roles": "admin" };
+      expect(
+        (await app.inject({ method: "GET", url: "/ops/api/users", headers: { "x-ops-api-key": "rbac-shared-key" } })).statusCode
+      ).toBe(403);
+      const adminKey = await createUser(sharedAsAdmin, "ada", ["admin"]);
+      const viewerKey = await createUser({ "x-ops-api-key": adminKey }, "vera", ["viewer"]);
+      const operatorKey = await createUser({ "x-ops-api-key": adminKey }, "otto", ["operator"]);
+      // With per-user keys in place the identity headers no longer raise the shared key's role.
+      expect((await app.inject({ method: "GET", url: "/ops/api/users", headers: sharedAsAdmin })).statusCode).toBe(403);
+
+      const me = await app.inject({ method: "GET", url: "/ops/api/me", headers: { "x-ops-api-key": viewerKey } });
+      expect(me.json().user).toMatchObject({ id: "vera", roles: ["viewer"], auth_method: "user_key" });
+      expect(me.json().permissions).not.toContain("policy:manage");
+
+      const createPolicy = await app.inject({
+        method: "POST",
+        url: "/ops/api/policies",
+        headers: { "x-ops-api-key": viewerKey },
+        payload: { policy_id: "rbac-viewer-policy", subject: { type: "tool", name: "x" }, effect: { decision: "deny" } },
+      });
+      expect(createPolicy.statusCode).toBe(403);
+      expect(createPolicy.json()).toMatchObject({ code: "permission_denied", permission: "policy:manage" });
+      expect((await app.inject({ method: "GET", url: "/ops/api/users", headers: { "x-ops-api-key": viewerKey } })).statusCode).toBe(403);
+      expect((await app.inject({ method: "GET", url: "/ops/api/traces", headers: { "x-ops-api-key": viewerKey } })).statusCode).toBe(200);
+      expect((await app.inject({ method: "GET", url: "/ops/api/traces" })).statusCode).toBe(401);
+
+      const decision = createDecision({
+        tenantId: "local",
+        workspaceId: "local",
+        executionId: `exec-rbac-${Date.now()}`,
+        adapterId: "openclaw-local",
+        requestSnapshot: { request: { tool: "rbac_tool" } },
+      });
+      const resolve = (key: string) =>
+        app.inject({
+          method: "POST",
+          url: `/ops/api/decisions/${decision.decision_id}/resolve`,
+          headers: { "x-ops-api-key": key, "x-ops-user": "mallory" },
+          payload: { status: "approved" },
+        });
+      expect((await resolve(viewerKey)).statusCode).toBe(403);
+      expect((await resolve(operatorKey)).statusCode).toBe(200);
+      expect(getDecision(decision.decision_id)?.resolution).toMatchObject({
+        approved_by: "otto",
+        trust_level: "authenticated",
+      });
+      const resolved = getAuditLog().query({ tenantId: "local", eventType: "policy_decision_resolved" }).entries;
+      expect(resolved.find((entry) => entry.eventData.decision_id === decision.decision_id)?.userId).toBe("otto");
+
+      const rotated = await app.inject({
+        method: "POST",
+        url: "/ops/api/users/otto/keys/rotate",
+        headers: { "x-ops-api-key": adminKey },
+      });
+      expect(rotated.statusCode).toBe(201);
+      expect((await app.inject({ method: "GET", url: "/ops/api/me", headers: { "x-ops-api-key": operatorKey } })).statusCode).toBe(403);
+      expect(
+        (await app.inject({ method: "GET", url: "/ops/api/me", headers: { "x-ops-api-key": rotated.json().api_key } })).json().user.id
+      ).toBe("otto");
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+      process.env.OPS_LOCAL_API_KEY = "";
+    }
+  });
+});
+
+describe("OIDC sign-in", () => {
+  it("exchanges a PKCE authorization code for a bearer token accepted by the Ops API", async () => {
+    const { startMockOidcIssuer } = await import("../lib/auth/mockOidcIssuer.js");
+    const issuer = await startMockOidcIssuer();
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    const build = await buildAppWithEnv({
+      CLASPER_DB_PATH: ":memory:",
+      CLASPER_OIDC_ISSUER: issuer.issuer,
+      CLASPER_OIDC_CLIENT_ID: "clasper-ops",
+      CLASPER_OIDC_ROLE_MAP: "ops-approvers:operator",
+    });
+    try {
+      const app = build();
+      issuer.claims = { email: "priya@example.com", roles: ["ops-approvers"] };
+
+      const authConfig = await app.inject({ method: "GET", url: "/ops/api/auth/config" });
+      expect(authConfig.statusCode).toBe(200);
+      const oidc = authConfig.json().oidc;
+      expect(oidc).toMatchObject({ issuer: issuer.issuer, client_id: "clasper-ops" });
+
+      const verifier = crypto.randomBytes(32).toString("base64url");
+      const redirectUri = "http://localhost:8081/ops";
+      const authorize = new URL(oidc.authorization_endpoint);
+      authorize.search = new URLSearchParams({
+        response_type: "code",
+        client_id: oidc.client_id,
+        redirect_uri: redirectUri,
+        scope: oidc.scopes,
+        state: "state-1",
+        code_challenge: crypto.createHash("sha256").update(verifier).digest("base64url"),
+        code_challenge_method: "S256",
+      }).toString();
+      const redirect = await fetch(authorize, { redirect: "manual" });
+      const code = new URL(redirect.headers.get("location")!).searchParams.get("code")!;
+
+      const exchange = (codeVerifier: string) =>
+        app.inject({
+          method: "POST",
+          url: "/ops/api/auth/token",
+          payload: { code, code_verifier: codeVerifier, redirect_uri: redirectUri },
+        });
+      const token = await exchange(verifier);
+      expect(token.statusCode).toBe(200);
+      expect(token.json()).toMatchObject({
+        token_type: "Bearer",
+        user: { id: "priya@example.com", roles: ["operator"] },
+      });
+      // Codes are single use.
+      expect((await exchange(verifier)).statusCode).toBe(401);
+
+      const me = await app.inject({
+        method: "GET",
+        url: "/ops/api/me",
+        headers: { authorization: `Bearer ${token.json().token}`, "x-ops-roles": "admin" },
+      });
+      expect(me.statusCode).toBe(200);
+      expect(me.json().user).toMatchObject({ id: "priya@example.com", roles: ["operator"], auth_method: "oidc" });
+      expect((await app.inject({ method: "GET", url: "/ops/api/traces" })).statusCode).toBe(401);
+    } finally {
+      await issuer.close();
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+      delete process.env.CLASPER_OIDC_ISSUER;
+      delete process.env.CLASPER_OIDC_CLIENT_ID;
+      delete process.env.CLASPER_OIDC_ROLE_MAP;
+    }
+  });
+});
+
+describe("Scoped governance modes", () => {
+  it("sets, resolves and clears a workspace environment mode", async () => {
+    const app = buildApp();
+    const workspaceId = `ws-mode-${Date.now()}`;
+    const set = await app.inject({
+      method: "PUT",
+      url: "/ops/api/governance-modes",
+      payload: { workspace_id: workspaceId, environment: "prod", mode: "strict" },
+    });
+    expect(set.statusCode).toBe(200);
+    expect(set.json().setting).toMatchObject({ workspace_id: workspaceId, environment: "prod", mode: "strict" });
+
+    const get = await app.inject({
+      method: "GET",
+      url: `/ops/api/governance-modes?workspace_id=${workspaceId}&environment=prod`,
+    });
+    expect(get.json().effective).toMatchObject({ mode: "strict", source: "workspace_environment" });
+    expect(
+      (await app.inject({ method: "PUT", url: "/ops/api/governance-modes", payload: { mode: "lenient" } })).statusCode
+    ).toBe(400);
+
+    const clear = () =>
+      app.inject({
+        method: "DELETE",
+        url: "/ops/api/governance-modes",
+        payload: { workspace_id: workspaceId, environment: "prod" },
+      });
+    expect((await clear()).statusCode).toBe(200);
+    expect((await clear()).statusCode).toBe(404);
+  });
+});
+
+describe("Freezes", () => {
+  it("denies matching executions, overrides earlier approvals and shows in posture until lifted", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    const build = await buildAppWithEnv({ ADAPTER_JWT_SECRET: "freeze-test-secret", CLASPER_DB_PATH: ":memory:" });
+    try {
+      const { buildAdapterToken } = await import("../lib/adapters/auth.js");
+      const { createDecision, resolveDecision } = await import("../lib/governance/decisions.js");
+      const app = build();
+      const token = await buildAdapterToken({
+        adapter_id: "freeze-adapter",
+        tenant_id: "local",
+        workspace_id: "local",
+        allowed_capabilities: ["read_file"],
+      });
+      const execute = (executionId?: string) =>
+        app.inject({
+          method: "POST",
+          url: "/api/execution/request",
+          headers: { "x-adapter-token": token },
+          payload: {
+            execution_id: executionId,
+            adapter_id: "freeze-adapter",
+            tenant_id: "local",
+            workspace_id: "local",
+            requested_capabilities: ["read_file"],
+            tool: "read_file",
+          },
+        });
+
+      const freeze = await app.inject({
+        method: "POST",
+        url: "/ops/api/freezes",
+        payload: { adapter_id: "freeze-adapter", reason: "Adapter leaking credentials", minutes: 60 },
+      });
+      expect(freeze.statusCode).toBe(201);
+      const freezeId = freeze.json().freeze.freeze_id;
+      expect(
+        (await app.inject({ method: "POST", url: "/ops/api/freezes", payload: { reason: "short" } })).statusCode
+      ).toBe(400);
+
+      const denied = await execute();
+      expect(denied.json()).toMatchObject({ allowed: false, blocked_reason: "frozen", freeze_id: freezeId });
+      expect(denied.json().explanation).toContain("Adapter leaking credentials");
+
+      const approved = createDecision({
+        tenantId: "local",
+        workspaceId: "local",
+        executionId: `exec-freeze-${Date.now()}`,
+        adapterId: "freeze-adapter",
+        requestSnapshot: { request: { tool: "read_file" } },
+      });
+      resolveDecision({ decisionId: approved.decision_id, status: "approved", resolution: {} });
+      expect((await execute(approved.execution_id)).json()).toMatchObject({ allowed: false, blocked_reason: "frozen" });
+
+      const posture = await app.inject({ method: "GET", url: "/api/adapter/posture", headers: { "x-adapter-token": token } });
+      expect(posture.json()).toMatchObject({ frozen: true, freezes: [expect.objectContaining({ freeze_id: freezeId })] });
+
+      const list = await app.inject({ method: "GET", url: "/ops/api/freezes" });
+      expect(list.json().freezes.map((f: { freeze_id: string }) => f.freeze_id)).toEqual([freezeId]);
+
+      const lift = () => app.inject({ method: "POST", url: `/ops/api/freezes/${freezeId}/lift` });
+      expect((await lift()).statusCode).toBe(200);
+      expect((await lift()).statusCode).toBe(409);
+      expect((await app.inject({ method: "POST", url: "/ops/api/freezes/missing/lift" })).statusCode).toBe(404);
+      expect((await execute()).json().blocked_reason).not.toBe("frozen");
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+  it("denies tool authorization while a matching freeze is active", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    const build = await buildAppWithEnv({ ADAPTER_JWT_SECRET: "freeze-test-secret", CLASPER_DB_PATH: ":memory:" });
+    try {
+      const { buildAdapterToken } = await import("../lib/adapters/auth.js");
+      const app = build();
+      const token = await buildAdapterToken({
+        adapter_id: "freeze-adapter",
+        tenant_id: "local",
+        workspace_id: "local",
+        allowed_capabilities: ["read_file"],
+      });
+      const authorize = (agentId: string) =>
+        app.inject({
+          method: "POST",
+          url: "/api/governance/tool/authorize",
+          headers: { "x-adapter-token": token },
+          payload: { execution_id: `exec-${agentId}`, adapter_id: "freeze-adapter", tool: "read_file", agent_id: agentId },
+        });
+
+      const freeze = await app.inject({
+        method: "POST",
+        url: "/ops/api/freezes",
+        payload: { agent_id: "agent-1", reason: "Agent deleting production files" },
+      });
+      const freezeId = freeze.json().freeze.freeze_id;
+
+      const denied = await authorize("agent-1");
+      expect(denied.statusCode).toBe(200);
+      expect(denied.json()).toMatchObject({ decision: "deny", reason: "frozen", freeze_id: freezeId });
+      expect(denied.json().explanation).toContain("Agent deleting production files");
+      expect((await authorize("agent-2")).json().reason).not.toBe("frozen");
+
+      await app.inject({ method: "POST", url: `/ops/api/freezes/${freezeId}/lift` });
+      expect((await authorize("agent-1")).json().reason).not.toBe("frozen");
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+  it("holds decisions that were pending or approved when the freeze started", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    const build = await buildAppWithEnv({
+      ADAPTER_JWT_SECRET: "freeze-test-secret",
+      CLASPER_DB_PATH: ":memory:",
+      OPS_LOCAL_API_KEY: "",
+    });
+    try {
+      const { buildAdapterToken } = await import("../lib/adapters/auth.js");
+      const { createDecision, getDecision, resolveDecision } = await import("../lib/governance/decisions.js");
+      const app = build();
+      const token = await buildAdapterToken({
+        adapter_id: "freeze-adapter",
+        tenant_id: "local",
+        workspace_id: "local",
+        allowed_capabilities: ["read_file"],
+      });
+      const decide = (name: string) =>
+        createDecision({
+          tenantId: "local",
+          workspaceId: "local",
+          executionId: `exec-freeze-${name}-${Date.now()}`,
+          adapterId: "freeze-adapter",
+          requestSnapshot: { request: { tool: "read_file", agent_id: "agent-1" } },
+        });
+      const status = async (executionId: string) =>
+        (await app.inject({ method: "GET", url: `/api/execution/${executionId}`, headers: { "x-adapter-token": token } })).json();
+
+      const pending = decide("pending");
+      const approved = decide("approved");
+      resolveDecision({ decisionId: approved.decision_id, status: "approved", resolution: {} });
+      const decisionToken = (
+        await app.inject({ method: "GET", url: `/api/decisions/${approved.decision_id}`, headers: { "x-adapter-token": token } })
+      ).json().decision_token as string;
+
+      const freeze = await app.inject({
+        method: "POST",
+        url: "/ops/api/freezes",
+        payload: { agent_id: "agent-1", reason: "Agent deleting production files" },
+      });
+      const freezeId = freeze.json().freeze.freeze_id;
+
+      const vote = await app.inject({
+        method: "POST",
+        url: `/ops/api/decisions/${pending.decision_id}/resolve`,
+        payload: { status: "approved" },
+      });
+      expect(vote.statusCode).toBe(409);
+      expect(vote.json().code).toBe("frozen");
+      expect(getDecision(pending.decision_id)?.status).toBe("pending");
+      expect(await status(pending.execution_id)).toMatchObject({ effect: "deny", reason: "frozen", freeze_id: freezeId });
+      expect(await status(approved.execution_id)).toMatchObject({ effect: "deny", reason: "frozen", freeze_id: freezeId });
+
+      const consume = () =>
+        app.inject({
+          method: "POST",
+          url: `/api/decisions/${approved.decision_id}/consume`,
+          headers: { "x-adapter-token": token },
+          payload: { decision_token: decisionToken },
+        });
+      const frozen = await consume();
+      expect(frozen.statusCode).toBe(403);
+      expect(frozen.json().code).toBe("frozen");
+
+      await app.inject({ method: "POST", url: `/ops/api/freezes/${freezeId}/lift` });
+      expect((await status(approved.execution_id)).effect).toBe("allow");
+      expect((await consume()).statusCode).toBe(200);
+      expect(
+        (
+          await app.inject({
+            method: "POST",
+            url: `/ops/api/decisions/${pending.decision_id}/resolve`,
+            payload: { status: "approved" },
+          })
+        ).statusCode
+      ).toBe(200);
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+});
+
+describe("Audit chain export", () => {
+  it("exports the tenant's hash chain in pages with a verification", async () => {
+    const originalDbPath = process.env.CLASPER_DB_PATH;
+    const build = await buildAppWithEnv({ CLASPER_DB_PATH: ":memory:" });
+    try {
+      const { auditLog } = await import("../lib/governance/auditLog.js");
+      const app = build();
+      for (let i = 0; i < 3; i += 1) {
+        auditLog("config_change", { tenantId: "local", userId: "ops", eventData: { setting: "example", value: i } });
+      }
+
+      const first = await app.inject({ method: "GET", url: "/ops/api/audit-chain/export?limit=2" });
+      expect(first.statusCode).toBe(200);
+      expect(first.json()).toMatchObject({
+        tenant_id: "local",
+        next_seq: 3,
+        verification: { status: "verified", length: 3 },
+      });
+      expect(first.json().entries.map((entry: { seq: number }) => entry.seq)).toEqual([1, 2]);
+
+      const rest = await app.inject({ method: "GET", url: "/ops/api/audit-chain/export?from_seq=3&limit=2" });
+      expect(rest.json().entries[0].prev_event_hash).toBe(first.json().entries[1].event_hash);
+      expect(rest.json().next_seq).toBeNull();
+      expect((await app.inject({ method: "GET", url: "/ops/api/audit-chain/export?limit=0" })).statusCode).toBe(400);
+    } finally {
+      if (originalDbPath === undefined) delete process.env.CLASPER_DB_PATH;
+      else process.env.CLASPER_DB_PATH = originalDbPath;
+    }
+  });
+});
@@ -19,7 +19,7 @@ try {
 }
 
 import Fastify from "fastify";
-import { readFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { z } from "zod";
 import { v7 as uuidv7 } from "uuid";
@@ -35,9 +35,24 @@ import {
   canAccessWorkspace,
   requireRole,
   requirePermission,
+  getApprovalTrustLevel,
   getContextPermissions,
-  PermissionError
+  PermissionError,
+  OPS_ROLES,
+  type OpsContext,
+  type OpsRole
 } from "../lib/auth/opsAuth.js";
+import { OidcError, exchangeOidcCode, getOidcClientConfig, getOidcSettings } from "../lib/auth/oidc.js";
+import {
+  OpsUserError,
+  createOpsUser,
+  getOpsUser,
+  hasActiveOpsUsers,
+  listOpsUsers,
+  revokeOpsApiKeys,
+  rotateOpsApiKey,
+  updateOpsUser
+} from "../lib/auth/opsUsers.js";
 // Providers
 import { compactHistory, runLLMTask } from "../lib/providers/openaiClient.js";
 import { streamAgentReply } from "../lib/providers/streaming.js";
@@ -66,7 +81,7 @@ import { buildTraceDetailView, buildTraceSummaryView } from "../lib/ops/traceVie
 import { loadGovernanceMaps, buildGovernanceView } from "../lib/ops/governanceViews.js";
 import { getSkillEnvironmentUsage, getSkillUsageStats, getPermissionDiff } from "../lib/ops/skillOps.js";
 import { listToolRegistry, getToolDetails, recordToolAuthorization } from "../lib/ops/toolOps.js";
-import { getCostDashboard, getRiskDashboard, getGovernanceDashboard, getAgentsList } from "../lib/ops/dashboards.js";
+import { getCostDashboard, getRiskDashboard, getGovernanceDashboard, getApprovalsDashboard, getAgentsList } from "../lib/ops/dashboards.js";
 // Governance
 import {
   getAuditLog,
@@ -74,6 +89,7 @@ import {
   logPolicyCreatedFromTrace,
   logPolicyCreatedViaWizard,
   logPolicyUpdatedViaWizard,
+  logApprovalActionUsed,
 } from "../lib/governance/auditLog.js";
 import type { WizardAuditMeta } from "../lib/governance/auditLog.js";
 import {
@@ -83,17 +99,127 @@ import {
   buildPolicySummaryForAudit,
   hashWizardMetaAttestation,
   hashPolicySummary,
+  POLICY_BUNDLE_HASH_VERSION,
 } from "../lib/governance/wizardMeta.js";
 import { OverrideSchema, type OverrideRequest } from "../lib/ops/overrides.js";
+import {
+  BreakGlassActivationSchema,
+  BreakGlassError,
+  BreakGlassReviewSchema,
+  activateBreakGlass,
+  breakGlassOverride,
+  endBreakGlass,
+  getActiveBreakGlassSession,
+  getBreakGlassSession,
+  getBreakGlassStatus,
+  listBreakGlassSessions,
+  recordBreakGlassAction,
+  signOffBreakGlassReview,
+} from "../lib/ops/breakGlass.js";
+import {
+  FreezeCreateSchema,
+  FreezeError,
+  createFreeze,
+  freezeExplanation,
+  getActiveFreeze,
+  getDecisionFreeze,
+  getFreeze,
+  liftFreeze,
+  listFreezes,
+} from "../lib/ops/freezes.js";
 import { getBudgetManager } from "../lib/governance/budgetManager.js";
 import { calculateRiskScore, type RiskScoringInput } from "../lib/governance/riskScoring.js";
 import { evaluateExecutionDecision } from "../lib/governance/executionDecision.js";
 import { evaluatePolicy } from "../lib/governance/policyEngine.js";
 import { computePosture } from "../lib/governance/governancePosture.js";
-import { createDecision, getDecision, getLatestDecisionForExecution, listAdapterDecisions, listDecisions, listPendingDecisions, recordDecision, resolveDecision } from "../lib/governance/decisions.js";
+import { listAuditChainEntries, verifyAuditChain } from "../lib/governance/auditChain.js";
+import { GOVERNANCE_MODES, type GovernanceMode } from "../lib/governance/governanceMode.js";
+import {
+  clearGovernanceMode,
+  listGovernanceModes,
+  resolveGovernanceMode,
+  setGovernanceMode,
+} from "../lib/governance/governanceModeStore.js";
+import {
+  createDecision,
+  getDecision,
+  getLatestDecisionForExecution,
+  listAdapterDecisions,
+  listDecisions,
+  listPendingDecisions,
+  recordDecision,
+  resolveDecision,
+  subscribeToExecutionDecisions,
+  type DecisionRecord,
+} from "../lib/governance/decisions.js";
+import { DecisionTokenError, consumeDecisionToken, signDecisionToken } from "../lib/governance/decisionTokens.js";
 import { createExportBundle } from "../lib/exports/exportBundle.js";
-import { PolicySchema } from "../lib/policy/policySchema.js";
-import { deletePolicy, getPolicy, listPolicies, setPolicyEnabled, upsertPolicy } from "../lib/policy/policyStore.js";
+import { PolicyModeSchema, PolicySchema } from "../lib/policy/policySchema.js";
+import {
+  deletePolicy,
+  getPolicy,
+  listPolicies,
+  rollbackPolicy,
+  setPolicyEnabled,
+  setPolicyMode,
+  upsertPolicy,
+} from "../lib/policy/policyStore.js";
+import {
+  diffPolicyBodies,
+  getPolicyBundle,
+  getPolicyRevision,
+  listPolicyRevisions,
+} from "../lib/policy/policyRevisions.js";
+import {
+  PolicyFileError,
+  formatPolicyFileIssue,
+  validatePolicyFileEntries,
+} from "../lib/policy/policyFiles.js";
+import {
+  applyPolicyFiles,
+  hasPolicyPlanChanges,
+  planPolicyFiles,
+  syncPolicyFiles,
+  watchPolicyFiles,
+  type PolicyPlan,
+} from "../lib/policy/policySync.js";
+import { lintPolicyFiles, lintTenantPolicies } from "../lib/policy/policyLint.js";
+import { getShadowPolicyReport } from "../lib/policy/shadowReport.js";
+import { backtestPolicies, buildCandidateBundle } from "../lib/policy/policyBacktest.js";
+import {
+  ApprovalVoteError,
+  buildApprovalRequirements,
+  castDecisionVote,
+  getApprovalProgress,
+  listDecisionVotes,
+  type DecisionVote,
+} from "../lib/governance/approvals.js";
+import {
+  ApprovalGrantError,
+  ApprovalGrantOptionsSchema,
+  allowByStandingGrant,
+  attachApprovalGrant,
+  buildApprovalGrant,
+  consumeApprovalGrant,
+  listApprovalGrants,
+  revokeApprovalGrant,
+  type ApprovalGrantRecord,
+} from "../lib/governance/approvalGrants.js";
+import {
+  parseEscalationTiers,
+  startDecisionSweeper,
+  type EscalationTier,
+} from "../lib/governance/decisionSweeper.js";
+import { groupsForUser, loadApprovalRouting, startApprovalRouter } from "../lib/governance/approvalRouting.js";
+import { previewForStorage } from "../lib/governance/approvalPreview.js";
+import {
+  ApprovalActionError,
+  renderApprovalActionPage,
+  resolveApprovalActionApprover,
+  verifyApprovalAction,
+  type ApprovalActionClaims,
+} from "../lib/governance/approvalActions.js";
+import { listApprovalNotifications } from "../lib/governance/approvalNotifications.js";
 import { ingestAudit, ingestCost, ingestMetrics, ingestTrace, ingestViolation, recordBlockedExecutionTrace } from "../lib/adapters/ingest.js";
 import { requireAdapterContextFromHeaders, AdapterAuthError, buildAdapterToken, type AdapterAuthContext } from "../lib/adapters/auth.js";
 import { getAdapterRegistry } from "../lib/adapters/registry.js";
@@ -316,6 +442,48 @@ function summarizeDecisionEffect(record: ReturnType<typeof getDecision>): "allow
   return "deny";
 }
 
+/**
+ * Adapter-facing status of an execution's latest decision (approval polling and streams).
+ */
+/**
+ * Adapter-facing status of an execution's decision. An active freeze matching
+ * the decision reports deny, even when it was approved before the freeze.
+ */
+function buildDecisionStatus(executionId: string, decision: DecisionRecord) {
+  const freeze = decision.status === "pending" || decision.status === "approved" ? getDecisionFreeze(decision) : null;
+  if (freeze) {
+    return {
+      execution_id: executionId,
+      effect: "deny" as const,
+      decision_id: decision.decision_id,
+      approval_type: "local" as const,
+      reason: "frozen" as const,
+      freeze_id: freeze.freeze_id,
+      explanation: freezeExplanation(freeze),
+    };
+  }
+  let effect: "allow" | "deny" | "pending";
+  switch (decision.status) {
+    case "approved":
+      effect = "allow";
+      break;
+    case "denied":
+    case "expired":
+      effect = "deny";
+      break;
+    case "pending":
+    default:
+      effect = "pending";
+      break;
+  }
+  return {
+    execution_id: executionId,
+    effect,
+    decision_id: decision.decision_id,
+    approval_type: "local" as const,
+  };
+}
+
 function summarizeAdapterDecisionRow(
   record: ReturnType<typeof getDecision>,
   governanceStatus: string
@@ -356,6 +524,7 @@ function buildDecisionExplain(record: ReturnType<typeof getDecision>): {
   reason: string;
   tool: string | null;
   input_summary: Record<string, unknown>;
+  condition_details: Record<string, unknown>[];
   decision: "allow" | "deny" | "require_approval" | "pending";
 } {
   const snapshot = asObject(record?.request_snapshot);
@@ -389,11 +558,17 @@ function buildDecisionExplain(record: ReturnType<typeof getDecision>): {
   if (typeof requestData?.intent === "string") inputSummary.intent = requestData.intent;
 
   const requestedCaps = asStringArray(requestData?.requested_capabilities) || [];
+  const conditionDetails = Array.isArray(matchedEntryObj?.condition_details)
+    ? (matchedEntryObj.condition_details as unknown[])
+        .map((detail) => asObject(detail))
+        .filter((detail): detail is Record<string, unknown> => detail !== null)
+    : [];
   return {
     policy: matchedPolicies[0] || null,
     reason,
     tool: typeof requestData?.tool === "string" ? (requestData.tool as string) : requestedCaps[0] || null,
     input_summary: inputSummary,
+    condition_details: conditionDetails,
     decision: summarizeDecisionEffect(record),
   };
 }
@@ -414,6 +589,8 @@ export function buildApp() {
           },
         }
       : true,
+    // Approval links carry a signed token as a path segment (/ops/actions/:token).
+    routerOptions: { maxParamLength: 2048 },
   });
   const opsUiRoot = join(process.cwd(), "src", "ops-ui");
 
@@ -433,6 +610,40 @@ export function buildApp() {
     app.log.error({ err }, "Failed to initialize database");
   }
 
+  // Pending decisions: expire overdue approvals and apply escalation tiers
+  let escalationTiers: EscalationTier[] = [];
+  try {
+    escalationTiers = parseEscalationTiers(config.decisionEscalation);
+  } catch (err) {
+    app.log.error({ err }, "Ignoring invalid CLASPER_DECISION_ESCALATION");
+  }
+  const stopDecisionSweeper = startDecisionSweeper({
+    intervalMs: config.decisionSweepIntervalMs,
+    tiers: escalationTiers,
+    routingPath: config.approvalRoutingPath,
+    onSweep: (result) => {
+      if (result.expired.length > 0 || result.escalated.length > 0) {
+        app.log.info(
+          { expired: result.expired.length, escalated: result.escalated.length },
+          "Pending decisions swept"
+        );
+      }
+    },
+    onError: (err) => app.log.error({ err }, "Pending decision sweep failed"),
+    onNotifyError: (err, decision) =>
+      app.log.warn({ msg: "decision callback_url notify failed", decision_id: decision.decision_id, error: String(err) }),
+  });
+  app.addHook("onClose", async () => stopDecisionSweeper());
+
+  // Pending decisions: route to approver groups and deliver their notifications (with retries)
+  const stopApprovalRouter = startApprovalRouter({
+    routingPath: config.approvalRoutingPath,
+    intervalMs: config.decisionSweepIntervalMs,
+    opsConsoleUrl: config.opsConsoleUrl,
+    onError: (err) => app.log.error({ err }, "Approval routing failed"),
+  });
+  app.addHook("onClose", async () => stopApprovalRouter());
+
   // ============================================================================
   // Trace ID Hook - Every request gets a trace ID for correlation
   // ============================================================================
@@ -479,6 +690,12 @@ export function buildApp() {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
       const permissions = getContextPermissions(context);
+      let approverGroups: string[] = [];
+      try {
+        approverGroups = groupsForUser(loadApprovalRouting(config.approvalRoutingPath), context);
+      } catch (err) {
+        request.log.warn({ err }, "Invalid approval routing file");
+      }
 
       return reply.send({
         user: {
@@ -487,7 +704,9 @@ export function buildApp() {
           roles: context.roles,
           tenant_id: context.tenantId,
           workspace_id: context.workspaceId,
-          allowed_tenants: context.allowedTenants
+          allowed_tenants: context.allowedTenants,
+          auth_method: context.authMethod,
+          approver_groups: approverGroups
         },
         permissions,
         scope: {
@@ -509,6 +728,277 @@ export function buildApp() {
     }
   });
 
+  /**
+   * Sign-in options for the Ops Console (unauthenticated; no secrets).
+   */
+  app.get("/ops/api/auth/config", async (request, reply) => {
+    const settings = getOidcSettings();
+    if (!settings) return reply.send({ oidc: null });
+    try {
+      return reply.send({ oidc: await getOidcClientConfig(settings) });
+    } catch (error) {
+      request.log.warn({ err: error }, "OIDC sign-in unavailable");
+      const message = error instanceof Error ? error.message : "OIDC sign-in unavailable";
+      return reply.status(error instanceof OidcError && error.code === "discovery_failed" ? 502 : 500).send({ error: message });
+    }
+  });
+
+  /**
+   * OIDC authorization code exchange (PKCE) for the Ops Console. Returns the
+   * bearer token the console sends as `Authorization: Bearer`.
+   */
+  app.post("/ops/api/auth/token", async (request, reply) => {
+    const settings = getOidcSettings();
+    if (!settings) return reply.status(404).send({ error: "OIDC sign-in is not configured" });
+
+    const BodySchema = z.object({
+      code: z.string().min(1).max(4096),
+      code_verifier: z.string().min(43).max(128),
+      redirect_uri: z.string().url(),
+    });
+    const parsed = BodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+    }
+
+    try {
+      const result = await exchangeOidcCode(
+        { code: parsed.data.code, codeVerifier: parsed.data.code_verifier, redirectUri: parsed.data.redirect_uri },
+        settings
+      );
+      return reply.send({
+        token: result.token,
+        token_type: "Bearer",
+        expires_at: result.expires_at,
+        user: { id: result.identity.userId, roles: result.identity.roles },
+      });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        const status =
+          error.code === "exchange_failed" || error.code === "invalid_token" ? 401 :
+          error.code === "no_role" ? 403 :
+          error.code === "discovery_failed" ? 502 :
+          500;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Token exchange failed";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  /**
+   * Ops user management (local user store, per-user API keys).
+   */
+  const OpsRoleSchema = z.enum(OPS_ROLES as [OpsRole, ...OpsRole[]]);
+
+  /** Look up a user in the caller's tenant (other tenants' users read as missing). */
+  const requireTenantOpsUser = (context: OpsContext, userId: string) => {
+    const user = getOpsUser(userId);
+    if (!user || !canAccessTenant(context, user.tenant_id)) {
+      throw new OpsUserError(`Ops user not found: ${userId}`, "not_found");
+    }
+    return user;
+  };
+
+  app.get("/ops/api/users", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "user:manage");
+      return reply.send({ users: listOpsUsers(context.tenantId) });
+    } catch (error) {
+      if (error instanceof OpsUserError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list ops users";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/users", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "user:manage");
+
+      const BodySchema = z.object({
+        user_id: z.string().min(1).max(128).regex(/^[A-Za-z0-9._@-]+$/),
+        roles: z.array(OpsRoleSchema).min(1),
+        display_name: z.string().max(256).optional(),
+      });
+      const parsed = BodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const created = createOpsUser({
+        userId: parsed.data.user_id,
+        tenantId: context.tenantId,
+        workspaceId: context.workspaceId,
+        roles: parsed.data.roles,
+        displayName: parsed.data.display_name,
+        createdBy: context.userId,
+      });
+      return reply.status(201).send(created);
+    } catch (error) {
+      if (error instanceof OpsUserError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to create ops user";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.patch("/ops/api/users/:userId", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "user:manage");
+
+      const BodySchema = z
+        .object({
+          roles: z.array(OpsRoleSchema).min(1).optional(),
+          disabled: z.boolean().optional(),
+        })
+        .refine((body) => body.roles !== undefined || body.disabled !== undefined, {
+          message: "roles or disabled is required",
+        });
+      const parsed = BodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const { userId } = request.params as { userId: string };
+      requireTenantOpsUser(context, userId);
+      const user = updateOpsUser({ userId, ...parsed.data, updatedBy: context.userId });
+      return reply.send({ user });
+    } catch (error) {
+      if (error instanceof OpsUserError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to update ops user";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/users/:userId/keys/rotate", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "user:manage");
+
+      const { userId } = request.params as { userId: string };
+      requireTenantOpsUser(context, userId);
+      return reply.status(201).send(rotateOpsApiKey({ userId, rotatedBy: context.userId }));
+    } catch (error) {
+      if (error instanceof OpsUserError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to rotate API key";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/users/:userId/keys/revoke", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "user:manage");
+
+      const BodySchema = z.object({ key_id: z.string().min(1).optional() });
+      const parsed = BodySchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const { userId } = request.params as { userId: string };
+      requireTenantOpsUser(context, userId);
+      const revoked = revokeOpsApiKeys({ userId, keyId: parsed.data.key_id, revokedBy: context.userId });
+      return reply.send({ revoked_key_ids: revoked });
+    } catch (error) {
+      if (error instanceof OpsUserError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to revoke API keys";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
   /**
    * Ops SSE endpoint. Core does not push real-time events; this stub keeps the
    * client connection open so the UI does not 404 or spam reconnect.
@@ -657,6 +1147,7 @@ export function buildApp() {
   app.get("/ops/api/traces", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const parsed = OpsTraceListQuerySchema.safeParse(request.query);
       if (!parsed.success) {
         return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
@@ -761,6 +1252,14 @@ export function buildApp() {
         offset: query.offset
       });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -775,6 +1274,7 @@ export function buildApp() {
   app.get("/ops/api/traces/:id", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const { id } = request.params as { id: string };
       const query = request.query as { tenant_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
@@ -810,6 +1310,14 @@ export function buildApp() {
 
       return reply.send({ trace: detail });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -999,6 +1507,7 @@ export function buildApp() {
   app.post("/ops/api/traces/diff", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const parsed = OpsTraceDiffSchema.safeParse(request.body);
       if (!parsed.success) {
         return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
@@ -1024,6 +1533,14 @@ export function buildApp() {
 
       return reply.send(response);
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1043,7 +1560,8 @@ export function buildApp() {
 
   app.get("/ops/api/skills/registry", async (request, reply) => {
     try {
-      await requireOpsContextFromHeaders(request.headers);
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const parsed = OpsSkillListQuerySchema.safeParse(request.query);
       if (!parsed.success) {
         return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
@@ -1075,6 +1593,14 @@ export function buildApp() {
         has_more: result.hasMore
       });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1089,6 +1615,7 @@ export function buildApp() {
   app.get("/ops/api/tools/registry", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const query = request.query as { tenant_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
 
@@ -1099,6 +1626,14 @@ export function buildApp() {
       const tools = listToolRegistry(tenantId);
       return reply.send({ tools, total: tools.length });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1113,6 +1648,7 @@ export function buildApp() {
   app.get("/ops/api/tools/:name", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const { name } = request.params as { name: string };
       const query = request.query as { tenant_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
@@ -1124,6 +1660,14 @@ export function buildApp() {
       const history = getToolDetails(tenantId, name);
       return reply.send({ history });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1206,6 +1750,7 @@ export function buildApp() {
   app.get("/ops/api/dashboards/cost", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const query = request.query as { tenant_id?: string; workspace_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
 
@@ -1225,6 +1770,14 @@ export function buildApp() {
       });
       return reply.send({ dashboard });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1239,6 +1792,7 @@ export function buildApp() {
   app.get("/ops/api/dashboards/risk", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const query = request.query as { tenant_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
 
@@ -1248,6 +1802,14 @@ export function buildApp() {
 
       return reply.send({ dashboard: getRiskDashboard(tenantId) });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1262,6 +1824,7 @@ export function buildApp() {
   app.get("/ops/api/dashboards/governance", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const query = request.query as { tenant_id?: string; workspace_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
 
@@ -1275,6 +1838,14 @@ export function buildApp() {
       const dashboard = getGovernanceDashboard(tenantId, { workspaceId: query.workspace_id });
       return reply.send({ dashboard });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1286,9 +1857,66 @@ export function buildApp() {
     }
   });
 
+  app.get("/ops/api/dashboards/approvals", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+        since: z.string().optional(),
+        until: z.string().datetime().optional(),
+      });
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (!canAccessWorkspace(context, parsed.data.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      let since: string | undefined;
+      try {
+        since = parseSinceToIso(parsed.data.since);
+      } catch (error) {
+        return reply.status(400).send({ error: error instanceof Error ? error.message : "Invalid since value" });
+      }
+
+      const dashboard = getApprovalsDashboard(tenantId, {
+        workspaceId: parsed.data.workspace_id,
+        since,
+        until: parsed.data.until,
+      });
+      return reply.send({ dashboard });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to load approvals dashboard" });
+    }
+  });
+
   app.get("/ops/api/agents", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const query = request.query as { tenant_id?: string; workspace_id?: string };
       const tenantId = query.tenant_id || context.tenantId;
 
@@ -1302,6 +1930,14 @@ export function buildApp() {
       const agents = getAgentsList(tenantId, { workspaceId: query.workspace_id });
       return reply.send({ agents });
     } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
       if (error instanceof OpsAuthError) {
         const status =
           error.code === "missing_token" ? 401 :
@@ -1384,6 +2020,55 @@ export function buildApp() {
               const status = typeof ed["status"] === "string" ? ed["status"] : "resolved";
               return `Approval ${status}${tool ? ` for ${tool}` : ""}`;
             }
+            if (entry.eventType === "policy_decision_escalated") {
+              const group = ed["assigned_group"] ? ` to ${String(ed["assigned_group"])}` : "";
+              return `Approval escalated${group} (tier ${String(ed["escalation_level"] ?? "?")})`;
+            }
+            if (entry.eventType === "policy_decision_routed") {
+              return `Approval routed to ${String(ed["group_id"] ?? "approver group")}`;
+            }
+            if (entry.eventType === "approval_action_used") {
+              return `Approval link used: ${String(ed["action"] ?? "vote")} by ${String(ed["approver_id"] ?? "approver")}`;
+            }
+            if (entry.eventType === "break_glass_activated") {
+              return "Break-glass session activated";
+            }
+            if (entry.eventType === "break_glass_action") {
+              return `Break-glass action${tool ? ` (${tool})` : ""}`;
+            }
+            if (entry.eventType === "break_glass_ended") {
+              return `Break-glass session ${ed["reason"] === "expired" ? "expired" : "ended"}`;
+            }
+            if (entry.eventType === "break_glass_reviewed") {
+              return "Break-glass review signed off";
+            }
+            if (entry.eventType === "ops_user_created") {
+              return `Ops user created: ${String(ed["subject_user_id"] ?? "user")}`;
+            }
+            if (entry.eventType === "ops_user_updated") {
+              return `Ops user ${ed["disabled"] ? "disabled" : "updated"}: ${String(ed["subject_user_id"] ?? "user")}`;
+            }
+            if (entry.eventType === "ops_api_key_issued") {
+              return `API key ${Array.isArray(ed["rotated_key_ids"]) && ed["rotated_key_ids"].length > 0 ? "rotated" : "issued"} for ${String(ed["subject_user_id"] ?? "user")}`;
+            }
+            if (entry.eventType === "ops_api_key_revoked") {
+              return `API key revoked for ${String(ed["subject_user_id"] ?? "user")}`;
+            }
+            if (entry.eventType === "freeze_created" || entry.eventType === "freeze_lifted") {
+              const scope = (ed["scope"] ?? {}) as Record<string, unknown>;
+              const verb = entry.eventType === "freeze_created" ? "set" : "lifted";
+              return `Freeze ${verb}${scope["tenant_id"] === null ? " for all tenants" : ""}`;
+            }
+            if (entry.eventType === "config_change") {
+              const value = ed["value"] === null || ed["value"] === undefined ? "inherited" : String(ed["value"]);
+              return `Config changed: ${String(ed["setting"] ?? "setting")} set to ${value}`;
+            }
+            if (entry.eventType === "decision_token_consumed") {
+              return "Approval token consumed";
+            }
+            if (entry.eventType === "decision_token_rejected") {
+              return `Approval token rejected (${String(ed["reason"] ?? "invalid")})`;
+            }
             if (entry.eventType === "adapter_audit_event") {
               const nestedType = typeof ed["event_type"] === "string" ? ed["event_type"] : "adapter_event";
               return `Adapter event: ${nestedType}`;
@@ -1520,10 +2205,59 @@ export function buildApp() {
     }
   });
 
-  app.get("/ops/api/audit-chain/export", async (_request, reply) => {
-    return reply.status(501).send({
-      error: "Audit chain export is Cloud-only. Clasper Core provides self-attested logs only.",
-    });
+  /**
+   * Audit hash chain export (self-attested): one page of the tenant's chain plus
+   * a server-side verification that also cross-checks audit_log.
+   */
+  app.get("/ops/api/audit-chain/export", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        from_seq: z.coerce.number().int().min(1).optional(),
+        limit: z.coerce.number().int().min(1).max(5000).optional(),
+      });
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const limit = parsed.data.limit ?? 1000;
+      const entries = listAuditChainEntries({ tenantId, fromSeq: parsed.data.from_seq, limit });
+      const last = entries[entries.length - 1];
+      return reply.send({
+        tenant_id: tenantId,
+        exported_at: new Date().toISOString(),
+        entries,
+        next_seq: entries.length === limit && last ? last.seq + 1 : null,
+        verification: verifyAuditChain(tenantId),
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to export audit chain";
+      return reply.status(500).send({ error: message });
+    }
   });
 
   app.post("/ops/api/exports", async (request, reply) => {
@@ -1860,6 +2594,10 @@ export function buildApp() {
     agent_role: z.string().optional(),
     /** Additional agent metadata for policy matching. */
     agent_metadata: z.record(z.unknown()).optional(),
+    /** Agent session the invocation belongs to (scopes "for this session" approval grants). */
+    session_id: z.string().max(256).optional(),
+    /** Display-only preview for approvers (diff, parsed command, HTTP request); validated on storage. */
+    preview: z.unknown().optional(),
     context: z
       .object({
         external_network: z.boolean().optional(),
@@ -1974,9 +2712,11 @@ export function buildApp() {
   app.get("/api/adapter/posture", async (request, reply) => {
     try {
       const adapterContext = await requireAdapterContextFromHeaders(request.headers);
+      const { environment } = request.query as { environment?: string };
       const posture = computePosture({
         tenant_id: adapterContext.tenantId,
         workspace_id: adapterContext.workspaceId,
+        environment: typeof environment === "string" && environment ? environment : undefined,
         adapter_id: adapterContext.adapterId,
       });
       return reply.send(posture);
@@ -1991,9 +2731,11 @@ export function buildApp() {
   app.get("/api/adapter/policy-posture", async (request, reply) => {
     try {
       const adapterContext = await requireAdapterContextFromHeaders(request.headers);
+      const { environment } = request.query as { environment?: string };
       const posture = computePosture({
         tenant_id: adapterContext.tenantId,
         workspace_id: adapterContext.workspaceId,
+        environment: typeof environment === "string" && environment ? environment : undefined,
         adapter_id: adapterContext.adapterId,
       });
       return reply.send(posture);
@@ -2220,8 +2962,17 @@ export function buildApp() {
         });
       }
 
+      // An active freeze (kill switch) overrides earlier approvals and break-glass;
+      // evaluation below returns its deny.
+      const freeze = getActiveFreeze({
+        tenantId: parsed.data.tenant_id,
+        workspaceId: parsed.data.workspace_id,
+        adapterId: parsed.data.adapter_id,
+        agentId: parsed.data.agent_id,
+      });
+
       // Adapter retry/resume path: if a prior decision exists for this execution_id, honor it.
-      if (parsed.data.execution_id) {
+      if (parsed.data.execution_id && !freeze) {
         const latest = getLatestDecisionForExecution({
           tenantId: parsed.data.tenant_id,
           workspaceId: parsed.data.workspace_id,
@@ -2252,7 +3003,46 @@ export function buildApp() {
         }
       }
 
-      const decision = evaluateExecutionDecision(parsed.data);
+      // An active break-glass session decides the request with its override (unless
+      // the request brings its own) and tags the decision with the session id.
+      const breakGlass = parsed.data.override || freeze
+        ? null
+        : getActiveBreakGlassSession({
+            tenantId: parsed.data.tenant_id,
+            workspaceId: parsed.data.workspace_id,
+            agentId: parsed.data.agent_id,
+          });
+      let decision = evaluateExecutionDecision(
+        breakGlass ? { ...parsed.data, override: breakGlassOverride(breakGlass) } : parsed.data
+      );
+      if (breakGlass) {
+        decision = { ...decision, break_glass_session_id: breakGlass.session_id };
+        recordBreakGlassAction({
+          session: breakGlass,
+          workspaceId: parsed.data.workspace_id,
+          executionId: decision.execution_id,
+          adapterId: parsed.data.adapter_id,
+          agentId: parsed.data.agent_id,
+          tool: parsed.data.tool ?? null,
+          decision: decision.decision ?? (decision.allowed ? "allow" : "deny"),
+        });
+      }
+      if (decision.requires_approval) {
+        // Standing grants from earlier approvals cover similar requests without a new approval.
+        const grant = consumeApprovalGrant({
+          tenantId: parsed.data.tenant_id,
+          workspaceId: parsed.data.workspace_id,
+          adapterId: parsed.data.adapter_id,
+          executionId: decision.execution_id,
+          tool: parsed.data.tool,
+          requestedCapabilities: parsed.data.requested_capabilities,
+          sessionId: parsed.data.session_id,
+          context: parsed.data.context,
+          policyId: decision.matched_policies?.[0],
+          approval: decision.approval,
+        });
+        if (grant) decision = allowByStandingGrant(decision, grant);
+      }
       if (decision.requires_approval) {
         const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
         const created = createDecision({
@@ -2263,11 +3053,13 @@ export function buildApp() {
           requiredRole: "release_manager",
           expiresAt,
           requestSnapshot: {
-            request: parsed.data,
+            request: { ...parsed.data, preview: previewForStorage(parsed.data.preview) },
             decision,
           },
           grantedScope: (decision.granted_scope || {}) as Record<string, unknown>,
           callbackUrl: parsed.data.callback_url,
+          shadow: decision.shadow,
+          approval: buildApprovalRequirements(decision.approval, parsed.data.agent_metadata),
         });
 
         auditLog("policy_decision_pending", {
@@ -2323,8 +3115,9 @@ export function buildApp() {
           executionId: decision.execution_id,
           adapterId: parsed.data.adapter_id,
           status: decision.allowed ? "allow" : "deny",
-          requestSnapshot: { request: parsed.data, decision },
+          requestSnapshot: { request: { ...parsed.data, preview: previewForStorage(parsed.data.preview) }, decision },
           grantedScope: decision.allowed ? (decision.granted_scope || {}) as Record<string, unknown> : undefined,
+          shadow: decision.shadow,
         });
       } catch (_) {
         // non-fatal: decision recording must not break the response
@@ -2390,38 +3183,92 @@ export function buildApp() {
         return reply.status(404).send({ error: "No decision found for this execution_id" });
       }
 
-      // Map decision status → effect
-      let effect: string;
-      switch (decision.status) {
-        case 'approved':
-          effect = 'allow';
-          break;
-        case 'denied':
-          effect = 'deny';
-          break;
-        case 'expired':
-          effect = 'deny';
-          break;
-        case 'pending':
-        default:
-          effect = 'pending';
-          break;
+      return reply.send(buildDecisionStatus(executionId, decision));
+    } catch (error) {
+      if (error instanceof AdapterAuthError) {
+        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
+        return reply.status(status).send({ error: error.message, code: error.code });
       }
+      const message = error instanceof Error ? error.message : "Decision status check failed";
+      return reply.status(500).send({ error: message });
+    }
+  });
 
-      return reply.send({
-        execution_id: executionId,
-        effect,
-        decision_id: decision.decision_id,
-        approval_type: 'local',
-      });
+  /**
+   * Execution decision stream (push alternative to approval polling).
+   *
+   * Server-sent events scoped to one execution_id: a `decision` event with the
+   * current status right away, then another once the pending decision is
+   * approved, denied or expired, after which the stream closes. Comment
+   * heartbeats keep idle connections open.
+   */
+  app.get("/api/execution/:executionId/events", async (request, reply) => {
+    let adapterContext: AdapterAuthContext;
+    const { executionId } = request.params as { executionId: string };
+    try {
+      adapterContext = await requireAdapterContextFromHeaders(request.headers);
     } catch (error) {
       if (error instanceof AdapterAuthError) {
         const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
         return reply.status(status).send({ error: error.message, code: error.code });
       }
-      const message = error instanceof Error ? error.message : "Decision status check failed";
+      const message = error instanceof Error ? error.message : "Decision stream failed";
       return reply.status(500).send({ error: message });
     }
+
+    const scope = {
+      tenantId: adapterContext.tenantId,
+      workspaceId: adapterContext.workspaceId,
+      adapterId: adapterContext.adapterId,
+      executionId,
+    };
+    // Subscribe before reading so a resolution between the two is not missed.
+    let onResolved: () => void = () => {};
+    const unsubscribe = subscribeToExecutionDecisions(scope, () => onResolved());
+    const decision = getLatestDecisionForExecution(scope);
+    if (!decision) {
+      unsubscribe();
+      return reply.status(404).send({ error: "No decision found for this execution_id" });
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+    const writeStatus = (record: DecisionRecord) => {
+      const status = buildDecisionStatus(executionId, record);
+      reply.raw.write(`event: decision\ndata: ${JSON.stringify(status)}\n\n`);
+      return status;
+    };
+    const heartbeat = setInterval(() => {
+      try {
+        reply.raw.write(": heartbeat\n\n");
+      } catch {
+        clearInterval(heartbeat);
+      }
+    }, 15000);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      reply.raw.end();
+    };
+    request.raw.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    if (writeStatus(decision).effect !== "pending") {
+      close();
+      return;
+    }
+    onResolved = () => {
+      const latest = getLatestDecisionForExecution(scope);
+      if (!latest || latest.status === "pending") return;
+      writeStatus(latest);
+      close();
+    };
   });
 
   /**
@@ -2436,6 +3283,7 @@ export function buildApp() {
     environment: z.string().optional(),
     skill_state: z.string().optional(),
     adapter_risk_class: z.string().optional(),
+    agent_id: z.string().optional(),
   });
 
   app.post("/api/governance/tool/authorize", async (request, reply) => {
@@ -2460,6 +3308,45 @@ export function buildApp() {
         },
       });
 
+      // Same kill switch as /api/execution/request: a freeze denies before policy.
+      const freeze = getActiveFreeze({
+        tenantId: adapterContext.tenantId,
+        workspaceId: adapterContext.workspaceId,
+        adapterId: adapterContext.adapterId,
+        agentId: parsed.data.agent_id,
+      });
+      if (freeze) {
+        recordToolAuthorization({
+          tenant_id: adapterContext.tenantId,
+          adapter_id: adapterContext.adapterId,
+          execution_id: parsed.data.execution_id,
+          tool: parsed.data.tool,
+          tool_group: parsed.data.tool_group ?? null,
+          decision: "deny",
+          policy_id: null,
+          reason: "frozen",
+        });
+
+        auditLog("tool_authorization_denied", {
+          tenantId: adapterContext.tenantId,
+          workspaceId: adapterContext.workspaceId,
+          eventData: {
+            adapter_id: adapterContext.adapterId,
+            execution_id: parsed.data.execution_id,
+            tool: parsed.data.tool,
+            decision: "deny",
+            freeze_id: freeze.freeze_id,
+          },
+        });
+
+        return reply.send({
+          decision: "deny",
+          reason: "frozen",
+          freeze_id: freeze.freeze_id,
+          explanation: freezeExplanation(freeze),
+        });
+      }
+
       const policy = evaluatePolicy({
         tenant_id: adapterContext.tenantId,
         workspace_id: adapterContext.workspaceId,
@@ -2629,21 +3516,56 @@ export function buildApp() {
     }
   });
 
+  const PolicyBacktestSchema = z
+    .object({
+      /** Candidate policy to add to (or replace in) the live bundle. */
+      policy: PolicySchema.optional(),
+      /** Live policies to leave out of the candidate bundle. */
+      remove_policy_ids: z.array(z.string()).optional(),
+      /** Full candidate bundle, replacing the live policies entirely. */
+      policies: z.array(PolicySchema).optional(),
+      adapter_id: z.string().optional(),
+      since: z.string().datetime().optional(),
+      limit: z.number().int().min(1).max(5000).optional(),
+    })
+    .refine((value) => value.policy || value.policies || value.remove_policy_ids?.length, {
+      message: "Provide policy, policies or remove_policy_ids",
+    });
+
   /**
    * Ops Console policy dry-run endpoint.
    * Alias for the local OSS distribution so the Ops UI can call the expected path.
+   * With `backtest`, replays historical decisions against a candidate bundle instead.
    */
   app.post("/ops/api/policies/dry-run", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
       requirePermission(context, "audit:view");
-      const parsed = PolicyEvalSchema.safeParse(request.body);
+      const parsed = PolicyEvalSchema.extend({ backtest: PolicyBacktestSchema.optional() }).safeParse(request.body);
       if (!parsed.success) {
         return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
       }
+      const { backtest, ...policyContext } = parsed.data;
+      if (backtest) {
+        const tenantId = policyContext.tenant_id || context.tenantId;
+        if (!canAccessTenant(context, tenantId)) {
+          return reply.status(403).send({ error: "Tenant access denied" });
+        }
+        const report = backtestPolicies({
+          tenantId,
+          workspaceId: policyContext.workspace_id || context.workspaceId,
+          adapterId: backtest.adapter_id,
+          since: backtest.since,
+          limit: backtest.limit,
+          policies:
+            backtest.policies ??
+            buildCandidateBundle({ tenantId, policy: backtest.policy, removePolicyIds: backtest.remove_policy_ids }),
+        });
+        return reply.send({ backtest: report });
+      }
       const result = evaluatePolicy({
-        ...parsed.data,
-        tenant_id: parsed.data.tenant_id || context.tenantId,
+        ...policyContext,
+        tenant_id: policyContext.tenant_id || context.tenantId,
       });
       return reply.send(result);
     } catch (error) {
@@ -2675,6 +3597,7 @@ export function buildApp() {
   app.get("/ops/api/adapter-probe-token", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
       const tenantId = config.localTenantId;
       const workspaceId = config.localWorkspaceId;
       const adapterId = "openclaw-local";
@@ -2686,12 +3609,20 @@ export function buildApp() {
       }, "5m");
       return reply.send({ token });
     } catch (error) {
-      if (error instanceof OpsAuthError) {
-        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
-        return reply.status(status).send({ error: error.message, code: error.code });
-      }
-      throw error;
-    }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
   });
 
   /**
@@ -2767,6 +3698,7 @@ export function buildApp() {
     const resolvedDecisionIds: string[] = [];
     for (const pendingDecision of pending) {
       if (!canAccessWorkspace(params.opsContext, pendingDecision.workspace_id)) continue;
+      if (getDecisionFreeze(pendingDecision)) continue;
       const policyContext = buildPolicyContextFromDecisionRecord(pendingDecision);
       if (!policyContext) continue;
       const policyResult = evaluatePolicy(policyContext);
@@ -2868,6 +3800,12 @@ export function buildApp() {
     };
   };
 
+  const policyFileManagedError = (record: { policy_id: string; source_path: string | null }) => ({
+    error: `Policy ${record.policy_id} is managed from ${record.source_path ?? "policy files"}; change the file instead`,
+    code: "policy_file_managed",
+    source_path: record.source_path,
+  });
+
   app.post("/ops/api/policies", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
@@ -2883,10 +3821,15 @@ export function buildApp() {
           ? body._source_adapter_id
           : undefined;
       const rawWizardMeta = body._wizard_meta;
+      const changeReason =
+        typeof body._change_reason === "string" && body._change_reason.trim().length > 0
+          ? body._change_reason.trim()
+          : undefined;
       const {
         _source_trace_id: _stripSourceTraceId,
         _source_adapter_id: _stripSourceAdapterId,
         _wizard_meta: _stripWizardMeta,
+        _change_reason: _stripChangeReason,
         ...policyPayload
       } = body;
       const parsed = PolicySchema.safeParse(policyPayload);
@@ -2900,6 +3843,9 @@ export function buildApp() {
       }
 
       const existingPolicy = getPolicy(tenantId, parsed.data.policy_id);
+      if (existingPolicy?.source === "file") {
+        return reply.status(409).send(policyFileManagedError(existingPolicy));
+      }
       const previousWizardMeta =
         existingPolicy?._wizard_meta &&
         typeof existingPolicy._wizard_meta === "object" &&
@@ -2946,7 +3892,12 @@ export function buildApp() {
         ? buildPolicySummaryForAudit(existingPolicy as unknown as Record<string, unknown>)
         : null;
       const policySummaryBeforeHash = policySummaryBefore ? hashPolicySummary(policySummaryBefore) : null;
-      const record = upsertPolicy({ tenantId, policy: policyToPersist });
+      const record = upsertPolicy({
+        tenantId,
+        policy: policyToPersist,
+        author: context.userId,
+        reason: changeReason,
+      });
       const policySummary = buildPolicySummaryForAudit(record as unknown as Record<string, unknown>);
       const policySummaryAfterHash = hashPolicySummary(policySummary);
       const wizardMetaHash = wizardMeta
@@ -3089,10 +4040,16 @@ export function buildApp() {
       const context = await requireOpsContextFromHeaders(request.headers);
       requirePermission(context, "policy:manage");
 
-      const UpdateSchema = z.object({
-        tenant_id: z.string().optional(),
-        enabled: z.boolean(),
-      });
+      const UpdateSchema = z
+        .object({
+          tenant_id: z.string().optional(),
+          enabled: z.boolean().optional(),
+          mode: PolicyModeSchema.optional(),
+          reason: z.string().optional(),
+        })
+        .refine((data) => data.enabled !== undefined || data.mode !== undefined, {
+          message: "Provide enabled and/or mode",
+        });
 
       const parsed = UpdateSchema.safeParse(request.body);
       if (!parsed.success) {
@@ -3104,11 +4061,31 @@ export function buildApp() {
         return reply.status(403).send({ error: "Tenant access denied" });
       }
 
-      const record = setPolicyEnabled({
-        tenantId,
-        policyId: (request.params as { policyId: string }).policyId,
-        enabled: parsed.data.enabled,
-      });
+      const policyId = (request.params as { policyId: string }).policyId;
+      const existing = getPolicy(tenantId, policyId);
+      if (existing?.source === "file") {
+        return reply.status(409).send(policyFileManagedError(existing));
+      }
+
+      let record = existing;
+      if (record && parsed.data.mode !== undefined && (record.mode ?? "enforce") !== parsed.data.mode) {
+        record = setPolicyMode({
+          tenantId,
+          policyId,
+          mode: parsed.data.mode,
+          author: context.userId,
+          reason: parsed.data.reason,
+        });
+      }
+      if (record && parsed.data.enabled !== undefined) {
+        record = setPolicyEnabled({
+          tenantId,
+          policyId,
+          enabled: parsed.data.enabled,
+          author: context.userId,
+          reason: parsed.data.reason,
+        });
+      }
 
       if (!record) {
         return reply.status(404).send({ error: "Policy not found" });
@@ -3142,6 +4119,7 @@ export function buildApp() {
 
       const DeleteSchema = z.object({
         tenant_id: z.string().optional(),
+        reason: z.string().optional(),
       });
 
       const parsed = DeleteSchema.safeParse(request.body);
@@ -3154,13 +4132,1215 @@ export function buildApp() {
         return reply.status(403).send({ error: "Tenant access denied" });
       }
 
-      const ok = deletePolicy({ tenantId, policyId: (request.params as { policyId: string }).policyId });
+      const policyId = (request.params as { policyId: string }).policyId;
+      const existing = getPolicy(tenantId, policyId);
+      if (existing?.source === "file") {
+        return reply.status(409).send(policyFileManagedError(existing));
+      }
+
+      const ok = deletePolicy({
+        tenantId,
+        policyId,
+        author: context.userId,
+        reason: parsed.data.reason,
+      });
       if (!ok) {
         return reply.status(404).send({ error: "Policy not found" });
       }
 
-      return reply.send({ status: "deleted" });
+      return reply.send({ status: "deleted" });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to delete policy" });
+    }
+  });
+
+  /**
+   * Scoped governance modes (Ops). Overrides CLASPER_MODE per tenant,
+   * environment, workspace or workspace environment. Like policy scopes, modes
+   * are tenant configuration and may name any workspace of the tenant.
+   */
+  const GovernanceModeScopeSchema = z.object({
+    tenant_id: z.string().optional(),
+    workspace_id: z.string().min(1).max(256).optional(),
+    environment: z.string().min(1).max(128).optional(),
+  });
+
+  app.get("/ops/api/governance-modes", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const parsed = GovernanceModeScopeSchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      return reply.send({
+        global_mode: config.mode,
+        modes: listGovernanceModes(tenantId),
+        effective: resolveGovernanceMode({
+          tenantId,
+          workspaceId: parsed.data.workspace_id,
+          environment: parsed.data.environment,
+        }),
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to list governance modes" });
+    }
+  });
+
+  app.put("/ops/api/governance-modes", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:manage");
+
+      const parsed = GovernanceModeScopeSchema.extend({
+        mode: z.enum(GOVERNANCE_MODES as [GovernanceMode, ...GovernanceMode[]]),
+      }).safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const setting = setGovernanceMode({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        environment: parsed.data.environment,
+        mode: parsed.data.mode,
+        updatedBy: context.userId,
+      });
+      return reply.send({ setting });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to set governance mode" });
+    }
+  });
+
+  app.delete("/ops/api/governance-modes", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:manage");
+
+      const parsed = GovernanceModeScopeSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const cleared = clearGovernanceMode({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        environment: parsed.data.environment,
+        clearedBy: context.userId,
+      });
+      if (!cleared) {
+        return reply.status(404).send({ error: "No governance mode set for this scope" });
+      }
+      return reply.send({ status: "cleared" });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to clear governance mode" });
+    }
+  });
+
+  /**
+   * Policy revision history (Ops).
+   */
+  app.get("/ops/api/policies/:policyId/revisions", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const RevisionQuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+        offset: z.coerce.number().int().min(0).optional(),
+      });
+
+      const parsed = RevisionQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const revisions = listPolicyRevisions({
+        tenantId,
+        policyId: (request.params as { policyId: string }).policyId,
+        limit: parsed.data.limit,
+        offset: parsed.data.offset,
+      });
+      return reply.send({ revisions });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to list policy revisions" });
+    }
+  });
+
+  app.get("/ops/api/policies/:policyId/revisions/diff", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const DiffQuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        from: z.coerce.number().int().min(1),
+        to: z.coerce.number().int().min(1).optional(),
+      });
+
+      const parsed = DiffQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const policyId = (request.params as { policyId: string }).policyId;
+      const from = getPolicyRevision(tenantId, policyId, parsed.data.from);
+      const to =
+        parsed.data.to !== undefined
+          ? getPolicyRevision(tenantId, policyId, parsed.data.to)
+          : listPolicyRevisions({ tenantId, policyId, limit: 1 })[0] ?? null;
+      if (!from || !to) {
+        return reply.status(404).send({ error: "Policy revision not found" });
+      }
+
+      return reply.send({
+        from,
+        to,
+        changes: diffPolicyBodies(from.policy, to.policy),
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to diff policy revisions" });
+    }
+  });
+
+  app.post("/ops/api/policies/:policyId/rollback", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:manage");
+
+      const RollbackSchema = z.object({
+        tenant_id: z.string().optional(),
+        revision: z.number().int().min(1),
+        reason: z.string().optional(),
+      });
+
+      const parsed = RollbackSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const policyId = (request.params as { policyId: string }).policyId;
+      const existing = getPolicy(tenantId, policyId);
+      if (existing?.source === "file") {
+        return reply.status(409).send(policyFileManagedError(existing));
+      }
+
+      const record = rollbackPolicy({
+        tenantId,
+        policyId,
+        revision: parsed.data.revision,
+        author: context.userId,
+        reason: parsed.data.reason,
+      });
+      if (!record) {
+        return reply.status(404).send({ error: "Policy revision not found" });
+      }
+
+      const revision = listPolicyRevisions({ tenantId, policyId, limit: 1 })[0] ?? null;
+      return reply.send({ policy: record, revision });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to roll back policy" });
+    }
+  });
+
+  app.get("/ops/api/policy-bundles/:bundleHash", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const BundleQuerySchema = z.object({
+        tenant_id: z.string().optional(),
+      });
+
+      const parsed = BundleQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const bundleHash = (request.params as { bundleHash: string }).bundleHash;
+      if (!bundleHash.startsWith(`${POLICY_BUNDLE_HASH_VERSION}:`)) {
+        // Decisions recorded before bundle hashes were versioned used another format.
+        return reply.status(404).send({
+          error: `Policy bundle hash predates the ${POLICY_BUNDLE_HASH_VERSION} format and cannot be resolved`,
+          code: "unversioned_bundle_hash",
+        });
+      }
+      const bundle = getPolicyBundle(tenantId, bundleHash);
+      if (!bundle) {
+        return reply.status(404).send({ error: "Policy bundle not found", code: "bundle_not_found" });
+      }
+
+      return reply.send({ bundle });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to load policy bundle" });
+    }
+  });
+
+  /**
+   * Policy files (GitOps): plan/apply a set of file policies against the store.
+   * Used by `clasper policy plan|apply`, which loads and sends the files.
+   */
+  const PolicyFilesPayloadSchema = z.object({
+    tenant_id: z.string().optional(),
+    policies: z.array(
+      z.object({
+        source_path: z.string().min(1),
+        index: z.number().int().min(0).optional(),
+        policy: z.unknown(),
+      })
+    ),
+  });
+
+  app.post("/ops/api/policies/plan", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const parsed = PolicyFilesPayloadSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const validated = validatePolicyFileEntries(parsed.data.policies);
+      if (validated.issues.length > 0) {
+        return reply.status(400).send({ error: "Invalid policy files", code: "invalid_policy_files", issues: validated.issues });
+      }
+
+      const plan = planPolicyFiles({ tenantId, policies: validated.policies });
+      return reply.send({ plan });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to plan policy files" });
+    }
+  });
+
+  app.post("/ops/api/policies/apply", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:manage");
+
+      const parsed = PolicyFilesPayloadSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const validated = validatePolicyFileEntries(parsed.data.policies);
+      if (validated.issues.length > 0) {
+        return reply.status(400).send({ error: "Invalid policy files", code: "invalid_policy_files", issues: validated.issues });
+      }
+
+      try {
+        const plan = applyPolicyFiles({ tenantId, policies: validated.policies, author: context.userId });
+        return reply.send({ plan, applied: true });
+      } catch (error) {
+        if (error instanceof PolicyFileError) {
+          return reply.status(400).send({ error: "Invalid policy files", code: "invalid_policy_files", issues: error.issues });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to apply policy files" });
+    }
+  });
+
+  app.get("/ops/api/policies/lint", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const parsed = z.object({ tenant_id: z.string().optional() }).safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      return reply.send({ report: lintTenantPolicies(tenantId) });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to lint policies" });
+    }
+  });
+
+  app.post("/ops/api/policies/lint", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const parsed = PolicyFilesPayloadSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const validated = validatePolicyFileEntries(parsed.data.policies);
+      if (validated.issues.length > 0) {
+        return reply.status(400).send({ error: "Invalid policy files", code: "invalid_policy_files", issues: validated.issues });
+      }
+
+      return reply.send({ report: lintPolicyFiles({ tenantId, policies: validated.policies }) });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to lint policies" });
+    }
+  });
+
+  app.get("/ops/api/policies/shadow-report", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "policy:view");
+
+      const ShadowReportQuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+        since: z.string().datetime().optional(),
+      });
+
+      const parsed = ShadowReportQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const report = getShadowPolicyReport({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        since: parsed.data.since,
+      });
+      return reply.send({ report });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to build shadow policy report" });
+    }
+  });
+
+  /**
+   * Decision polling + resolution.
+   */
+  app.get("/api/decisions/:decisionId", async (request, reply) => {
+    try {
+      const adapterContext = await requireAdapterContextFromHeaders(request.headers);
+      const decision = getDecision((request.params as { decisionId: string }).decisionId);
+      if (!decision) {
+        return reply.status(404).send({ error: "Decision not found" });
+      }
+
+      if (
+        decision.tenant_id !== adapterContext.tenantId ||
+        decision.workspace_id !== adapterContext.workspaceId ||
+        decision.adapter_id !== adapterContext.adapterId
+      ) {
+        return reply.status(403).send({ error: "Decision scope mismatch" });
+      }
+
+      return reply.send({
+        decision_id: decision.decision_id,
+        status: decision.status,
+        required_role: decision.required_role,
+        expires_at: decision.expires_at,
+        decision_token: await signDecisionToken(decision),
+        decision_token_expires_at: decision.decision_token_expires_at ?? null,
+        granted_scope: decision.granted_scope,
+        resolution: decision.resolution,
+        decision_token_used_at: decision.decision_token_used_at ?? null,
+      });
+    } catch (error) {
+      if (error instanceof AdapterAuthError) {
+        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Decision lookup failed";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  /**
+   * Redeem the single-use approval token issued when the decision was approved.
+   */
+  app.post("/api/decisions/:decisionId/consume", async (request, reply) => {
+    try {
+      const adapterContext = await requireAdapterContextFromHeaders(request.headers);
+
+      const BodySchema = z.object({
+        decision_token: z.string().min(1),
+        /** sha256 of the request about to run (optional; must match the approved request_snapshot). */
+        request_hash: z.string().regex(/^[a-f0-9]{64}$/).optional(),
+      });
+      const parsed = BodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const consumed = await consumeDecisionToken({
+        decisionId: (request.params as { decisionId: string }).decisionId,
+        token: parsed.data.decision_token,
+        adapter: adapterContext,
+        requestHash: parsed.data.request_hash,
+      });
+      return reply.send({
+        decision_id: consumed.decision.decision_id,
+        execution_id: consumed.decision.execution_id,
+        status: consumed.decision.status,
+        granted_scope: consumed.decision.granted_scope,
+        request_hash: consumed.request_hash,
+        jti: consumed.jti,
+        consumed_at: consumed.consumed_at,
+      });
+    } catch (error) {
+      if (error instanceof AdapterAuthError) {
+        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof DecisionTokenError) {
+        const status =
+          error.code === "not_found" ? 404 :
+          error.code === "config_error" ? 500 :
+          error.code === "already_consumed" || error.code === "not_approved" ? 409 :
+          error.code === "invalid_token" || error.code === "expired" ? 401 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Decision token consumption failed";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.get("/ops/api/decisions", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+        status: z.enum(["pending", "approved", "denied", "expired"]).optional(),
+        // "mine": only decisions routed to one of the caller's approver groups
+        assigned: z.enum(["mine"]).optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      });
+
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const status = parsed.data.status || "pending";
+      const records = listDecisions({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        status,
+        assignedGroups:
+          parsed.data.assigned === "mine"
+            ? groupsForUser(loadApprovalRouting(config.approvalRoutingPath), context)
+            : undefined,
+        limit: parsed.data.limit,
+      });
+
+      const decisions = records.map((record) => {
+        const votes = listDecisionVotes(record.decision_id);
+        return { ...record, votes, approval_progress: getApprovalProgress(record, votes) };
+      });
+      return reply.send({ decisions });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to load decisions" });
+    }
+  });
+
+  /**
+   * Approval notification delivery log.
+   * GET /ops/api/approval-notifications
+   */
+  app.get("/ops/api/approval-notifications", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+        decision_id: z.string().optional(),
+        status: z.enum(["pending", "delivered", "failed", "cancelled"]).optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      });
+
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (parsed.data.workspace_id && !canAccessWorkspace(context, parsed.data.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      const notifications = listApprovalNotifications({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        decisionId: parsed.data.decision_id,
+        status: parsed.data.status,
+        limit: parsed.data.limit,
+      });
+      return reply.send({ notifications });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      return reply.status(500).send({ error: "Failed to load approval notifications" });
+    }
+  });
+
+  app.post("/ops/api/decisions/reconcile", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "decision:resolve");
+
+      const BodySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+      });
+      const parsedBody = BodySchema.safeParse(request.body);
+      if (!parsedBody.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsedBody.error.flatten() });
+      }
+
+      const tenantId = parsedBody.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (parsedBody.data.workspace_id && !canAccessWorkspace(context, parsedBody.data.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      const reconcileResult = await reconcilePendingDecisionsForAllowPolicies({
+        tenantId,
+        workspaceId: parsedBody.data.workspace_id,
+        userId: context.userId,
+        opsContext: context,
+        requestLog: request.log,
+        reason: "policy_exception_refresh_scan",
+      });
+
+      return reply.send({
+        checked_count: reconcileResult.checkedCount,
+        resolved_count: reconcileResult.resolvedCount,
+        resolved_decision_ids: reconcileResult.resolvedDecisionIds,
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to reconcile pending decisions";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  /**
+   * Break-glass sessions: time-boxed emergency overrides with post-incident review.
+   */
+  app.get("/ops/api/break-glass", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        workspace_id: z.string().optional(),
+        status: z.enum(["active", "unreviewed", "all"]).optional(),
+      });
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (!canAccessWorkspace(context, parsed.data.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      const sessions = listBreakGlassSessions({
+        tenantId,
+        workspaceId: parsed.data.workspace_id,
+        status: parsed.data.status,
+      });
+      return reply.send({ sessions, status: getBreakGlassStatus(tenantId, parsed.data.workspace_id) });
+    } catch (error) {
+      if (error instanceof BreakGlassError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list break-glass sessions";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/break-glass", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "break_glass:manage");
+
+      const BodySchema = BreakGlassActivationSchema.extend({ tenant_id: z.string().optional() });
+      const parsed = BodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const { tenant_id, ...activation } = parsed.data;
+      const tenantId = tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (!canAccessWorkspace(context, activation.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      const session = activateBreakGlass({
+        tenantId,
+        activation,
+        activatedBy: context.userId || "local_operator",
+      });
+      return reply.status(201).send({ session });
+    } catch (error) {
+      if (error instanceof BreakGlassError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to activate break-glass session";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/break-glass/:sessionId/end", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "break_glass:manage");
+
+      const sessionId = (request.params as { sessionId: string }).sessionId;
+      const existing = getBreakGlassSession(sessionId);
+      if (existing && !canAccessTenant(context, existing.tenant_id)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const session = endBreakGlass({ sessionId, endedBy: context.userId || "local_operator" });
+      return reply.send({ session });
+    } catch (error) {
+      if (error instanceof BreakGlassError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to end break-glass session";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/break-glass/:sessionId/review", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "break_glass:manage");
+
+      const parsed = BreakGlassReviewSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const sessionId = (request.params as { sessionId: string }).sessionId;
+      const existing = getBreakGlassSession(sessionId);
+      if (existing && !canAccessTenant(context, existing.tenant_id)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      const session = signOffBreakGlassReview({
+        sessionId,
+        reviewedBy: context.userId || "local_operator",
+        notes: parsed.data.notes,
+        // Identities are only trustworthy once per-user keys or OIDC exist.
+        independentReview: Boolean(config.oidcIssuer) || hasActiveOpsUsers(),
+      });
+      return reply.send({ session });
+    } catch (error) {
+      if (error instanceof BreakGlassError) {
+        const status = error.code === "not_found" ? 404 : error.code === "self_review" ? 403 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to sign off break-glass review";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  /**
+   * Freezes (kill switch): deny every matching execution before policy evaluation.
+   */
+  app.get("/ops/api/freezes", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "audit:view");
+
+      const QuerySchema = z.object({
+        tenant_id: z.string().optional(),
+        status: z.enum(["active", "all"]).optional(),
+      });
+      const parsed = QuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
+      }
+
+      const tenantId = parsed.data.tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+
+      return reply.send({ freezes: listFreezes({ tenantId, status: parsed.data.status }) });
+    } catch (error) {
+      if (error instanceof FreezeError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to list freezes";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/freezes", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "freeze:manage");
+
+      const BodySchema = FreezeCreateSchema.extend({ tenant_id: z.string().optional() });
+      const parsed = BodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: "Invalid payload", details: parsed.error.flatten() });
+      }
+
+      const { tenant_id, ...freeze } = parsed.data;
+      // A global freeze stops every tenant, so only admins may set one.
+      if (freeze.global) requireRole(context, "admin");
+      const tenantId = tenant_id || context.tenantId;
+      if (!canAccessTenant(context, tenantId)) {
+        return reply.status(403).send({ error: "Tenant access denied" });
+      }
+      if (!canAccessWorkspace(context, freeze.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
+
+      const created = createFreeze({ tenantId, freeze, createdBy: context.userId || "local_operator" });
+      return reply.status(201).send({ freeze: created });
+    } catch (error) {
+      if (error instanceof FreezeError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof PermissionError) {
+        return reply.status(403).send({
+          error: error.message,
+          code: "permission_denied",
+          permission: error.permission,
+          required_roles: error.requiredRoles
+        });
+      }
+      if (error instanceof OpsAuthError) {
+        const status =
+          error.code === "missing_token" ? 401 :
+          error.code === "config_error" ? 500 :
+          403;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
+      const message = error instanceof Error ? error.message : "Failed to create freeze";
+      return reply.status(500).send({ error: message });
+    }
+  });
+
+  app.post("/ops/api/freezes/:freezeId/lift", async (request, reply) => {
+    try {
+      const context = await requireOpsContextFromHeaders(request.headers);
+      requirePermission(context, "freeze:manage");
+
+      const freezeId = (request.params as { freezeId: string }).freezeId;
+      const existing = getFreeze(freezeId);
+      if (existing) {
+        if (existing.tenant_id === null) requireRole(context, "admin");
+        else if (!canAccessTenant(context, existing.tenant_id)) {
+          return reply.status(403).send({ error: "Tenant access denied" });
+        }
+      }
+
+      const freeze = liftFreeze({ freezeId, tenantId: context.tenantId, liftedBy: context.userId || "local_operator" });
+      return reply.send({ freeze });
     } catch (error) {
+      if (error instanceof FreezeError) {
+        const status = error.code === "not_found" ? 404 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
       if (error instanceof PermissionError) {
         return reply.status(403).send({
           error: error.message,
@@ -3176,67 +5356,24 @@ export function buildApp() {
           403;
         return reply.status(status).send({ error: error.message, code: error.code });
       }
-      return reply.status(500).send({ error: "Failed to delete policy" });
+      const message = error instanceof Error ? error.message : "Failed to lift freeze";
+      return reply.status(500).send({ error: message });
     }
   });
 
   /**
-   * Decision polling + resolution.
+   * Standing approval grants ("approve similar") issued on approved decisions.
    */
-  app.get("/api/decisions/:decisionId", async (request, reply) => {
-    try {
-      const adapterContext = await requireAdapterContextFromHeaders(request.headers);
-      const decision = getDecision((request.params as { decisionId: string }).decisionId);
-      if (!decision) {
-        return reply.status(404).send({ error: "Decision not found" });
-      }
-
-      if (
-        decision.tenant_id !== adapterContext.tenantId ||
-        decision.workspace_id !== adapterContext.workspaceId ||
-        decision.adapter_id !== adapterContext.adapterId
-      ) {
-        return reply.status(403).send({ error: "Decision scope mismatch" });
-      }
-
-      return reply.send({
-        decision_id: decision.decision_id,
-        status: decision.status,
-        required_role: decision.required_role,
-        expires_at: decision.expires_at,
-        decision_token: null,
-        granted_scope: decision.granted_scope,
-        resolution: decision.resolution,
-        decision_token_used_at: null,
-      });
-    } catch (error) {
-      if (error instanceof AdapterAuthError) {
-        const status = error.code === "missing_token" ? 401 : error.code === "config_error" ? 500 : 403;
-        return reply.status(status).send({ error: error.message, code: error.code });
-      }
-      const message = error instanceof Error ? error.message : "Decision lookup failed";
-      return reply.status(500).send({ error: message });
-    }
-  });
-
-  app.post("/api/decisions/:decisionId/consume", async (_request, reply) => {
-    return reply.status(501).send({
-      error: "Decision token consumption is Cloud-only. Use Clasper Cloud for approval tokens.",
-    });
-  });
-
-  app.get("/ops/api/decisions", async (request, reply) => {
+  app.get("/ops/api/approval-grants", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
-      requirePermission(context, "decision:resolve");
+      requirePermission(context, "audit:view");
 
       const QuerySchema = z.object({
         tenant_id: z.string().optional(),
         workspace_id: z.string().optional(),
-        status: z.enum(["pending", "approved", "denied", "expired"]).optional(),
-        limit: z.coerce.number().int().min(1).max(500).optional(),
+        include_inactive: z.enum(["true", "false"]).optional(),
       });
-
       const parsed = QuerySchema.safeParse(request.query);
       if (!parsed.success) {
         return reply.status(400).send({ error: "Invalid query", details: parsed.error.flatten() });
@@ -3246,16 +5383,16 @@ export function buildApp() {
       if (!canAccessTenant(context, tenantId)) {
         return reply.status(403).send({ error: "Tenant access denied" });
       }
+      if (parsed.data.workspace_id && !canAccessWorkspace(context, parsed.data.workspace_id)) {
+        return reply.status(403).send({ error: "Workspace access denied" });
+      }
 
-      const status = parsed.data.status || "pending";
-      const records = listDecisions({
+      const grants = listApprovalGrants({
         tenantId,
         workspaceId: parsed.data.workspace_id,
-        status,
-        limit: parsed.data.limit,
+        includeInactive: parsed.data.include_inactive === "true",
       });
-
-      return reply.send({ decisions: records });
+      return reply.send({ grants });
     } catch (error) {
       if (error instanceof PermissionError) {
         return reply.status(403).send({
@@ -3272,46 +5409,29 @@ export function buildApp() {
           403;
         return reply.status(status).send({ error: error.message, code: error.code });
       }
-      return reply.status(500).send({ error: "Failed to load decisions" });
+      const message = error instanceof Error ? error.message : "Failed to list approval grants";
+      return reply.status(500).send({ error: message });
     }
   });
 
-  app.post("/ops/api/decisions/reconcile", async (request, reply) => {
+  app.post("/ops/api/approval-grants/:decisionId/revoke", async (request, reply) => {
     try {
       const context = await requireOpsContextFromHeaders(request.headers);
       requirePermission(context, "decision:resolve");
 
-      const BodySchema = z.object({
-        tenant_id: z.string().optional(),
-        workspace_id: z.string().optional(),
-      });
-      const parsedBody = BodySchema.safeParse(request.body);
-      if (!parsedBody.success) {
-        return reply.status(400).send({ error: "Invalid payload", details: parsedBody.error.flatten() });
-      }
-
-      const tenantId = parsedBody.data.tenant_id || context.tenantId;
-      if (!canAccessTenant(context, tenantId)) {
+      const decisionId = (request.params as { decisionId: string }).decisionId;
+      const record = getDecision(decisionId);
+      if (!record) return reply.status(404).send({ error: "Approval grant not found" });
+      if (!canAccessTenant(context, record.tenant_id)) {
         return reply.status(403).send({ error: "Tenant access denied" });
       }
-      if (parsedBody.data.workspace_id && !canAccessWorkspace(context, parsedBody.data.workspace_id)) {
+      if (!canAccessWorkspace(context, record.workspace_id)) {
         return reply.status(403).send({ error: "Workspace access denied" });
       }
 
-      const reconcileResult = await reconcilePendingDecisionsForAllowPolicies({
-        tenantId,
-        workspaceId: parsedBody.data.workspace_id,
-        userId: context.userId,
-        opsContext: context,
-        requestLog: request.log,
-        reason: "policy_exception_refresh_scan",
-      });
-
-      return reply.send({
-        checked_count: reconcileResult.checkedCount,
-        resolved_count: reconcileResult.resolvedCount,
-        resolved_decision_ids: reconcileResult.resolvedDecisionIds,
-      });
+      const grant = revokeApprovalGrant({ decisionId, revokedBy: context.userId || "local_operator" });
+      if (!grant) return reply.status(404).send({ error: "Approval grant not found" });
+      return reply.send({ grant });
     } catch (error) {
       if (error instanceof PermissionError) {
         return reply.status(403).send({
@@ -3328,13 +5448,101 @@ export function buildApp() {
           403;
         return reply.status(status).send({ error: error.message, code: error.code });
       }
-      const message = error instanceof Error ? error.message : "Failed to reconcile pending decisions";
+      const message = error instanceof Error ? error.message : "Failed to revoke approval grant";
       return reply.status(500).send({ error: message });
     }
   });
 
   /**
-   * Resolve a decision locally (OSS/self-attested).
+   * Side effects once a vote resolved a decision: the tool authorization record,
+   * the `policy_decision_resolved` audit entry and the best-effort callback_url notify.
+   */
+  const completeDecisionResolution = async (params: {
+    record: DecisionRecord;
+    updated: DecisionRecord;
+    votes: DecisionVote[];
+    status: "approved" | "denied";
+    approverId: string;
+    grant: ApprovalGrantRecord | null;
+    /** How the deciding vote was cast (omitted: Ops Console). */
+    via?: "link" | "cli";
+    trustLevel?: "authenticated" | "self_attested";
+    log: { warn: (obj: Record<string, unknown>) => void };
+  }) => {
+    const { record, updated, grant } = params;
+    const req = (record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined;
+    const toolFromDecision = typeof req?.tool === "string" ? req.tool : Array.isArray(req?.requested_capabilities) ? req.requested_capabilities[0] : undefined;
+    if (typeof toolFromDecision === "string") {
+      try {
+        recordToolAuthorization({
+          tenant_id: updated.tenant_id,
+          adapter_id: updated.adapter_id,
+          execution_id: updated.execution_id,
+          tool: toolFromDecision,
+          tool_group: typeof req?.tool_group === "string" ? req.tool_group : null,
+          decision: params.status === "approved" ? "allow" : "deny",
+          policy_id: null,
+          reason: params.status === "denied" ? "approval_denied" : null,
+          granted_scope: params.status === "approved" ? (updated.granted_scope ?? undefined) : undefined,
+        });
+      } catch (_) {
+        // non-fatal
+      }
+    }
+
+    auditLog("policy_decision_resolved", {
+      tenantId: updated.tenant_id,
+      workspaceId: updated.workspace_id,
+      userId: params.approverId,
+      eventData: {
+        decision_id: updated.decision_id,
+        execution_id: updated.execution_id,
+        adapter_id: updated.adapter_id,
+        status: updated.status,
+        approved_by: params.approverId,
+        approvers: params.votes.filter((v) => v.vote === "approve").map((v) => v.approver_id),
+        approval_grant: grant
+          ? {
+              tool: grant.tool,
+              session_id: grant.session_id,
+              fingerprint: grant.fingerprint,
+              max_uses: grant.max_uses,
+              expires_at: grant.expires_at,
+            }
+          : null,
+        tool:
+          ((record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined)
+            ?.tool || null,
+        targets:
+          ((((record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined)
+            ?.context as Record<string, unknown> | undefined)?.targets as string[] | undefined) || [],
+        approval_type: "local",
+        trust_level: params.trustLevel ?? "self_attested",
+        cloud_authority: false,
+        resolved_via: params.via ?? "ops_console",
+      },
+    });
+
+    // Optional best-effort notification
+    if (updated.callback_url) {
+      try {
+        await fetch(updated.callback_url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            decision_id: updated.decision_id,
+            status: updated.status,
+            execution_id: updated.execution_id,
+          }),
+        });
+      } catch (e) {
+        params.log.warn({ msg: "decision callback_url notify failed", decision_id: updated.decision_id, error: String(e) });
+      }
+    }
+  };
+
+  /**
+   * Resolve a decision locally (a vote from the Ops console or CLI).
    * Cloud-only trusted authority remains out of scope.
    */
   app.post("/ops/api/decisions/:decisionId/resolve", async (request, reply) => {
@@ -3342,11 +5550,18 @@ export function buildApp() {
       const context = await requireOpsContextFromHeaders(request.headers);
       requirePermission(context, "decision:resolve");
 
-      const BodySchema = z.object({
-        status: z.enum(["approved", "denied"]),
-        note: z.string().max(2000).optional(),
-        justification: z.string().max(2000).optional(),
-      });
+      const BodySchema = z
+        .object({
+          status: z.enum(["approved", "denied"]),
+          note: z.string().max(2000).optional(),
+          justification: z.string().max(2000).optional(),
+          /** "Approve similar": standing grant applied once the decision is approved. */
+          grant: ApprovalGrantOptionsSchema.optional(),
+        })
+        .refine((body) => !body.grant || body.status === "approved", {
+          message: "grant only applies to approvals",
+          path: ["grant"],
+        });
 
       const parsedBody = BodySchema.safeParse(request.body);
       if (!parsedBody.success) {
@@ -3368,84 +5583,66 @@ export function buildApp() {
         return reply.status(409).send({ error: "Decision already resolved", status: record.status });
       }
 
-      const resolution = {
-        approval_type: "local",
-        trust_level: "self_attested",
-        approved_by: context.userId || "local_operator",
-        cloud_authority: false,
-        note: parsedBody.data.note || null,
-        justification: parsedBody.data.justification || null,
-        resolved_at: new Date().toISOString(),
-      };
-
-      const updated = resolveDecision({
+      const approverId = context.userId || "local_operator";
+      // Validate the grant scope up front so a bad grant doesn't record a vote.
+      const approvalGrant = parsedBody.data.grant
+        ? buildApprovalGrant(record, parsedBody.data.grant, approverId)
+        : null;
+      const voteResult = castDecisionVote({
         decisionId,
-        status: parsedBody.data.status,
-        resolution,
-      });
-      if (!updated) return reply.status(500).send({ error: "Failed to resolve decision" });
-
-      const req = (record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined;
-      const toolFromDecision = typeof req?.tool === "string" ? req.tool : Array.isArray(req?.requested_capabilities) ? req.requested_capabilities[0] : undefined;
-      if (typeof toolFromDecision === "string") {
-        try {
-          recordToolAuthorization({
-            tenant_id: updated.tenant_id,
-            adapter_id: updated.adapter_id,
-            execution_id: updated.execution_id,
-            tool: toolFromDecision,
-            tool_group: typeof req?.tool_group === "string" ? req.tool_group : null,
-            decision: parsedBody.data.status === "approved" ? "allow" : "deny",
-            policy_id: null,
-            reason: parsedBody.data.status === "denied" ? "approval_denied" : null,
-            granted_scope: parsedBody.data.status === "approved" ? (updated.granted_scope ?? undefined) : undefined,
-          });
-        } catch (_) {
-          // non-fatal
-        }
-      }
-
-      auditLog("policy_decision_resolved", {
-        tenantId: updated.tenant_id,
-        workspaceId: updated.workspace_id,
-        userId: context.userId,
-        eventData: {
-          decision_id: updated.decision_id,
-          execution_id: updated.execution_id,
-          adapter_id: updated.adapter_id,
-          status: updated.status,
-          approved_by: context.userId || "local_operator",
-          tool:
-            ((record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined)
-              ?.tool || null,
-          targets:
-            ((((record.request_snapshot as Record<string, unknown> | null)?.request as Record<string, unknown> | undefined)
-              ?.context as Record<string, unknown> | undefined)?.targets as string[] | undefined) || [],
+        approverId,
+        approverRoles: context.roles,
+        trustLevel: getApprovalTrustLevel(context),
+        vote: parsedBody.data.status === "approved" ? "approve" : "deny",
+        note: parsedBody.data.note,
+        justification: parsedBody.data.justification,
+        resolution: {
           approval_type: "local",
-          trust_level: "self_attested",
+          trust_level: getApprovalTrustLevel(context),
+          approved_by: approverId,
           cloud_authority: false,
+          note: parsedBody.data.note || null,
+          justification: parsedBody.data.justification || null,
+          resolved_at: new Date().toISOString(),
         },
       });
-
-      // Optional best-effort notification
-      if (updated.callback_url) {
-        try {
-          await fetch(updated.callback_url, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              decision_id: updated.decision_id,
-              status: updated.status,
-              execution_id: updated.execution_id,
-            }),
-          });
-        } catch (e) {
-          request.log.warn({ msg: "decision callback_url notify failed", decision_id: updated.decision_id, error: String(e) });
-        }
+      if (!voteResult) return reply.status(404).send({ error: "Decision not found" });
+      if (!voteResult.resolved) {
+        // Quorum not reached yet: the vote is recorded, the decision stays pending.
+        return reply.send({
+          decision: { ...voteResult.decision, votes: voteResult.votes, approval_progress: voteResult.progress },
+          vote: voteResult.vote,
+        });
       }
+      let updated = voteResult.decision;
+      const grant =
+        approvalGrant && updated.status === "approved" ? attachApprovalGrant(updated, approvalGrant) : null;
+      if (grant) updated = getDecision(updated.decision_id) ?? updated;
+
+      await completeDecisionResolution({
+        record,
+        updated,
+        votes: voteResult.votes,
+        status: parsedBody.data.status,
+        approverId,
+        grant,
+        trustLevel: getApprovalTrustLevel(context),
+        log: request.log,
+      });
 
-      return reply.send({ decision: updated });
+      return reply.send({
+        decision: { ...updated, votes: voteResult.votes, approval_progress: voteResult.progress },
+        vote: voteResult.vote,
+        grant,
+      });
     } catch (error) {
+      if (error instanceof ApprovalGrantError) {
+        return reply.status(400).send({ error: error.message, code: error.code });
+      }
+      if (error instanceof ApprovalVoteError) {
+        const status = ["unauthenticated", "self_approval", "role_not_allowed"].includes(error.code) ? 403 : 409;
+        return reply.status(status).send({ error: error.message, code: error.code });
+      }
       if (error instanceof PermissionError) {
         return reply.status(403).send({
           error: error.message,
@@ -3466,6 +5663,240 @@ export function buildApp() {
     }
   });
 
+  // ============================================================================
+  // Signed approval links (from approval notifications)
+  // ============================================================================
+
+  const approvalActionDetails = (
+    record: DecisionRecord,
+    claims: ApprovalActionClaims
+  ): Array<[string, string | null | undefined]> => {
+    const snapshot = (record.request_snapshot ?? {}) as Record<string, unknown>;
+    const req = (snapshot.request ?? {}) as Record<string, unknown>;
+    const evaluated = (snapshot.decision ?? {}) as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === "string" ? value : null);
+    return [
+      ["Tool", text(req.tool)],
+      ["Agent", text(req.agent_id)],
+      ["Workspace", record.workspace_id],
+      ["Risk", text(evaluated.risk_level)],
+      ["Intent", text(req.intent)],
+      ["Expires", record.expires_at ? new Date(record.expires_at).toUTCString() : null],
+      ["Approver", claims.approver_id],
+    ];
+  };
+
+  /** HTTP status, code and message for a failed approval link. */
+  const approvalActionFailure = (error: unknown): { status: number; code: string; message: string } => {
+    if (error instanceof ApprovalActionError) {
+      if (error.code === "expired") return { status: 410, code: error.code, message: "This approval link has expired." };
+      if (error.code === "config_error") return { status: 500, code: error.code, message: error.message };
+      if (error.code === "not_approver") return { status: 403, code: error.code, message: error.message };
+      return { status: 400, code: error.code, message: "This approval link is not valid." };
+    }
+    if (error instanceof ApprovalVoteError) {
+      const status = ["unauthenticated", "self_approval", "role_not_allowed"].includes(error.code) ? 403 : 409;
+      return { status, code: error.code, message: error.message };
+    }
+    return { status: 500, code: "internal_error", message: error instanceof Error ? error.message : "Approval failed" };
+  };
+
+  /**
+   * Cast the vote carried by a signed approval link as the approver named in it,
+   * with the roles resolved for them now. The vote counts as authenticated: only
+   * the server can sign links, and each is sent to its approver alone. Returns
+   * null when the decision no longer exists.
+   */
+  const resolveApprovalAction = async (params: {
+    token: string;
+    reason?: string;
+    via: "link" | "cli";
+    log: { warn: (obj: Record<string, unknown>) => void };
+  }) => {
+    const claims = await verifyApprovalAction(params.token);
+    const record = getDecision(claims.decision_id);
+    if (!record || record.tenant_id !== claims.tenant_id) return null;
+
+    const approver = resolveApprovalActionApprover(
+      claims,
+      loadApprovalRouting(config.approvalRoutingPath),
+      getOpsUser(claims.approver_id)
+    );
+    const reason = claims.action === "deny" ? params.reason?.trim().slice(0, 2000) || null : null;
+    const voteResult = castDecisionVote({
+      decisionId: record.decision_id,
+      approverId: claims.approver_id,
+      approverRoles: approver.roles,
+      trustLevel: "authenticated",
+      vote: claims.action,
+      note: `Resolved via approval ${params.via}`,
+      justification: reason,
+      resolution: {
+        approval_type: "local",
+        trust_level: "authenticated",
+        approved_by: claims.approver_id,
+        cloud_authority: false,
+        note: `Resolved via approval ${params.via}`,
+        justification: reason,
+        resolved_at: new Date().toISOString(),
+      },
+    });
+    if (!voteResult) return null;
+
+    logApprovalActionUsed({
+      tenantId: record.tenant_id,
+      workspaceId: record.workspace_id,
+      userId: claims.approver_id,
+      decisionId: record.decision_id,
+      executionId: record.execution_id,
+      action: claims.action,
+      jti: claims.jti,
+      via: params.via,
+      status: voteResult.decision.status,
+      reason,
+    });
+    if (voteResult.resolved) {
+      await completeDecisionResolution({
+        record,
+        updated: voteResult.decision,
+        votes: voteResult.votes,
+        status: claims.action === "approve" ? "approved" : "denied",
+        approverId: claims.approver_id,
+        grant: null,
+        trustLevel: "authenticated",
+        via: params.via,
+        log: params.log,
+      });
+    }
+    return { claims, record, voteResult };
+  };
+
+  // The confirmation page posts a plain HTML form; only these routes parse form bodies.
+  app.register(async (actions) => {
+    actions.addContentTypeParser("application/x-www-form-urlencoded", { parseAs: "string" }, (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(String(body))));
+    });
+
+    /**
+     * Approval link confirmation page (no side effects, so link scanners cannot vote).
+     * GET /ops/actions/:token
+     */
+    actions.get("/ops/actions/:token", async (request, reply) => {
+      const { token } = request.params as { token: string };
+      const reasonRequired = (request.query as { reason?: string }).reason === "1";
+      try {
+        const claims = await verifyApprovalAction(token);
+        const record = getDecision(claims.decision_id);
+        if (!record || record.tenant_id !== claims.tenant_id) {
+          return reply
+            .status(404)
+            .type("text/html")
+            .send(renderApprovalActionPage({ title: "Request not found", message: "This approval request no longer exists." }));
+        }
+        if (record.status !== "pending") {
+          return reply.type("text/html").send(
+            renderApprovalActionPage({
+              title: "Already resolved",
+              message: `This request is already ${record.status}.`,
+              details: approvalActionDetails(record, claims),
+            })
+          );
+        }
+        return reply.type("text/html").send(
+          renderApprovalActionPage({
+            title: claims.action === "approve" ? "Approve this request?" : "Deny this request?",
+            details: approvalActionDetails(record, claims),
+            form: { action: claims.action, reasonRequired: claims.action === "deny" && reasonRequired },
+          })
+        );
+      } catch (error) {
+        const failure = approvalActionFailure(error);
+        return reply
+          .status(failure.status)
+          .type("text/html")
+          .send(renderApprovalActionPage({ title: "Approval link unavailable", message: failure.message }));
+      }
+    });
+
+    /**
+     * Approval link submit (from the confirmation page form).
+     * POST /ops/actions/:token
+     */
+    actions.post("/ops/actions/:token", async (request, reply) => {
+      const { token } = request.params as { token: string };
+      const body = (request.body ?? {}) as { reason?: unknown };
+      try {
+        const result = await resolveApprovalAction({
+          token,
+          reason: typeof body.reason === "string" ? body.reason : undefined,
+          via: "link",
+          log: request.log,
+        });
+        if (!result) {
+          return reply
+            .status(404)
+            .type("text/html")
+            .send(renderApprovalActionPage({ title: "Request not found", message: "This approval request no longer exists." }));
+        }
+        const { claims, record, voteResult } = result;
+        const progress = voteResult.progress;
+        return reply.type("text/html").send(
+          renderApprovalActionPage({
+            title: voteResult.resolved
+              ? `Request ${voteResult.decision.status}`
+              : `Approval recorded (${progress.approvals}/${progress.quorum})`,
+            message: voteResult.resolved
+              ? "Thanks, the agent has been notified."
+              : `${progress.remaining} more approval(s) needed before the request is approved.`,
+            details: approvalActionDetails(record, claims),
+          })
+        );
+      } catch (error) {
+        const failure = approvalActionFailure(error);
+        return reply
+          .status(failure.status)
+          .type("text/html")
+          .send(renderApprovalActionPage({ title: "Could not record your decision", message: failure.message }));
+      }
+    });
+  });
+
+  /**
+   * Approval link submit as JSON (used by `clasper decisions resolve --token`).
+   * POST /api/approval-actions
+   */
+  app.post("/api/approval-actions", async (request, reply) => {
+    const BodySchema = z.object({
+      token: z.string().min(1),
+      reason: z.string().max(2000).optional(),
+    });
+    const parsedBody = BodySchema.safeParse(request.body);
+    if (!parsedBody.success) {
+      return reply.status(400).send({ error: "Invalid payload", details: parsedBody.error.flatten() });
+    }
+
+    try {
+      const result = await resolveApprovalAction({
+        token: parsedBody.data.token,
+        reason: parsedBody.data.reason,
+        via: "cli",
+        log: request.log,
+      });
+      if (!result) return reply.status(404).send({ error: "Decision not found" });
+      const { claims, voteResult } = result;
+      return reply.send({
+        decision_id: voteResult.decision.decision_id,
+        status: voteResult.decision.status,
+        action: claims.action,
+        approver_id: claims.approver_id,
+        resolved: voteResult.resolved,
+        approval_progress: voteResult.progress,
+      });
+    } catch (error) {
+      const failure = approvalActionFailure(error);
+      return reply.status(failure.status).send({ error: failure.message, code: failure.code });
+    }
+  });
 
   /**
    * Adapter registration endpoint.
@@ -5654,8 +8085,55 @@ export function buildApp() {
   return app;
 }
 
+/**
+ * Policy files (GitOps): apply at startup, then re-apply on change. Runs from
+ * the server entrypoint so apps built in tests never sync or watch the path.
+ */
+function startPolicyFileSync(app: ReturnType<typeof buildApp>): void {
+  if (existsSync(config.policyPath)) {
+    const summarizePlan = (plan: PolicyPlan) => ({
+      created: plan.creates.length,
+      updated: plan.updates.length,
+      deleted: plan.deletes.length,
+      unchanged: plan.unchanged.length,
+    });
+    const logPolicyFileError = (err: unknown) => {
+      if (err instanceof PolicyFileError) {
+        app.log.error({ issues: err.issues.map(formatPolicyFileIssue) }, "Policy files rejected; store unchanged");
+      } else {
+        app.log.error({ err }, "Failed to apply policy files");
+      }
+    };
+    try {
+      const plan = syncPolicyFiles({
+        path: config.policyPath,
+        tenantId: config.localTenantId,
+        author: "policy-files",
+      });
+      app.log.info({ path: config.policyPath, ...summarizePlan(plan) }, "Policy files applied");
+    } catch (err) {
+      logPolicyFileError(err);
+    }
+    if (config.policyWatchEnabled) {
+      const stopWatching = watchPolicyFiles({
+        path: config.policyPath,
+        tenantId: config.localTenantId,
+        author: "policy-files",
+        onSync: (plan) => {
+          if (hasPolicyPlanChanges(plan)) {
+            app.log.info({ path: config.policyPath, ...summarizePlan(plan) }, "Policy files re-applied");
+          }
+        },
+        onError: logPolicyFileError,
+      });
+      app.addHook("onClose", async () => stopWatching());
+    }
+  }
+}
+
 if (process.env.CLASPER_TEST_MODE !== "true") {
   const app = buildApp();
+  startPolicyFileSync(app);
   app.listen({ port: config.port, host: "0.0.0.0" }).catch((err) => {
     app.log.error(err);
     process.exit(1);